@@ -4,11 +4,19 @@
  * Phase 1: Skeleton app with navigation structure and theme ✅
  * Phase 2: AuthContext added to provide authentication state ✅
  * Phase 4: TaskContext added to provide task management state ✅
+ * Categories: CategoryContext provides user-defined categories ✅
+ * Lists: ListContext provides task lists (projects) and the active list ✅
+ * Views: ViewContext provides saved filter views ✅
  * 
  * Architecture:
  * - SafeAreaProvider: Ensures content respects device notches and system UI
  * - AuthProvider: Wraps app to provide authentication state and operations
- * - TaskProvider: Provides task state and CRUD operations (nested inside AuthProvider)
+ * - ListProvider: Provides task lists and the active list (nested inside AuthProvider)
+ * - TaskProvider: Provides task state and CRUD operations (nested inside ListProvider),
+ *   backed by the TaskRepository passed in (Firestore by default); schedules
+ *   task reminders through the NotificationAdapter passed in (Notifee)
+ * - CategoryProvider: Provides the user's categories (nested inside AuthProvider)
+ * - ViewProvider: Provides the user's saved views (nested inside AuthProvider)
  * - RootNavigator: Handles navigation between Auth and App stacks based on auth state
  */
 
@@ -16,21 +24,43 @@ import React from 'react';
 import { StatusBar } from 'react-native';
 import { SafeAreaProvider } from 'react-native-safe-area-context';
 import { AuthProvider } from './src/context/AuthContext';
+import { ListProvider } from './src/context/ListContext';
 import { TaskProvider } from './src/context/TaskContext';
+import { CategoryProvider } from './src/context/CategoryContext';
+import { ViewProvider } from './src/context/ViewContext';
+import { firestoreTaskRepository } from './src/api/firestoreTaskRepository';
+import { notifeeNotificationAdapter } from './src/api/notifeeNotificationAdapter';
 import RootNavigator from './src/navigation/RootNavigator';
 import { COLORS } from './src/theme';
 
+/**
+ * Task storage backend
+ * 
+ * Use createLocalTaskRepository({ storage: AsyncStorage }) from
+ * src/api/localTaskRepository for a local-only build without cloud sync.
+ */
+const taskRepository = firestoreTaskRepository;
+
+/**
+ * Local notification backend for task reminders
+ */
+const notificationAdapter = notifeeNotificationAdapter;
+
 /**
  * Main App Component
  * 
  * Context hierarchy:
  * 1. SafeAreaProvider (handles device safe areas)
  * 2. AuthProvider (authentication state - Phase 2) ✅
- * 3. TaskProvider (task management state - Phase 4) ✅
- * 4. RootNavigator (navigation logic)
+ * 3. ListProvider (task lists / projects) ✅
+ * 4. TaskProvider (task management state - Phase 4) ✅
+ * 5. CategoryProvider (user-defined categories) ✅
+ * 6. ViewProvider (saved filter views) ✅
+ * 7. RootNavigator (navigation logic)
  * 
  * TaskProvider is nested inside AuthProvider because tasks require
  * an authenticated user. The TaskContext accesses user.uid from AuthContext.
+ * It is nested inside ListProvider because it only subscribes to the active list.
  */
 function App(): React.JSX.Element {
   return (
@@ -43,10 +73,19 @@ function App(): React.JSX.Element {
       
       {/* Authentication context - provides login, register, logout, user state */}
       <AuthProvider>
-        {/* Task management context - provides tasks, CRUD operations, real-time sync */}
-        <TaskProvider>
-          <RootNavigator />
-        </TaskProvider>
+        {/* Task lists (projects) - the task subscription follows the active list */}
+        <ListProvider repository={taskRepository}>
+          {/* Task management context - provides tasks, CRUD operations, real-time sync */}
+          <TaskProvider repository={taskRepository} notifications={notificationAdapter}>
+            {/* User-defined categories - names, colors and icons for task badges */}
+            <CategoryProvider>
+              {/* Saved views - named filter queries shown as task list tabs */}
+              <ViewProvider>
+                <RootNavigator />
+              </ViewProvider>
+            </CategoryProvider>
+          </TaskProvider>
+        </ListProvider>
       </AuthProvider>
     </SafeAreaProvider>
   );
@@ -0,0 +1,494 @@
+/**
+ * @format
+ */
+
+import React from 'react';
+import ReactTestRenderer from 'react-test-renderer';
+import AsyncStorage from '@react-native-async-storage/async-storage';
+import { TaskProvider, useTasks } from '../src/context/TaskContext';
+import { useLists } from '../src/context/ListContext';
+import { createLocalTaskRepository } from '../src/api/localTaskRepository';
+import { TaskRepository } from '../src/api/taskRepository';
+import { NotificationAdapter } from '../src/api/notificationAdapter';
+import { createFakeNotificationAdapter } from '../src/api/fakeNotificationAdapter';
+import { CreateTaskPayload, Priority } from '../src/types';
+import { createRecurrenceRule } from '../src/utils/recurrenceUtils';
+import { getInitialManualOrder } from '../src/utils/orderUtils';
+
+jest.mock('@react-native-async-storage/async-storage', () =>
+  require('@react-native-async-storage/async-storage/jest/async-storage-mock')
+);
+
+// Stable objects, like the real providers' state (a new user each render would re-subscribe)
+jest.mock('../src/context/AuthContext', () => {
+  const auth = { user: { uid: 'u1', displayName: null, email: 'u1@example.com' } };
+  return { useAuth: () => auth };
+});
+
+jest.mock('../src/context/ListContext', () => {
+  const lists = { activeListId: null };
+  return { useLists: () => lists };
+});
+
+const payload = (overrides: Partial<CreateTaskPayload> = {}): CreateTaskPayload => ({
+  title: 'Buy milk',
+  description: '',
+  dateTime: '2026-03-02T09:00:00.000Z',
+  deadline: '2026-03-02T17:00:00.000Z',
+  priority: Priority.MEDIUM,
+  category: 'personal',
+  listId: 'inbox',
+  tags: [],
+  completed: false,
+  subtasks: [],
+  recurrence: null,
+  reminders: [],
+  ...overrides,
+});
+
+const flushPromises = () => new Promise<void>((resolve) => setImmediate(resolve));
+
+let renderer: ReactTestRenderer.ReactTestRenderer | undefined;
+
+/**
+ * Render a TaskProvider and return a getter for its current context value
+ */
+const renderProvider = async (
+  repository: TaskRepository,
+  notifications?: NotificationAdapter
+) => {
+  let context: ReturnType<typeof useTasks> | undefined;
+
+  const Consumer = () => {
+    context = useTasks();
+    return null;
+  };
+
+  await ReactTestRenderer.act(async () => {
+    renderer = ReactTestRenderer.create(
+      <TaskProvider repository={repository} notifications={notifications}>
+        <Consumer />
+      </TaskProvider>
+    );
+  });
+
+  return () => context!;
+};
+
+describe('TaskProvider with the local repository', () => {
+  // The pending-writes queue is persisted per user, so start each test empty
+  afterEach(async () => {
+    await ReactTestRenderer.act(() => renderer?.unmount());
+    await AsyncStorage.clear();
+  });
+
+  test('loads, adds, updates and deletes tasks through the subscription', async () => {
+    const repository = createLocalTaskRepository();
+    const tasks = await renderProvider(repository);
+    expect(tasks().loading).toBe(false);
+    expect(tasks().tasks).toEqual([]);
+
+    await ReactTestRenderer.act(() => tasks().addTask(payload()));
+    expect(tasks().tasks).toHaveLength(1);
+    const [task] = tasks().tasks;
+    expect(task).toMatchObject({ title: 'Buy milk', userId: 'u1' });
+    expect(tasks().pendingWrites).toEqual([]);
+    expect(tasks().getSyncStatus(task.id)).toBe('synced');
+
+    await ReactTestRenderer.act(() => tasks().updateTask(task.id, { title: 'Buy oat milk' }));
+    expect(tasks().tasks[0].title).toBe('Buy oat milk');
+    expect(await repository.get(task.id)).toMatchObject({ title: 'Buy oat milk' });
+
+    await ReactTestRenderer.act(() => tasks().deleteTask(task.id));
+    expect(tasks().tasks).toEqual([]);
+    expect(tasks().trashedTasks.map((t) => t.id)).toEqual([task.id]);
+    expect((await repository.get(task.id))?.deletedAt).not.toBeNull();
+
+    await ReactTestRenderer.act(() => tasks().restoreTask(task.id));
+    expect(tasks().tasks.map((t) => t.id)).toEqual([task.id]);
+    expect(tasks().trashedTasks).toEqual([]);
+
+    await ReactTestRenderer.act(() => tasks().permanentlyDeleteTask(task.id));
+    expect(tasks().tasks).toEqual([]);
+    expect(await repository.get(task.id)).toBeNull();
+  });
+
+  test('applies changes incrementally and keeps unchanged tasks identical', async () => {
+    const repository = createLocalTaskRepository();
+    const tasks = await renderProvider(repository);
+
+    await ReactTestRenderer.act(() => tasks().addTask(payload({ title: 'First' })));
+    await ReactTestRenderer.act(() => tasks().addTask(payload({ title: 'Second' })));
+    const [first, second] = tasks().tasks;
+
+    await ReactTestRenderer.act(() => tasks().updateTask(second.id, { completed: true }));
+    expect(tasks().tasks[0]).toBe(first);
+    expect(tasks().tasks[1]).not.toBe(second);
+    expect(tasks().tasks[1].completed).toBe(true);
+    expect(tasks().snapshotMetadata).toEqual({ hasPendingWrites: false, fromCache: false });
+  });
+
+  test('keeps the status and the completed flag in step', async () => {
+    const repository = createLocalTaskRepository();
+    const tasks = await renderProvider(repository);
+
+    await ReactTestRenderer.act(() => tasks().addTask(payload()));
+    const [task] = tasks().tasks;
+    expect(task.status).toBe('todo');
+
+    await ReactTestRenderer.act(() => tasks().setTaskStatus(task.id, 'in_progress'));
+    expect(tasks().tasks[0]).toMatchObject({ status: 'in_progress', completed: false });
+
+    await ReactTestRenderer.act(() => tasks().setTaskStatus(task.id, 'done'));
+    expect(tasks().tasks[0]).toMatchObject({ status: 'done', completed: true });
+
+    await ReactTestRenderer.act(() => tasks().toggleTaskCompletion(task.id, false));
+    expect(tasks().tasks[0]).toMatchObject({ status: 'todo', completed: false });
+    expect(tasks().history.past.map((entry) => entry.label).slice(1)).toEqual([
+      'Moved "Buy milk" to In Progress',
+      'Moved "Buy milk" to Done',
+      'Reopened "Buy milk"',
+    ]);
+
+    // Work has to start before it can be blocked
+    await expect(tasks().setTaskStatus(task.id, 'blocked')).rejects.toThrow(
+      "To Do tasks can't be moved to Blocked"
+    );
+    expect(tasks().tasks[0].status).toBe('todo');
+  });
+
+  test('keeps the status in step when the edit form completes a task', async () => {
+    const repository = createLocalTaskRepository();
+    const tasks = await renderProvider(repository);
+
+    await ReactTestRenderer.act(() => tasks().addTask(payload()));
+    const [task] = tasks().tasks;
+    await ReactTestRenderer.act(() => tasks().setTaskStatus(task.id, 'in_progress'));
+
+    await ReactTestRenderer.act(() =>
+      tasks().updateTask(task.id, { title: 'Buy oat milk', completed: true })
+    );
+    expect(tasks().tasks[0]).toMatchObject({
+      title: 'Buy oat milk',
+      status: 'done',
+      completed: true,
+    });
+    expect(tasks().history.past.map((entry) => entry.label).slice(-1)).toEqual([
+      'Edited "Buy milk"',
+    ]);
+
+    await ReactTestRenderer.act(() => tasks().updateTask(task.id, { completed: false }));
+    expect(tasks().tasks[0]).toMatchObject({ status: 'todo', completed: false });
+  });
+
+  test('continues a recurring series completed from the edit form', async () => {
+    const repository = createLocalTaskRepository();
+    const tasks = await renderProvider(repository);
+    const recurrence = createRecurrenceRule('daily', new Date('2026-03-02T09:00:00.000Z'));
+
+    await ReactTestRenderer.act(() =>
+      tasks().addTask(
+        payload({ recurrence, subtasks: [{ id: 's1', title: 'Oats', completed: false, order: 0 }] })
+      )
+    );
+    const [task] = tasks().tasks;
+
+    // "All Subtasks Done → Complete" saves the checked list and the flag together
+    await ReactTestRenderer.act(() =>
+      tasks().updateTask(task.id, {
+        subtasks: [{ id: 's1', title: 'Oats', completed: true, order: 0 }],
+        completed: true,
+      })
+    );
+    const [done, next] = tasks().tasks;
+    expect(done).toMatchObject({ completed: true, status: 'done', recurrence: null });
+    expect(next).toMatchObject({ title: 'Buy milk', completed: false, status: 'todo' });
+    expect(next.recurrence?.occurrence).toBe(2);
+    expect(next.subtasks[0].completed).toBe(false);
+  });
+
+  test('unblocks dependents of a task completed from the edit form', async () => {
+    const repository = createLocalTaskRepository();
+    const tasks = await renderProvider(repository);
+
+    await ReactTestRenderer.act(() => tasks().addTask(payload({ title: 'Review' })));
+    await ReactTestRenderer.act(() => tasks().addTask(payload({ title: 'Deploy' })));
+    const [review, deploy] = tasks().tasks;
+    await ReactTestRenderer.act(() => tasks().addPrerequisite(deploy.id, review.id));
+    await ReactTestRenderer.act(() => tasks().setTaskStatus(deploy.id, 'in_progress'));
+    await ReactTestRenderer.act(() => tasks().setTaskStatus(deploy.id, 'blocked'));
+
+    await ReactTestRenderer.act(() => tasks().updateTask(review.id, { completed: true }));
+    expect(tasks().tasks.find((t) => t.id === deploy.id)?.status).toBe('in_progress');
+  });
+
+  test('links tasks without cycles and unblocks dependents', async () => {
+    const repository = createLocalTaskRepository();
+    const tasks = await renderProvider(repository);
+
+    await ReactTestRenderer.act(() => tasks().addTask(payload({ title: 'Write' })));
+    await ReactTestRenderer.act(() => tasks().addTask(payload({ title: 'Review' })));
+    await ReactTestRenderer.act(() => tasks().addTask(payload({ title: 'Deploy' })));
+    const [write, review, deploy] = tasks().tasks;
+    const find = (id: string) => tasks().tasks.find((t) => t.id === id)!;
+
+    await ReactTestRenderer.act(() => tasks().addPrerequisite(review.id, write.id));
+    await ReactTestRenderer.act(() => tasks().addPrerequisite(deploy.id, review.id));
+    expect(find(deploy.id).blockedBy).toEqual([review.id]);
+    await expect(tasks().addPrerequisite(write.id, deploy.id)).rejects.toThrow(
+      '"Deploy" already waits for "Write" (Deploy → Review → Write)'
+    );
+    expect(find(write.id).blockedBy).toEqual([]);
+
+    // Completing the last open prerequisite moves a Blocked task back to In Progress
+    await ReactTestRenderer.act(() => tasks().setTaskStatus(deploy.id, 'in_progress'));
+    await ReactTestRenderer.act(() => tasks().setTaskStatus(deploy.id, 'blocked'));
+    await ReactTestRenderer.act(() => tasks().toggleTaskCompletion(review.id, true));
+    expect(find(deploy.id).status).toBe('in_progress');
+
+    // ...in the same undoable action
+    await ReactTestRenderer.act(async () => tasks().undo());
+    expect(find(review.id).completed).toBe(false);
+    expect(find(deploy.id).status).toBe('blocked');
+
+    // Deleting a prerequisite can remove the links to it
+    await ReactTestRenderer.act(() => tasks().deleteTask(write.id));
+    expect(find(review.id).blockedBy).toEqual([write.id]);
+    await ReactTestRenderer.act(() => tasks().deleteTask(review.id, { unlinkDependents: true }));
+    expect(find(deploy.id).blockedBy).toEqual([]);
+  });
+
+  test('schedules reminders and cancels them when tasks are completed or deleted', async () => {
+    const repository = createLocalTaskRepository();
+    const notifications = createFakeNotificationAdapter();
+    const tasks = await renderProvider(repository, notifications);
+    const scheduledTitles = async () =>
+      (await notifications.getScheduled()).map((n) => `${n.title}: ${n.body}`);
+    const day = 24 * 60 * 60 * 1000;
+    const withReminder = (title: string, days: number) =>
+      payload({
+        title,
+        dateTime: new Date(Date.now() + days * day).toISOString(),
+        deadline: new Date(Date.now() + (days + 1) * day).toISOString(),
+        reminders: [{ anchor: 'deadline', offsetMinutes: 60 }],
+      });
+
+    await ReactTestRenderer.act(async () => {
+      await tasks().addTask(withReminder('Pay rent', 1));
+      await tasks().addTask(withReminder('Call mom', 2));
+      await flushPromises();
+    });
+    const [rent, call] = tasks().tasks;
+    expect(await scheduledTitles()).toEqual(['Pay rent: Due in 1 hour', 'Call mom: Due in 1 hour']);
+
+    await ReactTestRenderer.act(async () => {
+      await tasks().toggleTaskCompletion(rent.id, true);
+      await flushPromises();
+    });
+    expect(await scheduledTitles()).toEqual(['Call mom: Due in 1 hour']);
+
+    await ReactTestRenderer.act(async () => {
+      await tasks().deleteTask(call.id);
+      await flushPromises();
+    });
+    expect(await scheduledTitles()).toEqual([]);
+
+    // Restoring the task schedules its reminder again
+    await ReactTestRenderer.act(async () => {
+      tasks().undo();
+      await flushPromises();
+    });
+    expect(await scheduledTitles()).toEqual(['Call mom: Due in 1 hour']);
+  });
+
+  test('undoes and redoes actions, including a delete', async () => {
+    const repository = createLocalTaskRepository();
+    const tasks = await renderProvider(repository);
+
+    await ReactTestRenderer.act(() => tasks().addTask(payload()));
+    const [task] = tasks().tasks;
+    await ReactTestRenderer.act(() => tasks().updateTask(task.id, { title: 'Buy oat milk' }));
+    expect(tasks().history.past.map((entry) => entry.label)).toEqual([
+      'Added "Buy milk"',
+      'Edited "Buy milk"',
+    ]);
+
+    await ReactTestRenderer.act(async () => {
+      tasks().undo();
+      await flushPromises();
+    });
+    expect(tasks().tasks[0].title).toBe('Buy milk');
+    expect(await repository.get(task.id)).toMatchObject({ title: 'Buy milk' });
+    expect(tasks().canRedo).toBe(true);
+
+    await ReactTestRenderer.act(async () => {
+      tasks().redo();
+      await flushPromises();
+    });
+    expect(tasks().tasks[0].title).toBe('Buy oat milk');
+    expect(tasks().canRedo).toBe(false);
+
+    await ReactTestRenderer.act(() => tasks().permanentlyDeleteTask(task.id));
+    expect(await repository.get(task.id)).toBeNull();
+    await ReactTestRenderer.act(async () => {
+      tasks().undo();
+      await flushPromises();
+    });
+    expect(tasks().tasks.map((t) => t.id)).toEqual([task.id]);
+    expect(await repository.get(task.id)).toMatchObject({ title: 'Buy oat milk' });
+  });
+
+  test('records each changed field in the task history', async () => {
+    const repository = createLocalTaskRepository();
+    const tasks = await renderProvider(repository);
+
+    await ReactTestRenderer.act(() => tasks().addTask(payload()));
+    const [task] = tasks().tasks;
+    await ReactTestRenderer.act(() =>
+      tasks().updateTask(task.id, { title: 'Buy oat milk', priority: Priority.HIGH })
+    );
+
+    const history = await tasks().getTaskHistory(task.id);
+    expect(history.map((entry) => [entry.field, entry.oldValue, entry.newValue])).toEqual([
+      ['title', 'Buy milk', 'Buy oat milk'],
+      ['priority', Priority.MEDIUM, Priority.HIGH],
+    ]);
+    expect(history[0].actor).toEqual({ userId: 'u1', name: 'u1@example.com' });
+  });
+
+  test('moves tasks out of a category and a list, including lists that are not loaded', async () => {
+    const repository = createLocalTaskRepository();
+    const inbox = repository.buildTask(payload({ category: 'errands' }), 'u1');
+    const work = repository.buildTask(payload({ category: 'errands', listId: 'work' }), 'u1');
+    await repository.add(inbox);
+    await repository.add(work);
+
+    const lists = useLists() as { activeListId: string | null };
+    lists.activeListId = 'inbox';
+    try {
+      const tasks = await renderProvider(repository);
+      expect(tasks().tasks.map((t) => t.id)).toEqual([inbox.id]);
+
+      let moved = 0;
+      await ReactTestRenderer.act(async () => {
+        moved = await tasks().reassignTasksCategory('errands', 'personal');
+      });
+      expect(moved).toBe(2);
+      expect(tasks().tasks[0].category).toBe('personal');
+      expect(await repository.get(work.id)).toMatchObject({ category: 'personal' });
+      const history = await tasks().getTaskHistory(work.id);
+      expect(history.map((entry) => [entry.field, entry.oldValue, entry.newValue])).toEqual([
+        ['category', 'errands', 'personal'],
+      ]);
+
+      await ReactTestRenderer.act(async () => {
+        moved = await tasks().moveTasksToList('work', 'inbox');
+      });
+      expect(moved).toBe(1);
+      expect(tasks().tasks.map((t) => t.id).sort()).toEqual([inbox.id, work.id].sort());
+      expect(tasks().pendingWrites).toEqual([]);
+      expect(tasks().canUndo).toBe(false);
+    } finally {
+      lists.activeListId = null;
+    }
+  });
+
+  test('rolls back a rejected write and marks it failed', async () => {
+    const repository = createLocalTaskRepository();
+    const failing: TaskRepository = {
+      ...repository,
+      add: () => Promise.reject(new Error('Permission denied.')),
+    };
+    const tasks = await renderProvider(failing);
+
+    await ReactTestRenderer.act(() => tasks().addTask(payload()));
+    expect(tasks().tasks).toEqual([]);
+    expect(tasks().pendingWrites).toHaveLength(1);
+    expect(tasks().pendingWrites[0]).toMatchObject({
+      type: 'add',
+      status: 'failed',
+      error: 'Permission denied.',
+    });
+    expect(tasks().getSyncStatus(tasks().pendingWrites[0].taskId)).toBe('failed');
+  });
+
+  test('rolls back only the fields of a rejected update', async () => {
+    const repository = createLocalTaskRepository();
+    let rejectRename: (error: Error) => void = () => {};
+    const failing: TaskRepository = {
+      ...repository,
+      update: (taskId, updates, audit) =>
+        updates.title !== undefined
+          ? new Promise((_, reject) => {
+              rejectRename = reject;
+            })
+          : repository.update(taskId, updates, audit),
+    };
+    const tasks = await renderProvider(failing);
+    await ReactTestRenderer.act(() => tasks().addTask(payload()));
+    const [task] = tasks().tasks;
+
+    // The rename is still queued when the later edit is confirmed
+    await ReactTestRenderer.act(async () => {
+      tasks().updateTask(task.id, { title: 'Buy oat milk' });
+      tasks().updateTask(task.id, { priority: Priority.HIGH });
+      await flushPromises();
+    });
+    await ReactTestRenderer.act(async () => {
+      rejectRename(new Error('Permission denied.'));
+      await flushPromises();
+    });
+
+    expect(tasks().tasks[0]).toMatchObject({ title: 'Buy milk', priority: Priority.HIGH });
+    expect(tasks().pendingWrites).toHaveLength(1);
+    expect(tasks().pendingWrites[0].status).toBe('failed');
+  });
+
+  test('retries a failed write', async () => {
+    const repository = createLocalTaskRepository();
+    let rejectWrites = true;
+    const flaky: TaskRepository = {
+      ...repository,
+      add: (task) =>
+        rejectWrites ? Promise.reject(new Error('Network error.')) : repository.add(task),
+    };
+    const tasks = await renderProvider(flaky);
+
+    await ReactTestRenderer.act(() => tasks().addTask(payload()));
+    const [write] = tasks().pendingWrites;
+    expect(write.status).toBe('failed');
+
+    rejectWrites = false;
+    await ReactTestRenderer.act(async () => {
+      tasks().retryWrite(write.id);
+      await flushPromises();
+    });
+    expect(tasks().pendingWrites).toEqual([]);
+    expect(tasks().tasks).toHaveLength(1);
+    expect(await repository.get(write.taskId)).toMatchObject({ title: 'Buy milk' });
+  });
+
+  test('loads stored tasks saved before the trash and manual order existed', async () => {
+    // No status, reminders, deletedAt, pinned or manualOrder yet
+    const legacy = {
+      ...payload(),
+      id: 'old',
+      userId: 'u1',
+      reminders: undefined,
+      createdAt: '2026-03-01T00:00:00.000Z',
+      updatedAt: '2026-03-01T00:00:00.000Z',
+    };
+    await AsyncStorage.setItem('localTasks', JSON.stringify([legacy]));
+    const tasks = await renderProvider(createLocalTaskRepository({ storage: AsyncStorage }));
+
+    expect(tasks().tasks).toHaveLength(1);
+    expect(tasks().tasks[0]).toMatchObject({
+      id: 'old',
+      deletedAt: null,
+      reminders: [],
+      pinned: false,
+      manualOrder: getInitialManualOrder('2026-03-01T00:00:00.000Z'),
+    });
+    expect(tasks().trashedTasks).toEqual([]);
+  });
+});
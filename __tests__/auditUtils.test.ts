@@ -0,0 +1,109 @@
+/**
+ * @format
+ */
+
+import { diffTasks, createAuditEntries, describeAuditChange } from '../src/utils/auditUtils';
+import { Task } from '../src/types';
+import { buildTask } from './fixtures';
+
+const base: Task = buildTask({
+  title: 'Write report',
+  dateTime: '2026-03-01T09:00:00.000Z',
+  deadline: '2026-03-01T17:00:00.000Z',
+  tags: ['q1'],
+  subtasks: [{ id: 's1', title: 'Outline', completed: false, order: 0 }],
+  createdAt: '2026-03-01T00:00:00.000Z',
+  updatedAt: '2026-03-01T00:00:00.000Z',
+});
+
+test('reports only the fields that changed, ignoring bookkeeping fields', () => {
+  const after: Task = {
+    ...base,
+    deadline: '2026-03-03T17:00:00.000Z',
+    completed: true,
+    updatedAt: '2026-03-02T00:00:00.000Z',
+  };
+
+  expect(diffTasks(base, after)).toEqual([
+    {
+      field: 'deadline',
+      oldValue: '2026-03-01T17:00:00.000Z',
+      newValue: '2026-03-03T17:00:00.000Z',
+    },
+    { field: 'completed', oldValue: false, newValue: true },
+  ]);
+  expect(diffTasks(base, { ...base })).toEqual([]);
+});
+
+test('compares arrays and objects by value', () => {
+  const sameContent: Task = {
+    ...base,
+    tags: ['q1'],
+    subtasks: [{ id: 's1', title: 'Outline', completed: false, order: 0 }],
+  };
+  expect(diffTasks(base, sameContent)).toEqual([]);
+
+  const checked: Task = {
+    ...base,
+    subtasks: [{ id: 's1', title: 'Outline', completed: true, order: 0 }],
+  };
+  expect(diffTasks(base, checked).map((change) => change.field)).toEqual(['subtasks']);
+});
+
+test('reports fields missing from older tasks as null', () => {
+  const legacy = { ...base } as Partial<Task>;
+  delete legacy.deletedAt;
+
+  expect(diffTasks(legacy as Task, { ...base, deletedAt: '2026-03-02T00:00:00.000Z' })).toEqual([
+    { field: 'deletedAt', oldValue: null, newValue: '2026-03-02T00:00:00.000Z' },
+  ]);
+});
+
+test('creates one entry per change with actor and timestamp', () => {
+  const actor = { userId: 'user-1', name: 'ana@example.com' };
+  const entries = createAuditEntries(
+    'task-1',
+    [{ field: 'title', oldValue: 'Write report', newValue: 'Write final report' }],
+    actor,
+    '2026-03-02T08:00:00.000Z'
+  );
+
+  expect(entries).toHaveLength(1);
+  expect(entries[0]).toMatchObject({
+    taskId: 'task-1',
+    field: 'title',
+    oldValue: 'Write report',
+    newValue: 'Write final report',
+    timestamp: '2026-03-02T08:00:00.000Z',
+    actor,
+  });
+  expect(entries[0].id).toEqual(expect.any(String));
+});
+
+test('describes changes for the timeline', () => {
+  expect(describeAuditChange({ field: 'completed', oldValue: false, newValue: true })).toBe(
+    'Marked complete'
+  );
+  expect(describeAuditChange({ field: 'tags', oldValue: ['q1'], newValue: ['q2'] })).toBe(
+    'Tags added #q2; removed #q1'
+  );
+  expect(
+    describeAuditChange({ field: 'deletedAt', oldValue: '2026-03-02T00:00:00.000Z', newValue: null })
+  ).toBe('Restored from the trash');
+  expect(describeAuditChange({ field: 'status', oldValue: 'todo', newValue: 'in_progress' })).toBe(
+    'Status changed from To Do to In Progress'
+  );
+  expect(describeAuditChange({ field: 'blockedBy', oldValue: null, newValue: ['task-2'] })).toBe(
+    'Prerequisite added'
+  );
+  expect(
+    describeAuditChange({
+      field: 'reminders',
+      oldValue: [],
+      newValue: [
+        { anchor: 'dateTime', offsetMinutes: 0 },
+        { anchor: 'deadline', offsetMinutes: 60 },
+      ],
+    })
+  ).toBe('Reminders changed to: At start time, 1 hour before the deadline');
+});
@@ -0,0 +1,119 @@
+/**
+ * @format
+ */
+
+import {
+  DEFAULT_BOARD_SETTINGS,
+  getBoardColumns,
+  getWipLimit,
+  setWipLimit,
+  isOverWipLimit,
+  getColumnUpdates,
+} from '../src/utils/boardUtils';
+import { Priority, Task, UserCategory } from '../src/types';
+import { buildTask } from './fixtures';
+
+const task = (id: string, overrides: Partial<Task> = {}): Task => buildTask({ id, ...overrides });
+
+const category = (id: string, name: string, order: number): UserCategory => ({
+  id,
+  name,
+  color: '#2196F3',
+  icon: '💼',
+  order,
+  createdAt: '2026-01-01T00:00:00.000Z',
+  updatedAt: '2026-01-01T00:00:00.000Z',
+});
+
+const tasks = [
+  task('a'),
+  task('b', { status: 'in_progress', priority: Priority.HIGH, category: 'home' }),
+  task('c', { status: 'done', completed: true, priority: Priority.HIGH }),
+  task('d', { category: 'deleted' }),
+];
+
+const summary = (columns: ReturnType<typeof getBoardColumns>) =>
+  columns.map((column) => [column.key, column.tasks.map((t) => t.id)]);
+
+describe('getBoardColumns', () => {
+  test('groups every task by status', () => {
+    const columns = getBoardColumns(tasks, 'status', []);
+
+    expect(summary(columns)).toEqual([
+      ['todo', ['a', 'd']],
+      ['in_progress', ['b']],
+      ['blocked', []],
+      ['waiting', []],
+      ['done', ['c']],
+      ['cancelled', []],
+    ]);
+    expect(columns.map((column) => column.title)).toEqual([
+      'To Do',
+      'In Progress',
+      'Blocked',
+      'Waiting',
+      'Done',
+      'Cancelled',
+    ]);
+  });
+
+  test('groups open tasks by priority, most important first', () => {
+    expect(summary(getBoardColumns(tasks, 'priority', []))).toEqual([
+      ['high', ['b']],
+      ['medium', ['a', 'd']],
+      ['low', []],
+    ]);
+  });
+
+  test('groups open tasks by category in the user order', () => {
+    const categories = [category('work', 'Work', 1), category('home', 'Home', 0)];
+    const columns = getBoardColumns(tasks, 'category', categories);
+
+    // Tasks of a category that is not loaded get a column at the end
+    expect(summary(columns)).toEqual([
+      ['home', ['b']],
+      ['work', ['a']],
+      ['deleted', ['d']],
+    ]);
+    expect(columns[0].title).toBe('💼 Home');
+  });
+});
+
+describe('WIP limits', () => {
+  test('are kept per grouping', () => {
+    const settings = setWipLimit(DEFAULT_BOARD_SETTINGS, 'in_progress', 3);
+
+    expect(settings.wipLimits).toEqual({ 'status:in_progress': 3 });
+    expect(getWipLimit(settings, 'in_progress')).toBe(3);
+    expect(getWipLimit({ ...settings, groupBy: 'category' }, 'in_progress')).toBeNull();
+  });
+
+  test('are removed with null or zero', () => {
+    const settings = setWipLimit(DEFAULT_BOARD_SETTINGS, 'todo', 5);
+
+    expect(setWipLimit(settings, 'todo', null).wipLimits).toEqual({});
+    expect(setWipLimit(settings, 'todo', 0).wipLimits).toEqual({});
+  });
+
+  test('are exceeded only above the limit', () => {
+    expect(isOverWipLimit(3, 3)).toBe(false);
+    expect(isOverWipLimit(4, 3)).toBe(true);
+    expect(isOverWipLimit(100, null)).toBe(false);
+  });
+});
+
+describe('getColumnUpdates', () => {
+  test('sets the grouped field', () => {
+    expect(getColumnUpdates('status', 'done')).toEqual({ status: 'done', completed: true });
+    expect(getColumnUpdates('status', 'cancelled')).toEqual({
+      status: 'cancelled',
+      completed: true,
+    });
+    expect(getColumnUpdates('status', 'in_progress')).toEqual({
+      status: 'in_progress',
+      completed: false,
+    });
+    expect(getColumnUpdates('category', 'home')).toEqual({ category: 'home' });
+    expect(getColumnUpdates('priority', 'low')).toEqual({ priority: Priority.LOW });
+  });
+});
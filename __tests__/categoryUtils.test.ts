@@ -0,0 +1,73 @@
+/**
+ * @format
+ */
+
+import {
+  DEFAULT_CATEGORIES,
+  sortCategories,
+  resolveCategory,
+  getDefaultCategoryId,
+  getCategoryCounts,
+} from '../src/utils/categoryUtils';
+import { Category, UserCategory } from '../src/types';
+
+const category = (id: string, name: string, order: number): UserCategory => ({
+  id,
+  name,
+  color: '#2196F3',
+  icon: '🏷️',
+  order,
+  createdAt: '2026-01-01T00:00:00.000Z',
+  updatedAt: '2026-01-01T00:00:00.000Z',
+});
+
+describe('sortCategories', () => {
+  test('orders by position, then name', () => {
+    const categories = [
+      category('c', 'Garden', 1),
+      category('b', 'Bills', 1),
+      category('a', 'Zoo', 0),
+    ];
+
+    expect(sortCategories(categories).map((c) => c.id)).toEqual(['a', 'b', 'c']);
+    // The input is left untouched
+    expect(categories[0].id).toBe('c');
+  });
+});
+
+describe('resolveCategory', () => {
+  const categories = [category('garden', 'Garden', 0)];
+
+  test('finds loaded categories', () => {
+    expect(resolveCategory(categories, 'garden').name).toBe('Garden');
+  });
+
+  test('falls back to the built-in defaults, then to a placeholder', () => {
+    expect(resolveCategory(categories, Category.WORK)).toMatchObject({
+      id: Category.WORK,
+      name: DEFAULT_CATEGORIES[Category.WORK].name,
+      icon: DEFAULT_CATEGORIES[Category.WORK].icon,
+    });
+    expect(resolveCategory(categories, 'deleted')).toMatchObject({
+      id: 'deleted',
+      name: 'deleted',
+      icon: '🏷️',
+    });
+  });
+});
+
+describe('getDefaultCategoryId', () => {
+  test('prefers Personal, otherwise the first category in order', () => {
+    expect(getDefaultCategoryId([])).toBe(Category.PERSONAL);
+    expect(
+      getDefaultCategoryId([category('garden', 'Garden', 0), category(Category.PERSONAL, 'Me', 1)])
+    ).toBe(Category.PERSONAL);
+    expect(getDefaultCategoryId([category('b', 'Bills', 1), category('a', 'Art', 0)])).toBe('a');
+  });
+});
+
+test('getCategoryCounts counts tasks per category', () => {
+  expect(
+    getCategoryCounts([{ category: 'work' }, { category: 'garden' }, { category: 'work' }])
+  ).toEqual({ work: 2, garden: 1 });
+});
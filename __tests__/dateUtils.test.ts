@@ -0,0 +1,92 @@
+/**
+ * @format
+ */
+
+import { getDayKey, getMonthStart, getMonthGrid, groupTasksByDay } from '../src/utils/dateUtils';
+import { Task } from '../src/types';
+import { buildTask } from './fixtures';
+
+// Local times, so the tests pass in every time zone
+const at = (month: number, day: number, hour: number, minute = 0) =>
+  new Date(2026, month, day, hour, minute).toISOString();
+
+const task = (id: string, overrides: Partial<Task> = {}): Task =>
+  buildTask({
+    id,
+    dateTime: at(2, 1, 9),
+    deadline: at(2, 1, 9),
+    createdAt: at(1, 1, 0),
+    updatedAt: at(1, 1, 0),
+    ...overrides,
+  });
+
+describe('getDayKey', () => {
+  test('uses the local calendar day', () => {
+    expect(getDayKey(new Date(2026, 2, 4, 23, 59))).toBe('2026-03-04');
+    expect(getDayKey(at(2, 5, 0, 0))).toBe('2026-03-05');
+    expect(getDayKey(new Date(2026, 11, 31, 12))).toBe('2026-12-31');
+  });
+});
+
+describe('getMonthGrid', () => {
+  test('covers the month in whole weeks from Sunday', () => {
+    // March 2026 starts on a Sunday and ends on a Tuesday
+    const weeks = getMonthGrid(new Date(2026, 2, 17));
+
+    expect(weeks).toHaveLength(5);
+    expect(weeks.every((week) => week.length === 7)).toBe(true);
+    expect(getDayKey(weeks[0][0])).toBe('2026-03-01');
+    expect(getDayKey(weeks[4][6])).toBe('2026-04-04');
+
+    // February 2026 fits in exactly four weeks
+    expect(getMonthGrid(new Date(2026, 1, 1))).toHaveLength(4);
+
+    // August 2026 starts on a Saturday: six weeks
+    const august = getMonthGrid(new Date(2026, 7, 1));
+    expect(august).toHaveLength(6);
+    expect(getDayKey(august[0][0])).toBe('2026-07-26');
+  });
+
+  test('gives one local midnight per day across daylight saving changes', () => {
+    const days = [3, 10].flatMap((month) => getMonthGrid(new Date(2026, month, 1)).flat());
+
+    days.forEach((day, index) => {
+      expect(day.getHours()).toBe(0);
+      if (index > 0 && days[index - 1].getMonth() === day.getMonth()) {
+        expect(day.getDate() - days[index - 1].getDate()).toBe(1);
+      }
+    });
+  });
+
+  test('moves between months', () => {
+    expect(getMonthStart(new Date(2026, 0, 31), 1)).toEqual(new Date(2026, 1, 1));
+    expect(getMonthStart(new Date(2026, 0, 15), -1)).toEqual(new Date(2025, 11, 1));
+  });
+});
+
+describe('groupTasksByDay', () => {
+  const tasks = [
+    task('late', { deadline: at(2, 4, 23, 30) }),
+    task('early', { deadline: at(2, 4, 0, 15) }),
+    task('span', { dateTime: at(2, 2, 9), deadline: at(2, 6, 17) }),
+    task('same-day', { dateTime: at(2, 6, 8), deadline: at(2, 6, 18) }),
+  ];
+  const ids = (groups: Map<string, Task[]>, key: string) =>
+    (groups.get(key) ?? []).map((t) => t.id);
+
+  test('groups tasks by local due day', () => {
+    const groups = groupTasksByDay(tasks);
+
+    expect(ids(groups, '2026-03-04')).toEqual(['late', 'early']);
+    expect(ids(groups, '2026-03-06')).toEqual(['span', 'same-day']);
+    expect(groups.has('2026-03-02')).toBe(false);
+  });
+
+  test('optionally adds tasks on their start day', () => {
+    const groups = groupTasksByDay(tasks, true);
+
+    expect(ids(groups, '2026-03-02')).toEqual(['span']);
+    expect(ids(groups, '2026-03-06')).toEqual(['span', 'same-day']);
+    expect(ids(groups, '2026-03-01')).toEqual(['late', 'early']);
+  });
+});
@@ -0,0 +1,99 @@
+/**
+ * @format
+ */
+
+import {
+  getOpenPrerequisites,
+  isBlockedByPrerequisites,
+  getDanglingLinks,
+  findDependencyPath,
+  wouldCreateCycle,
+  getDeadlineConflicts,
+  getDependencySummaries,
+  getUnblockedDependents,
+  getUnlinkUpdates,
+  describeDanglingLinks,
+} from '../src/utils/dependencyUtils';
+import { Task } from '../src/types';
+import { buildTask } from './fixtures';
+
+const task = (id: string, overrides: Partial<Task> = {}): Task => buildTask({ id, ...overrides });
+
+// deploy waits for review and docs; review waits for write (done)
+const write = task('write', { completed: true, status: 'done' });
+const review = task('review', { blockedBy: ['write'], deadline: '2026-01-20T00:00:00.000Z' });
+const docs = task('docs');
+const deploy = task('deploy', { blockedBy: ['review', 'docs', 'deleted'], status: 'blocked' });
+const tasks = [write, review, docs, deploy];
+
+const ids = (list: Task[] | null) => list && list.map((t) => t.id);
+
+describe('prerequisites', () => {
+  test('only open prerequisites block', () => {
+    expect(ids(getOpenPrerequisites(deploy, tasks))).toEqual(['review', 'docs']);
+    expect(isBlockedByPrerequisites(deploy, tasks)).toBe(true);
+    expect(isBlockedByPrerequisites(review, tasks)).toBe(false);
+    expect(isBlockedByPrerequisites({ ...deploy, completed: true }, tasks)).toBe(false);
+  });
+
+  test('links to tasks that are not loaded are dangling', () => {
+    expect(getDanglingLinks(deploy, tasks)).toEqual(['deleted']);
+    expect(getDanglingLinks(review, tasks)).toEqual([]);
+  });
+
+  test('warns about open prerequisites due after the task', () => {
+    expect(ids(getDeadlineConflicts(deploy, tasks))).toEqual(['review']);
+    expect(getDependencySummaries(tasks)).toEqual({
+      deploy: { openPrerequisites: 2, deadlineConflicts: 1 },
+    });
+  });
+});
+
+describe('cycle detection', () => {
+  test('follows links through other tasks', () => {
+    expect(ids(findDependencyPath(tasks, 'deploy', 'write'))).toEqual([
+      'deploy',
+      'review',
+      'write',
+    ]);
+    expect(findDependencyPath(tasks, 'write', 'deploy')).toBeNull();
+  });
+
+  test('refuses links back up the chain and to the task itself', () => {
+    expect(wouldCreateCycle(tasks, 'write', 'deploy')).toBe(true);
+    expect(wouldCreateCycle(tasks, 'review', 'deploy')).toBe(true);
+    expect(wouldCreateCycle(tasks, 'docs', 'docs')).toBe(true);
+    expect(wouldCreateCycle(tasks, 'docs', 'write')).toBe(false);
+  });
+
+  test('ends on cycles already stored', () => {
+    const looped = [task('a', { blockedBy: ['b'] }), task('b', { blockedBy: ['a'] })];
+
+    expect(findDependencyPath(looped, 'a', 'c')).toBeNull();
+  });
+});
+
+describe('completing and deleting prerequisites', () => {
+  test('unblocks Blocked dependents with their last open prerequisite', () => {
+    const docsDone = { ...docs, completed: true, status: 'done' as const };
+
+    expect(ids(getUnblockedDependents('review', tasks))).toEqual([]);
+    expect(ids(getUnblockedDependents('review', [write, review, docsDone, deploy]))).toEqual([
+      'deploy',
+    ]);
+  });
+
+  test('removes the links of the dependents', () => {
+    expect(getUnlinkUpdates('docs', tasks)).toEqual([
+      { taskId: 'deploy', blockedBy: ['review', 'deleted'] },
+    ]);
+  });
+
+  test('names the dependents in the prompt', () => {
+    expect(describeDanglingLinks([deploy])).toMatch(/^"deploy" is blocked by this task/);
+    expect(describeDanglingLinks([deploy, review])).toMatch(/^"deploy" and "review" are/);
+    expect(describeDanglingLinks([deploy, review, docs])).toMatch(
+      /^"deploy" and 2 other tasks are/
+    );
+  });
+});
@@ -0,0 +1,42 @@
+/**
+ * @format
+ */
+
+import { Priority, Task } from '../src/types';
+
+/**
+ * Build a task with every field set
+ *
+ * Defaults describe an open, untagged work task in the inbox, titled after
+ * its ID; pass only the fields a test cares about.
+ *
+ * @param overrides - Fields to set
+ * @returns Complete task
+ */
+export const buildTask = (overrides: Partial<Task> = {}): Task => {
+  const id = overrides.id ?? 'task-1';
+  return {
+    id,
+    userId: 'user-1',
+    title: id,
+    description: '',
+    dateTime: '2026-01-01T00:00:00.000Z',
+    deadline: '2026-01-10T00:00:00.000Z',
+    priority: Priority.MEDIUM,
+    category: 'work',
+    listId: 'inbox',
+    tags: [],
+    completed: false,
+    status: 'todo',
+    subtasks: [],
+    recurrence: null,
+    reminders: [],
+    blockedBy: [],
+    deletedAt: null,
+    pinned: false,
+    manualOrder: 0,
+    createdAt: '2026-01-01T00:00:00.000Z',
+    updatedAt: '2026-01-01T00:00:00.000Z',
+    ...overrides,
+  };
+};
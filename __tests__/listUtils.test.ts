@@ -0,0 +1,68 @@
+/**
+ * @format
+ */
+
+import {
+  DEFAULT_LIST_ID,
+  sortLists,
+  getListName,
+  getListCounts,
+  mergeListCounts,
+} from '../src/utils/listUtils';
+import { validateListName } from '../src/utils/validators';
+import { TaskList } from '../src/types';
+
+const list = (id: string, name: string, order: number): TaskList => ({
+  id,
+  name,
+  order,
+  createdAt: '2026-01-01T00:00:00.000Z',
+  updatedAt: '2026-01-01T00:00:00.000Z',
+});
+
+const lists = [list('work', 'Work', 1), list(DEFAULT_LIST_ID, 'Inbox', 0), list('home', 'Home', 1)];
+
+describe('list names', () => {
+  test('sorts lists by position, then name', () => {
+    expect(sortLists(lists).map((l) => l.id)).toEqual([DEFAULT_LIST_ID, 'home', 'work']);
+  });
+
+  test('falls back to Inbox for the default list while lists load', () => {
+    expect(getListName(lists, 'work')).toBe('Work');
+    expect(getListName([], DEFAULT_LIST_ID)).toBe('Inbox');
+    expect(getListName([], 'work')).toBe('Untitled');
+    expect(getListName(lists, null)).toBe('All Tasks');
+  });
+
+  test('requires a unique name of at most 30 characters', () => {
+    const others = ['Inbox', 'Work'];
+
+    expect(validateListName('  ', others)).toBe('Name is required');
+    expect(validateListName('x'.repeat(31), others)).toBe('Name must be 30 characters or less');
+    expect(validateListName(' work ', others)).toBe('A list with this name already exists');
+    expect(validateListName('Garden', others)).toBeNull();
+  });
+});
+
+describe('list counts', () => {
+  const tasks = [{ listId: 'work' }, { listId: DEFAULT_LIST_ID }, { listId: 'work' }];
+
+  test('counts tasks per list', () => {
+    expect(getListCounts(tasks)).toEqual({ work: 2, [DEFAULT_LIST_ID]: 1 });
+  });
+
+  test('takes the loaded list from the live tasks and the rest from the count queries', () => {
+    const counts = { work: 5, home: 3 };
+
+    expect(mergeListCounts(counts, 'work', [{ listId: 'work' }])).toEqual({ work: 1, home: 3 });
+    expect(mergeListCounts(counts, DEFAULT_LIST_ID, [])).toEqual({
+      work: 5,
+      home: 3,
+      [DEFAULT_LIST_ID]: 0,
+    });
+  });
+
+  test('ignores the count queries when every list is loaded', () => {
+    expect(mergeListCounts({ home: 3 }, null, tasks)).toEqual({ work: 2, [DEFAULT_LIST_ID]: 1 });
+  });
+});
@@ -0,0 +1,77 @@
+/**
+ * @format
+ */
+
+import {
+  getInitialManualOrder,
+  getSectionRange,
+  getOrderBetween,
+  getMoveUpdates,
+} from '../src/utils/orderUtils';
+import { Task } from '../src/types';
+import { buildTask } from './fixtures';
+
+const task = (id: string, manualOrder: number, overrides: Partial<Task> = {}): Task =>
+  buildTask({ id, manualOrder, ...overrides });
+
+// Display order: pinned, open, completed
+const tasks = [
+  task('p1', 10, { pinned: true }),
+  task('p2', 20, { pinned: true }),
+  task('a', 1),
+  task('b', 2),
+  task('c', 3),
+  task('done', 0, { completed: true, pinned: true }),
+];
+
+describe('getInitialManualOrder', () => {
+  test('uses the creation time', () => {
+    expect(getInitialManualOrder('2026-01-01T00:00:00.000Z')).toBe(Date.UTC(2026, 0, 1));
+    expect(getInitialManualOrder('not a date')).toBe(0);
+  });
+});
+
+describe('getSectionRange', () => {
+  test('finds the section of a task', () => {
+    expect(getSectionRange(tasks, 1)).toEqual([0, 1]);
+    expect(getSectionRange(tasks, 3)).toEqual([2, 4]);
+    expect(getSectionRange(tasks, 5)).toEqual([5, 5]);
+  });
+});
+
+describe('getOrderBetween', () => {
+  test('returns a value between the bounds', () => {
+    expect(getOrderBetween(1, 2)).toBe(1.5);
+    expect(getOrderBetween(null, 2)).toBe(1);
+    expect(getOrderBetween(1, null)).toBe(2);
+    expect(getOrderBetween(null, null)).toBe(0);
+    expect(getOrderBetween(1, 1 + Number.EPSILON)).toBeNull();
+  });
+});
+
+describe('getMoveUpdates', () => {
+  test('writes only the moved task', () => {
+    expect(getMoveUpdates(tasks, 4, 2, 'asc')).toEqual([{ taskId: 'c', manualOrder: 0 }]);
+    expect(getMoveUpdates(tasks, 2, 3, 'asc')).toEqual([{ taskId: 'a', manualOrder: 2.5 }]);
+    expect(getMoveUpdates(tasks, 2, 4, 'asc')).toEqual([{ taskId: 'a', manualOrder: 4 }]);
+    expect(getMoveUpdates(tasks, 1, 0, 'asc')).toEqual([{ taskId: 'p2', manualOrder: 9 }]);
+    expect(getMoveUpdates(tasks, 3, 3, 'asc')).toEqual([]);
+  });
+
+  test('follows the sort direction', () => {
+    const reversed = [task('c', 3), task('b', 2), task('a', 1)];
+
+    expect(getMoveUpdates(reversed, 2, 0, 'desc')).toEqual([{ taskId: 'a', manualOrder: 4 }]);
+    expect(getMoveUpdates(reversed, 0, 1, 'desc')).toEqual([{ taskId: 'c', manualOrder: 1.5 }]);
+  });
+
+  test('renumbers the section when no value fits', () => {
+    const crowded = [task('a', 1), task('b', 1 + Number.EPSILON), task('c', 5)];
+
+    expect(getMoveUpdates(crowded, 2, 1, 'asc')).toEqual([
+      { taskId: 'c', manualOrder: 1 },
+      { taskId: 'a', manualOrder: 0 },
+      { taskId: 'b', manualOrder: 2 },
+    ]);
+  });
+});
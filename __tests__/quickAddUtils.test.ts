@@ -0,0 +1,172 @@
+/**
+ * @format
+ */
+
+import { parseQuickAdd, buildQuickAddPayload } from '../src/utils/quickAddUtils';
+import { Priority, UserCategory } from '../src/types';
+
+const category = (id: string, name: string): UserCategory => ({
+  id,
+  name,
+  color: '#2196F3',
+  icon: '📌',
+  order: 0,
+  createdAt: '',
+  updatedAt: '',
+});
+
+const categories = [category('work', 'Work'), category('abc123', 'Side Project')];
+
+// Wednesday, March 4, 2026, 10:00 local time
+const now = new Date(2026, 2, 4, 10, 0);
+
+const parse = (input: string) => parseQuickAdd(input, categories, now);
+
+describe('parseQuickAdd', () => {
+  test('parses the full example', () => {
+    expect(parse('Submit report tomorrow 5pm !high #work')).toEqual({
+      title: 'Submit report',
+      deadline: new Date(2026, 2, 5, 17, 0),
+      priority: Priority.HIGH,
+      categoryId: 'work',
+      tags: [],
+    });
+  });
+
+  test('leaves plain text untouched', () => {
+    expect(parse('  Water the   plants ')).toEqual({
+      title: 'Water the plants',
+      deadline: null,
+      priority: null,
+      categoryId: null,
+      tags: [],
+    });
+  });
+
+  describe('dates', () => {
+    test.each([
+      ['today', new Date(2026, 2, 4, 23, 59)],
+      ['tonight', new Date(2026, 2, 4, 20, 0)],
+      ['tomorrow', new Date(2026, 2, 5, 23, 59)],
+      ['tmrw', new Date(2026, 2, 5, 23, 59)],
+      ['friday', new Date(2026, 2, 6, 23, 59)],
+      ['on fri', new Date(2026, 2, 6, 23, 59)],
+      ['next friday', new Date(2026, 2, 6, 23, 59)],
+      ['wednesday', new Date(2026, 2, 11, 23, 59)],
+      ['this wednesday', new Date(2026, 2, 4, 23, 59)],
+      ['next monday', new Date(2026, 2, 9, 23, 59)],
+      ['in 3 days', new Date(2026, 2, 7, 23, 59)],
+      ['in 2 weeks', new Date(2026, 2, 18, 23, 59)],
+      ['in 1 month', new Date(2026, 3, 4, 23, 59)],
+      ['in 2 hours', new Date(2026, 2, 4, 12, 0)],
+      ['in 30 minutes', new Date(2026, 2, 4, 10, 30)],
+      ['jun 5', new Date(2026, 5, 5, 23, 59)],
+      ['5 june', new Date(2026, 5, 5, 23, 59)],
+      ['March 3rd', new Date(2027, 2, 3, 23, 59)],
+      ['by mar 4', new Date(2026, 2, 4, 23, 59)],
+      ['due 2026-07-01', new Date(2026, 6, 1, 23, 59)],
+    ])('"%s"', (phrase, expected) => {
+      const result = parse(`Pay rent ${phrase}`);
+      expect(result.deadline).toEqual(expected);
+      expect(result.title).toBe('Pay rent');
+    });
+
+    test('ignores impossible dates and month names inside words', () => {
+      expect(parse('Party feb 30').deadline).toBeNull();
+      expect(parse('Buy 3 mangoes').deadline).toBeNull();
+      expect(parse('Maybe 5 things').title).toBe('Maybe 5 things');
+    });
+
+    test('does not read "sat" or "sun" as weekdays', () => {
+      expect(parse('Sat down with the sun').deadline).toBeNull();
+    });
+  });
+
+  describe('times', () => {
+    test.each([
+      ['tomorrow 5pm', new Date(2026, 2, 5, 17, 0)],
+      ['tomorrow at 5:30 pm', new Date(2026, 2, 5, 17, 30)],
+      ['tomorrow 12am', new Date(2026, 2, 5, 0, 0)],
+      ['friday 17:45', new Date(2026, 2, 6, 17, 45)],
+      ['friday at noon', new Date(2026, 2, 6, 12, 0)],
+      ['tonight 9pm', new Date(2026, 2, 4, 21, 0)],
+    ])('"%s"', (phrase, expected) => {
+      expect(parse(`Call Ana ${phrase}`)).toMatchObject({ title: 'Call Ana', deadline: expected });
+    });
+
+    test('a time alone means today, or tomorrow once it has passed', () => {
+      expect(parse('Standup by 11am').deadline).toEqual(new Date(2026, 2, 4, 11, 0));
+      expect(parse('Standup 9am').deadline).toEqual(new Date(2026, 2, 5, 9, 0));
+    });
+  });
+
+  describe('priority', () => {
+    test.each([
+      ['!high', Priority.HIGH],
+      ['!h', Priority.HIGH],
+      ['!1', Priority.HIGH],
+      ['!!!', Priority.HIGH],
+      ['!medium', Priority.MEDIUM],
+      ['!m', Priority.MEDIUM],
+      ['!!', Priority.MEDIUM],
+      ['!LOW', Priority.LOW],
+      ['!3', Priority.LOW],
+      ['!', Priority.LOW],
+    ])('"%s"', (marker, expected) => {
+      expect(parse(`Fix bug ${marker}`)).toMatchObject({ title: 'Fix bug', priority: expected });
+    });
+
+    test('ignores exclamation marks inside words', () => {
+      expect(parse('Wow! Great!')).toMatchObject({ title: 'Wow! Great!', priority: null });
+    });
+  });
+
+  describe('hashtags', () => {
+    test('matches categories by name or ID, case-insensitively', () => {
+      expect(parse('Plan #WORK').categoryId).toBe('work');
+      expect(parse('Plan #side-project').categoryId).toBe('abc123');
+      expect(parse('Plan #abc123').categoryId).toBe('abc123');
+    });
+
+    test('turns other hashtags into tags and keeps the first category', () => {
+      expect(parse('Plan #q3-launch #work #Side-Project #q3-launch')).toMatchObject({
+        title: 'Plan',
+        categoryId: 'work',
+        tags: ['q3-launch', 'side-project'],
+      });
+    });
+  });
+});
+
+describe('buildQuickAddPayload', () => {
+  const defaults = { categoryId: 'personal', listId: 'inbox' };
+
+  test('uses the parsed fields', () => {
+    const payload = buildQuickAddPayload(parse('Submit report tomorrow 5pm !high #work #q1'), defaults, now);
+
+    expect(payload).toEqual({
+      title: 'Submit report',
+      description: '',
+      dateTime: now.toISOString(),
+      deadline: new Date(2026, 2, 5, 17, 0).toISOString(),
+      priority: Priority.HIGH,
+      category: 'work',
+      listId: 'inbox',
+      tags: ['q1'],
+      completed: false,
+      subtasks: [],
+      recurrence: null,
+      reminders: [],
+    });
+  });
+
+  test('falls back to the form defaults', () => {
+    const payload = buildQuickAddPayload(parse('Water plants'), defaults, now);
+
+    expect(payload).toMatchObject({
+      deadline: new Date(2026, 2, 5, 10, 0).toISOString(),
+      priority: Priority.MEDIUM,
+      category: 'personal',
+    });
+  });
+});
@@ -0,0 +1,161 @@
+/**
+ * @format
+ */
+
+import {
+  getNextOccurrence,
+  getNextOccurrenceDates,
+  getNthWeekdayOfMonth,
+  getWeekdayPosition,
+  buildNextOccurrence,
+  describeRecurrence,
+} from '../src/utils/recurrenceUtils';
+import { RecurrenceRule } from '../src/types';
+import { buildTask } from './fixtures';
+
+const rule = (overrides: Partial<RecurrenceRule>): RecurrenceRule => ({
+  frequency: 'daily',
+  interval: 1,
+  byWeekday: [],
+  byMonthDay: null,
+  bySetPos: null,
+  until: null,
+  count: null,
+  occurrence: 1,
+  ...overrides,
+});
+
+describe('getNextOccurrence', () => {
+  test('daily rules advance by the interval and keep the time of day', () => {
+    const next = getNextOccurrence(new Date(2026, 0, 30, 9, 30), rule({ interval: 3 }));
+    expect(next).toEqual(new Date(2026, 1, 2, 9, 30));
+  });
+
+  test('weekly rules pick the next selected weekday in the same week', () => {
+    // Mon Mar 2, 2026 → Thu Mar 5, 2026
+    const next = getNextOccurrence(
+      new Date(2026, 2, 2, 9),
+      rule({ frequency: 'weekly', byWeekday: [1, 4] })
+    );
+    expect(next).toEqual(new Date(2026, 2, 5, 9));
+  });
+
+  test('weekly rules with an interval skip the off weeks', () => {
+    // Thu Mar 5, 2026, every 2 weeks on Mon/Thu → Mon Mar 16, 2026
+    const next = getNextOccurrence(
+      new Date(2026, 2, 5, 9),
+      rule({ frequency: 'weekly', interval: 2, byWeekday: [1, 4] })
+    );
+    expect(next).toEqual(new Date(2026, 2, 16, 9));
+  });
+
+  test('monthly by day-of-month clamps to short months', () => {
+    const monthly = rule({ frequency: 'monthly', byMonthDay: 31 });
+    const feb = getNextOccurrence(new Date(2026, 0, 31, 8), monthly);
+    expect(feb).toEqual(new Date(2026, 1, 28, 8));
+    // The rule's day is kept, so the series returns to the 31st
+    expect(getNextOccurrence(feb, monthly)).toEqual(new Date(2026, 2, 31, 8));
+  });
+
+  test('monthly by nth weekday', () => {
+    // 3rd Tuesday of Feb 2026 (17th) → 3rd Tuesday of Mar 2026 (17th)
+    const next = getNextOccurrence(
+      new Date(2026, 1, 17, 10),
+      rule({ frequency: 'monthly', byWeekday: [2], bySetPos: 3 })
+    );
+    expect(next).toEqual(new Date(2026, 2, 17, 10));
+  });
+
+  test('monthly by last weekday', () => {
+    // Last Friday of Jan 2026 (30th) → last Friday of Feb 2026 (27th)
+    const next = getNextOccurrence(
+      new Date(2026, 0, 30, 10),
+      rule({ frequency: 'monthly', byWeekday: [5], bySetPos: -1 })
+    );
+    expect(next).toEqual(new Date(2026, 1, 27, 10));
+  });
+
+  test('yearly rules fall back to Feb 28 in non-leap years', () => {
+    const next = getNextOccurrence(new Date(2028, 1, 29, 12), rule({ frequency: 'yearly' }));
+    expect(next).toEqual(new Date(2029, 1, 28, 12));
+  });
+});
+
+describe('nth weekday helpers', () => {
+  test('getNthWeekdayOfMonth', () => {
+    expect(getNthWeekdayOfMonth(2026, 1, 1, 1)).toBe(2); // 1st Monday of Feb 2026
+    expect(getNthWeekdayOfMonth(2026, 1, 6, -1)).toBe(28); // last Saturday of Feb 2026
+  });
+
+  test('getWeekdayPosition', () => {
+    expect(getWeekdayPosition(new Date(2026, 1, 10))).toBe(2);
+    expect(getWeekdayPosition(new Date(2026, 1, 24))).toBe(-1);
+  });
+});
+
+describe('getNextOccurrenceDates', () => {
+  const start = new Date(2026, 2, 2, 9);
+  const deadline = new Date(2026, 2, 2, 11);
+
+  test('shifts the deadline by the same amount as the start', () => {
+    const next = getNextOccurrenceDates({
+      dateTime: start.toISOString(),
+      deadline: deadline.toISOString(),
+      recurrence: rule({ frequency: 'weekly', byWeekday: [1] }),
+    });
+    expect(next).toEqual({
+      dateTime: new Date(2026, 2, 9, 9).toISOString(),
+      deadline: new Date(2026, 2, 9, 11).toISOString(),
+    });
+  });
+
+  test('stops after the last counted occurrence', () => {
+    const next = getNextOccurrenceDates({
+      dateTime: start.toISOString(),
+      deadline: deadline.toISOString(),
+      recurrence: rule({ count: 3, occurrence: 3 }),
+    });
+    expect(next).toBeNull();
+  });
+
+  test('stops after the end date', () => {
+    const next = getNextOccurrenceDates({
+      dateTime: start.toISOString(),
+      deadline: deadline.toISOString(),
+      recurrence: rule({ until: new Date(2026, 2, 2, 23).toISOString() }),
+    });
+    expect(next).toBeNull();
+  });
+});
+
+test('buildNextOccurrence resets completion and advances the series', () => {
+  const task = buildTask({
+    title: 'Standup prep',
+    dateTime: new Date(2026, 2, 2, 9).toISOString(),
+    deadline: new Date(2026, 2, 2, 10).toISOString(),
+    completed: true,
+    status: 'done',
+    subtasks: [{ id: 's1', title: 'Notes', completed: true, order: 0 }],
+    recurrence: rule({ frequency: 'weekly', byWeekday: [1], count: 5, occurrence: 2 }),
+    createdAt: '2026-03-01T00:00:00.000Z',
+    updatedAt: '2026-03-01T00:00:00.000Z',
+  });
+
+
+  const next = buildNextOccurrence(task);
+
+  expect(next?.completed).toBe(false);
+  expect(next?.subtasks[0].completed).toBe(false);
+  expect(next?.recurrence?.occurrence).toBe(3);
+  expect(next?.dateTime).toBe(new Date(2026, 2, 9, 9).toISOString());
+});
+
+test('describeRecurrence', () => {
+  expect(describeRecurrence(rule({}))).toBe('Every day');
+  expect(describeRecurrence(rule({ frequency: 'weekly', interval: 2, byWeekday: [4, 1] }))).toBe(
+    'Every 2 weeks on Mon, Thu'
+  );
+  expect(
+    describeRecurrence(rule({ frequency: 'monthly', byWeekday: [5], bySetPos: -1, count: 6 }))
+  ).toBe('Every month on the last Fri, 6 times');
+});
@@ -0,0 +1,120 @@
+/**
+ * @format
+ */
+
+import {
+  formatReminderOffset,
+  describeReminder,
+  addReminder,
+  removeReminder,
+  getPendingNotifications,
+  diffNotifications,
+} from '../src/utils/reminderUtils';
+import { ScheduledNotification, Task, TaskReminder } from '../src/types';
+import { buildTask } from './fixtures';
+
+const task = (id: string, overrides: Partial<Task> = {}): Task =>
+  buildTask({
+    id,
+    dateTime: '2026-01-01T09:00:00.000Z',
+    deadline: '2026-01-02T17:00:00.000Z',
+    ...overrides,
+  });
+
+const atStart: TaskReminder = { anchor: 'dateTime', offsetMinutes: 0 };
+const hourBeforeDeadline: TaskReminder = { anchor: 'deadline', offsetMinutes: 60 };
+const now = new Date('2026-01-01T12:00:00.000Z');
+
+describe('describing reminders', () => {
+  test('formats offsets in the largest whole unit', () => {
+    expect(formatReminderOffset(1)).toBe('1 minute');
+    expect(formatReminderOffset(90)).toBe('90 minutes');
+    expect(formatReminderOffset(120)).toBe('2 hours');
+    expect(formatReminderOffset(1440)).toBe('1 day');
+  });
+
+  test('names the anchor', () => {
+    expect(describeReminder(atStart)).toBe('At start time');
+    expect(describeReminder(hourBeforeDeadline)).toBe('1 hour before the deadline');
+    expect(describeReminder({ anchor: 'dateTime', offsetMinutes: 15 })).toBe(
+      '15 minutes before start time'
+    );
+  });
+
+  test('adds reminders once, earliest first', () => {
+    const reminders = addReminder(addReminder([hourBeforeDeadline], atStart), hourBeforeDeadline);
+
+    expect(reminders).toEqual([atStart, hourBeforeDeadline]);
+    expect(removeReminder(reminders, atStart)).toEqual([hourBeforeDeadline]);
+  });
+});
+
+describe('getPendingNotifications', () => {
+  test('schedules future reminders of open tasks, soonest first', () => {
+    const tasks = [
+      task('report', { reminders: [hourBeforeDeadline, atStart] }),
+      task('call', { dateTime: '2026-01-01T14:00:00.000Z', reminders: [atStart] }),
+    ];
+
+    // The report's start time has passed
+    expect(getPendingNotifications(tasks, now)).toEqual([
+      {
+        id: 'call:dateTime:0',
+        taskId: 'call',
+        listId: 'inbox',
+        title: 'call',
+        body: 'Starting now',
+        fireAt: '2026-01-01T14:00:00.000Z',
+      },
+      {
+        id: 'report:deadline:60',
+        taskId: 'report',
+        listId: 'inbox',
+        title: 'report',
+        body: 'Due in 1 hour',
+        fireAt: '2026-01-02T16:00:00.000Z',
+      },
+    ]);
+  });
+
+  test('skips completed and trashed tasks', () => {
+    const tasks = [
+      task('done', { completed: true, status: 'done', reminders: [hourBeforeDeadline] }),
+      task('trashed', { deletedAt: '2026-01-01T10:00:00.000Z', reminders: [hourBeforeDeadline] }),
+    ];
+
+    expect(getPendingNotifications(tasks, now)).toEqual([]);
+  });
+});
+
+describe('diffNotifications', () => {
+  const notification = (id: string, overrides: Partial<ScheduledNotification> = {}) => ({
+    id,
+    taskId: id,
+    listId: 'inbox',
+    title: id,
+    body: 'Due in 1 hour',
+    fireAt: '2026-01-02T16:00:00.000Z',
+    ...overrides,
+  });
+
+  test('schedules new and changed notifications and cancels the rest', () => {
+    const scheduled = [notification('kept'), notification('moved'), notification('removed')];
+    const pending = [
+      notification('kept'),
+      notification('moved', { fireAt: '2026-01-03T16:00:00.000Z' }),
+      notification('added'),
+    ];
+
+    expect(diffNotifications(scheduled, pending, null)).toEqual({
+      toSchedule: [pending[1], pending[2]],
+      toCancel: ['removed'],
+    });
+  });
+
+  test('leaves notifications of other lists alone', () => {
+    const scheduled = [notification('inbox'), notification('work', { listId: 'work' })];
+
+    expect(diffNotifications(scheduled, [], 'inbox').toCancel).toEqual(['inbox']);
+  });
+});
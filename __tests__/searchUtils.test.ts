@@ -0,0 +1,109 @@
+/**
+ * @format
+ */
+
+import {
+  foldText,
+  getSearchTerms,
+  getSearchScore,
+  searchTasks,
+  getMatchRanges,
+} from '../src/utils/searchUtils';
+import { sortAndFilterTasks } from '../src/utils/taskUtils';
+import { Priority, Task } from '../src/types';
+import { buildTask } from './fixtures';
+
+const task = (
+  id: string,
+  title: string,
+  description: string = '',
+  overrides: Partial<Task> = {}
+): Task =>
+  buildTask({
+    id,
+    title,
+    description,
+    dateTime: '2026-03-01T09:00:00.000Z',
+    deadline: '2099-03-01T10:00:00.000Z',
+    createdAt: '2026-03-01T00:00:00.000Z',
+    updatedAt: '2026-03-01T00:00:00.000Z',
+    ...overrides,
+  });
+
+test('folds case and accents', () => {
+  expect(foldText('Crème BRÛLÉE')).toBe('creme brulee');
+  expect(getSearchTerms('  Café   cafe  ')).toEqual(['cafe']);
+  expect(getSearchTerms('   ')).toEqual([]);
+});
+
+test('requires every word to match the title or description', () => {
+  const invoice = task('a', 'Send invoice', 'To the café on Main street');
+
+  expect(getSearchScore(invoice, 'invoice cafe')).toBeGreaterThan(0);
+  expect(getSearchScore(invoice, 'INVOICE')).toBeGreaterThan(0);
+  expect(getSearchScore(invoice, 'invoice bakery')).toBe(0);
+});
+
+test('ranks exact titles, then title matches, then description matches', () => {
+  const tasks = [
+    task('description', 'Call the bank', 'Ask about the report'),
+    task('hyphen', 'Quarterly sales-reporting'),
+    task('inner', 'Misreport fix'),
+    task('word', 'Finish the report draft'),
+    task('prefix', 'Report for Q3'),
+    task('exact', 'Report'),
+  ];
+
+  // "sales-reporting" and "the report" both start a word: input order decides
+  expect(searchTasks(tasks, 'report').map((t) => t.id)).toEqual([
+    'exact',
+    'prefix',
+    'hyphen',
+    'word',
+    'inner',
+    'description',
+  ]);
+});
+
+test('keeps the input order for equally relevant tasks', () => {
+  const tasks = [task('first', 'Buy milk'), task('second', 'Buy bread'), task('third', 'Walk')];
+
+  expect(searchTasks(tasks, 'buy').map((t) => t.id)).toEqual(['first', 'second']);
+  expect(searchTasks(tasks, '  ')).toBe(tasks);
+});
+
+test('falls back to the smart sort order on ties and combines with filters', () => {
+  const tasks = [
+    task('low', 'Pay rent', '', { priority: Priority.LOW }),
+    task('high', 'Pay taxes', '', { priority: Priority.HIGH }),
+    task('done', 'Pay phone bill', '', { completed: true }),
+    task('other', 'Walk the dog'),
+  ];
+
+  expect(sortAndFilterTasks(tasks, 'all', [], 'pay').map((t) => t.id)).toEqual([
+    'high',
+    'low',
+    'done',
+  ]);
+  expect(sortAndFilterTasks(tasks, 'active', [], 'pay').map((t) => t.id)).toEqual([
+    'high',
+    'low',
+  ]);
+});
+
+test('finds highlight ranges in the original text', () => {
+  expect(getMatchRanges('Café au lait', 'cafe LAIT')).toEqual([
+    { start: 0, end: 4 },
+    { start: 8, end: 12 },
+  ]);
+  expect(getMatchRanges('banana', 'an')).toEqual([{ start: 1, end: 5 }]);
+  expect(getMatchRanges('Buy milk', '')).toEqual([]);
+});
+
+test('maps ranges back through decomposed accents', () => {
+  // "e" followed by a combining acute accent
+  const text = 'Cafe\u0301 time';
+
+  expect(getMatchRanges(text, 'café')).toEqual([{ start: 0, end: 5 }]);
+  expect(getMatchRanges(text, 'time')).toEqual([{ start: 6, end: 10 }]);
+});
@@ -0,0 +1,97 @@
+/**
+ * @format
+ */
+
+import {
+  TASK_STATUSES,
+  canTransition,
+  migrateTaskStatus,
+  getStatusUpdates,
+  filterTasksByStatuses,
+  getStatusCounts,
+} from '../src/utils/statusUtils';
+import { Task, TaskStatus } from '../src/types';
+import { buildTask } from './fixtures';
+
+const task = (id: string, status: TaskStatus): Task =>
+  buildTask({ id, status, completed: status === 'done' || status === 'cancelled' });
+
+describe('canTransition', () => {
+  test('follows the workflow', () => {
+    expect(canTransition('todo', 'in_progress')).toBe(true);
+    expect(canTransition('in_progress', 'blocked')).toBe(true);
+    expect(canTransition('blocked', 'in_progress')).toBe(true);
+    expect(canTransition('waiting', 'done')).toBe(true);
+    expect(canTransition('done', 'todo')).toBe(true);
+  });
+
+  test('refuses moves that skip the workflow', () => {
+    // Work has to start before it can be blocked or waiting
+    expect(canTransition('todo', 'blocked')).toBe(false);
+    expect(canTransition('todo', 'waiting')).toBe(false);
+    expect(canTransition('done', 'blocked')).toBe(false);
+    expect(canTransition('cancelled', 'done')).toBe(false);
+  });
+
+  test('allows staying in the same status', () => {
+    TASK_STATUSES.forEach((status) => {
+      expect(canTransition(status, status)).toBe(true);
+    });
+  });
+});
+
+describe('migrateTaskStatus', () => {
+  test('derives missing or unknown statuses from the completed flag', () => {
+    expect(migrateTaskStatus(undefined, false)).toBe('todo');
+    expect(migrateTaskStatus(undefined, true)).toBe('done');
+    expect(migrateTaskStatus('started', false)).toBe('todo');
+  });
+
+  test('keeps stored statuses that agree with the flag', () => {
+    expect(migrateTaskStatus('blocked', false)).toBe('blocked');
+    expect(migrateTaskStatus('cancelled', true)).toBe('cancelled');
+  });
+
+  test('follows the flag when an older app version changed it', () => {
+    expect(migrateTaskStatus('blocked', true)).toBe('done');
+    expect(migrateTaskStatus('cancelled', false)).toBe('todo');
+  });
+});
+
+describe('getStatusUpdates', () => {
+  test('completes tasks exactly when the status is closed', () => {
+    expect(getStatusUpdates('waiting')).toEqual({ status: 'waiting', completed: false });
+    expect(getStatusUpdates('done')).toEqual({ status: 'done', completed: true });
+    expect(getStatusUpdates('cancelled')).toEqual({ status: 'cancelled', completed: true });
+  });
+});
+
+describe('status filters and counts', () => {
+  const tasks = [
+    task('a', 'todo'),
+    task('b', 'blocked'),
+    task('c', 'waiting'),
+    task('d', 'blocked'),
+  ];
+
+  test('filterTasksByStatuses matches any selected status', () => {
+    const ids = (statuses: TaskStatus[]) =>
+      filterTasksByStatuses(tasks, statuses).map((t) => t.id);
+
+    expect(ids([])).toEqual(['a', 'b', 'c', 'd']);
+    expect(ids(['blocked'])).toEqual(['b', 'd']);
+    expect(ids(['blocked', 'waiting'])).toEqual(['b', 'c', 'd']);
+    expect(ids(['done'])).toEqual([]);
+  });
+
+  test('getStatusCounts counts every status', () => {
+    expect(getStatusCounts(tasks)).toEqual({
+      todo: 1,
+      in_progress: 0,
+      blocked: 2,
+      waiting: 1,
+      done: 0,
+      cancelled: 0,
+    });
+  });
+});
@@ -0,0 +1,91 @@
+/**
+ * @format
+ */
+
+import {
+  addSubtask,
+  toggleSubtask,
+  removeSubtask,
+  moveSubtask,
+  getSubtaskProgress,
+  areAllSubtasksComplete,
+} from '../src/utils/subtaskUtils';
+import { calculateTaskScore } from '../src/utils/taskUtils';
+import { Subtask, Task } from '../src/types';
+import { buildTask } from './fixtures';
+
+const subtask = (id: string, order: number, completed = false): Subtask => ({
+  id,
+  title: id,
+  completed,
+  order,
+});
+
+const inHours = (hours: number) => new Date(Date.now() + hours * 60 * 60 * 1000).toISOString();
+
+const task = (id: string, overrides: Partial<Task> = {}): Task =>
+  buildTask({ id, deadline: inHours(200), ...overrides });
+
+const ids = (subtasks: Subtask[]) => subtasks.map((s) => s.id);
+
+describe('editing a checklist', () => {
+  const checklist = [subtask('b', 1), subtask('a', 0), subtask('c', 2)];
+
+  test('appends trimmed, open subtasks at the end', () => {
+    const added = addSubtask(checklist, '  Buy milk ');
+
+    expect(ids(added).slice(0, 3)).toEqual(['a', 'b', 'c']);
+    expect(added[3]).toMatchObject({ title: 'Buy milk', completed: false, order: 3 });
+    expect(added[3].id).not.toBe('');
+    expect(checklist).toHaveLength(3);
+  });
+
+  test('toggles one subtask without touching the input', () => {
+    const toggled = toggleSubtask(checklist, 'a');
+
+    expect(toggled.find((s) => s.id === 'a')?.completed).toBe(true);
+    expect(toggleSubtask(toggled, 'a').find((s) => s.id === 'a')?.completed).toBe(false);
+    expect(checklist[1].completed).toBe(false);
+  });
+
+  test('moves subtasks by one position, ignoring moves past either end', () => {
+    expect(ids(moveSubtask(checklist, 'c', -1))).toEqual(['a', 'c', 'b']);
+    expect(moveSubtask(checklist, 'c', -1).map((s) => s.order)).toEqual([0, 1, 2]);
+    expect(ids(moveSubtask(checklist, 'a', -1))).toEqual(['a', 'b', 'c']);
+    expect(ids(moveSubtask(checklist, 'c', 1))).toEqual(['a', 'b', 'c']);
+    expect(ids(moveSubtask(checklist, 'missing', 1))).toEqual(['a', 'b', 'c']);
+  });
+
+  test('removes subtasks and re-numbers the rest', () => {
+    const removed = removeSubtask(checklist, 'a');
+
+    expect(ids(removed)).toEqual(['b', 'c']);
+    expect(removed.map((s) => s.order)).toEqual([0, 1]);
+  });
+});
+
+describe('checklist progress', () => {
+  test('counts completed subtasks', () => {
+    expect(getSubtaskProgress([subtask('a', 0, true), subtask('b', 1)])).toEqual({
+      completed: 1,
+      total: 2,
+      ratio: 0.5,
+    });
+    expect(getSubtaskProgress([])).toEqual({ completed: 0, total: 0, ratio: 0 });
+  });
+
+  test('an empty checklist is never all complete', () => {
+    expect(areAllSubtasksComplete([subtask('a', 0, true), subtask('b', 1, true)])).toBe(true);
+    expect(areAllSubtasksComplete([subtask('a', 0, true), subtask('b', 1)])).toBe(false);
+    expect(areAllSubtasksComplete([])).toBe(false);
+  });
+
+  test('adds up to 40 points to the score in proportion to the progress', () => {
+    const base = task('t');
+    const score = (subtasks: Subtask[]) => calculateTaskScore({ ...base, subtasks });
+
+    expect(score([subtask('a', 0)])).toBeCloseTo(score([]), 1);
+    expect(score([subtask('a', 0, true), subtask('b', 1)])).toBeCloseTo(score([]) + 20, 1);
+    expect(score([subtask('a', 0, true)])).toBeCloseTo(score([]) + 40, 1);
+  });
+});
@@ -0,0 +1,87 @@
+/**
+ * @format
+ */
+
+import {
+  normalizeTag,
+  addTag,
+  removeTag,
+  getTagCounts,
+  getAllTags,
+  suggestTags,
+  filterTasksByTags,
+} from '../src/utils/tagUtils';
+import { Task } from '../src/types';
+import { buildTask } from './fixtures';
+
+const task = (id: string, overrides: Partial<Task> = {}): Task => buildTask({ id, ...overrides });
+
+const ids = (tasks: Task[]) => tasks.map((t) => t.id);
+
+describe('normalizing tags', () => {
+  test('lowercases, trims, drops the # and joins words with dashes', () => {
+    expect(normalizeTag('  #Q3 Launch ')).toBe('q3-launch');
+    expect(normalizeTag('##Backend')).toBe('backend');
+    expect(normalizeTag('big   \t idea')).toBe('big-idea');
+    expect(normalizeTag(' # ')).toBe('');
+  });
+
+  test('adds normalized tags once and removes them', () => {
+    const tags = addTag(addTag(['backend'], '#Q3 Launch'), 'q3-launch');
+
+    expect(tags).toEqual(['backend', 'q3-launch']);
+    expect(addTag(tags, '   ')).toBe(tags);
+    expect(removeTag(tags, 'backend')).toEqual(['q3-launch']);
+  });
+});
+
+describe('tag usage', () => {
+  const tasks = [
+    task('a', { tags: ['backend', 'q3-launch'] }),
+    task('b', { tags: ['backend'] }),
+    task('c', { tags: ['api'] }),
+  ];
+
+  test('counts tasks per tag', () => {
+    expect(getTagCounts(tasks)).toEqual({ backend: 2, 'q3-launch': 1, api: 1 });
+    expect(getTagCounts([])).toEqual({});
+  });
+
+  test('lists tags by usage, then alphabetically', () => {
+    expect(getAllTags(tasks)).toEqual(['backend', 'api', 'q3-launch']);
+  });
+});
+
+describe('suggestTags', () => {
+  const existing = ['backend', 'api', 'q3-launch', 'launch', 'lunch'];
+
+  test('ranks prefix matches above substring matches', () => {
+    expect(suggestTags('launch', existing)).toEqual(['launch', 'q3-launch']);
+  });
+
+  test('normalizes the query and skips applied tags', () => {
+    expect(suggestTags(' #LAUNCH', existing, ['launch'])).toEqual(['q3-launch']);
+    expect(suggestTags('#', existing)).toEqual([]);
+  });
+
+  test('caps the number of suggestions', () => {
+    expect(suggestTags('a', existing, [], 2)).toEqual(['api', 'backend']);
+  });
+});
+
+describe('filterTasksByTags', () => {
+  const tasks = [
+    task('both', { tags: ['backend', 'urgent'] }),
+    task('backend', { tags: ['backend'] }),
+    task('none'),
+  ];
+
+  test('keeps tasks carrying every selected tag', () => {
+    expect(ids(filterTasksByTags(tasks, ['backend']))).toEqual(['both', 'backend']);
+    expect(ids(filterTasksByTags(tasks, ['backend', 'urgent']))).toEqual(['both']);
+  });
+
+  test('does not filter without selected tags', () => {
+    expect(filterTasksByTags(tasks, [])).toBe(tasks);
+  });
+});
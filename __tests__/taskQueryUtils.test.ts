@@ -0,0 +1,178 @@
+/**
+ * @format
+ */
+
+import {
+  EMPTY_TASK_QUERY,
+  parseTaskQuery,
+  formatTaskQuery,
+  filterTasksByQuery,
+  getViewCounts,
+  resolveDueValue,
+} from '../src/utils/taskQueryUtils';
+import { Priority, SavedView, Task, UserCategory } from '../src/types';
+import { buildTask } from './fixtures';
+
+const category = (id: string, name: string, order: number): UserCategory => ({
+  id,
+  name,
+  color: '#2196F3',
+  icon: '📁',
+  order,
+  createdAt: '',
+  updatedAt: '',
+});
+
+const categories = [
+  category('work', 'Work', 0),
+  category('personal', 'Personal', 1),
+  category('c9x', 'Side Project', 2),
+];
+
+// Wednesday 4 March 2026, 10:00 local time
+const now = new Date(2026, 2, 4, 10, 0);
+const at = (day: number, hour: number) => new Date(2026, 2, day, hour, 0).toISOString();
+
+const task = (id: string, overrides: Partial<Task> = {}): Task =>
+  buildTask({
+    id,
+    dateTime: at(1, 9),
+    deadline: at(20, 12),
+    createdAt: at(1, 0),
+    updatedAt: at(1, 0),
+    ...overrides,
+  });
+
+const ids = (tasks: Task[]) => tasks.map((t) => t.id);
+
+describe('parseTaskQuery', () => {
+  test('parses the example query', () => {
+    const { query, errors } = parseTaskQuery('priority:high due:<7d -completed', categories);
+
+    expect(errors).toEqual([]);
+    expect(query).toEqual({
+      ...EMPTY_TASK_QUERY,
+      priorities: [Priority.HIGH],
+      dueBefore: '7d',
+      completed: false,
+    });
+  });
+
+  test('parses lists, aliases, negations, tags and text', () => {
+    const { query, errors } = parseTaskQuery(
+      'p:low,HIGH cat:side-project,work is:overdue #Backend -#blocked tag:q3 quarterly report',
+      categories
+    );
+
+    expect(errors).toEqual([]);
+    expect(query.priorities).toEqual([Priority.HIGH, Priority.LOW]);
+    expect(query.categories).toEqual(['c9x', 'work']);
+    expect(query.overdue).toBe(true);
+    expect(query.tags).toEqual(['backend', 'q3']);
+    expect(query.excludedTags).toEqual(['blocked']);
+    expect(query.text).toBe('quarterly report');
+
+    expect(parseTaskQuery('-priority:low -category:work active', categories).query).toMatchObject({
+      priorities: [Priority.HIGH, Priority.MEDIUM],
+      categories: ['personal', 'c9x'],
+      completed: false,
+    });
+  });
+
+  test('treats quoted words and unknown fields as text', () => {
+    const { query } = parseTaskQuery('"completed" note:this https://example.com', categories);
+
+    expect(query.completed).toBeNull();
+    expect(query.text).toBe('completed note:this https://example.com');
+  });
+
+  test('reports invalid terms and keeps the rest', () => {
+    const { query, errors } = parseTaskQuery(
+      'priority:urgent category:errands due:soon -due:today #high',
+      categories
+    );
+
+    expect(errors).toEqual([
+      'Unknown priority: urgent',
+      'Unknown category: errands',
+      'Unknown due date: soon',
+      'Due dates cannot be excluded: -due:today',
+    ]);
+    expect(query).toEqual({ ...EMPTY_TASK_QUERY, tags: ['high'] });
+    expect(parseTaskQuery('constructor:x', categories).query.text).toBe('constructor:x');
+  });
+});
+
+describe('formatTaskQuery', () => {
+  test('formats a query back to text that parses to the same query', () => {
+    const input =
+      'due:>tomorrow priority:high,medium #a -#b category:side-project "overdue" -completed';
+    const { query } = parseTaskQuery(input, categories);
+    const text = formatTaskQuery(query, categories);
+
+    expect(text).toBe(
+      'priority:high,medium category:side-project due:>tomorrow -completed #a -#b "overdue"'
+    );
+    expect(parseTaskQuery(text, categories).query).toEqual(query);
+    expect(formatTaskQuery(EMPTY_TASK_QUERY, categories)).toBe('');
+  });
+});
+
+describe('resolveDueValue', () => {
+  test('resolves durations, days and dates', () => {
+    expect(resolveDueValue('2d', now)?.start).toEqual(new Date(2026, 2, 6, 10, 0));
+    expect(resolveDueValue('tomorrow', now)).toEqual({
+      start: new Date(2026, 2, 5),
+      end: new Date(2026, 2, 6),
+      duration: false,
+    });
+    expect(resolveDueValue('2026-03-31', now)?.end).toEqual(new Date(2026, 3, 1));
+    expect(resolveDueValue('2026-02-30', now)).toBeNull();
+    expect(resolveDueValue('toString', now)).toBeNull();
+  });
+});
+
+describe('filterTasksByQuery', () => {
+  const tasks = [
+    task('overdue', { deadline: at(3, 12), priority: Priority.HIGH }),
+    task('today', { deadline: at(4, 18), tags: ['backend'] }),
+    task('tomorrow', { deadline: at(5, 9), priority: Priority.HIGH, category: 'personal' }),
+    task('next-week', { deadline: at(12, 9), tags: ['backend', 'blocked'] }),
+    task('done', { deadline: at(4, 12), completed: true, priority: Priority.HIGH }),
+  ];
+  const filter = (input: string) =>
+    ids(filterTasksByQuery(tasks, parseTaskQuery(input, categories).query, now));
+
+  test('filters by due date', () => {
+    expect(filter('due:<7d')).toEqual(['overdue', 'today', 'tomorrow', 'done']);
+    expect(filter('due:today')).toEqual(['today', 'done']);
+    expect(filter('due:2d')).toEqual(['today', 'tomorrow', 'done']);
+    expect(filter('due:>tomorrow')).toEqual(['next-week']);
+    expect(filter('due:<today')).toEqual(['overdue']);
+  });
+
+  test('combines every term', () => {
+    expect(filter('priority:high due:<7d -completed')).toEqual(['overdue', 'tomorrow']);
+    expect(filter('overdue')).toEqual(['overdue']);
+    expect(filter('-overdue completed')).toEqual(['done']);
+    expect(filter('#backend -#blocked')).toEqual(['today']);
+    expect(filter('category:personal')).toEqual(['tomorrow']);
+    expect(filter('next')).toEqual(['next-week']);
+    expect(filter('')).toEqual(ids(tasks));
+  });
+
+  test('counts the tasks in each saved view', () => {
+    const view = (id: string, query: string): SavedView => ({
+      id,
+      name: id,
+      query,
+      order: 0,
+      createdAt: '',
+      updatedAt: '',
+    });
+
+    const views = [view('urgent', 'priority:high -completed'), view('all', '')];
+
+    expect(getViewCounts(tasks, views, categories, now)).toEqual({ urgent: 2, all: 5 });
+  });
+});
@@ -0,0 +1,71 @@
+/**
+ * @format
+ */
+
+import { deleteTask } from '../src/api/taskService';
+
+// Paths of the documents each batch deleted, one entry per commit
+const mockCommit = jest.fn((_paths: string[]) => Promise.resolve());
+let mockHistorySize = 0;
+
+jest.mock('@react-native-firebase/firestore', () => {
+  const collection = (path: string): any => ({
+    doc: (id: string) => ({
+      path: `${path}/${id}`,
+      collection: (name: string) => collection(`${path}/${id}/${name}`),
+    }),
+    get: () =>
+      Promise.resolve({
+        docs: Array.from({ length: mockHistorySize }, (_, i) => ({
+          ref: collection(path).doc(`entry-${i}`),
+        })),
+      }),
+  });
+
+  const batch = () => {
+    const paths: string[] = [];
+    return {
+      delete: (ref: { path: string }) => paths.push(ref.path),
+      commit: () => mockCommit(paths),
+    };
+  };
+
+  return { __esModule: true, default: () => ({ collection, batch }) };
+});
+
+describe('deleteTask', () => {
+  beforeEach(() => {
+    mockCommit.mockClear();
+    jest.spyOn(console, 'error').mockImplementation(() => {});
+  });
+
+  test('deletes the history and the task in one batch, task last', async () => {
+    mockHistorySize = 3;
+
+    await deleteTask('t1');
+
+    expect(mockCommit).toHaveBeenCalledTimes(1);
+    expect(mockCommit.mock.calls[0][0]).toEqual([
+      'tasks/t1/history/entry-0',
+      'tasks/t1/history/entry-1',
+      'tasks/t1/history/entry-2',
+      'tasks/t1',
+    ]);
+  });
+
+  test('keeps the task when the last batch of a long history fails', async () => {
+    mockHistorySize = 600;
+    mockCommit
+      .mockImplementationOnce(() => Promise.resolve())
+      .mockImplementationOnce(() => Promise.reject({ code: 'unavailable' }));
+
+    await expect(deleteTask('t1')).rejects.toThrow('Failed to delete the task.');
+
+    // The first 500 entries are gone; the task was only in the failed batch
+    const [[first], [last]] = mockCommit.mock.calls;
+    expect(first).toHaveLength(500);
+    expect(first).not.toContain('tasks/t1');
+    expect(last).toHaveLength(101);
+    expect(last[100]).toBe('tasks/t1');
+  });
+});
@@ -0,0 +1,231 @@
+/**
+ * @format
+ */
+
+import {
+  DEFAULT_SCORING_CONFIG,
+  DEFAULT_TASK_SORT,
+  calculateTaskScore,
+  explainTaskScore,
+  describeScoreBreakdown,
+  sortTasks,
+  sortTasksByPriority,
+  sortAndFilterTasks,
+} from '../src/utils/taskUtils';
+import { Priority, Task, TaskSort, UserCategory } from '../src/types';
+import { buildTask } from './fixtures';
+
+const category = (id: string, name: string, order: number): UserCategory => ({
+  id,
+  name,
+  color: '#2196F3',
+  icon: '📁',
+  order,
+  createdAt: '',
+  updatedAt: '',
+});
+
+const categories = [category('personal', 'Personal', 1), category('work', 'Work', 0)];
+
+const DAY = 24 * 60 * 60 * 1000;
+const inDays = (days: number) => new Date(Date.now() + days * DAY).toISOString();
+
+const task = (id: string, overrides: Partial<Task> = {}): Task =>
+  buildTask({ id, dateTime: inDays(0), deadline: inDays(10), ...overrides });
+
+const ids = (tasks: Task[]) => tasks.map((t) => t.id);
+const by = (mode: TaskSort['mode'], direction: TaskSort['direction']): TaskSort => ({
+  mode,
+  direction,
+});
+
+describe('sortTasks', () => {
+  const tasks = [
+    task('b', { title: 'Task 10', deadline: inDays(3), createdAt: '2026-01-03T00:00:00.000Z' }),
+    task('a', { title: 'task 2', deadline: inDays(1), category: 'personal' }),
+    task('done', { title: 'Archive', deadline: inDays(-5), completed: true }),
+    task('c', {
+      title: 'Éclair',
+      deadline: inDays(7),
+      priority: Priority.HIGH,
+      createdAt: '2026-01-02T00:00:00.000Z',
+    }),
+  ];
+
+  test('defaults to the smart score, like sortTasksByPriority', () => {
+    expect(ids(sortTasks(tasks))).toEqual(['a', 'b', 'c', 'done']);
+    expect(ids(sortTasks(tasks, DEFAULT_TASK_SORT))).toEqual(ids(sortTasksByPriority(tasks)));
+    expect(ids(sortTasks(tasks, by('smart', 'asc')))).toEqual(['c', 'b', 'a', 'done']);
+  });
+
+  test('sorts by deadline, creation date, title and category', () => {
+    expect(ids(sortTasks(tasks, by('deadline', 'asc')))).toEqual(['a', 'b', 'c', 'done']);
+    expect(ids(sortTasks(tasks, by('deadline', 'desc')))).toEqual(['c', 'b', 'a', 'done']);
+    expect(ids(sortTasks(tasks, by('created', 'desc')))).toEqual(['b', 'c', 'a', 'done']);
+    expect(ids(sortTasks(tasks, by('title', 'asc')))).toEqual(['c', 'a', 'b', 'done']);
+    expect(ids(sortTasks(tasks, by('title', 'desc')))).toEqual(['b', 'a', 'c', 'done']);
+    expect(ids(sortTasks(tasks, by('category', 'asc'), categories))).toEqual([
+      'b',
+      'c',
+      'a',
+      'done',
+    ]);
+  });
+
+  test('breaks ties by deadline, creation date and ID whatever the input order', () => {
+    const deadline = inDays(2);
+    const tied = [
+      task('z', { title: 'Same', deadline }),
+      task('y', { title: 'Same', deadline, createdAt: '2025-12-31T00:00:00.000Z' }),
+      task('x', { title: 'Same', deadline }),
+      task('w', { title: 'Same', deadline: inDays(1) }),
+    ];
+
+    for (const direction of ['asc', 'desc'] as const) {
+      expect(ids(sortTasks(tied, by('title', direction)))).toEqual(['w', 'y', 'x', 'z']);
+      expect(ids(sortTasks([...tied].reverse(), by('title', direction)))).toEqual([
+        'w',
+        'y',
+        'x',
+        'z',
+      ]);
+    }
+  });
+
+  test('sorts by manual order and keeps pinned tasks on top in every mode', () => {
+    const ordered = [
+      task('first', { manualOrder: 1 }),
+      task('pinned', { manualOrder: 5, pinned: true, deadline: inDays(9) }),
+      task('second', { manualOrder: 2.5 }),
+      task('done', { manualOrder: 0, pinned: true, completed: true }),
+    ];
+
+    expect(ids(sortTasks(ordered, by('manual', 'asc')))).toEqual([
+      'pinned',
+      'first',
+      'second',
+      'done',
+    ]);
+    expect(ids(sortTasks(ordered, by('manual', 'desc')))).toEqual([
+      'pinned',
+      'second',
+      'first',
+      'done',
+    ]);
+    expect(ids(sortTasksByPriority(ordered))[0]).toBe('pinned');
+  });
+
+  test('keeps the sort order for search ties', () => {
+    const found = sortAndFilterTasks(tasks, 'active', [], 'task', by('title', 'desc'));
+
+    expect(ids(found)).toEqual(['b', 'a']);
+  });
+});
+
+describe('calculateTaskScore', () => {
+  const hours = (h: number) => new Date(Date.now() + h * 60 * 60 * 1000).toISOString();
+
+  test('the default config gives the original scores', () => {
+    const score = (overrides: Partial<Task>) => calculateTaskScore(task('t', overrides));
+
+    expect(score({ priority: Priority.HIGH, deadline: hours(-2) })).toBeCloseTo(1102, 1);
+    expect(score({ priority: Priority.HIGH, deadline: hours(1) })).toBeCloseTo(599, 1);
+    expect(score({ deadline: hours(30) })).toBeCloseTo(220, 1);
+    expect(score({ priority: Priority.LOW, deadline: hours(100) })).toBeCloseTo(-40, 1);
+    expect(score({ priority: Priority.LOW, deadline: hours(2000) })).toBeCloseTo(-990, 1);
+    expect(
+      score({
+        deadline: hours(200),
+        subtasks: [
+          { id: 's1', title: 'a', completed: true, order: 0 },
+          { id: 's2', title: 'b', completed: false, order: 1 },
+        ],
+      })
+    ).toBeCloseTo(-130, 1);
+    expect(score({ completed: true })).toBe(-1000);
+    expect(calculateTaskScore(task('t'), DEFAULT_SCORING_CONFIG)).toBeCloseTo(
+      calculateTaskScore(task('t'))
+    );
+  });
+
+  test('uses custom weights and thresholds', () => {
+    const tasks = [
+      task('soon', { priority: Priority.MEDIUM, deadline: hours(60) }),
+      task('important', { priority: Priority.HIGH, deadline: hours(20) }),
+    ];
+    const config = {
+      ...DEFAULT_SCORING_CONFIG,
+      priorityWeights: { ...DEFAULT_SCORING_CONFIG.priorityWeights, [Priority.HIGH]: 0 },
+      urgencyThresholds: [{ hours: 72, bonus: 500 }],
+    };
+
+    expect(ids(sortTasksByPriority(tasks))).toEqual(['important', 'soon']);
+    expect(ids(sortTasksByPriority(tasks, config))).toEqual(['soon', 'important']);
+    expect(calculateTaskScore(tasks[0], config)).toBeCloseTo(50 + 500 - 60, 1);
+  });
+
+  test('drops blocked tasks below the tasks that can be worked on', () => {
+    const overdue = task('overdue', { priority: Priority.HIGH, deadline: hours(-2) });
+    const blocked = task('blocked', { ...overdue, id: 'blocked', status: 'blocked' });
+    const waiting = task('waiting', { ...overdue, id: 'waiting', status: 'waiting' });
+    const later = task('later', { priority: Priority.LOW, deadline: hours(100) });
+
+    // No overdue bonus and 500 points off; waiting tasks score like active ones
+    expect(calculateTaskScore(blocked)).toBeCloseTo(100 + 2 - 500, 1);
+    expect(calculateTaskScore(waiting)).toBeCloseTo(calculateTaskScore(overdue), 1);
+    expect(ids(sortTasksByPriority([blocked, later, overdue]))).toEqual([
+      'overdue',
+      'later',
+      'blocked',
+    ]);
+  });
+});
+
+describe('explainTaskScore', () => {
+  const hours = (h: number) => new Date(Date.now() + h * 60 * 60 * 1000).toISOString();
+
+  test('explains why a low-priority task sits above a high-priority one', () => {
+    const low = task('low', { priority: Priority.LOW, deadline: hours(10) });
+    const high = task('high', { priority: Priority.HIGH, deadline: hours(100) });
+    const lowScore = explainTaskScore(low);
+    const highScore = explainTaskScore(high);
+
+    expect(ids(sortTasksByPriority([high, low]))).toEqual(['low', 'high']);
+    expect(highScore.priorityWeight - lowScore.priorityWeight).toBe(90);
+    expect(lowScore).toMatchObject({ urgency: 'threshold', urgencyHours: 24, urgencyBonus: 500 });
+    expect(highScore).toMatchObject({ urgency: 'threshold', urgencyHours: 168, urgencyBonus: 50 });
+    expect(lowScore.total).toBeCloseTo(
+      lowScore.priorityWeight + lowScore.urgencyBonus + lowScore.timePenalty + lowScore.subtaskBonus
+    );
+    expect(lowScore.total).toBeCloseTo(calculateTaskScore(low));
+  });
+
+  test('describes each factor', () => {
+    const overdue = task('t', { priority: Priority.HIGH, deadline: hours(-3) });
+    const distant = task('t', { priority: Priority.LOW, deadline: hours(24 * 60) });
+    const done = task('t', { completed: true });
+    const factors = (t: Task) =>
+      describeScoreBreakdown(t, explainTaskScore(t)).map((f) => [f.label, Math.round(f.points)]);
+
+    expect(factors(overdue)).toEqual([
+      ['High priority', 100],
+      ['Overdue', 1000],
+      ['3h past the deadline', 3],
+    ]);
+    expect(factors(distant)).toEqual([
+      ['Low priority', 10],
+      ['Not due soon', 0],
+      ['60 days left (capped)', -1000],
+    ]);
+    expect(factors(done)).toEqual([['Completed', -1000]]);
+    expect(factors(task('t', { completed: true, status: 'cancelled' }))).toEqual([
+      ['Cancelled', -1000],
+    ]);
+    expect(factors({ ...overdue, status: 'blocked' })).toEqual([
+      ['High priority', 100],
+      ['No urgency bonus while blocked', 0],
+      ['3h past the deadline', 3],
+      ['Blocked', -500],
+    ]);
+  });
+});
@@ -0,0 +1,107 @@
+/**
+ * @format
+ */
+
+import {
+  getTaskTimeRange,
+  isAllDayTask,
+  layoutDayTimeline,
+  getDropStartTime,
+  getRescheduleUpdates,
+} from '../src/utils/timelineUtils';
+import { Task } from '../src/types';
+import { buildTask } from './fixtures';
+
+// Local times on March 2026, so the tests pass in every time zone
+const at = (day: number, hour: number, minute = 0) =>
+  new Date(2026, 2, day, hour, minute).toISOString();
+
+const task = (id: string, start: string, deadline: string): Task =>
+  buildTask({ id, dateTime: start, deadline, createdAt: at(1, 0), updatedAt: at(1, 0) });
+
+const day = new Date(2026, 2, 4);
+
+describe('getTaskTimeRange', () => {
+  test('runs from the start to the deadline, or for an hour', () => {
+    expect(getTaskTimeRange(task('t', at(4, 9), at(4, 11))).end.toISOString()).toBe(at(4, 11));
+    expect(getTaskTimeRange(task('t', at(4, 9), at(4, 9))).end.toISOString()).toBe(at(4, 10));
+    expect(getTaskTimeRange(task('t', at(4, 9), at(3, 9))).end.toISOString()).toBe(at(4, 10));
+  });
+});
+
+describe('isAllDayTask', () => {
+  test('detects whole-day and multi-day tasks', () => {
+    expect(isAllDayTask(task('t', at(4, 0), at(4, 23, 59)))).toBe(true);
+    expect(isAllDayTask(task('t', at(4, 0), at(5, 0)))).toBe(true);
+    expect(isAllDayTask(task('t', at(4, 22), at(5, 2)))).toBe(true);
+    expect(isAllDayTask(task('t', at(4, 23), at(5, 0)))).toBe(false);
+    expect(isAllDayTask(task('t', at(4, 0), at(4, 8)))).toBe(false);
+  });
+});
+
+describe('layoutDayTimeline', () => {
+  test('places tasks of the day in minutes after midnight', () => {
+    const { allDay, blocks } = layoutDayTimeline(
+      [
+        task('morning', at(4, 9), at(4, 10, 30)),
+        task('trip', at(3, 12), at(6, 12)),
+        task('late', at(4, 23), at(5, 0)),
+        task('other-day', at(5, 9), at(5, 10)),
+      ],
+      day
+    );
+
+    expect(allDay.map((t) => t.id)).toEqual(['trip']);
+    expect(blocks.map((b) => [b.task.id, b.startMinutes, b.endMinutes])).toEqual([
+      ['morning', 540, 630],
+      ['late', 1380, 1440],
+    ]);
+  });
+
+  test('puts overlapping tasks side by side', () => {
+    const { blocks } = layoutDayTimeline(
+      [
+        task('a', at(4, 9), at(4, 11)),
+        task('b', at(4, 9, 30), at(4, 10)),
+        task('c', at(4, 10, 30), at(4, 12)),
+        task('d', at(4, 13), at(4, 14)),
+        task('e', at(4, 13, 45), at(4, 13, 50)),
+      ],
+      day
+    );
+    const columns = Object.fromEntries(
+      blocks.map((b) => [b.task.id, `${b.column}/${b.columnCount}`])
+    );
+
+    // c reuses b's column; e is short but drawn at the minimum size
+    expect(columns).toEqual({ a: '0/2', b: '1/2', c: '1/2', d: '0/2', e: '1/2' });
+  });
+
+  test('keeps tasks that do not overlap at full width', () => {
+    const { blocks } = layoutDayTimeline(
+      [task('a', at(4, 9), at(4, 10)), task('b', at(4, 10), at(4, 11))],
+      day
+    );
+
+    expect(blocks.map((b) => b.columnCount)).toEqual([1, 1]);
+  });
+});
+
+describe('getDropStartTime', () => {
+  test('snaps to 15 minutes and keeps the block in the day', () => {
+    expect(getDropStartTime(day, 9 * 60 + 8, 60)).toEqual(new Date(2026, 2, 4, 9, 15));
+    expect(getDropStartTime(day, -40, 60)).toEqual(new Date(2026, 2, 4, 0, 0));
+    expect(getDropStartTime(day, 23 * 60 + 30, 90)).toEqual(new Date(2026, 2, 4, 22, 30));
+  });
+});
+
+describe('getRescheduleUpdates', () => {
+  test('moves the deadline with the start', () => {
+    const original = task('t', at(4, 9), at(4, 10, 30));
+
+    expect(getRescheduleUpdates(original, new Date(2026, 2, 6, 14))).toEqual({
+      dateTime: at(6, 14),
+      deadline: at(6, 15, 30),
+    });
+  });
+});
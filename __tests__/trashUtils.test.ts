@@ -0,0 +1,52 @@
+/**
+ * @format
+ */
+
+import {
+  getActiveTasks,
+  getTrashedTasks,
+  getExpiredTrash,
+  getDaysUntilPurge,
+} from '../src/utils/trashUtils';
+import { Task } from '../src/types';
+import { buildTask } from './fixtures';
+
+const task = (id: string, deletedAt: string | null): Task =>
+  buildTask({
+    id,
+    dateTime: '2026-03-01T09:00:00.000Z',
+    deadline: '2026-03-01T10:00:00.000Z',
+    deletedAt,
+    createdAt: '2026-03-01T00:00:00.000Z',
+    updatedAt: '2026-03-01T00:00:00.000Z',
+  });
+
+const now = new Date('2026-03-31T12:00:00.000Z');
+const tasks = [
+  task('live', null),
+  task('old', '2026-03-01T12:00:00.000Z'),
+  task('recent', '2026-03-30T12:00:00.000Z'),
+];
+
+test('splits live tasks from the trash, most recently deleted first', () => {
+  expect(getActiveTasks(tasks).map((t) => t.id)).toEqual(['live']);
+  expect(getTrashedTasks(tasks).map((t) => t.id)).toEqual(['recent', 'old']);
+});
+
+test('treats tasks stored without deletedAt as live', () => {
+  const legacy: Task = JSON.parse(JSON.stringify({ ...task('legacy', null), deletedAt: undefined }));
+
+  expect(getActiveTasks([legacy, ...tasks]).map((t) => t.id)).toEqual(['legacy', 'live']);
+  expect(getTrashedTasks([legacy, ...tasks]).map((t) => t.id)).toEqual(['recent', 'old']);
+});
+
+test('expires trashed tasks once the retention period has passed', () => {
+  expect(getExpiredTrash(tasks, 30, now).map((t) => t.id)).toEqual(['old']);
+  expect(getExpiredTrash(tasks, 90, now)).toEqual([]);
+  expect(getExpiredTrash(tasks, 1, now).map((t) => t.id)).toEqual(['old', 'recent']);
+});
+
+test('counts whole days left before purge', () => {
+  expect(getDaysUntilPurge(tasks[2], 30, now)).toBe(29);
+  expect(getDaysUntilPurge(tasks[1], 30, now)).toBe(0);
+});
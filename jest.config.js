@@ -1,3 +1,5 @@
 module.exports = {
   preset: 'react-native',
+  // Shared test data, not a suite
+  testPathIgnorePatterns: ['/node_modules/', '<rootDir>/__tests__/fixtures.ts'],
 };
@@ -0,0 +1,73 @@
+/**
+ * Board Settings Storage
+ * 
+ * Persists the user's board layout (grouping and WIP limits) on the device
+ * (AsyncStorage).
+ * 
+ * Storage key: boardSettings:{userId}
+ */
+
+import AsyncStorage from '@react-native-async-storage/async-storage';
+import { BoardSettings } from '../types';
+import { DEFAULT_BOARD_SETTINGS } from '../utils/boardUtils';
+
+const GROUP_BY_VALUES = ['status', 'category', 'priority'];
+
+/**
+ * Get the storage key for a user's board settings
+ * 
+ * @param userId - ID of the authenticated user
+ */
+const storageKey = (userId: string): string => `boardSettings:${userId}`;
+
+/**
+ * Check that a stored value is a known grouping with positive whole limits
+ * 
+ * @param value - Parsed stored value
+ */
+const isBoardSettings = (value: unknown): value is BoardSettings =>
+  typeof value === 'object' &&
+  value !== null &&
+  'groupBy' in value &&
+  'wipLimits' in value &&
+  typeof value.groupBy === 'string' &&
+  GROUP_BY_VALUES.includes(value.groupBy) &&
+  typeof value.wipLimits === 'object' &&
+  value.wipLimits !== null &&
+  Object.values(value.wipLimits).every(
+    (limit) => typeof limit === 'number' && Number.isInteger(limit) && limit > 0
+  );
+
+/**
+ * Load a user's board settings
+ * 
+ * @param userId - ID of the authenticated user
+ * @returns Promise resolving to the stored settings (the default if none or unreadable)
+ */
+export const loadBoardSettings = async (userId: string): Promise<BoardSettings> => {
+  try {
+    const stored = await AsyncStorage.getItem(storageKey(userId));
+    const settings = stored ? JSON.parse(stored) : null;
+    return isBoardSettings(settings)
+      ? { groupBy: settings.groupBy, wipLimits: settings.wipLimits }
+      : DEFAULT_BOARD_SETTINGS;
+  } catch (error: any) {
+    console.error('Error loading board settings:', error);
+    return DEFAULT_BOARD_SETTINGS;
+  }
+};
+
+/**
+ * Save a user's board settings
+ * 
+ * @param userId - ID of the authenticated user
+ * @param settings - Grouping and WIP limits
+ * @returns Promise that resolves once the settings are stored
+ */
+export const saveBoardSettings = async (userId: string, settings: BoardSettings): Promise<void> => {
+  try {
+    await AsyncStorage.setItem(storageKey(userId), JSON.stringify(settings));
+  } catch (error: any) {
+    console.error('Error saving board settings:', error);
+  }
+};
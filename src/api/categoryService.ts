@@ -0,0 +1,198 @@
+/**
+ * Firestore Category Service
+ * 
+ * Provides CRUD operations and real-time synchronization for user-defined categories.
+ * 
+ * Collection structure: /users/{userId}/categories/{categoryId}
+ * 
+ * Categories live in a per-user subcollection (unlike tasks) so the default
+ * categories can use fixed document IDs ('work', 'personal', ...) for every user.
+ * That keeps tasks created before custom categories existed valid without
+ * rewriting them.
+ */
+
+import firestore from '@react-native-firebase/firestore';
+import { UserCategory, CreateCategoryPayload } from '../types';
+import { DEFAULT_CATEGORIES } from '../utils/categoryUtils';
+
+/**
+ * Get the categories subcollection for a user
+ * 
+ * @param userId - ID of the authenticated user
+ */
+const categoriesCollection = (userId: string) =>
+  firestore().collection('users').doc(userId).collection('categories');
+
+/**
+ * Seed the default categories for a user who has none yet
+ * 
+ * Migration for accounts created before custom categories existed: the four
+ * built-in categories are written with their enum values as document IDs.
+ * 
+ * Reads from the server (not the local cache) so an offline first launch never
+ * overwrites categories the user already customized on another device.
+ * 
+ * @param userId - ID of the authenticated user
+ * @returns Promise that resolves once defaults exist (or were already present)
+ * @throws Error if the server cannot be reached
+ */
+export const ensureDefaultCategories = async (userId: string): Promise<void> => {
+  const collection = categoriesCollection(userId);
+  const snapshot = await collection.limit(1).get({ source: 'server' });
+  
+  if (!snapshot.empty) {
+    return;
+  }
+  
+  const now = new Date().toISOString();
+  const batch = firestore().batch();
+  
+  Object.entries(DEFAULT_CATEGORIES).forEach(([id, category]) => {
+    batch.set(collection.doc(id), {
+      ...category,
+      createdAt: now,
+      updatedAt: now,
+    });
+  });
+  
+  await batch.commit();
+};
+
+/**
+ * Add a new category
+ * 
+ * @param categoryData - Category data without auto-generated fields
+ * @param userId - ID of the authenticated user
+ * @returns Promise resolving to the created category with ID
+ */
+export const addCategory = async (
+  categoryData: CreateCategoryPayload,
+  userId: string
+): Promise<UserCategory> => {
+  const now = new Date().toISOString();
+  
+  // Generate document ID locally (instant, no server round-trip)
+  const docRef = categoriesCollection(userId).doc();
+  
+  const categoryDoc = {
+    ...categoryData,
+    createdAt: now,
+    updatedAt: now,
+  };
+  
+  // Fire-and-forget: written to local cache immediately, listener handles sync
+  docRef.set(categoryDoc).catch((error: any) => {
+    console.error('Error adding category:', error);
+  });
+  
+  return {
+    id: docRef.id,
+    ...categoryDoc,
+  };
+};
+
+/**
+ * Update an existing category (partial update)
+ * 
+ * @param userId - ID of the authenticated user
+ * @param categoryId - ID of the category to update
+ * @param updates - Fields to change
+ * @returns Promise that resolves once the write is queued
+ * 
+ * Example:
+ * ```ts
+ * await updateCategory(user.uid, 'work', { name: 'Office', color: '#3F51B5' });
+ * ```
+ */
+export const updateCategory = async (
+  userId: string,
+  categoryId: string,
+  updates: Partial<CreateCategoryPayload>
+): Promise<void> => {
+  categoriesCollection(userId)
+    .doc(categoryId)
+    .update({
+      ...updates,
+      updatedAt: new Date().toISOString(),
+    })
+    .catch((error: any) => {
+      console.error('Error updating category:', error);
+    });
+};
+
+/**
+ * Delete a category
+ * 
+ * Does not touch tasks - reassign them first with TaskProvider's reassignTasksCategory.
+ * 
+ * @param userId - ID of the authenticated user
+ * @param categoryId - ID of the category to delete
+ * @returns Promise that resolves once the delete is queued
+ */
+export const deleteCategory = async (
+  userId: string,
+  categoryId: string
+): Promise<void> => {
+  categoriesCollection(userId)
+    .doc(categoryId)
+    .delete()
+    .catch((error: any) => {
+      console.error('Error deleting category:', error);
+    });
+};
+
+/**
+ * Subscribe to real-time updates for a user's categories
+ * 
+ * The callback receives the complete list, sorted by display order.
+ * 
+ * @param userId - ID of the authenticated user
+ * @param onCategoriesUpdate - Callback that receives the updated category list
+ * @param onError - Optional callback for handling errors
+ * @returns Unsubscribe function to stop listening
+ */
+export const subscribeToUserCategories = (
+  userId: string,
+  onCategoriesUpdate: (categories: UserCategory[]) => void,
+  onError?: (error: Error) => void
+): (() => void) => {
+  return categoriesCollection(userId)
+    .orderBy('order', 'asc')
+    .onSnapshot(
+      (snapshot) => {
+        const categories: UserCategory[] = snapshot.docs.map((doc) => {
+          const data = doc.data();
+          return {
+            id: doc.id,
+            name: data.name,
+            color: data.color,
+            icon: data.icon,
+            order: data.order,
+            createdAt: data.createdAt,
+            updatedAt: data.updatedAt,
+          };
+        });
+        
+        onCategoriesUpdate(categories);
+      },
+      (error: any) => {
+        console.error('Error in category subscription:', error);
+        
+        let errorMessage = 'Failed to sync categories.';
+        
+        if (error.code === 'permission-denied') {
+          errorMessage = 'Permission denied. Please sign in again.';
+        } else if (error.code === 'unavailable') {
+          errorMessage = 'Network error. Categories will sync when connection is restored.';
+        }
+        
+        const processedError = new Error(errorMessage);
+        
+        if (onError) {
+          onError(processedError);
+        } else {
+          console.error('Category subscription error:', processedError);
+        }
+      }
+    );
+};
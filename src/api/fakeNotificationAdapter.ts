@@ -0,0 +1,56 @@
+/**
+ * Fake Notification Adapter
+ * 
+ * In-memory NotificationAdapter for Jest: nothing is shown, scheduled
+ * notifications are kept in a map that tests can inspect through
+ * getScheduled.
+ * 
+ * Usage:
+ * ```ts
+ * const notifications = createFakeNotificationAdapter();
+ * // <TaskProvider repository={repository} notifications={notifications}>
+ * await notifications.getScheduled(); // [{ id: 'abc:deadline:60', ... }]
+ * 
+ * // Permission denied
+ * const denied = createFakeNotificationAdapter({ permission: false });
+ * ```
+ */
+
+import { NotificationAdapter } from './notificationAdapter';
+import { ScheduledNotification } from '../types';
+
+interface FakeNotificationAdapterOptions {
+  /** Whether requestPermission grants permission (default true) */
+  permission?: boolean;
+}
+
+/**
+ * Create an in-memory notification adapter
+ * 
+ * @param options - Fake permission answer
+ * @returns Adapter whose getScheduled lists what is scheduled, soonest first
+ */
+export const createFakeNotificationAdapter = ({
+  permission = true,
+}: FakeNotificationAdapterOptions = {}): NotificationAdapter => {
+  const scheduled = new Map<string, ScheduledNotification>();
+  
+  return {
+    requestPermission: async (): Promise<boolean> => permission,
+    
+    schedule: async (notification: ScheduledNotification): Promise<void> => {
+      if (!permission) {
+        throw new Error('Notification permission denied');
+      }
+      scheduled.set(notification.id, notification);
+    },
+    
+    cancel: async (ids: string[]): Promise<void> => {
+      ids.forEach((id) => scheduled.delete(id));
+    },
+    
+    getScheduled: async (): Promise<ScheduledNotification[]> => {
+      return [...scheduled.values()].sort((a, b) => a.fireAt.localeCompare(b.fireAt));
+    },
+  };
+};
@@ -0,0 +1,35 @@
+/**
+ * Firestore Task Repository
+ * 
+ * TaskRepository backed by Firestore (cloud sync). Thin adapter over the
+ * functions in taskService.ts.
+ */
+
+import { TaskRepository } from './taskRepository';
+import {
+  buildTask,
+  addTask,
+  updateTask,
+  deleteTask,
+  getTask,
+  getTaskHistory,
+  getTasksInCategory,
+  getTasksInList,
+  getListTaskCounts,
+  assignTasksToDefaultList,
+  subscribeToUserTasks,
+} from './taskService';
+
+export const firestoreTaskRepository: TaskRepository = {
+  buildTask,
+  add: addTask,
+  update: updateTask,
+  delete: deleteTask,
+  get: getTask,
+  getHistory: getTaskHistory,
+  getTasksInCategory,
+  getTasksInList,
+  getListTaskCounts,
+  assignTasksToDefaultList,
+  subscribe: subscribeToUserTasks,
+};
@@ -0,0 +1,188 @@
+/**
+ * Firestore Task List Service
+ * 
+ * Provides CRUD operations and real-time synchronization for task lists (projects).
+ * 
+ * Collection structure: /users/{userId}/lists/{listId}
+ * 
+ * Tasks reference their list through Task.listId. The default list uses the
+ * fixed ID 'inbox' for every user.
+ */
+
+import firestore from '@react-native-firebase/firestore';
+import { TaskList, CreateTaskListPayload } from '../types';
+import { DEFAULT_LIST, DEFAULT_LIST_ID } from '../utils/listUtils';
+import { TaskRepository } from './taskRepository';
+
+/**
+ * Get the lists subcollection for a user
+ * 
+ * @param userId - ID of the authenticated user
+ */
+const listsCollection = (userId: string) =>
+  firestore().collection('users').doc(userId).collection('lists');
+
+/**
+ * Create the default list for a user who has none yet
+ * 
+ * Migration for accounts created before lists existed: tasks without a listId
+ * are moved into the default list first, then the list itself is written. If
+ * the migration is interrupted it simply runs again on the next launch.
+ * 
+ * Reads from the server (not the local cache) so an offline first launch never
+ * overwrites lists created on another device.
+ * 
+ * @param userId - ID of the authenticated user
+ * @param repository - Task storage backend holding the legacy tasks
+ * @returns Promise that resolves once the default list exists
+ * @throws Error if the server cannot be reached
+ */
+export const ensureDefaultList = async (
+  userId: string,
+  repository: TaskRepository
+): Promise<void> => {
+  const collection = listsCollection(userId);
+  const snapshot = await collection.limit(1).get({ source: 'server' });
+  
+  if (!snapshot.empty) {
+    return;
+  }
+  
+  await repository.assignTasksToDefaultList(userId);
+  
+  const now = new Date().toISOString();
+  await collection.doc(DEFAULT_LIST_ID).set({
+    ...DEFAULT_LIST,
+    createdAt: now,
+    updatedAt: now,
+  });
+};
+
+/**
+ * Add a new list
+ * 
+ * @param listData - List data without auto-generated fields
+ * @param userId - ID of the authenticated user
+ * @returns Promise resolving to the created list with ID
+ */
+export const addList = async (
+  listData: CreateTaskListPayload,
+  userId: string
+): Promise<TaskList> => {
+  const now = new Date().toISOString();
+  
+  // Generate document ID locally (instant, no server round-trip)
+  const docRef = listsCollection(userId).doc();
+  
+  const listDoc = {
+    ...listData,
+    createdAt: now,
+    updatedAt: now,
+  };
+  
+  // Fire-and-forget: written to local cache immediately, listener handles sync
+  docRef.set(listDoc).catch((error: any) => {
+    console.error('Error adding list:', error);
+  });
+  
+  return {
+    id: docRef.id,
+    ...listDoc,
+  };
+};
+
+/**
+ * Update an existing list (partial update)
+ * 
+ * @param userId - ID of the authenticated user
+ * @param listId - ID of the list to update
+ * @param updates - Fields to change
+ * @returns Promise that resolves once the write is queued
+ */
+export const updateList = async (
+  userId: string,
+  listId: string,
+  updates: Partial<CreateTaskListPayload>
+): Promise<void> => {
+  listsCollection(userId)
+    .doc(listId)
+    .update({
+      ...updates,
+      updatedAt: new Date().toISOString(),
+    })
+    .catch((error: any) => {
+      console.error('Error updating list:', error);
+    });
+};
+
+/**
+ * Delete a list
+ * 
+ * Does not touch tasks - move them first with TaskProvider's moveTasksToList.
+ * 
+ * @param userId - ID of the authenticated user
+ * @param listId - ID of the list to delete
+ * @returns Promise that resolves once the delete is queued
+ */
+export const deleteList = async (userId: string, listId: string): Promise<void> => {
+  listsCollection(userId)
+    .doc(listId)
+    .delete()
+    .catch((error: any) => {
+      console.error('Error deleting list:', error);
+    });
+};
+
+/**
+ * Subscribe to real-time updates for a user's lists
+ * 
+ * The callback receives the complete list, sorted by display order.
+ * 
+ * @param userId - ID of the authenticated user
+ * @param onListsUpdate - Callback that receives the updated lists
+ * @param onError - Optional callback for handling errors
+ * @returns Unsubscribe function to stop listening
+ */
+export const subscribeToUserLists = (
+  userId: string,
+  onListsUpdate: (lists: TaskList[]) => void,
+  onError?: (error: Error) => void
+): (() => void) => {
+  return listsCollection(userId)
+    .orderBy('order', 'asc')
+    .onSnapshot(
+      (snapshot) => {
+        const lists: TaskList[] = snapshot.docs.map((doc) => {
+          const data = doc.data();
+          return {
+            id: doc.id,
+            name: data.name,
+            order: data.order,
+            createdAt: data.createdAt,
+            updatedAt: data.updatedAt,
+          };
+        });
+        
+        onListsUpdate(lists);
+      },
+      (error: any) => {
+        console.error('Error in list subscription:', error);
+        
+        let errorMessage = 'Failed to sync lists.';
+        
+        if (error.code === 'permission-denied') {
+          errorMessage = 'Permission denied. Please sign in again.';
+        } else if (error.code === 'unavailable') {
+          errorMessage = 'Network error. Lists will sync when connection is restored.';
+        }
+        
+        const processedError = new Error(errorMessage);
+        
+        if (onError) {
+          onError(processedError);
+        } else {
+          console.error('List subscription error:', processedError);
+        }
+      }
+    );
+};
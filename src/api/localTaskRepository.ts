@@ -0,0 +1,281 @@
+/**
+ * Local Task Repository
+ * 
+ * TaskRepository that keeps tasks on the device instead of Firestore.
+ * 
+ * Features:
+ * - Fully functional in memory (used by Jest tests)
+ * - Optional persistence to any AsyncStorage-compatible store (local-only mode)
+ * - Subscribers are notified synchronously on every write, like Firestore's
+ *   local cache, with only the tasks that changed for them
+ * - Change history kept per task (persisted under `{storageKey}:history`)
+ * - Same error messages as the Firestore service for missing tasks
+ * 
+ * Usage:
+ * ```ts
+ * // Tests
+ * const repository = createLocalTaskRepository();
+ * 
+ * // Local-only mode
+ * const repository = createLocalTaskRepository({ storage: AsyncStorage });
+ * ```
+ */
+
+import { TaskRepository } from './taskRepository';
+import { Task, CreateTaskPayload, TaskChange, TaskSnapshot, AuditEntry } from '../types';
+import { sortAuditEntries } from '../utils/auditUtils';
+import { DEFAULT_LIST_ID } from '../utils/listUtils';
+import { getInitialManualOrder } from '../utils/orderUtils';
+import { getStatusForCompletion, migrateTaskStatus } from '../utils/statusUtils';
+import { isTrashed } from '../utils/trashUtils';
+import { generateId } from '../utils/idUtils';
+
+/**
+ * Minimal key-value store interface (satisfied by AsyncStorage)
+ */
+export interface KeyValueStorage {
+  getItem: (key: string) => Promise<string | null>;
+  setItem: (key: string, value: string) => Promise<void>;
+}
+
+interface LocalTaskRepositoryOptions {
+  /** Store to persist tasks in (omit for memory only) */
+  storage?: KeyValueStorage;
+  
+  /** Key the tasks are stored under */
+  storageKey?: string;
+  
+  /** Tasks to start with (memory only; ignored once storage has data) */
+  initialTasks?: Task[];
+}
+
+/**
+ * Create a local task repository
+ * 
+ * @param options - Optional storage, storage key and initial tasks
+ * @returns Repository instance (each call has its own tasks)
+ */
+export const createLocalTaskRepository = (
+  options: LocalTaskRepositoryOptions = {}
+): TaskRepository => {
+  const { storage, storageKey = 'localTasks', initialTasks = [] } = options;
+  
+  const tasks = new Map<string, Task>(initialTasks.map((task) => [task.id, task]));
+  const history = new Map<string, AuditEntry[]>();
+  const listeners = new Set<() => void>();
+  const historyKey = `${storageKey}:history`;
+  
+  // Load stored tasks and history once; every operation waits for this
+  const ready: Promise<void> = storage
+    ? Promise.all([storage.getItem(storageKey), storage.getItem(historyKey)])
+        .then(([stored, storedHistory]) => {
+          if (stored) {
+            tasks.clear();
+            // Tasks saved before the trash, statuses, manual order, dependencies or
+            // reminders existed
+            (JSON.parse(stored) as Task[]).forEach((task) =>
+              tasks.set(task.id, {
+                ...task,
+                status: migrateTaskStatus(task.status, task.completed),
+                blockedBy: task.blockedBy ?? [],
+                reminders: task.reminders ?? [],
+                deletedAt: task.deletedAt ?? null,
+                pinned: task.pinned ?? false,
+                manualOrder: task.manualOrder ?? getInitialManualOrder(task.createdAt),
+              })
+            );
+          }
+          if (storedHistory) {
+            Object.entries(JSON.parse(storedHistory) as Record<string, AuditEntry[]>).forEach(
+              ([taskId, entries]) => history.set(taskId, entries)
+            );
+          }
+        })
+        .catch((error: any) => {
+          console.error('Error loading local tasks:', error);
+        })
+    : Promise.resolve();
+  
+  /**
+   * Notify subscribers, then persist
+   */
+  const commit = async (): Promise<void> => {
+    listeners.forEach((listener) => listener());
+    
+    if (storage) {
+      await storage.setItem(storageKey, JSON.stringify([...tasks.values()]));
+      await storage.setItem(historyKey, JSON.stringify(Object.fromEntries(history)));
+    }
+  };
+  
+  return {
+    buildTask: (taskData: CreateTaskPayload, userId: string): Task => {
+      const now = new Date().toISOString();
+      return {
+        ...taskData,
+        id: generateId(),
+        userId,
+        status: getStatusForCompletion(taskData.completed),
+        blockedBy: [],
+        deletedAt: null,
+        pinned: false,
+        manualOrder: getInitialManualOrder(now),
+        createdAt: now,
+        updatedAt: now,
+      };
+    },
+    
+    add: async (task: Task): Promise<void> => {
+      await ready;
+      tasks.set(task.id, task);
+      await commit();
+    },
+    
+    update: async (
+      taskId: string,
+      updates: Partial<Task>,
+      audit: AuditEntry[] = []
+    ): Promise<void> => {
+      await ready;
+      const existing = tasks.get(taskId);
+      if (!existing) {
+        throw new Error('This task no longer exists.');
+      }
+      
+      tasks.set(taskId, {
+        ...existing,
+        ...updates,
+        id: taskId,
+        updatedAt: new Date().toISOString(),
+      });
+      if (audit.length > 0) {
+        history.set(taskId, [...(history.get(taskId) ?? []), ...audit]);
+      }
+      await commit();
+    },
+    
+    delete: async (taskId: string): Promise<void> => {
+      await ready;
+      tasks.delete(taskId);
+      history.delete(taskId);
+      await commit();
+    },
+    
+    get: async (taskId: string): Promise<Task | null> => {
+      await ready;
+      return tasks.get(taskId) ?? null;
+    },
+    
+    getHistory: async (taskId: string): Promise<AuditEntry[]> => {
+      await ready;
+      return sortAuditEntries(history.get(taskId) ?? []);
+    },
+    
+    getTasksInCategory: async (userId: string, categoryId: string): Promise<Task[]> => {
+      await ready;
+      return [...tasks.values()].filter(
+        (task) => task.userId === userId && task.category === categoryId
+      );
+    },
+    
+    getTasksInList: async (userId: string, listId: string): Promise<Task[]> => {
+      await ready;
+      return [...tasks.values()].filter(
+        (task) => task.userId === userId && task.listId === listId
+      );
+    },
+    
+    getListTaskCounts: async (
+      userId: string,
+      listIds: string[]
+    ): Promise<Record<string, number>> => {
+      await ready;
+      const counts: Record<string, number> = {};
+      listIds.forEach((listId) => {
+        counts[listId] = 0;
+      });
+      tasks.forEach((task) => {
+        if (task.userId === userId && task.listId in counts && !isTrashed(task)) {
+          counts[task.listId] += 1;
+        }
+      });
+      return counts;
+    },
+    
+    assignTasksToDefaultList: async (userId: string): Promise<number> => {
+      await ready;
+      const legacy = [...tasks.values()].filter(
+        (task) => task.userId === userId && task.listId === undefined
+      );
+      if (legacy.length === 0) {
+        return 0;
+      }
+      
+      legacy.forEach((task) => tasks.set(task.id, { ...task, listId: DEFAULT_LIST_ID }));
+      await commit();
+      return legacy.length;
+    },
+    
+    subscribe: (
+      userId: string,
+      onTasksChange: (snapshot: TaskSnapshot) => void,
+      _onError?: (error: Error) => void,
+      listId: string | null = null
+    ): (() => void) => {
+      let active = true;
+      let initial = true;
+      
+      // Tasks this subscriber has been sent, to report only what changed
+      let sent = new Map<string, Task>();
+      
+      const matches = (task: Task): boolean =>
+        task.userId === userId && (!listId || task.listId === listId);
+      
+      const emit = () => {
+        if (!active) {
+          return;
+        }
+        
+        const visible = new Map<string, Task>();
+        const changes: TaskChange[] = [];
+        
+        tasks.forEach((task) => {
+          if (!matches(task)) {
+            return;
+          }
+          visible.set(task.id, task);
+          
+          const previous = sent.get(task.id);
+          if (!previous) {
+            changes.push({ type: 'added', task });
+          } else if (previous !== task) {
+            changes.push({ type: 'modified', task });
+          }
+        });
+        
+        sent.forEach((task, taskId) => {
+          if (!visible.has(taskId)) {
+            changes.push({ type: 'removed', task });
+          }
+        });
+        
+        sent = visible;
+        
+        if (initial || changes.length > 0) {
+          initial = false;
+          
+          // The device is the source of truth: nothing is ever unconfirmed
+          onTasksChange({ changes, metadata: { hasPendingWrites: false, fromCache: false } });
+        }
+      };
+      
+      listeners.add(emit);
+      ready.then(emit);
+      
+      return () => {
+        active = false;
+        listeners.delete(emit);
+      };
+    },
+  };
+};
@@ -0,0 +1,78 @@
+/**
+ * Notifee Notification Adapter
+ * 
+ * NotificationAdapter backed by Notifee timestamp triggers (local
+ * notifications shown by the OS, even when the app is closed).
+ * 
+ * The task ID, list ID and fire time are stored in the notification data, so
+ * getScheduled can rebuild what was scheduled in an earlier session.
+ * On Android, reminders are posted to their own "Reminders" channel.
+ */
+
+import { Platform } from 'react-native';
+import notifee, { AndroidImportance, AuthorizationStatus, TriggerType } from '@notifee/react-native';
+import { NotificationAdapter } from './notificationAdapter';
+import { ScheduledNotification } from '../types';
+
+const CHANNEL_ID = 'reminders';
+
+/**
+ * Create the Android channel (no-op when it exists, and on iOS)
+ */
+const ensureChannel = async (): Promise<void> => {
+  if (Platform.OS === 'android') {
+    await notifee.createChannel({
+      id: CHANNEL_ID,
+      name: 'Reminders',
+      importance: AndroidImportance.HIGH,
+    });
+  }
+};
+
+export const notifeeNotificationAdapter: NotificationAdapter = {
+  requestPermission: async (): Promise<boolean> => {
+    const settings = await notifee.requestPermission();
+    await ensureChannel();
+    return settings.authorizationStatus >= AuthorizationStatus.AUTHORIZED;
+  },
+  
+  schedule: async (notification: ScheduledNotification): Promise<void> => {
+    await notifee.createTriggerNotification(
+      {
+        id: notification.id,
+        title: notification.title,
+        body: notification.body,
+        data: {
+          taskId: notification.taskId,
+          listId: notification.listId,
+          fireAt: notification.fireAt,
+        },
+        android: { channelId: CHANNEL_ID, pressAction: { id: 'default' } },
+      },
+      { type: TriggerType.TIMESTAMP, timestamp: new Date(notification.fireAt).getTime() }
+    );
+  },
+  
+  cancel: async (ids: string[]): Promise<void> => {
+    if (ids.length > 0) {
+      await notifee.cancelTriggerNotifications(ids);
+    }
+  },
+  
+  getScheduled: async (): Promise<ScheduledNotification[]> => {
+    const triggers = await notifee.getTriggerNotifications();
+    
+    // Skip trigger notifications that were not scheduled for a task
+    return triggers
+      .map(({ notification }) => notification)
+      .filter((notification) => notification.id && typeof notification.data?.taskId === 'string')
+      .map((notification) => ({
+        id: notification.id as string,
+        taskId: String(notification.data?.taskId),
+        listId: String(notification.data?.listId),
+        title: notification.title ?? '',
+        body: notification.body ?? '',
+        fireAt: String(notification.data?.fireAt),
+      }));
+  },
+};
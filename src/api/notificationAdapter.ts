@@ -0,0 +1,36 @@
+/**
+ * Notification Adapter
+ * 
+ * Local notification backend used by the reminder scheduler. TaskProvider
+ * receives one at construction, so task logic does not depend on a native
+ * notification module.
+ * 
+ * Implementations:
+ * - notifeeNotificationAdapter: device notifications via Notifee (default in
+ *   the app)
+ * - createFakeNotificationAdapter: in-memory (Jest)
+ * 
+ * This file only holds the contract; it must not import an implementation.
+ */
+
+import { ScheduledNotification } from '../types';
+
+/**
+ * Contract every local notification backend implements
+ * 
+ * Notifications are identified by ScheduledNotification.id: scheduling an ID
+ * that is already scheduled replaces it.
+ */
+export interface NotificationAdapter {
+  /** Ask the user for permission to show notifications (resolves to whether it was granted) */
+  requestPermission: () => Promise<boolean>;
+  
+  /** Schedule a notification, replacing any scheduled with the same ID */
+  schedule: (notification: ScheduledNotification) => Promise<void>;
+  
+  /** Cancel scheduled notifications (unknown IDs are ignored) */
+  cancel: (ids: string[]) => Promise<void>;
+  
+  /** Get every notification scheduled by the app that has not fired yet */
+  getScheduled: () => Promise<ScheduledNotification[]>;
+}
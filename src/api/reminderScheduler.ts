@@ -0,0 +1,94 @@
+/**
+ * Reminder Scheduler
+ * 
+ * Keeps the device's local notifications in step with the loaded tasks.
+ * TaskProvider calls reconcile after every task change; it schedules the
+ * reminders that are missing or changed and cancels the ones no longer
+ * pending (task completed, trashed, deleted or its reminder removed).
+ * 
+ * Features:
+ * - Runs one at a time, in call order (a reconcile never races another)
+ * - Only touches notifications of the loaded list, so switching lists keeps
+ *   the reminders of the others
+ * - Asks for notification permission once, the first time a reminder has to
+ *   be scheduled; without it, nothing is scheduled
+ * - Errors are logged, never thrown (reminders are best effort)
+ * 
+ * A task moved to another list loses its reminders until that list is loaded.
+ * 
+ * Usage:
+ * ```ts
+ * const scheduler = createReminderScheduler(notifeeNotificationAdapter);
+ * scheduler.reconcile(state.tasks, activeListId);
+ * scheduler.cancelAll(); // on logout
+ * ```
+ */
+
+import { NotificationAdapter } from './notificationAdapter';
+import { Task } from '../types';
+import { diffNotifications, getPendingNotifications } from '../utils/reminderUtils';
+
+export interface ReminderScheduler {
+  /**
+   * Schedule and cancel notifications so they match the tasks' reminders
+   * @param tasks - Loaded tasks (trash included)
+   * @param listId - List the tasks were loaded for (null = all lists)
+   */
+  reconcile: (tasks: Task[], listId: string | null) => Promise<void>;
+  
+  /** Cancel every scheduled reminder (e.g., on logout) */
+  cancelAll: () => Promise<void>;
+}
+
+/**
+ * Create a reminder scheduler
+ * 
+ * @param adapter - Local notification backend
+ * @returns Scheduler (keep one per adapter - runs are queued per scheduler)
+ */
+export const createReminderScheduler = (adapter: NotificationAdapter): ReminderScheduler => {
+  let queue: Promise<void> = Promise.resolve();
+  let permission: Promise<boolean> | null = null;
+  
+  /**
+   * Run a job after the previous ones, logging its errors
+   */
+  const enqueue = (job: () => Promise<void>): Promise<void> => {
+    queue = queue.then(job).catch((error: any) => {
+      console.error('Error scheduling reminders:', error);
+    });
+    return queue;
+  };
+  
+  return {
+    reconcile: (tasks: Task[], listId: string | null): Promise<void> =>
+      enqueue(async () => {
+        const pending = getPendingNotifications(tasks);
+        if (pending.length > 0 && !permission) {
+          permission = adapter.requestPermission().catch((error: any) => {
+            console.error('Error requesting notification permission:', error);
+            return false;
+          });
+        }
+        const granted = permission ? await permission : false;
+        
+        const scheduled = await adapter.getScheduled();
+        const { toSchedule, toCancel } = diffNotifications(
+          scheduled,
+          granted ? pending : [],
+          listId
+        );
+        
+        await adapter.cancel(toCancel);
+        for (const notification of toSchedule) {
+          await adapter.schedule(notification);
+        }
+      }),
+    
+    cancelAll: (): Promise<void> =>
+      enqueue(async () => {
+        const scheduled = await adapter.getScheduled();
+        await adapter.cancel(scheduled.map((notification) => notification.id));
+      }),
+  };
+};
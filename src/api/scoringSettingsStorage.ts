@@ -0,0 +1,82 @@
+/**
+ * Scoring Settings Storage
+ * 
+ * Persists the user's smart sort weights and thresholds on the device
+ * (AsyncStorage).
+ * 
+ * Storage key: scoringConfig:{userId}
+ */
+
+import AsyncStorage from '@react-native-async-storage/async-storage';
+import { Priority, ScoringConfig } from '../types';
+import { DEFAULT_SCORING_CONFIG } from '../utils/taskUtils';
+import { validateScoringConfig } from '../utils/validators';
+
+/**
+ * Get the storage key for a user's scoring config
+ * 
+ * @param userId - ID of the authenticated user
+ */
+const storageKey = (userId: string): string => `scoringConfig:${userId}`;
+
+/**
+ * Check that a stored value has the shape and ranges of a scoring config
+ * 
+ * @param value - Parsed stored value
+ */
+const isScoringConfig = (value: unknown): value is ScoringConfig => {
+  if (
+    typeof value !== 'object' ||
+    value === null ||
+    !('priorityWeights' in value) ||
+    !('urgencyThresholds' in value)
+  ) {
+    return false;
+  }
+  
+  const { priorityWeights, urgencyThresholds } = value;
+  if (typeof priorityWeights !== 'object' || priorityWeights === null) {
+    return false;
+  }
+  
+  const weights = priorityWeights as Record<string, unknown>;
+  return (
+    Object.values(Priority).every((p) => typeof weights[p] === 'number') &&
+    Array.isArray(urgencyThresholds) &&
+    urgencyThresholds.every((t: unknown) => typeof t === 'object' && t !== null) &&
+    // Checks the remaining numbers (missing ones are not numbers)
+    validateScoringConfig(value as ScoringConfig) === null
+  );
+};
+
+/**
+ * Load a user's scoring config
+ * 
+ * @param userId - ID of the authenticated user
+ * @returns Promise resolving to the stored config (the default if none or unreadable)
+ */
+export const loadScoringConfig = async (userId: string): Promise<ScoringConfig> => {
+  try {
+    const stored = await AsyncStorage.getItem(storageKey(userId));
+    const config = stored ? JSON.parse(stored) : null;
+    return isScoringConfig(config) ? config : DEFAULT_SCORING_CONFIG;
+  } catch (error: any) {
+    console.error('Error loading scoring config:', error);
+    return DEFAULT_SCORING_CONFIG;
+  }
+};
+
+/**
+ * Save a user's scoring config
+ * 
+ * @param userId - ID of the authenticated user
+ * @param config - Smart sort weights and thresholds
+ * @returns Promise that resolves once the config is stored
+ */
+export const saveScoringConfig = async (userId: string, config: ScoringConfig): Promise<void> => {
+  try {
+    await AsyncStorage.setItem(storageKey(userId), JSON.stringify(config));
+  } catch (error: any) {
+    console.error('Error saving scoring config:', error);
+  }
+};
@@ -0,0 +1,65 @@
+/**
+ * Sort Settings Storage
+ * 
+ * Persists the user's task list sort order (mode and direction) on the
+ * device (AsyncStorage).
+ * 
+ * Storage key: taskSort:{userId}
+ */
+
+import AsyncStorage from '@react-native-async-storage/async-storage';
+import { TaskSort } from '../types';
+import { DEFAULT_SORT_DIRECTIONS, DEFAULT_TASK_SORT } from '../utils/taskUtils';
+
+/**
+ * Get the storage key for a user's sort order
+ * 
+ * @param userId - ID of the authenticated user
+ */
+const storageKey = (userId: string): string => `taskSort:${userId}`;
+
+/**
+ * Check that a stored value is a known sort mode and direction
+ * 
+ * @param value - Parsed stored value
+ */
+const isTaskSort = (value: unknown): value is TaskSort =>
+  typeof value === 'object' &&
+  value !== null &&
+  'mode' in value &&
+  'direction' in value &&
+  typeof value.mode === 'string' &&
+  Object.prototype.hasOwnProperty.call(DEFAULT_SORT_DIRECTIONS, value.mode) &&
+  (value.direction === 'asc' || value.direction === 'desc');
+
+/**
+ * Load a user's sort order
+ * 
+ * @param userId - ID of the authenticated user
+ * @returns Promise resolving to the stored order (the smart default if none or unreadable)
+ */
+export const loadTaskSort = async (userId: string): Promise<TaskSort> => {
+  try {
+    const stored = await AsyncStorage.getItem(storageKey(userId));
+    const sort = stored ? JSON.parse(stored) : null;
+    return isTaskSort(sort) ? { mode: sort.mode, direction: sort.direction } : DEFAULT_TASK_SORT;
+  } catch (error: any) {
+    console.error('Error loading sort order:', error);
+    return DEFAULT_TASK_SORT;
+  }
+};
+
+/**
+ * Save a user's sort order
+ * 
+ * @param userId - ID of the authenticated user
+ * @param sort - Sort mode and direction
+ * @returns Promise that resolves once the order is stored
+ */
+export const saveTaskSort = async (userId: string, sort: TaskSort): Promise<void> => {
+  try {
+    await AsyncStorage.setItem(storageKey(userId), JSON.stringify(sort));
+  } catch (error: any) {
+    console.error('Error saving sort order:', error);
+  }
+};
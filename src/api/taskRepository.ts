@@ -0,0 +1,98 @@
+/**
+ * Task Repository
+ * 
+ * Storage backend used by TaskContext. TaskProvider receives one at
+ * construction, so task logic does not depend on native Firebase.
+ * 
+ * Implementations:
+ * - firestoreTaskRepository: cloud sync via Firestore (default in the app)
+ * - createLocalTaskRepository: in-memory, optionally persisted to
+ *   AsyncStorage (local-only mode, Jest)
+ * 
+ * This file only holds the contract and backend-independent helpers; it must
+ * not import an implementation.
+ */
+
+import { Task, CreateTaskPayload, PendingWrite, TaskSnapshot, AuditEntry } from '../types';
+
+/**
+ * Contract every task storage backend implements
+ * 
+ * Write promises settle once the backend accepts or rejects the write;
+ * subscribers must see the change before that (optimistic, like Firestore's
+ * local cache).
+ */
+export interface TaskRepository {
+  /** Build a new task with its auto-generated fields (ID, userId, timestamps) - no write */
+  buildTask: (taskData: CreateTaskPayload, userId: string) => Task;
+  
+  /** Store a task built with buildTask */
+  add: (task: Task) => Promise<void>;
+  
+  /**
+   * Partially update a task (updatedAt is set automatically)
+   * Audit entries are stored in the task's change history in the same write.
+   */
+  update: (taskId: string, updates: Partial<Task>, audit?: AuditEntry[]) => Promise<void>;
+  
+  /** Delete a task and its change history */
+  delete: (taskId: string) => Promise<void>;
+  
+  /** Get a single task (null if it does not exist) */
+  get: (taskId: string) => Promise<Task | null>;
+  
+  /** Get a task's change history, newest first */
+  getHistory: (taskId: string) => Promise<AuditEntry[]>;
+  
+  /** Get every task of a user in a category, across all lists (trash included) */
+  getTasksInCategory: (userId: string, categoryId: string) => Promise<Task[]>;
+  
+  /** Get every task of a user in a list (trash included) */
+  getTasksInList: (userId: string, listId: string) => Promise<Task[]>;
+  
+  /** Count the tasks in each list, trash excluded (list ID → count) */
+  getListTaskCounts: (userId: string, listIds: string[]) => Promise<Record<string, number>>;
+  
+  /**
+   * Put tasks created before lists existed into the default list
+   * Resolves to the number of tasks updated.
+   */
+  assignTasksToDefaultList: (userId: string) => Promise<number>;
+  
+  /**
+   * Subscribe to a user's tasks (optionally a single list)
+   * The callback receives only what changed; the first snapshot lists every
+   * task as 'added'. Tasks moved out of the list are reported as 'removed'.
+   */
+  subscribe: (
+    userId: string,
+    onTasksChange: (snapshot: TaskSnapshot) => void,
+    onError?: (error: Error) => void,
+    listId?: string | null
+  ) => () => void;
+}
+
+/**
+ * Send a queued mutation to a repository
+ * 
+ * Used by the pending-writes queue for first attempts, retries and replays
+ * after a restart.
+ * 
+ * @param repository - Backend to write to
+ * @param write - Queue entry to send
+ * @returns Promise that resolves when the backend confirms the write
+ * @throws Error if the backend rejects the write
+ */
+export const commitWrite = async (
+  repository: TaskRepository,
+  write: PendingWrite
+): Promise<void> => {
+  switch (write.type) {
+    case 'add':
+      return repository.add(write.data as Task);
+    case 'update':
+      return repository.update(write.taskId, write.data ?? {}, write.audit);
+    case 'delete':
+      return repository.delete(write.taskId);
+  }
+};
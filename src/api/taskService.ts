@@ -8,76 +8,169 @@
  * - Create new tasks with auto-generated IDs
  * - Update tasks (partial updates supported)
  * - Delete tasks
- * - Real-time subscription to user's tasks
+ * - Per-task change history (audit trail) in a subcollection, written with each update
+ * - Write promises settle on the server's answer (see the pending-writes queue in TaskContext)
+ * - Used by the app through firestoreTaskRepository (see taskRepository.ts)
+ * - Real-time subscription to user's tasks (incremental docChanges with snapshot metadata)
  * - Automatic timestamp management (createdAt, updatedAt)
  * - Strong TypeScript typing
  * - Comprehensive error handling
  */
 
-import firestore from '@react-native-firebase/firestore';
-import { Task, CreateTaskPayload, UpdateTaskPayload } from '../types';
+import firestore, { FirebaseFirestoreTypes } from '@react-native-firebase/firestore';
+import {
+  Task,
+  CreateTaskPayload,
+  UpdateTaskPayload,
+  TaskChange,
+  TaskSnapshot,
+  AuditEntry,
+} from '../types';
+import { DEFAULT_LIST_ID } from '../utils/listUtils';
+import { getInitialManualOrder } from '../utils/orderUtils';
+import { getStatusForCompletion, migrateTaskStatus } from '../utils/statusUtils';
 
 /**
  * Firestore collection reference for tasks
  * Collection structure: /tasks/{taskId}
+ * 
+ * Resolved on use (not at module load) so importing this module never
+ * touches native Firebase - e.g. when the app runs on a local repository.
+ */
+const tasksCollection = () => firestore().collection('tasks');
+
+/**
+ * Firestore collection reference for a task's change history
+ * Collection structure: /tasks/{taskId}/history/{entryId}
+ * 
+ * @param taskId - ID of the task
  */
-const tasksCollection = firestore().collection('tasks');
+const historyCollection = (taskId: string) =>
+  tasksCollection().doc(taskId).collection('history');
 
 /**
- * Add a new task to Firestore
+ * Transform a Firestore document into a Task
+ * 
+ * Fills in fields that tasks created by older app versions don't have.
+ * 
+ * @param id - Document ID
+ * @param data - Document data
+ */
+const toTask = (id: string, data: FirebaseFirestoreTypes.DocumentData): Task => {
+  return {
+    id,
+    userId: data.userId,
+    title: data.title,
+    description: data.description,
+    dateTime: data.dateTime,
+    deadline: data.deadline,
+    priority: data.priority,
+    category: data.category,
+    listId: data.listId ?? DEFAULT_LIST_ID, // Tasks created before lists existed
+    tags: data.tags ?? [],
+    completed: data.completed,
+    status: migrateTaskStatus(data.status, data.completed), // Tasks from before statuses
+    subtasks: data.subtasks ?? [], // Tasks created before subtasks existed
+    recurrence: data.recurrence ?? null,
+    reminders: data.reminders ?? [], // Tasks created before reminders existed
+    blockedBy: data.blockedBy ?? [], // Tasks created before dependencies existed
+    deletedAt: data.deletedAt ?? null, // Tasks created before the trash existed
+    pinned: data.pinned ?? false, // Tasks created before pinning existed
+    manualOrder: data.manualOrder ?? getInitialManualOrder(data.createdAt),
+    createdAt: data.createdAt,
+    updatedAt: data.updatedAt,
+  } as Task;
+};
+
+/**
+ * Convert a Firestore write error into a user-facing Error
+ * 
+ * @param error - Error thrown by Firestore
+ * @param fallback - Message for unexpected errors
+ */
+const toWriteError = (error: any, fallback: string): Error => {
+  if (error.code === 'permission-denied') {
+    return new Error('You do not have permission to change this task.');
+  } else if (error.code === 'not-found') {
+    return new Error('This task no longer exists.');
+  }
+  
+  return new Error(fallback);
+};
+
+/**
+ * Build a new task with its auto-generated fields (no write)
  * 
  * Automatically adds:
- * - Document ID (auto-generated by Firestore)
+ * - Document ID (generated locally, no server round-trip)
  * - userId (from authenticated user)
+ * - status (To Do, or Done for a task created completed)
+ * - blockedBy (no prerequisites)
+ * - pinned (false) and manualOrder (creation time: new tasks go to the bottom)
  * - createdAt timestamp (ISO string)
  * - updatedAt timestamp (ISO string)
  * 
  * @param taskData - Task data without auto-generated fields
  * @param userId - ID of the authenticated user
- * @returns Promise resolving to the created task with ID
- * @throws Error if creation fails (network, permissions, etc.)
+ * @returns Complete task, ready to show optimistically and pass to addTask
  * 
  * Example:
  * ```ts
- * const newTask = await addTask({
+ * const newTask = buildTask({
  *   title: 'Complete project',
  *   description: 'Finish all remaining features',
  *   dateTime: '2026-02-20T10:00:00.000Z',
  *   deadline: '2026-02-25T18:00:00.000Z',
  *   priority: Priority.HIGH,
  *   category: Category.WORK,
+ *   listId: 'inbox',
+ *   tags: ['q1-planning'],
  *   completed: false,
+ *   subtasks: [],
+ *   recurrence: null,
+ *   reminders: [{ anchor: 'deadline', offsetMinutes: 60 }],
  * }, user.uid);
+ * await addTask(newTask);
  * ```
  */
-export const addTask = async (
-  taskData: CreateTaskPayload,
-  userId: string
-): Promise<Task> => {
+export const buildTask = (taskData: CreateTaskPayload, userId: string): Task => {
   const now = new Date().toISOString();
   
-  // Generate document ID locally (instant, no server round-trip)
-  const docRef = tasksCollection.doc();
-  
-  // Prepare task document with auto-generated fields
-  const taskDoc = {
+  return {
     ...taskData,
+    id: tasksCollection().doc().id,
     userId,
+    status: getStatusForCompletion(taskData.completed),
+    blockedBy: [],
+    deletedAt: null,
+    pinned: false,
+    manualOrder: getInitialManualOrder(now),
     createdAt: now,
     updatedAt: now,
   };
+};
+
+/**
+ * Add a task to Firestore
+ * 
+ * The task is written to the local cache immediately (the real-time listener
+ * shows it right away); the returned promise settles once the server accepts
+ * or rejects the write, which can take arbitrarily long while offline.
+ * TaskContext tracks it through the pending-writes queue instead of awaiting it.
+ * 
+ * @param task - Task built with buildTask
+ * @returns Promise that resolves when the server confirms the write
+ * @throws Error if the server rejects the write (permissions, validation, etc.)
+ */
+export const addTask = async (task: Task): Promise<void> => {
+  const { id, ...taskDoc } = task;
   
-  // Fire-and-forget: write to Firestore without awaiting server confirmation.
-  // Data is written to local cache immediately; real-time listener handles sync.
-  docRef.set(taskDoc).catch((error: any) => {
+  try {
+    await tasksCollection().doc(id).set(taskDoc);
+  } catch (error: any) {
     console.error('Error adding task:', error);
-  });
-  
-  // Return complete task with locally-generated ID immediately
-  return {
-    id: docRef.id,
-    ...taskDoc,
-  } as Task;
+    throw toWriteError(error, 'Failed to save the new task.');
+  }
 };
 
 /**
@@ -85,11 +178,16 @@ export const addTask = async (
  * 
  * Supports partial updates - only provided fields are updated.
  * Automatically updates the updatedAt timestamp.
+ * Like addTask, the change is visible locally at once and the promise settles
+ * on the server's answer. Audit entries are written to the task's history
+ * subcollection in the same batch, so the change and its record succeed or
+ * fail together.
  * 
  * @param taskId - ID of the task to update
  * @param updates - Partial task data to update
- * @returns Promise that resolves when update is complete
- * @throws Error if update fails (not found, permissions, network, etc.)
+ * @param audit - Change-history entries for this update (see auditUtils)
+ * @returns Promise that resolves when the server confirms the update
+ * @throws Error if update fails (not found, permissions, etc.)
  * 
  * Example:
  * ```ts
@@ -101,11 +199,15 @@ export const addTask = async (
  *   title: 'Updated title',
  *   priority: Priority.LOW,
  * });
+ * 
+ * // Replace the checklist (subtasks are always written as a whole array)
+ * await updateTask('abc123', { subtasks: updatedSubtasks });
  * ```
  */
 export const updateTask = async (
   taskId: string,
-  updates: Partial<Omit<Task, 'id' | 'userId' | 'createdAt'>>
+  updates: Partial<Omit<Task, 'id' | 'userId' | 'createdAt'>>,
+  audit: AuditEntry[] = []
 ): Promise<void> => {
   const now = new Date().toISOString();
   
@@ -115,18 +217,34 @@ export const updateTask = async (
     updatedAt: now,
   };
   
-  // Fire-and-forget: write to local cache immediately, sync in background
-  tasksCollection.doc(taskId).update(updateData).catch((error: any) => {
+  try {
+    const batch = firestore().batch();
+    batch.update(tasksCollection().doc(taskId), updateData);
+    audit.forEach(({ id, ...entry }) => {
+      batch.set(historyCollection(taskId).doc(id), entry);
+    });
+    await batch.commit();
+  } catch (error: any) {
     console.error('Error updating task:', error);
-  });
+    throw toWriteError(error, 'Failed to save changes to the task.');
+  }
 };
 
 /**
  * Delete a task from Firestore
  * 
+ * Its change history is deleted with it (Firestore does not delete
+ * subcollections with their parent). The task is the last write, because the
+ * security rules check the parent before allowing history writes.
+ * 
+ * Up to 499 history entries share the task's batch, so the delete is all or
+ * nothing. Longer histories take several batches that commit on their own:
+ * if a later one fails, the task stays with part of its history deleted, and
+ * deleting it again removes the rest.
+ * 
  * @param taskId - ID of the task to delete
- * @returns Promise that resolves when deletion is complete
- * @throws Error if deletion fails (not found, permissions, network, etc.)
+ * @returns Promise that resolves when the server confirms the deletion
+ * @throws Error if deletion fails (permissions, etc.)
  * 
  * Example:
  * ```ts
@@ -134,10 +252,13 @@ export const updateTask = async (
  * ```
  */
 export const deleteTask = async (taskId: string): Promise<void> => {
-  // Fire-and-forget: delete from local cache immediately, sync in background
-  tasksCollection.doc(taskId).delete().catch((error: any) => {
+  try {
+    const history = await historyCollection(taskId).get();
+    await batchDelete([...history.docs.map((doc) => doc.ref), tasksCollection().doc(taskId)]);
+  } catch (error: any) {
     console.error('Error deleting task:', error);
-  });
+    throw toWriteError(error, 'Failed to delete the task.');
+  }
 };
 
 /**
@@ -147,22 +268,26 @@ export const deleteTask = async (taskId: string): Promise<void> => {
  * - Tasks are added
  * - Tasks are updated
  * - Tasks are deleted
+ * - The snapshot's metadata changes (e.g. the server confirms a local write)
  * 
- * The callback receives the complete, current list of tasks.
+ * The callback receives only what changed (docChanges), not the full list;
+ * the first snapshot lists every task as 'added'.
  * Tasks are automatically filtered by userId via Firestore query.
+ * Pass a listId to stream only that list (large accounts don't need every task).
  * 
  * @param userId - ID of the authenticated user
- * @param onTasksUpdate - Callback function that receives updated task list
+ * @param onTasksChange - Callback function that receives each snapshot's changes and metadata
  * @param onError - Optional callback for handling errors
+ * @param listId - Optional list to subscribe to (null = all lists)
  * @returns Unsubscribe function to stop listening
  * 
  * Example:
  * ```ts
  * const unsubscribe = subscribeToUserTasks(
  *   user.uid,
- *   (tasks) => {
- *     console.log('Tasks updated:', tasks);
- *     setTasks(tasks);
+ *   ({ changes, metadata }) => {
+ *     console.log('Tasks changed:', changes, metadata.hasPendingWrites);
+ *     dispatch({ type: 'TASKS_CHANGED', payload: { changes, metadata } });
  *   },
  *   (error) => {
  *     console.error('Subscription error:', error);
@@ -175,35 +300,35 @@ export const deleteTask = async (taskId: string): Promise<void> => {
  */
 export const subscribeToUserTasks = (
   userId: string,
-  onTasksUpdate: (tasks: Task[]) => void,
-  onError?: (error: Error) => void
+  onTasksChange: (snapshot: TaskSnapshot) => void,
+  onError?: (error: Error) => void,
+  listId: string | null = null
 ): (() => void) => {
-  // Query tasks belonging to the user
-  const query = tasksCollection.where('userId', '==', userId);
+  // Query tasks belonging to the user (optionally a single list)
+  let query = tasksCollection().where('userId', '==', userId);
+  if (listId) {
+    query = query.where('listId', '==', listId);
+  }
   
   // Set up real-time listener
+  // Metadata changes are included so server confirmations of local writes arrive
   const unsubscribe = query.onSnapshot(
+    { includeMetadataChanges: true },
     (snapshot) => {
-      // Transform Firestore documents to Task objects
-      const tasks: Task[] = snapshot.docs.map((doc) => {
-        const data = doc.data();
-        return {
-          id: doc.id,
-          userId: data.userId,
-          title: data.title,
-          description: data.description,
-          dateTime: data.dateTime,
-          deadline: data.deadline,
-          priority: data.priority,
-          category: data.category,
-          completed: data.completed,
-          createdAt: data.createdAt,
-          updatedAt: data.updatedAt,
-        } as Task;
-      });
+      // Transform changed documents to Task changes
+      const changes: TaskChange[] = snapshot.docChanges().map((change) => ({
+        type: change.type,
+        task: toTask(change.doc.id, change.doc.data()),
+      }));
       
-      // Notify callback with updated tasks
-      onTasksUpdate(tasks);
+      // Notify callback with the changes and where they came from
+      onTasksChange({
+        changes,
+        metadata: {
+          hasPendingWrites: snapshot.metadata.hasPendingWrites,
+          fromCache: snapshot.metadata.fromCache,
+        },
+      });
     },
     (error: any) => {
       console.error('Error in task subscription:', error);
@@ -244,25 +369,10 @@ export const subscribeToUserTasks = (
  */
 export const getUserTasks = async (userId: string): Promise<Task[]> => {
   try {
-    const query = tasksCollection.where('userId', '==', userId);
+    const query = tasksCollection().where('userId', '==', userId);
     const snapshot = await query.get();
     
-    const tasks: Task[] = snapshot.docs.map((doc) => {
-      const data = doc.data();
-      return {
-        id: doc.id,
-        userId: data.userId,
-        title: data.title,
-        description: data.description,
-        dateTime: data.dateTime,
-        deadline: data.deadline,
-        priority: data.priority,
-        category: data.category,
-        completed: data.completed,
-        createdAt: data.createdAt,
-        updatedAt: data.updatedAt,
-      } as Task;
-    });
+    const tasks: Task[] = snapshot.docs.map((doc) => toTask(doc.id, doc.data()));
     
     return tasks;
   } catch (error: any) {
@@ -278,10 +388,62 @@ export const getUserTasks = async (userId: string): Promise<Task[]> => {
   }
 };
 
+/**
+ * Get a single task (one-time fetch)
+ * 
+ * @param taskId - ID of the task
+ * @returns Promise resolving to the task, or null if it does not exist
+ * @throws Error if fetch fails
+ */
+export const getTask = async (taskId: string): Promise<Task | null> => {
+  try {
+    const doc = await tasksCollection().doc(taskId).get();
+    const data = doc.data();
+    
+    return data ? toTask(doc.id, data) : null;
+  } catch (error: any) {
+    console.error('Error fetching task:', error);
+    
+    if (error.code === 'permission-denied') {
+      throw new Error('You do not have permission to access this task.');
+    } else if (error.code === 'unavailable') {
+      throw new Error('Network error. Please check your connection.');
+    }
+    
+    throw new Error('Failed to fetch the task. Please try again.');
+  }
+};
+
+/**
+ * Get a task's change history (one-time fetch)
+ * 
+ * @param taskId - ID of the task
+ * @returns Promise resolving to the history entries, newest first
+ * @throws Error if fetch fails
+ */
+export const getTaskHistory = async (taskId: string): Promise<AuditEntry[]> => {
+  try {
+    const snapshot = await historyCollection(taskId).orderBy('timestamp', 'desc').get();
+    
+    return snapshot.docs.map((doc) => ({ id: doc.id, ...doc.data() } as AuditEntry));
+  } catch (error: any) {
+    console.error('Error fetching task history:', error);
+    
+    if (error.code === 'permission-denied') {
+      throw new Error('You do not have permission to access this task.');
+    } else if (error.code === 'unavailable') {
+      throw new Error('Network error. Please check your connection.');
+    }
+    
+    throw new Error('Failed to fetch the task history. Please try again.');
+  }
+};
+
 /**
  * Toggle task completion status
  * 
- * Convenience function to mark task as completed/incomplete.
+ * Convenience function to mark task as completed/incomplete
+ * (the status follows: 'done' or 'todo').
  * 
  * @param taskId - ID of the task to toggle
  * @param completed - New completion status
@@ -291,5 +453,180 @@ export const toggleTaskCompletion = async (
   taskId: string,
   completed: boolean
 ): Promise<void> => {
-  return updateTask(taskId, { completed });
+  return updateTask(taskId, { completed, status: getStatusForCompletion(completed) });
+};
+
+/**
+ * Get a user's tasks with a given field value (one-time fetch)
+ * 
+ * @param userId - ID of the authenticated user
+ * @param field - Field to match
+ * @param value - Value the field must have
+ * @param errorMessage - Message for unexpected errors
+ * @throws Error if fetch fails
+ */
+const getTasksWhere = async (
+  userId: string,
+  field: 'category' | 'listId',
+  value: string,
+  errorMessage: string
+): Promise<Task[]> => {
+  try {
+    const snapshot = await tasksCollection()
+      .where('userId', '==', userId)
+      .where(field, '==', value)
+      .get();
+    
+    return snapshot.docs.map((doc) => toTask(doc.id, doc.data()));
+  } catch (error: any) {
+    console.error('Error fetching tasks:', error);
+    
+    if (error.code === 'permission-denied') {
+      throw new Error('You do not have permission to access these tasks.');
+    } else if (error.code === 'unavailable') {
+      throw new Error('Network error. Please check your connection.');
+    }
+    
+    throw new Error(errorMessage);
+  }
+};
+
+/**
+ * Get every task in a category, across all lists (trash included)
+ * 
+ * Used to move the tasks out of a category before deleting it.
+ * 
+ * @param userId - ID of the authenticated user
+ * @param categoryId - Category to look in
+ * @returns Promise resolving to the tasks
+ * @throws Error if fetch fails
+ */
+export const getTasksInCategory = async (userId: string, categoryId: string): Promise<Task[]> => {
+  return getTasksWhere(
+    userId,
+    'category',
+    categoryId,
+    'Failed to load the tasks in this category. Please try again.'
+  );
+};
+
+/**
+ * Get every task in a list (trash included)
+ * 
+ * Used to move the tasks out of a list before deleting it. Tasks created
+ * before lists existed are only found once assignTasksToDefaultList has run.
+ * 
+ * @param userId - ID of the authenticated user
+ * @param listId - List to look in
+ * @returns Promise resolving to the tasks
+ * @throws Error if fetch fails
+ */
+export const getTasksInList = async (userId: string, listId: string): Promise<Task[]> => {
+  return getTasksWhere(
+    userId,
+    'listId',
+    listId,
+    'Failed to load the tasks in this list. Please try again.'
+  );
+};
+
+/**
+ * Commit the same update to many documents
+ * 
+ * Splits the writes into chunks because a Firestore batch holds at most
+ * 500 operations.
+ * 
+ * @param refs - Documents to update
+ * @param updates - Fields written to every document
+ */
+const batchUpdate = async (
+  refs: FirebaseFirestoreTypes.DocumentReference[],
+  updates: Partial<Task>
+): Promise<void> => {
+  const BATCH_LIMIT = 500;
+  
+  for (let i = 0; i < refs.length; i += BATCH_LIMIT) {
+    const batch = firestore().batch();
+    refs.slice(i, i + BATCH_LIMIT).forEach((ref) => {
+      batch.update(ref, updates);
+    });
+    await batch.commit();
+  }
+};
+
+/**
+ * Delete many documents
+ * 
+ * Chunked like batchUpdate. Batches are committed in order, so the last
+ * documents are deleted last.
+ * 
+ * @param refs - Documents to delete
+ */
+const batchDelete = async (refs: FirebaseFirestoreTypes.DocumentReference[]): Promise<void> => {
+  const BATCH_LIMIT = 500;
+  
+  for (let i = 0; i < refs.length; i += BATCH_LIMIT) {
+    const batch = firestore().batch();
+    refs.slice(i, i + BATCH_LIMIT).forEach((ref) => {
+      batch.delete(ref);
+    });
+    await batch.commit();
+  }
+};
+
+/**
+ * Put tasks created before lists existed into the default list
+ * 
+ * Firestore cannot query for a missing field, so this reads all of the user's
+ * tasks once and updates those without a listId. Without it, legacy tasks
+ * would never match a single-list subscription.
+ * 
+ * @param userId - ID of the authenticated user
+ * @returns Promise resolving to the number of tasks updated
+ * @throws Error if the query or batch write fails
+ */
+export const assignTasksToDefaultList = async (userId: string): Promise<number> => {
+  const snapshot = await tasksCollection().where('userId', '==', userId).get();
+  const refs = snapshot.docs
+    .filter((doc) => doc.data().listId === undefined)
+    .map((doc) => doc.ref);
+  
+  await batchUpdate(refs, { listId: DEFAULT_LIST_ID });
+  
+  return refs.length;
+};
+
+/**
+ * Count the tasks in each list without downloading them
+ * 
+ * Uses Firestore aggregate count queries (requires a connection).
+ * Tasks in the trash are not counted.
+ * 
+ * @param userId - ID of the authenticated user
+ * @param listIds - Lists to count
+ * @returns Promise resolving to a map of list ID → task count
+ * @throws Error if any count query fails
+ */
+export const getListTaskCounts = async (
+  userId: string,
+  listIds: string[]
+): Promise<Record<string, number>> => {
+  const listQuery = (listId: string) =>
+    tasksCollection().where('userId', '==', userId).where('listId', '==', listId);
+  
+  // Trashed tasks have a deletedAt string; legacy tasks have no field at all,
+  // so count the trash separately and subtract it
+  const [totals, trashed] = await Promise.all([
+    Promise.all(listIds.map((listId) => listQuery(listId).count().get())),
+    Promise.all(
+      listIds.map((listId) => listQuery(listId).where('deletedAt', '>', '').count().get())
+    ),
+  ]);
+  
+  const counts: Record<string, number> = {};
+  listIds.forEach((listId, index) => {
+    counts[listId] = totals[index].data().count - trashed[index].data().count;
+  });
+  
+  return counts;
 };
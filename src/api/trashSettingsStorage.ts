@@ -0,0 +1,50 @@
+/**
+ * Trash Settings Storage
+ * 
+ * Persists the user's trash retention period (days before trashed tasks are
+ * purged) on the device (AsyncStorage).
+ * 
+ * Storage key: trashRetentionDays:{userId}
+ */
+
+import AsyncStorage from '@react-native-async-storage/async-storage';
+import { DEFAULT_TRASH_RETENTION_DAYS } from '../utils/trashUtils';
+
+/**
+ * Get the storage key for a user's retention period
+ * 
+ * @param userId - ID of the authenticated user
+ */
+const storageKey = (userId: string): string => `trashRetentionDays:${userId}`;
+
+/**
+ * Load a user's retention period
+ * 
+ * @param userId - ID of the authenticated user
+ * @returns Promise resolving to the stored period (the default if none or unreadable)
+ */
+export const loadTrashRetentionDays = async (userId: string): Promise<number> => {
+  try {
+    const stored = await AsyncStorage.getItem(storageKey(userId));
+    const days = stored ? Number(stored) : NaN;
+    return days > 0 ? days : DEFAULT_TRASH_RETENTION_DAYS;
+  } catch (error: any) {
+    console.error('Error loading trash retention:', error);
+    return DEFAULT_TRASH_RETENTION_DAYS;
+  }
+};
+
+/**
+ * Save a user's retention period
+ * 
+ * @param userId - ID of the authenticated user
+ * @param days - Days trashed tasks are kept
+ * @returns Promise that resolves once the period is stored
+ */
+export const saveTrashRetentionDays = async (userId: string, days: number): Promise<void> => {
+  try {
+    await AsyncStorage.setItem(storageKey(userId), String(days));
+  } catch (error: any) {
+    console.error('Error saving trash retention:', error);
+  }
+};
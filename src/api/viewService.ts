@@ -0,0 +1,147 @@
+/**
+ * Firestore Saved View Service
+ * 
+ * Provides CRUD operations and real-time synchronization for saved views
+ * (named filter queries shown as tabs in the task list).
+ * 
+ * Collection structure: /users/{userId}/views/{viewId}
+ */
+
+import firestore from '@react-native-firebase/firestore';
+import { SavedView, CreateSavedViewPayload } from '../types';
+
+/**
+ * Get the views subcollection for a user
+ * 
+ * @param userId - ID of the authenticated user
+ */
+const viewsCollection = (userId: string) =>
+  firestore().collection('users').doc(userId).collection('views');
+
+/**
+ * Add a new saved view
+ * 
+ * @param viewData - View data without auto-generated fields
+ * @param userId - ID of the authenticated user
+ * @returns Promise resolving to the created view with ID
+ */
+export const addView = async (
+  viewData: CreateSavedViewPayload,
+  userId: string
+): Promise<SavedView> => {
+  const now = new Date().toISOString();
+  
+  // Generate document ID locally (instant, no server round-trip)
+  const docRef = viewsCollection(userId).doc();
+  
+  const viewDoc = {
+    ...viewData,
+    createdAt: now,
+    updatedAt: now,
+  };
+  
+  // Fire-and-forget: written to local cache immediately, listener handles sync
+  docRef.set(viewDoc).catch((error: any) => {
+    console.error('Error adding view:', error);
+  });
+  
+  return {
+    id: docRef.id,
+    ...viewDoc,
+  };
+};
+
+/**
+ * Update an existing saved view (partial update)
+ * 
+ * @param userId - ID of the authenticated user
+ * @param viewId - ID of the view to update
+ * @param updates - Fields to change
+ * @returns Promise that resolves once the write is queued
+ */
+export const updateView = async (
+  userId: string,
+  viewId: string,
+  updates: Partial<CreateSavedViewPayload>
+): Promise<void> => {
+  viewsCollection(userId)
+    .doc(viewId)
+    .update({
+      ...updates,
+      updatedAt: new Date().toISOString(),
+    })
+    .catch((error: any) => {
+      console.error('Error updating view:', error);
+    });
+};
+
+/**
+ * Delete a saved view
+ * 
+ * @param userId - ID of the authenticated user
+ * @param viewId - ID of the view to delete
+ * @returns Promise that resolves once the delete is queued
+ */
+export const deleteView = async (userId: string, viewId: string): Promise<void> => {
+  viewsCollection(userId)
+    .doc(viewId)
+    .delete()
+    .catch((error: any) => {
+      console.error('Error deleting view:', error);
+    });
+};
+
+/**
+ * Subscribe to real-time updates for a user's saved views
+ * 
+ * The callback receives the complete list, sorted by display order.
+ * 
+ * @param userId - ID of the authenticated user
+ * @param onViewsUpdate - Callback that receives the updated views
+ * @param onError - Optional callback for handling errors
+ * @returns Unsubscribe function to stop listening
+ */
+export const subscribeToUserViews = (
+  userId: string,
+  onViewsUpdate: (views: SavedView[]) => void,
+  onError?: (error: Error) => void
+): (() => void) => {
+  return viewsCollection(userId)
+    .orderBy('order', 'asc')
+    .onSnapshot(
+      (snapshot) => {
+        const views: SavedView[] = snapshot.docs.map((doc) => {
+          const data = doc.data();
+          return {
+            id: doc.id,
+            name: data.name,
+            query: data.query ?? '',
+            order: data.order,
+            createdAt: data.createdAt,
+            updatedAt: data.updatedAt,
+          };
+        });
+        
+        onViewsUpdate(views);
+      },
+      (error: any) => {
+        console.error('Error in view subscription:', error);
+        
+        let errorMessage = 'Failed to sync saved views.';
+        
+        if (error.code === 'permission-denied') {
+          errorMessage = 'Permission denied. Please sign in again.';
+        } else if (error.code === 'unavailable') {
+          errorMessage = 'Network error. Views will sync when connection is restored.';
+        }
+        
+        const processedError = new Error(errorMessage);
+        
+        if (onError) {
+          onError(processedError);
+        } else {
+          console.error('View subscription error:', processedError);
+        }
+      }
+    );
+};
@@ -0,0 +1,64 @@
+/**
+ * Write Queue Storage
+ * 
+ * Persists the pending-writes queue on the device (AsyncStorage) so that
+ * mutations still waiting for the server, and failed mutations awaiting a
+ * retry, survive an app restart.
+ * 
+ * Firestore keeps its own copy of unsent writes, but it cannot tell the app
+ * afterwards whether they were accepted. Entries restored as 'pending' are
+ * replayed by TaskContext so their outcome is reported again.
+ * 
+ * Storage key: writeQueue:{userId}
+ */
+
+import AsyncStorage from '@react-native-async-storage/async-storage';
+import { PendingWrite } from '../types';
+
+/**
+ * Get the storage key for a user's queue
+ * 
+ * @param userId - ID of the authenticated user
+ */
+const storageKey = (userId: string): string => `writeQueue:${userId}`;
+
+/**
+ * Load a user's queue
+ * 
+ * @param userId - ID of the authenticated user
+ * @returns Promise resolving to the stored entries (empty if none or unreadable)
+ */
+export const loadWriteQueue = async (userId: string): Promise<PendingWrite[]> => {
+  try {
+    const stored = await AsyncStorage.getItem(storageKey(userId));
+    const writes = stored ? (JSON.parse(stored) as PendingWrite[]) : [];
+    
+    // Entries queued before the change history existed have no audit entries
+    return writes.map((write) => ({ ...write, audit: write.audit ?? [] }));
+  } catch (error: any) {
+    console.error('Error loading write queue:', error);
+    return [];
+  }
+};
+
+/**
+ * Save a user's queue (replaces the stored entries)
+ * 
+ * @param userId - ID of the authenticated user
+ * @param writes - Entries to store; an empty queue removes the key
+ * @returns Promise that resolves once the queue is stored
+ */
+export const saveWriteQueue = async (
+  userId: string,
+  writes: PendingWrite[]
+): Promise<void> => {
+  try {
+    if (writes.length === 0) {
+      await AsyncStorage.removeItem(storageKey(userId));
+    } else {
+      await AsyncStorage.setItem(storageKey(userId), JSON.stringify(writes));
+    }
+  } catch (error: any) {
+    console.error('Error saving write queue:', error);
+  }
+};
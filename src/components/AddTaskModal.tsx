@@ -10,7 +10,12 @@
  * - DateTime picker for start time
  * - DateTime picker for deadline
  * - Priority selector (High/Medium/Low)
- * - Category selector (Work/Personal/Study/Other)
+ * - Category selector (user-defined categories)
+ * - List selector (moves the task to another list when editing)
+ * - Tag editor with autocomplete from existing tags
+ * - Subtask checklist editor (offers to complete the task when all are done)
+ * - Repeat picker for recurring tasks
+ * - Reminder picker (notifications before the start or deadline)
  * - Form validation
  * - Save/Cancel buttons
  * 
@@ -19,6 +24,10 @@
  * - onClose: Callback when modal is closed
  * - onSave: Callback when task is saved
  * - editTask: (Optional) Task to edit. If provided, modal is in edit mode.
+ * - categories: The user's categories, in display order
+ * - lists: The user's task lists, in display order
+ * - defaultListId: List preselected for new tasks
+ * - existingTags: (Optional) All tags in use, for tag autocomplete
  */
 
 import React, { useState, useEffect } from 'react';
@@ -35,8 +44,28 @@ import {
   Alert,
 } from 'react-native';
 import DateTimePicker, { DateTimePickerEvent } from '@react-native-community/datetimepicker';
-import { Task, Priority, Category, CreateTaskPayload } from '../types';
-import { validateTaskTitle, validateTaskDescription, validateDeadlineAfterStart } from '../utils/validators';
+import {
+  Task,
+  Priority,
+  CreateTaskPayload,
+  Subtask,
+  RecurrenceRule,
+  TaskReminder,
+  UserCategory,
+  TaskList,
+} from '../types';
+import {
+  validateTaskTitle,
+  validateTaskDescription,
+  validateDeadlineAfterStart,
+  validateRecurrence,
+} from '../utils/validators';
+import { areAllSubtasksComplete } from '../utils/subtaskUtils';
+import { getDefaultCategoryId } from '../utils/categoryUtils';
+import SubtaskEditor from './SubtaskEditor';
+import RepeatPicker from './RepeatPicker';
+import ReminderPicker from './ReminderPicker';
+import TagEditor from './TagEditor';
 import {
   COLORS,
   SPACING,
@@ -51,6 +80,10 @@ interface AddTaskModalProps {
   onClose: () => void;
   onSave: (taskData: CreateTaskPayload) => Promise<void>;
   editTask?: Task | null;
+  categories: UserCategory[];
+  lists: TaskList[];
+  defaultListId: string;
+  existingTags?: string[];
 }
 
 const AddTaskModal: React.FC<AddTaskModalProps> = ({
@@ -58,6 +91,10 @@ const AddTaskModal: React.FC<AddTaskModalProps> = ({
   onClose,
   onSave,
   editTask,
+  categories,
+  lists,
+  defaultListId,
+  existingTags = [],
 }) => {
   // Determine if we're in edit mode
   const isEditMode = !!editTask;
@@ -68,7 +105,13 @@ const AddTaskModal: React.FC<AddTaskModalProps> = ({
   const [dateTime, setDateTime] = useState(new Date());
   const [deadline, setDeadline] = useState(new Date(Date.now() + 24 * 60 * 60 * 1000)); // Default: 1 day from now
   const [priority, setPriority] = useState<Priority>(Priority.MEDIUM);
-  const [category, setCategory] = useState<Category>(Category.PERSONAL);
+  const [category, setCategory] = useState<string>('');
+  const [listId, setListId] = useState<string>('');
+  const [tags, setTags] = useState<string[]>([]);
+  const [subtasks, setSubtasks] = useState<Subtask[]>([]);
+  const [completed, setCompleted] = useState(false);
+  const [recurrence, setRecurrence] = useState<RecurrenceRule | null>(null);
+  const [reminders, setReminders] = useState<TaskReminder[]>([]);
 
   // DateTime picker state
   const [showDateTimePicker, setShowDateTimePicker] = useState(false);
@@ -79,6 +122,7 @@ const AddTaskModal: React.FC<AddTaskModalProps> = ({
   const [titleError, setTitleError] = useState<string | null>(null);
   const [descriptionError, setDescriptionError] = useState<string | null>(null);
   const [deadlineError, setDeadlineError] = useState<string | null>(null);
+  const [recurrenceError, setRecurrenceError] = useState<string | null>(null);
 
   // Loading state
   const [saving, setSaving] = useState(false);
@@ -94,12 +138,37 @@ const AddTaskModal: React.FC<AddTaskModalProps> = ({
       setDeadline(new Date(editTask.deadline));
       setPriority(editTask.priority);
       setCategory(editTask.category);
+      setListId(editTask.listId);
+      setTags(editTask.tags);
+      setSubtasks(editTask.subtasks);
+      setCompleted(editTask.completed);
+      setRecurrence(editTask.recurrence);
+      setReminders(editTask.reminders);
     } else {
       // Reset form for new task
       resetForm();
     }
   }, [editTask, visible]);
 
+  /**
+   * Preselect the default category for new tasks
+   * (runs after a reset and once categories have loaded)
+   */
+  useEffect(() => {
+    if (!category) {
+      setCategory(getDefaultCategoryId(categories));
+    }
+  }, [category, categories]);
+
+  /**
+   * Preselect the default list for new tasks (runs after a reset)
+   */
+  useEffect(() => {
+    if (!listId) {
+      setListId(defaultListId);
+    }
+  }, [listId, defaultListId]);
+
   /**
    * Reset form to default values
    */
@@ -109,10 +178,17 @@ const AddTaskModal: React.FC<AddTaskModalProps> = ({
     setDateTime(new Date());
     setDeadline(new Date(Date.now() + 24 * 60 * 60 * 1000));
     setPriority(Priority.MEDIUM);
-    setCategory(Category.PERSONAL);
+    setCategory('');
+    setListId('');
+    setTags([]);
+    setSubtasks([]);
+    setCompleted(false);
+    setRecurrence(null);
+    setReminders([]);
     setTitleError(null);
     setDescriptionError(null);
     setDeadlineError(null);
+    setRecurrenceError(null);
   };
 
   /**
@@ -125,12 +201,16 @@ const AddTaskModal: React.FC<AddTaskModalProps> = ({
       dateTime.toISOString(),
       deadline.toISOString()
     );
+    const recurrenceValidation = validateRecurrence(recurrence, dateTime.toISOString());
 
     setTitleError(titleValidation);
     setDescriptionError(descriptionValidation);
     setDeadlineError(deadlineValidation);
+    setRecurrenceError(recurrenceValidation);
 
-    return !titleValidation && !descriptionValidation && !deadlineValidation;
+    return (
+      !titleValidation && !descriptionValidation && !deadlineValidation && !recurrenceValidation
+    );
   };
 
   /**
@@ -141,6 +221,7 @@ const AddTaskModal: React.FC<AddTaskModalProps> = ({
     setTitleError(null);
     setDescriptionError(null);
     setDeadlineError(null);
+    setRecurrenceError(null);
 
     // Validate form
     if (!validateForm()) {
@@ -157,7 +238,12 @@ const AddTaskModal: React.FC<AddTaskModalProps> = ({
         deadline: deadline.toISOString(),
         priority,
         category,
-        completed: isEditMode ? editTask!.completed : false,
+        listId,
+        tags,
+        completed,
+        subtasks,
+        recurrence,
+        reminders,
       };
 
       await onSave(taskData);
@@ -171,6 +257,30 @@ const AddTaskModal: React.FC<AddTaskModalProps> = ({
     }
   };
 
+  /**
+   * Handle checklist changes
+   * 
+   * When the change checks off the last open subtask, offer to complete
+   * the parent task as well.
+   */
+  const handleSubtasksChange = (updatedSubtasks: Subtask[]) => {
+    const finishedChecklist =
+      !areAllSubtasksComplete(subtasks) && areAllSubtasksComplete(updatedSubtasks);
+
+    setSubtasks(updatedSubtasks);
+
+    if (finishedChecklist && !completed) {
+      Alert.alert(
+        'All Subtasks Done',
+        'Mark the whole task as complete too?',
+        [
+          { text: 'Not Yet', style: 'cancel' },
+          { text: 'Complete', onPress: () => setCompleted(true) },
+        ]
+      );
+    }
+  };
+
   /**
    * Handle close button press
    */
@@ -369,28 +479,100 @@ const AddTaskModal: React.FC<AddTaskModalProps> = ({
             <View style={styles.inputGroup}>
               <Text style={styles.label}>Category *</Text>
               <View style={styles.optionsRow}>
-                {[Category.WORK, Category.PERSONAL, Category.STUDY, Category.OTHER].map((c) => (
+                {categories.map((c) => (
                   <TouchableOpacity
-                    key={c}
+                    key={c.id}
                     style={[
                       styles.optionButton,
-                      category === c && styles.optionButtonActive,
+                      category === c.id && styles.optionButtonActive,
+                      category === c.id && { backgroundColor: c.color, borderColor: c.color },
                     ]}
-                    onPress={() => setCategory(c)}
+                    onPress={() => setCategory(c.id)}
                     disabled={saving}
                   >
                     <Text
                       style={[
                         styles.optionButtonText,
-                        category === c && styles.optionButtonTextActive,
+                        category === c.id && styles.optionButtonTextActive,
                       ]}
                     >
-                      {c.charAt(0).toUpperCase() + c.slice(1)}
+                      {c.icon} {c.name}
                     </Text>
                   </TouchableOpacity>
                 ))}
               </View>
             </View>
+
+            {/* List Selector */}
+            {lists.length > 1 && (
+              <View style={styles.inputGroup}>
+                <Text style={styles.label}>List</Text>
+                <View style={styles.optionsRow}>
+                  {lists.map((l) => (
+                    <TouchableOpacity
+                      key={l.id}
+                      style={[
+                        styles.optionButton,
+                        listId === l.id && styles.optionButtonActive,
+                      ]}
+                      onPress={() => setListId(l.id)}
+                      disabled={saving}
+                    >
+                      <Text
+                        style={[
+                          styles.optionButtonText,
+                          listId === l.id && styles.optionButtonTextActive,
+                        ]}
+                      >
+                        {l.name}
+                      </Text>
+                    </TouchableOpacity>
+                  ))}
+                </View>
+              </View>
+            )}
+
+            {/* Tags */}
+            <View style={styles.inputGroup}>
+              <Text style={styles.label}>Tags</Text>
+              <TagEditor
+                tags={tags}
+                existingTags={existingTags}
+                onChange={setTags}
+                disabled={saving}
+              />
+            </View>
+
+            {/* Repeat */}
+            <View style={styles.inputGroup}>
+              <Text style={styles.label}>Repeat</Text>
+              <RepeatPicker
+                rule={recurrence}
+                startDate={dateTime}
+                onChange={(rule) => {
+                  setRecurrence(rule);
+                  setRecurrenceError(null);
+                }}
+                disabled={saving}
+                error={recurrenceError}
+              />
+            </View>
+
+            {/* Reminders */}
+            <View style={styles.inputGroup}>
+              <Text style={styles.label}>Reminders</Text>
+              <ReminderPicker reminders={reminders} onChange={setReminders} disabled={saving} />
+            </View>
+
+            {/* Subtasks */}
+            <View style={styles.inputGroup}>
+              <Text style={styles.label}>Subtasks</Text>
+              <SubtaskEditor
+                subtasks={subtasks}
+                onChange={handleSubtasksChange}
+                disabled={saving}
+              />
+            </View>
           </View>
         </ScrollView>
 
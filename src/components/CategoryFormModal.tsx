@@ -0,0 +1,296 @@
+/**
+ * CategoryFormModal Component
+ * 
+ * Modal for creating a new category or editing an existing one.
+ * 
+ * Features:
+ * - Name input with validation (required, unique)
+ * - Color palette picker
+ * - Emoji icon picker
+ * - Live badge preview
+ * 
+ * Props:
+ * - visible: Whether modal is shown
+ * - onClose: Callback when modal is closed
+ * - onSave: Callback with the name, color and icon
+ * - editCategory: (Optional) Category to edit. If provided, modal is in edit mode.
+ * - otherNames: Names of the user's other categories (for uniqueness check)
+ */
+
+import React, { useState, useEffect } from 'react';
+import {
+  View,
+  Text,
+  TextInput,
+  TouchableOpacity,
+  Modal,
+  StyleSheet,
+  ScrollView,
+  Alert,
+} from 'react-native';
+import { UserCategory } from '../types';
+import { CATEGORY_ICONS } from '../utils/categoryUtils';
+import { validateCategoryName } from '../utils/validators';
+import {
+  COLORS,
+  CATEGORY_COLORS,
+  SPACING,
+  FONT_SIZES,
+  BORDER_RADIUS,
+  FONT_WEIGHTS,
+} from '../theme';
+
+interface CategoryFormModalProps {
+  visible: boolean;
+  onClose: () => void;
+  onSave: (data: { name: string; color: string; icon: string }) => Promise<void>;
+  editCategory?: UserCategory | null;
+  otherNames: string[];
+}
+
+const CategoryFormModal: React.FC<CategoryFormModalProps> = ({
+  visible,
+  onClose,
+  onSave,
+  editCategory,
+  otherNames,
+}) => {
+  const isEditMode = !!editCategory;
+
+  const [name, setName] = useState('');
+  const [color, setColor] = useState(CATEGORY_COLORS[0]);
+  const [icon, setIcon] = useState(CATEGORY_ICONS[0]);
+  const [nameError, setNameError] = useState<string | null>(null);
+  const [saving, setSaving] = useState(false);
+
+  /**
+   * Initialize form with edit category data
+   */
+  useEffect(() => {
+    if (editCategory) {
+      setName(editCategory.name);
+      setColor(editCategory.color);
+      setIcon(editCategory.icon);
+    } else {
+      setName('');
+      setColor(CATEGORY_COLORS[0]);
+      setIcon(CATEGORY_ICONS[0]);
+    }
+    setNameError(null);
+  }, [editCategory, visible]);
+
+  /**
+   * Handle save button press
+   */
+  const handleSave = async () => {
+    const validation = validateCategoryName(name, otherNames);
+    setNameError(validation);
+    if (validation) {
+      return;
+    }
+
+    setSaving(true);
+    try {
+      await onSave({ name: name.trim(), color, icon });
+      setSaving(false);
+      onClose();
+    } catch (error: any) {
+      setSaving(false);
+      Alert.alert('Error', error.message || 'Failed to save category');
+    }
+  };
+
+  return (
+    <Modal
+      visible={visible}
+      animationType="slide"
+      presentationStyle="formSheet"
+      onRequestClose={onClose}
+    >
+      <View style={styles.container}>
+        {/* Header */}
+        <View style={styles.header}>
+          <TouchableOpacity onPress={onClose} disabled={saving}>
+            <Text style={styles.cancelButton}>Cancel</Text>
+          </TouchableOpacity>
+          <Text style={styles.headerTitle}>
+            {isEditMode ? 'Edit Category' : 'New Category'}
+          </Text>
+          <TouchableOpacity onPress={handleSave} disabled={saving}>
+            <Text style={[styles.saveButton, saving && styles.saveButtonDisabled]}>
+              {saving ? 'Saving...' : 'Save'}
+            </Text>
+          </TouchableOpacity>
+        </View>
+
+        <ScrollView contentContainerStyle={styles.form} keyboardShouldPersistTaps="handled">
+          {/* Preview */}
+          <View style={[styles.preview, { backgroundColor: color }]}>
+            <Text style={styles.previewText}>
+              {icon} {name.trim() || 'Category'}
+            </Text>
+          </View>
+
+          {/* Name */}
+          <View style={styles.inputGroup}>
+            <Text style={styles.label}>Name *</Text>
+            <TextInput
+              style={[styles.input, nameError && styles.inputError]}
+              placeholder="e.g. Errands"
+              placeholderTextColor={COLORS.textTertiary}
+              value={name}
+              onChangeText={(text) => {
+                setName(text);
+                setNameError(null);
+              }}
+              maxLength={30}
+              editable={!saving}
+            />
+            {nameError && <Text style={styles.errorText}>{nameError}</Text>}
+          </View>
+
+          {/* Color */}
+          <View style={styles.inputGroup}>
+            <Text style={styles.label}>Color</Text>
+            <View style={styles.optionsRow}>
+              {CATEGORY_COLORS.map((option) => (
+                <TouchableOpacity
+                  key={option}
+                  style={[
+                    styles.colorSwatch,
+                    { backgroundColor: option },
+                    color === option && styles.swatchSelected,
+                  ]}
+                  onPress={() => setColor(option)}
+                  disabled={saving}
+                />
+              ))}
+            </View>
+          </View>
+
+          {/* Icon */}
+          <View style={styles.inputGroup}>
+            <Text style={styles.label}>Icon</Text>
+            <View style={styles.optionsRow}>
+              {CATEGORY_ICONS.map((option) => (
+                <TouchableOpacity
+                  key={option}
+                  style={[styles.iconOption, icon === option && styles.swatchSelected]}
+                  onPress={() => setIcon(option)}
+                  disabled={saving}
+                >
+                  <Text style={styles.iconText}>{option}</Text>
+                </TouchableOpacity>
+              ))}
+            </View>
+          </View>
+        </ScrollView>
+      </View>
+    </Modal>
+  );
+};
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+    backgroundColor: COLORS.background,
+  },
+  header: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'space-between',
+    paddingHorizontal: SPACING.lg,
+    paddingVertical: SPACING.md,
+    backgroundColor: COLORS.surface,
+    borderBottomWidth: 1,
+    borderBottomColor: COLORS.border,
+  },
+  headerTitle: {
+    fontSize: FONT_SIZES.xl,
+    fontWeight: FONT_WEIGHTS.bold,
+    color: COLORS.text,
+  },
+  cancelButton: {
+    fontSize: FONT_SIZES.md,
+    color: COLORS.textSecondary,
+  },
+  saveButton: {
+    fontSize: FONT_SIZES.md,
+    fontWeight: FONT_WEIGHTS.semibold,
+    color: COLORS.primary,
+  },
+  saveButtonDisabled: {
+    color: COLORS.disabled,
+  },
+  form: {
+    padding: SPACING.lg,
+  },
+  preview: {
+    alignSelf: 'flex-start',
+    paddingHorizontal: SPACING.md,
+    paddingVertical: SPACING.xs,
+    borderRadius: BORDER_RADIUS.sm,
+    marginBottom: SPACING.lg,
+  },
+  previewText: {
+    fontSize: FONT_SIZES.md,
+    fontWeight: FONT_WEIGHTS.semibold,
+    color: '#fff',
+  },
+  inputGroup: {
+    marginBottom: SPACING.lg,
+  },
+  label: {
+    fontSize: FONT_SIZES.md,
+    fontWeight: FONT_WEIGHTS.medium,
+    color: COLORS.text,
+    marginBottom: SPACING.xs,
+  },
+  input: {
+    backgroundColor: COLORS.surface,
+    borderWidth: 1,
+    borderColor: COLORS.border,
+    borderRadius: BORDER_RADIUS.md,
+    padding: SPACING.md,
+    fontSize: FONT_SIZES.md,
+    color: COLORS.text,
+  },
+  inputError: {
+    borderColor: COLORS.error,
+  },
+  errorText: {
+    fontSize: FONT_SIZES.sm,
+    color: COLORS.error,
+    marginTop: SPACING.xs,
+  },
+  optionsRow: {
+    flexDirection: 'row',
+    flexWrap: 'wrap',
+    gap: SPACING.sm,
+  },
+  colorSwatch: {
+    width: 36,
+    height: 36,
+    borderRadius: BORDER_RADIUS.round,
+    borderWidth: 3,
+    borderColor: 'transparent',
+  },
+  swatchSelected: {
+    borderColor: COLORS.text,
+  },
+  iconOption: {
+    width: 44,
+    height: 44,
+    borderRadius: BORDER_RADIUS.md,
+    borderWidth: 2,
+    borderColor: COLORS.border,
+    backgroundColor: COLORS.surface,
+    justifyContent: 'center',
+    alignItems: 'center',
+  },
+  iconText: {
+    fontSize: FONT_SIZES.xl,
+  },
+});
+
+export default CategoryFormModal;
@@ -0,0 +1,137 @@
+/**
+ * ChangeHistory Component
+ * 
+ * Timeline of a task's recorded changes (audit trail), newest first.
+ * 
+ * Features:
+ * - One row per changed field with a readable description
+ *   (e.g. "Deadline moved from … to …"), who changed it and when
+ * - "Created" row at the bottom
+ * - Reloads when the task changes (updatedAt)
+ * - Loading and error states
+ * 
+ * Props:
+ * - task: Task to show the history of
+ * - loadHistory: Fetches the task's history entries (TaskContext.getTaskHistory)
+ */
+
+import React, { useEffect, useState } from 'react';
+import { View, Text, ActivityIndicator, StyleSheet } from 'react-native';
+import { AuditEntry, Task } from '../types';
+import { describeAuditChange } from '../utils/auditUtils';
+import { formatDateTime } from '../utils/dateUtils';
+import { COLORS, SPACING, FONT_SIZES, FONT_WEIGHTS } from '../theme';
+
+interface ChangeHistoryProps {
+  task: Task;
+  loadHistory: (taskId: string) => Promise<AuditEntry[]>;
+}
+
+const ChangeHistory: React.FC<ChangeHistoryProps> = ({ task, loadHistory }) => {
+  const [entries, setEntries] = useState<AuditEntry[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+
+  /**
+   * Load the history whenever the task is saved again
+   */
+  useEffect(() => {
+    let active = true;
+    setLoading(true);
+    setError(null);
+
+    loadHistory(task.id)
+      .then((loaded) => {
+        if (active) {
+          setEntries(loaded);
+        }
+      })
+      .catch((loadError: any) => {
+        if (active) {
+          setError(loadError.message || 'Failed to load the history');
+        }
+      })
+      .finally(() => {
+        if (active) {
+          setLoading(false);
+        }
+      });
+
+    return () => {
+      active = false;
+    };
+  }, [task.id, task.updatedAt, loadHistory]);
+
+  if (loading) {
+    return <ActivityIndicator color={COLORS.primary} style={styles.loading} />;
+  }
+
+  if (error) {
+    return <Text style={styles.error}>{error}</Text>;
+  }
+
+  return (
+    <View>
+      {entries.map((entry) => (
+        <View key={entry.id} style={styles.row}>
+          <View style={styles.dot} />
+          <View style={styles.rowContent}>
+            <Text style={styles.description}>{describeAuditChange(entry)}</Text>
+            <Text style={styles.meta}>
+              {entry.actor.name} · {formatDateTime(entry.timestamp)}
+            </Text>
+          </View>
+        </View>
+      ))}
+
+      <View style={styles.row}>
+        <View style={[styles.dot, styles.dotCreated]} />
+        <View style={styles.rowContent}>
+          <Text style={styles.description}>Created</Text>
+          <Text style={styles.meta}>{formatDateTime(task.createdAt)}</Text>
+        </View>
+      </View>
+    </View>
+  );
+};
+
+const styles = StyleSheet.create({
+  loading: {
+    paddingVertical: SPACING.md,
+  },
+  error: {
+    fontSize: FONT_SIZES.sm,
+    color: COLORS.error,
+  },
+  row: {
+    flexDirection: 'row',
+    alignItems: 'flex-start',
+    paddingVertical: SPACING.xs,
+  },
+  dot: {
+    width: 8,
+    height: 8,
+    borderRadius: 4,
+    backgroundColor: COLORS.primary,
+    marginTop: 6,
+    marginRight: SPACING.sm,
+  },
+  dotCreated: {
+    backgroundColor: COLORS.textTertiary,
+  },
+  rowContent: {
+    flex: 1,
+  },
+  description: {
+    fontSize: FONT_SIZES.md,
+    fontWeight: FONT_WEIGHTS.medium,
+    color: COLORS.text,
+  },
+  meta: {
+    fontSize: FONT_SIZES.sm,
+    color: COLORS.textSecondary,
+    marginTop: 2,
+  },
+});
+
+export default ChangeHistory;
@@ -0,0 +1,313 @@
+/**
+ * DraggableFlatList Component
+ * 
+ * FlatList whose items can be reordered by dragging.
+ * 
+ * Features:
+ * - Items start a drag by calling drag() (e.g. on long press)
+ * - The dragged item follows the finger above the other items
+ * - Drop indicator line where the item will land
+ * - Optional drop range per item (e.g. keep a task within its section)
+ * - Scrolling is paused while an item is dragged
+ * - Releasing without moving cancels the drag
+ * - Accepts every FlatList prop (refresh control, empty state, ...)
+ * 
+ * Props:
+ * - renderItem: Renders an item; receives drag() and whether it is being dragged
+ * - onReorder: Callback with the item's old and new position after a drop
+ * - getDropRange: (Optional) First and last position an item may be dropped at
+ *   (default: the whole list)
+ * - dragEnabled: (Optional) Whether drag() starts a drag (default: true)
+ */
+
+import React, { createContext, useCallback, useContext, useMemo, useRef, useState } from 'react';
+import {
+  View,
+  FlatList,
+  FlatListProps,
+  StyleSheet,
+  Animated,
+  PanResponder,
+  LayoutChangeEvent,
+  LayoutRectangle,
+} from 'react-native';
+import { COLORS, SPACING, SHADOWS } from '../theme';
+
+export interface DragItemInfo<T> {
+  item: T;
+  index: number;
+  drag: () => void;
+  isActive: boolean;
+}
+
+interface DraggableFlatListProps<T>
+  extends Omit<FlatListProps<T>, 'renderItem' | 'CellRendererComponent' | 'scrollEnabled'> {
+  renderItem: (info: DragItemInfo<T>) => React.ReactElement | null;
+  onReorder: (fromIndex: number, toIndex: number) => void;
+  getDropRange?: (index: number) => [number, number];
+  dragEnabled?: boolean;
+}
+
+type CellProps = React.ComponentProps<
+  NonNullable<FlatListProps<unknown>['CellRendererComponent']>
+>;
+
+interface DragCellContextValue {
+  activeIndex: number | null;
+  hoverIndex: number | null;
+  dragY: Animated.Value;
+  onCellLayout: (index: number, layout: LayoutRectangle) => void;
+}
+
+// Drag state for the cells (FlatList needs a stable cell component)
+const DragCellContext = createContext<DragCellContextValue | null>(null);
+
+/**
+ * List cell that records its position and shows the drag state
+ */
+const DragCell: React.FC<CellProps> = ({ index, style, onLayout, children }) => {
+  const drag = useContext(DragCellContext);
+
+  const handleLayout = (event: LayoutChangeEvent) => {
+    drag?.onCellLayout(index, event.nativeEvent.layout);
+    onLayout?.(event);
+  };
+
+  const isActive = drag?.activeIndex === index;
+  const isTarget =
+    drag !== null && drag.activeIndex !== null && drag.hoverIndex === index && !isActive;
+
+  return (
+    <Animated.View
+      style={[
+        style,
+        isActive && styles.activeCell,
+        isActive && drag && { transform: [{ translateY: drag.dragY }] },
+      ]}
+      onLayout={handleLayout}
+    >
+      {isTarget && drag.activeIndex !== null && drag.activeIndex > index && (
+        <View style={[styles.dropIndicator, styles.dropIndicatorTop]} />
+      )}
+      {children}
+      {isTarget && drag.activeIndex !== null && drag.activeIndex < index && (
+        <View style={[styles.dropIndicator, styles.dropIndicatorBottom]} />
+      )}
+    </Animated.View>
+  );
+};
+
+function DraggableFlatList<T>({
+  renderItem,
+  onReorder,
+  getDropRange,
+  dragEnabled = true,
+  data,
+  ...listProps
+}: DraggableFlatListProps<T>) {
+  const [activeIndex, setActiveIndex] = useState<number | null>(null);
+  const [hoverIndex, setHoverIndex] = useState<number | null>(null);
+
+  // Refs mirror the state for the pan responder callbacks
+  const activeIndexRef = useRef<number | null>(null);
+  const hoverIndexRef = useRef<number | null>(null);
+  const dropRangeRef = useRef<[number, number]>([0, 0]);
+  const grantedRef = useRef(false);
+  const layoutsRef = useRef<Map<number, LayoutRectangle>>(new Map());
+  const dragY = useRef(new Animated.Value(0)).current;
+
+  const itemCount = data?.length ?? 0;
+
+  /**
+   * Record where a cell is in the list content
+   */
+  const handleCellLayout = useCallback((index: number, layout: LayoutRectangle) => {
+    layoutsRef.current.set(index, layout);
+  }, []);
+
+  /**
+   * Start dragging an item
+   */
+  const startDrag = useCallback(
+    (index: number) => {
+      if (!dragEnabled) {
+        return;
+      }
+
+      dropRangeRef.current = getDropRange ? getDropRange(index) : [0, itemCount - 1];
+      activeIndexRef.current = index;
+      hoverIndexRef.current = index;
+      dragY.setValue(0);
+      setActiveIndex(index);
+      setHoverIndex(index);
+    },
+    [dragEnabled, getDropRange, itemCount, dragY]
+  );
+
+  /**
+   * End the drag; drops the item at the hovered position unless cancelled
+   */
+  const endDrag = useCallback(
+    (cancelled: boolean) => {
+      const from = activeIndexRef.current;
+      const to = hoverIndexRef.current;
+
+      grantedRef.current = false;
+      activeIndexRef.current = null;
+      hoverIndexRef.current = null;
+      dragY.setValue(0);
+      setActiveIndex(null);
+      setHoverIndex(null);
+
+      if (!cancelled && from !== null && to !== null && from !== to) {
+        onReorder(from, to);
+      }
+    },
+    [onReorder, dragY]
+  );
+
+  /**
+   * Position the dragged item would be dropped at
+   * (the first item its center has passed, within the drop range)
+   */
+  const getHoverIndex = (from: number, offsetY: number): number => {
+    const layouts = layoutsRef.current;
+    const origin = layouts.get(from);
+    if (!origin) {
+      return from;
+    }
+
+    const center = origin.y + origin.height / 2 + offsetY;
+    const middle = (index: number) => {
+      const layout = layouts.get(index);
+      return layout ? layout.y + layout.height / 2 : null;
+    };
+    const [first, last] = dropRangeRef.current;
+
+    for (let index = first; index < from; index++) {
+      const mid = middle(index);
+      if (mid !== null && center < mid) {
+        return index;
+      }
+    }
+    for (let index = last; index > from; index--) {
+      const mid = middle(index);
+      if (mid !== null && center > mid) {
+        return index;
+      }
+    }
+    return from;
+  };
+
+  // The responder is created once; it calls the latest endDrag
+  const endDragRef = useRef(endDrag);
+  endDragRef.current = endDrag;
+
+  // Takes over the touch from the pressed item once a drag has started
+  const panResponder = useRef(
+    PanResponder.create({
+      onMoveShouldSetPanResponderCapture: () => activeIndexRef.current !== null,
+      onPanResponderGrant: () => {
+        grantedRef.current = true;
+      },
+      onPanResponderMove: (_, gesture) => {
+        const from = activeIndexRef.current;
+        if (from === null) {
+          return;
+        }
+
+        dragY.setValue(gesture.dy);
+        const next = getHoverIndex(from, gesture.dy);
+        if (next !== hoverIndexRef.current) {
+          hoverIndexRef.current = next;
+          setHoverIndex(next);
+        }
+      },
+      onPanResponderRelease: () => endDragRef.current(false),
+      onPanResponderTerminate: () => endDragRef.current(true),
+      onPanResponderTerminationRequest: () => false,
+    })
+  ).current;
+
+  /**
+   * Finger lifted before the drag moved (the responder was never granted)
+   */
+  const handleTouchEnd = useCallback(() => {
+    if (activeIndexRef.current !== null && !grantedRef.current) {
+      endDrag(true);
+    }
+  }, [endDrag]);
+
+  const cellContext = useMemo(
+    () => ({ activeIndex, hoverIndex, dragY, onCellLayout: handleCellLayout }),
+    [activeIndex, hoverIndex, dragY, handleCellLayout]
+  );
+
+  // One drag() per position, kept across renders so memoized items don't
+  // re-render; it calls the latest startDrag
+  const startDragRef = useRef(startDrag);
+  startDragRef.current = startDrag;
+  const dragCallbacksRef = useRef<Map<number, () => void>>(new Map());
+
+  const getDrag = useCallback((index: number): (() => void) => {
+    let drag = dragCallbacksRef.current.get(index);
+    if (!drag) {
+      drag = () => startDragRef.current(index);
+      dragCallbacksRef.current.set(index, drag);
+    }
+    return drag;
+  }, []);
+
+  const renderDraggableItem = useCallback(
+    ({ item, index }: { item: T; index: number }) =>
+      renderItem({ item, index, drag: getDrag(index), isActive: index === activeIndex }),
+    [renderItem, getDrag, activeIndex]
+  );
+
+  return (
+    <View
+      style={styles.container}
+      {...panResponder.panHandlers}
+      onTouchEnd={handleTouchEnd}
+      onTouchCancel={handleTouchEnd}
+    >
+      <DragCellContext.Provider value={cellContext}>
+        <FlatList
+          {...listProps}
+          data={data}
+          renderItem={renderDraggableItem}
+          CellRendererComponent={DragCell}
+          extraData={[listProps.extraData, activeIndex]}
+          scrollEnabled={activeIndex === null}
+        />
+      </DragCellContext.Provider>
+    </View>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+  },
+  activeCell: {
+    zIndex: 1,
+    opacity: 0.9,
+    ...SHADOWS.large,
+  },
+  dropIndicator: {
+    position: 'absolute',
+    left: SPACING.md,
+    right: SPACING.md,
+    height: 3,
+    borderRadius: 2,
+    backgroundColor: COLORS.primary,
+  },
+  dropIndicatorTop: {
+    top: 0,
+  },
+  dropIndicatorBottom: {
+    bottom: 0,
+  },
+});
+
+export default DraggableFlatList;
@@ -2,10 +2,13 @@
  * EmptyState Component
  * 
  * Displays a friendly message when there are no tasks to show.
- * Shows different messages based on the active filter.
+ * Shows different messages based on the active filter or saved view, or a
+ * "no matches" message while searching.
  * 
  * Props:
  * - filter: Current filter state ('all' | 'active' | 'completed')
+ * - searchQuery: (Optional) Current search input
+ * - viewName: (Optional) Name of the selected saved view
  */
 
 import React from 'react';
@@ -15,13 +18,31 @@ import { COLORS, SPACING, FONT_SIZES, FONT_WEIGHTS } from '../theme';
 
 interface EmptyStateProps {
   filter: TaskFilter;
+  searchQuery?: string;
+  viewName?: string;
 }
 
-const EmptyState: React.FC<EmptyStateProps> = ({ filter }) => {
+const EmptyState: React.FC<EmptyStateProps> = ({ filter, searchQuery = '', viewName }) => {
   /**
    * Get message and emoji based on current filter
    */
   const getEmptyStateContent = (): { emoji: string; title: string; message: string } => {
+    if (searchQuery.trim()) {
+      return {
+        emoji: '🔍',
+        title: 'No matching tasks',
+        message: `Nothing matches "${searchQuery.trim()}". Try other words or another filter.`,
+      };
+    }
+    
+    if (viewName) {
+      return {
+        emoji: '🗂️',
+        title: `Nothing in ${viewName}`,
+        message: 'No tasks match this view right now.',
+      };
+    }
+    
     switch (filter) {
       case 'active':
         return {
@@ -1,30 +1,76 @@
 /**
  * FilterBar Component
  * 
- * Displays three filter tabs (All, Active, Completed) with task counts.
+ * Displays three filter tabs (All, Active, Completed) with task counts,
+ * followed by the user's saved views (long-press a view to edit it).
  * Allows users to switch between different views of their tasks.
+ * A "Filter" button opens the filter builder; the applied filter query is
+ * shown below the tabs with a button to clear it.
+ * Below the tabs, a row of status chips narrows the list to tasks in any of
+ * the selected workflow statuses, and a scrollable row of tag chips narrows
+ * it to tasks carrying all selected tags.
  * 
  * Props:
  * - activeFilter: Currently selected filter
  * - onFilterChange: Callback when filter is changed
- * - counts: Object with task counts for each filter
+ * - counts: Object with task counts for each filter and tag
+ * - availableTags: (Optional) Tags to offer as filters, most used first
+ * - selectedTags: (Optional) Currently selected tag filters
+ * - onTagsChange: (Optional) Callback when tag selection changes
+ * - selectedStatuses: (Optional) Currently selected status filters
+ * - onStatusesChange: (Optional) Callback when status selection changes (shows the status chips)
+ * - views: (Optional) Saved views shown as extra tabs
+ * - viewCounts: (Optional) Number of tasks in each view, by view ID
+ * - activeViewId: (Optional) Selected view (null = a built-in filter is selected)
+ * - onViewSelect: (Optional) Callback when a view tab is pressed
+ * - onViewLongPress: (Optional) Callback when a view tab is long-pressed
+ * - customQuery: (Optional) Applied filter query (empty = none)
+ * - onOpenBuilder: (Optional) Callback when the "Filter" button is pressed
+ * - onClearCustomQuery: (Optional) Callback to remove the applied filter query
  */
 
 import React from 'react';
-import { View, Text, TouchableOpacity, StyleSheet } from 'react-native';
-import { TaskFilter } from '../types';
+import { View, Text, TouchableOpacity, StyleSheet, ScrollView } from 'react-native';
+import { TaskFilter, TaskCounts, SavedView, TaskStatus } from '../types';
+import { TASK_STATUSES, STATUS_LABELS, STATUS_COLORS } from '../utils/statusUtils';
 import { COLORS, SPACING, FONT_SIZES, BORDER_RADIUS, FONT_WEIGHTS } from '../theme';
 
 interface FilterBarProps {
   activeFilter: TaskFilter;
   onFilterChange: (filter: TaskFilter) => void;
-  counts: Record<TaskFilter, number>;
+  counts: TaskCounts;
+  availableTags?: string[];
+  selectedTags?: string[];
+  onTagsChange?: (tags: string[]) => void;
+  selectedStatuses?: TaskStatus[];
+  onStatusesChange?: (statuses: TaskStatus[]) => void;
+  views?: SavedView[];
+  viewCounts?: Record<string, number>;
+  activeViewId?: string | null;
+  onViewSelect?: (viewId: string) => void;
+  onViewLongPress?: (view: SavedView) => void;
+  customQuery?: string;
+  onOpenBuilder?: () => void;
+  onClearCustomQuery?: () => void;
 }
 
 const FilterBar: React.FC<FilterBarProps> = ({
   activeFilter,
   onFilterChange,
   counts,
+  availableTags = [],
+  selectedTags = [],
+  onTagsChange,
+  selectedStatuses = [],
+  onStatusesChange,
+  views = [],
+  viewCounts = {},
+  activeViewId = null,
+  onViewSelect,
+  onViewLongPress,
+  customQuery = '',
+  onOpenBuilder,
+  onClearCustomQuery,
 }) => {
   /**
    * Filter options configuration
@@ -35,34 +81,175 @@ const FilterBar: React.FC<FilterBarProps> = ({
     { key: 'completed', label: 'Completed' },
   ];
 
+  /**
+   * Toggle a tag in the selection
+   */
+  const handleTagPress = (tag: string) => {
+    if (!onTagsChange) {
+      return;
+    }
+    onTagsChange(
+      selectedTags.includes(tag)
+        ? selectedTags.filter((t) => t !== tag)
+        : [...selectedTags, tag]
+    );
+  };
+
+  /**
+   * Toggle a status in the selection
+   */
+  const handleStatusPress = (status: TaskStatus) => {
+    if (!onStatusesChange) {
+      return;
+    }
+    onStatusesChange(
+      selectedStatuses.includes(status)
+        ? selectedStatuses.filter((s) => s !== status)
+        : [...selectedStatuses, status]
+    );
+  };
+
+  /**
+   * Render one tab (built-in filter or saved view)
+   */
+  const renderTab = (
+    key: string,
+    label: string,
+    count: number,
+    isActive: boolean,
+    onPress: () => void,
+    onLongPress?: () => void
+  ) => (
+    <TouchableOpacity
+      key={key}
+      style={[styles.filterButton, isActive && styles.filterButtonActive]}
+      onPress={onPress}
+      onLongPress={onLongPress}
+      activeOpacity={0.7}
+    >
+      <Text style={[styles.filterLabel, isActive && styles.filterLabelActive]} numberOfLines={1}>
+        {label}
+      </Text>
+      {count > 0 && (
+        <View style={[styles.badge, isActive && styles.badgeActive]}>
+          <Text style={[styles.badgeText, isActive && styles.badgeTextActive]}>{count}</Text>
+        </View>
+      )}
+    </TouchableOpacity>
+  );
+
   return (
     <View style={styles.container}>
-      <View style={styles.filtersRow}>
-        {filters.map((filter) => {
-          const isActive = activeFilter === filter.key;
-          const count = counts[filter.key];
+      <ScrollView
+        horizontal
+        showsHorizontalScrollIndicator={false}
+        contentContainerStyle={styles.filtersRow}
+      >
+        {filters.map((filter) =>
+          renderTab(
+            filter.key,
+            filter.label,
+            counts[filter.key],
+            activeViewId === null && activeFilter === filter.key,
+            () => onFilterChange(filter.key)
+          )
+        )}
+        {views.map((view) =>
+          renderTab(
+            view.id,
+            view.name,
+            viewCounts[view.id] ?? 0,
+            activeViewId === view.id,
+            () => onViewSelect?.(view.id),
+            onViewLongPress && (() => onViewLongPress(view))
+          )
+        )}
+        {onOpenBuilder && (
+          <TouchableOpacity
+            style={[styles.filterButton, styles.builderButton]}
+            onPress={onOpenBuilder}
+            activeOpacity={0.7}
+          >
+            <Text style={styles.builderLabel}>⚙️ Filter</Text>
+          </TouchableOpacity>
+        )}
+      </ScrollView>
 
-          return (
+      {/* Applied filter query */}
+      {customQuery.length > 0 && (
+        <View style={styles.queryRow}>
+          <TouchableOpacity style={styles.queryTextButton} onPress={onOpenBuilder}>
+            <Text style={styles.queryText} numberOfLines={1}>
+              🔎 {customQuery}
+            </Text>
+          </TouchableOpacity>
+          {onClearCustomQuery && (
             <TouchableOpacity
-              key={filter.key}
-              style={[styles.filterButton, isActive && styles.filterButtonActive]}
-              onPress={() => onFilterChange(filter.key)}
-              activeOpacity={0.7}
+              onPress={onClearCustomQuery}
+              hitSlop={{ top: 8, bottom: 8, left: 8, right: 8 }}
             >
-              <Text style={[styles.filterLabel, isActive && styles.filterLabelActive]}>
-                {filter.label}
-              </Text>
-              {count > 0 && (
-                <View style={[styles.badge, isActive && styles.badgeActive]}>
-                  <Text style={[styles.badgeText, isActive && styles.badgeTextActive]}>
-                    {count}
-                  </Text>
-                </View>
-              )}
+              <Text style={styles.queryClear}>✕</Text>
             </TouchableOpacity>
-          );
-        })}
-      </View>
+          )}
+        </View>
+      )}
+
+      {/* Status filters */}
+      {onStatusesChange && (
+        <ScrollView
+          horizontal
+          showsHorizontalScrollIndicator={false}
+          contentContainerStyle={styles.tagsRow}
+        >
+          {TASK_STATUSES.map((status) => {
+            const isSelected = selectedStatuses.includes(status);
+            return (
+              <TouchableOpacity
+                key={status}
+                style={[
+                  styles.tagChip,
+                  styles.statusChip,
+                  isSelected && { backgroundColor: STATUS_COLORS[status] },
+                ]}
+                onPress={() => handleStatusPress(status)}
+                activeOpacity={0.7}
+              >
+                {!isSelected && (
+                  <View style={[styles.statusDot, { backgroundColor: STATUS_COLORS[status] }]} />
+                )}
+                <Text style={[styles.tagLabel, isSelected && styles.filterLabelActive]}>
+                  {STATUS_LABELS[status]} {counts.statuses[status]}
+                </Text>
+              </TouchableOpacity>
+            );
+          })}
+        </ScrollView>
+      )}
+
+      {/* Tag filters */}
+      {availableTags.length > 0 && onTagsChange && (
+        <ScrollView
+          horizontal
+          showsHorizontalScrollIndicator={false}
+          contentContainerStyle={styles.tagsRow}
+        >
+          {availableTags.map((tag) => {
+            const isSelected = selectedTags.includes(tag);
+            return (
+              <TouchableOpacity
+                key={tag}
+                style={[styles.tagChip, isSelected && styles.tagChipActive]}
+                onPress={() => handleTagPress(tag)}
+                activeOpacity={0.7}
+              >
+                <Text style={[styles.tagLabel, isSelected && styles.filterLabelActive]}>
+                  #{tag} {counts.tags[tag] ?? 0}
+                </Text>
+              </TouchableOpacity>
+            );
+          })}
+        </ScrollView>
+      )}
     </View>
   );
 };
@@ -76,11 +263,11 @@ const styles = StyleSheet.create({
     borderBottomColor: COLORS.border,
   },
   filtersRow: {
-    flexDirection: 'row',
+    flexGrow: 1,
     gap: SPACING.sm,
   },
   filterButton: {
-    flex: 1,
+    flexGrow: 1,
     flexDirection: 'row',
     alignItems: 'center',
     justifyContent: 'center',
@@ -101,6 +288,65 @@ const styles = StyleSheet.create({
   filterLabelActive: {
     color: '#fff',
   },
+  builderButton: {
+    flexGrow: 0,
+    borderWidth: 1,
+    borderColor: COLORS.border,
+    backgroundColor: COLORS.surface,
+  },
+  builderLabel: {
+    fontSize: FONT_SIZES.md,
+    fontWeight: FONT_WEIGHTS.medium,
+    color: COLORS.primaryDark,
+  },
+  queryRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: SPACING.sm,
+    marginTop: SPACING.sm,
+    paddingHorizontal: SPACING.sm,
+    paddingVertical: SPACING.xs,
+    borderRadius: BORDER_RADIUS.md,
+    backgroundColor: COLORS.background,
+  },
+  queryTextButton: {
+    flex: 1,
+  },
+  queryText: {
+    fontSize: FONT_SIZES.sm,
+    color: COLORS.text,
+  },
+  queryClear: {
+    fontSize: FONT_SIZES.md,
+    color: COLORS.textSecondary,
+  },
+  tagsRow: {
+    gap: SPACING.xs,
+    paddingTop: SPACING.sm,
+  },
+  tagChip: {
+    paddingHorizontal: SPACING.sm,
+    paddingVertical: SPACING.xs,
+    borderRadius: BORDER_RADIUS.round,
+    backgroundColor: COLORS.background,
+  },
+  tagChipActive: {
+    backgroundColor: COLORS.primary,
+  },
+  tagLabel: {
+    fontSize: FONT_SIZES.sm,
+    color: COLORS.text,
+  },
+  statusChip: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: SPACING.xs,
+  },
+  statusDot: {
+    width: 8,
+    height: 8,
+    borderRadius: BORDER_RADIUS.round,
+  },
   badge: {
     backgroundColor: COLORS.border,
     borderRadius: BORDER_RADIUS.round,
@@ -0,0 +1,524 @@
+/**
+ * FilterBuilderModal Component
+ * 
+ * Modal for building a filter query and saving it as a named view.
+ * 
+ * Features:
+ * - Query text input (e.g. "priority:high due:<7d -completed") with live
+ *   error messages and the number of matching tasks
+ * - Chips for status, priority, category, due date and tags that edit the
+ *   query text
+ * - Save as a named view, or apply without saving
+ * - Edit mode for an existing view (rename, change query, delete)
+ * 
+ * Props:
+ * - visible: Whether modal is shown
+ * - onClose: Callback when modal is closed
+ * - initialQuery: Query text to start from
+ * - editView: (Optional) View to edit. If provided, modal is in edit mode.
+ * - categories: The user's categories (for category chips and names)
+ * - availableTags: Tags to offer as chips, most used first
+ * - otherViewNames: Names of the user's other views (for uniqueness check)
+ * - getMatchCount: Returns how many tasks a query text matches
+ * - onApply: (Optional) Callback to use the query without saving (new filters only)
+ * - onSaveView: Callback with the view name and query text
+ * - onDeleteView: (Optional) Callback to delete the edited view
+ */
+
+import React, { useState, useEffect, useMemo } from 'react';
+import {
+  View,
+  Text,
+  TextInput,
+  TouchableOpacity,
+  Modal,
+  StyleSheet,
+  ScrollView,
+  Alert,
+} from 'react-native';
+import { Priority, SavedView, TaskQuery, UserCategory } from '../types';
+import { parseTaskQuery, formatTaskQuery } from '../utils/taskQueryUtils';
+import { validateViewName } from '../utils/validators';
+import { COLORS, SPACING, FONT_SIZES, BORDER_RADIUS, FONT_WEIGHTS } from '../theme';
+
+interface FilterBuilderModalProps {
+  visible: boolean;
+  onClose: () => void;
+  initialQuery: string;
+  editView?: SavedView | null;
+  categories: UserCategory[];
+  availableTags: string[];
+  otherViewNames: string[];
+  getMatchCount: (query: string) => number;
+  onApply?: (query: string) => void;
+  onSaveView: (name: string, query: string) => Promise<void>;
+  onDeleteView?: () => Promise<void>;
+}
+
+const STATUS_OPTIONS: Array<{ value: boolean | null; label: string }> = [
+  { value: null, label: 'Any' },
+  { value: false, label: 'Active' },
+  { value: true, label: 'Completed' },
+];
+
+const PRIORITY_OPTIONS: Array<{ value: Priority; label: string }> = [
+  { value: Priority.HIGH, label: 'High' },
+  { value: Priority.MEDIUM, label: 'Medium' },
+  { value: Priority.LOW, label: 'Low' },
+];
+
+const SYNTAX_HELP =
+  'Terms: priority:high,medium · category:work · due:today, due:<7d, due:>tomorrow, ' +
+  'due:2026-06-01 · overdue · completed · #tag. Put "-" before a term to exclude it ' +
+  '(-completed, -#tag); other words search titles and descriptions.';
+
+type DuePreset = 'any' | 'overdue' | 'today' | 'week';
+
+const DUE_OPTIONS: Array<{ value: DuePreset; label: string }> = [
+  { value: 'any', label: 'Any time' },
+  { value: 'overdue', label: 'Overdue' },
+  { value: 'today', label: 'Today' },
+  { value: 'week', label: 'Next 7 days' },
+];
+
+/**
+ * Which due preset a query corresponds to (null = custom due filter)
+ */
+const getDuePreset = (query: TaskQuery): DuePreset | null => {
+  const hasDue = !!(query.dueBefore || query.dueAfter || query.dueWithin);
+  if (!hasDue && query.overdue === null) {
+    return 'any';
+  }
+  if (!hasDue && query.overdue) {
+    return 'overdue';
+  }
+  if (query.overdue === null && !query.dueBefore && !query.dueAfter) {
+    if (query.dueWithin === 'today') {
+      return 'today';
+    }
+    if (query.dueWithin === '7d') {
+      return 'week';
+    }
+  }
+  return null;
+};
+
+const FilterBuilderModal: React.FC<FilterBuilderModalProps> = ({
+  visible,
+  onClose,
+  initialQuery,
+  editView,
+  categories,
+  availableTags,
+  otherViewNames,
+  getMatchCount,
+  onApply,
+  onSaveView,
+  onDeleteView,
+}) => {
+  const isEditMode = !!editView;
+
+  const [queryText, setQueryText] = useState('');
+  const [name, setName] = useState('');
+  const [nameError, setNameError] = useState<string | null>(null);
+  const [saving, setSaving] = useState(false);
+
+  /**
+   * Initialize form with the view being edited or the current filter
+   */
+  useEffect(() => {
+    setQueryText(editView ? editView.query : initialQuery);
+    setName(editView ? editView.name : '');
+    setNameError(null);
+  }, [editView, initialQuery, visible]);
+
+  const { query, errors } = useMemo(
+    () => parseTaskQuery(queryText, categories),
+    [queryText, categories]
+  );
+  const matchCount = useMemo(() => getMatchCount(queryText), [getMatchCount, queryText]);
+  const duePreset = getDuePreset(query);
+
+  /**
+   * Apply a change made with the chips to the query text
+   */
+  const updateQuery = (changes: Partial<TaskQuery>) => {
+    setQueryText(formatTaskQuery({ ...query, ...changes }, categories));
+  };
+
+  /**
+   * Add or remove a value from one of the query's lists
+   */
+  const toggle = <T,>(values: T[], value: T): T[] => {
+    return values.includes(value) ? values.filter((v) => v !== value) : [...values, value];
+  };
+
+  /**
+   * Select a due date preset
+   */
+  const handleDuePreset = (preset: DuePreset) => {
+    const cleared = { dueBefore: null, dueAfter: null, dueWithin: null, overdue: null };
+    switch (preset) {
+      case 'overdue':
+        updateQuery({ ...cleared, overdue: true });
+        break;
+      case 'today':
+        updateQuery({ ...cleared, dueWithin: 'today' });
+        break;
+      case 'week':
+        updateQuery({ ...cleared, dueWithin: '7d' });
+        break;
+      default:
+        updateQuery(cleared);
+    }
+  };
+
+  /**
+   * Use the query without saving it
+   */
+  const handleApply = () => {
+    onApply?.(queryText.trim());
+    onClose();
+  };
+
+  /**
+   * Save the query as a view (or save the edited view)
+   */
+  const handleSave = async () => {
+    const validation = validateViewName(name, otherViewNames);
+    setNameError(validation);
+    if (validation) {
+      return;
+    }
+
+    setSaving(true);
+    try {
+      await onSaveView(name.trim(), queryText.trim());
+      setSaving(false);
+      onClose();
+    } catch (error: any) {
+      setSaving(false);
+      Alert.alert('Error', error.message || 'Failed to save view');
+    }
+  };
+
+  /**
+   * Delete the edited view after confirmation
+   */
+  const handleDelete = () => {
+    if (!editView || !onDeleteView) {
+      return;
+    }
+    Alert.alert('Delete View', `Delete "${editView.name}"? Tasks are not affected.`, [
+      { text: 'Cancel', style: 'cancel' },
+      {
+        text: 'Delete',
+        style: 'destructive',
+        onPress: async () => {
+          try {
+            await onDeleteView();
+            onClose();
+          } catch (error: any) {
+            Alert.alert('Error', error.message || 'Failed to delete view');
+          }
+        },
+      },
+    ]);
+  };
+
+  /**
+   * Render one selectable chip
+   */
+  const renderChip = (key: string, label: string, selected: boolean, onPress: () => void) => (
+    <TouchableOpacity
+      key={key}
+      style={[styles.chip, selected && styles.chipSelected]}
+      onPress={onPress}
+      disabled={saving}
+    >
+      <Text style={[styles.chipText, selected && styles.chipTextSelected]}>{label}</Text>
+    </TouchableOpacity>
+  );
+
+  return (
+    <Modal
+      visible={visible}
+      animationType="slide"
+      presentationStyle="formSheet"
+      onRequestClose={onClose}
+    >
+      <View style={styles.container}>
+        {/* Header */}
+        <View style={styles.header}>
+          <TouchableOpacity onPress={onClose} disabled={saving}>
+            <Text style={styles.cancelButton}>Cancel</Text>
+          </TouchableOpacity>
+          <Text style={styles.headerTitle}>{isEditMode ? 'Edit View' : 'Filter'}</Text>
+          {isEditMode ? (
+            <TouchableOpacity onPress={handleSave} disabled={saving}>
+              <Text style={[styles.saveButton, saving && styles.saveButtonDisabled]}>
+                {saving ? 'Saving...' : 'Save'}
+              </Text>
+            </TouchableOpacity>
+          ) : (
+            <TouchableOpacity onPress={handleApply} disabled={saving}>
+              <Text style={styles.saveButton}>Apply</Text>
+            </TouchableOpacity>
+          )}
+        </View>
+
+        <ScrollView contentContainerStyle={styles.form} keyboardShouldPersistTaps="handled">
+          {/* Query */}
+          <View style={styles.inputGroup}>
+            <Text style={styles.label}>Query</Text>
+            <TextInput
+              style={[styles.input, errors.length > 0 && styles.inputError]}
+              placeholder="priority:high due:<7d -completed"
+              placeholderTextColor={COLORS.textTertiary}
+              value={queryText}
+              onChangeText={setQueryText}
+              autoCapitalize="none"
+              autoCorrect={false}
+              editable={!saving}
+            />
+            {errors.map((error) => (
+              <Text key={error} style={styles.errorText}>
+                {error}
+              </Text>
+            ))}
+            <Text style={styles.hint}>
+              {matchCount} {matchCount === 1 ? 'task matches' : 'tasks match'}
+            </Text>
+          </View>
+
+          {/* Status */}
+          <View style={styles.inputGroup}>
+            <Text style={styles.label}>Status</Text>
+            <View style={styles.chipsRow}>
+              {STATUS_OPTIONS.map((option) =>
+                renderChip(option.label, option.label, query.completed === option.value, () =>
+                  updateQuery({ completed: option.value })
+                )
+              )}
+            </View>
+          </View>
+
+          {/* Priority */}
+          <View style={styles.inputGroup}>
+            <Text style={styles.label}>Priority</Text>
+            <View style={styles.chipsRow}>
+              {PRIORITY_OPTIONS.map((option) =>
+                renderChip(
+                  option.value,
+                  option.label,
+                  query.priorities.includes(option.value),
+                  () => updateQuery({ priorities: toggle(query.priorities, option.value) })
+                )
+              )}
+            </View>
+          </View>
+
+          {/* Category */}
+          <View style={styles.inputGroup}>
+            <Text style={styles.label}>Category</Text>
+            <View style={styles.chipsRow}>
+              {categories.map((category) =>
+                renderChip(
+                  category.id,
+                  `${category.icon} ${category.name}`,
+                  query.categories.includes(category.id),
+                  () => updateQuery({ categories: toggle(query.categories, category.id) })
+                )
+              )}
+            </View>
+          </View>
+
+          {/* Due */}
+          <View style={styles.inputGroup}>
+            <Text style={styles.label}>Due</Text>
+            <View style={styles.chipsRow}>
+              {DUE_OPTIONS.map((option) =>
+                renderChip(option.value, option.label, duePreset === option.value, () =>
+                  handleDuePreset(option.value)
+                )
+              )}
+            </View>
+          </View>
+
+          {/* Tags */}
+          {availableTags.length > 0 && (
+            <View style={styles.inputGroup}>
+              <Text style={styles.label}>Tags</Text>
+              <View style={styles.chipsRow}>
+                {availableTags.map((tag) =>
+                  renderChip(tag, `#${tag}`, query.tags.includes(tag), () =>
+                    updateQuery({ tags: toggle(query.tags, tag) })
+                  )
+                )}
+              </View>
+            </View>
+          )}
+
+          {/* Save as view */}
+          <View style={styles.inputGroup}>
+            <Text style={styles.label}>{isEditMode ? 'Name *' : 'Save as view'}</Text>
+            <TextInput
+              style={[styles.input, nameError && styles.inputError]}
+              placeholder="e.g. Due this week"
+              placeholderTextColor={COLORS.textTertiary}
+              value={name}
+              onChangeText={(text) => {
+                setName(text);
+                setNameError(null);
+              }}
+              maxLength={30}
+              editable={!saving}
+            />
+            {nameError && <Text style={styles.errorText}>{nameError}</Text>}
+            {!isEditMode && (
+              <TouchableOpacity
+                style={[styles.saveViewButton, saving && styles.saveViewButtonDisabled]}
+                onPress={handleSave}
+                disabled={saving}
+              >
+                <Text style={styles.saveViewButtonText}>
+                  {saving ? 'Saving...' : 'Save View'}
+                </Text>
+              </TouchableOpacity>
+            )}
+          </View>
+
+          {/* Delete */}
+          {isEditMode && onDeleteView && (
+            <TouchableOpacity style={styles.deleteButton} onPress={handleDelete} disabled={saving}>
+              <Text style={styles.deleteButtonText}>Delete View</Text>
+            </TouchableOpacity>
+          )}
+
+          {/* Syntax help */}
+          <Text style={styles.hint}>{SYNTAX_HELP}</Text>
+        </ScrollView>
+      </View>
+    </Modal>
+  );
+};
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+    backgroundColor: COLORS.background,
+  },
+  header: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'space-between',
+    paddingHorizontal: SPACING.lg,
+    paddingVertical: SPACING.md,
+    backgroundColor: COLORS.surface,
+    borderBottomWidth: 1,
+    borderBottomColor: COLORS.border,
+  },
+  headerTitle: {
+    fontSize: FONT_SIZES.xl,
+    fontWeight: FONT_WEIGHTS.bold,
+    color: COLORS.text,
+  },
+  cancelButton: {
+    fontSize: FONT_SIZES.md,
+    color: COLORS.textSecondary,
+  },
+  saveButton: {
+    fontSize: FONT_SIZES.md,
+    fontWeight: FONT_WEIGHTS.semibold,
+    color: COLORS.primary,
+  },
+  saveButtonDisabled: {
+    color: COLORS.disabled,
+  },
+  form: {
+    padding: SPACING.lg,
+  },
+  inputGroup: {
+    marginBottom: SPACING.lg,
+  },
+  label: {
+    fontSize: FONT_SIZES.md,
+    fontWeight: FONT_WEIGHTS.medium,
+    color: COLORS.text,
+    marginBottom: SPACING.xs,
+  },
+  input: {
+    backgroundColor: COLORS.surface,
+    borderWidth: 1,
+    borderColor: COLORS.border,
+    borderRadius: BORDER_RADIUS.md,
+    padding: SPACING.md,
+    fontSize: FONT_SIZES.md,
+    color: COLORS.text,
+  },
+  inputError: {
+    borderColor: COLORS.error,
+  },
+  errorText: {
+    fontSize: FONT_SIZES.sm,
+    color: COLORS.error,
+    marginTop: SPACING.xs,
+  },
+  hint: {
+    fontSize: FONT_SIZES.sm,
+    color: COLORS.textSecondary,
+    marginTop: SPACING.xs,
+  },
+  chipsRow: {
+    flexDirection: 'row',
+    flexWrap: 'wrap',
+    gap: SPACING.sm,
+  },
+  chip: {
+    paddingHorizontal: SPACING.md,
+    paddingVertical: SPACING.xs,
+    borderRadius: BORDER_RADIUS.round,
+    borderWidth: 1,
+    borderColor: COLORS.border,
+    backgroundColor: COLORS.surface,
+  },
+  chipSelected: {
+    backgroundColor: COLORS.primary,
+    borderColor: COLORS.primary,
+  },
+  chipText: {
+    fontSize: FONT_SIZES.sm,
+    color: COLORS.text,
+  },
+  chipTextSelected: {
+    color: '#fff',
+    fontWeight: FONT_WEIGHTS.semibold,
+  },
+  saveViewButton: {
+    alignItems: 'center',
+    marginTop: SPACING.sm,
+    paddingVertical: SPACING.md,
+    borderRadius: BORDER_RADIUS.md,
+    backgroundColor: COLORS.primary,
+  },
+  saveViewButtonDisabled: {
+    backgroundColor: COLORS.disabled,
+  },
+  saveViewButtonText: {
+    fontSize: FONT_SIZES.md,
+    fontWeight: FONT_WEIGHTS.semibold,
+    color: '#fff',
+  },
+  deleteButton: {
+    alignItems: 'center',
+    paddingVertical: SPACING.md,
+    marginBottom: SPACING.lg,
+  },
+  deleteButtonText: {
+    fontSize: FONT_SIZES.md,
+    fontWeight: FONT_WEIGHTS.semibold,
+    color: COLORS.error,
+  },
+});
+
+export default FilterBuilderModal;
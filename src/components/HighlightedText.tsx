@@ -0,0 +1,78 @@
+/**
+ * HighlightedText Component
+ * 
+ * Text with the parts matching a search query highlighted.
+ * 
+ * Features:
+ * - Case- and accent-insensitive matching (see searchUtils)
+ * - Renders plain text when there is no query or no match
+ * 
+ * Props:
+ * - text: Text to display
+ * - query: Search input to highlight (empty = no highlighting)
+ * - style: Style of the whole text
+ * - numberOfLines: (Optional) Truncate after this many lines
+ */
+
+import React, { useMemo } from 'react';
+import { Text, StyleSheet, StyleProp, TextStyle } from 'react-native';
+import { getMatchRanges } from '../utils/searchUtils';
+import { COLORS } from '../theme';
+
+interface HighlightedTextProps {
+  text: string;
+  query: string;
+  style?: StyleProp<TextStyle>;
+  numberOfLines?: number;
+}
+
+const HighlightedText: React.FC<HighlightedTextProps> = ({
+  text,
+  query,
+  style,
+  numberOfLines,
+}) => {
+  /**
+   * Split the text into plain and highlighted parts
+   */
+  const parts = useMemo(() => {
+    const ranges = getMatchRanges(text, query);
+    const result: Array<{ text: string; highlighted: boolean }> = [];
+    let index = 0;
+
+    ranges.forEach((range) => {
+      if (range.start > index) {
+        result.push({ text: text.slice(index, range.start), highlighted: false });
+      }
+      result.push({ text: text.slice(range.start, range.end), highlighted: true });
+      index = range.end;
+    });
+    if (index < text.length) {
+      result.push({ text: text.slice(index), highlighted: false });
+    }
+    return result;
+  }, [text, query]);
+
+  return (
+    <Text style={style} numberOfLines={numberOfLines}>
+      {parts.map((part, index) =>
+        part.highlighted ? (
+          <Text key={index} style={styles.highlight}>
+            {part.text}
+          </Text>
+        ) : (
+          part.text
+        )
+      )}
+    </Text>
+  );
+};
+
+const styles = StyleSheet.create({
+  highlight: {
+    backgroundColor: COLORS.highlight,
+    color: COLORS.text,
+  },
+});
+
+export default HighlightedText;
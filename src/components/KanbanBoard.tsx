@@ -0,0 +1,444 @@
+/**
+ * KanbanBoard Component
+ * 
+ * Horizontally scrolling board with one column of compact task cards per
+ * status, category or priority.
+ * 
+ * Features:
+ * - Fixed-width columns with their own vertical scrolling
+ * - Column header with the task count and WIP limit ("4 / 3" turns red
+ *   when the column holds more tasks than its limit)
+ * - Long-press a card and drag it to another column; the target column is
+ *   highlighted and the board scrolls when the card nears an edge
+ * - Tap a card to open the task, tap a header to edit the column's limit
+ * 
+ * Props:
+ * - columns: Columns to show (see boardUtils.getBoardColumns)
+ * - getColumnLimit: WIP limit of a column (null = no limit)
+ * - onTaskPress: Callback when a card is tapped
+ * - onTaskMove: Callback with a dropped task and the column it was dropped on
+ * - onColumnPress: (Optional) Callback when a column header is tapped
+ */
+
+import React, { useRef, useState } from 'react';
+import {
+  View,
+  Text,
+  ScrollView,
+  TouchableOpacity,
+  StyleSheet,
+  Animated,
+  PanResponder,
+  GestureResponderEvent,
+  NativeScrollEvent,
+  NativeSyntheticEvent,
+  useWindowDimensions,
+} from 'react-native';
+import { Task, Priority, BoardColumn } from '../types';
+import { formatDate, isOverdue } from '../utils/dateUtils';
+import { isOverWipLimit } from '../utils/boardUtils';
+import { COLORS, SPACING, FONT_SIZES, BORDER_RADIUS, SHADOWS, FONT_WEIGHTS } from '../theme';
+
+interface KanbanBoardProps {
+  columns: BoardColumn[];
+  getColumnLimit: (columnKey: string) => number | null;
+  onTaskPress: (task: Task) => void;
+  onTaskMove: (task: Task, from: BoardColumn, to: BoardColumn) => void;
+  onColumnPress?: (column: BoardColumn) => void;
+}
+
+// Width of a column, and the gap between columns
+const COLUMN_WIDTH = 264;
+const COLUMN_GAP = SPACING.sm;
+
+// Distance from the screen edge where a dragged card scrolls the board
+const EDGE_SCROLL_WIDTH = 48;
+
+// Minimum time between two edge scrolls (one column each)
+const EDGE_SCROLL_INTERVAL = 600;
+
+const PRIORITY_COLORS: Record<Priority, string> = {
+  [Priority.HIGH]: COLORS.priorityHigh,
+  [Priority.MEDIUM]: COLORS.priorityMedium,
+  [Priority.LOW]: COLORS.priorityLow,
+};
+
+interface DragState {
+  task: Task;
+  columnIndex: number;
+
+  /** Top-left corner of the card when the drag started (board coordinates) */
+  left: number;
+  top: number;
+}
+
+const KanbanBoard: React.FC<KanbanBoardProps> = ({
+  columns,
+  getColumnLimit,
+  onTaskPress,
+  onTaskMove,
+  onColumnPress,
+}) => {
+  const { width: windowWidth } = useWindowDimensions();
+
+  // Card being dragged and the column it would be dropped on
+  const [drag, setDrag] = useState<DragState | null>(null);
+  const [targetIndex, setTargetIndex] = useState<number | null>(null);
+
+  // Refs for the pan responder callbacks (created once)
+  const boardRef = useRef<View>(null);
+  const scrollRef = useRef<ScrollView>(null);
+  const dragRef = useRef<DragState | null>(null);
+  const grantedRef = useRef(false);
+  const boardOriginRef = useRef({ x: 0, y: 0 });
+  const scrollXRef = useRef(0);
+  const lastEdgeScrollRef = useRef(0);
+  const layoutRef = useRef({ columns, windowWidth, onTaskMove });
+  layoutRef.current = { columns, windowWidth, onTaskMove };
+  const pan = useRef(new Animated.ValueXY()).current;
+
+  /**
+   * Remember where the board is on screen (cards are dragged in board coordinates)
+   */
+  const handleBoardLayout = () => {
+    boardRef.current?.measureInWindow((x, y) => {
+      boardOriginRef.current = { x, y };
+    });
+  };
+
+  /**
+   * Track the horizontal scroll position
+   */
+  const handleScroll = (event: NativeSyntheticEvent<NativeScrollEvent>) => {
+    scrollXRef.current = event.nativeEvent.contentOffset.x;
+  };
+
+  /**
+   * Start dragging a card
+   */
+  const startDrag = (task: Task, columnIndex: number, event: GestureResponderEvent) => {
+    const { pageX, pageY, locationX, locationY } = event.nativeEvent;
+    const state = {
+      task,
+      columnIndex,
+      left: pageX - locationX - boardOriginRef.current.x,
+      top: pageY - locationY - boardOriginRef.current.y,
+    };
+
+    dragRef.current = state;
+    pan.setValue({ x: 0, y: 0 });
+    setDrag(state);
+    setTargetIndex(columnIndex);
+  };
+
+  /**
+   * Column under a screen x position
+   */
+  const getColumnIndexAt = (pageX: number): number => {
+    const x = pageX - boardOriginRef.current.x + scrollXRef.current - SPACING.md;
+    const index = Math.floor(x / (COLUMN_WIDTH + COLUMN_GAP));
+    return Math.min(Math.max(index, 0), layoutRef.current.columns.length - 1);
+  };
+
+  /**
+   * Scroll one column towards the edge the finger is near
+   */
+  const scrollAtEdge = (pageX: number) => {
+    const now = Date.now();
+    const { windowWidth: width } = layoutRef.current;
+    const direction =
+      pageX > width - EDGE_SCROLL_WIDTH ? 1 : pageX < EDGE_SCROLL_WIDTH ? -1 : 0;
+
+    if (direction === 0 || now - lastEdgeScrollRef.current < EDGE_SCROLL_INTERVAL) {
+      return;
+    }
+
+    lastEdgeScrollRef.current = now;
+    scrollRef.current?.scrollTo({
+      x: Math.max(scrollXRef.current + direction * (COLUMN_WIDTH + COLUMN_GAP), 0),
+      animated: true,
+    });
+  };
+
+  /**
+   * End the drag; moves the task unless cancelled or dropped on its own column
+   */
+  const endDrag = (dropIndex: number | null) => {
+    const current = dragRef.current;
+    const { columns: shownColumns } = layoutRef.current;
+
+    dragRef.current = null;
+    grantedRef.current = false;
+    setDrag(null);
+    setTargetIndex(null);
+
+    if (current && dropIndex !== null && dropIndex !== current.columnIndex) {
+      layoutRef.current.onTaskMove(
+        current.task,
+        shownColumns[current.columnIndex],
+        shownColumns[dropIndex]
+      );
+    }
+  };
+
+  // Takes over the touch from the pressed card once a drag has started
+  const panResponder = useRef(
+    PanResponder.create({
+      onMoveShouldSetPanResponderCapture: () => dragRef.current !== null,
+      onPanResponderGrant: () => {
+        grantedRef.current = true;
+      },
+      onPanResponderMove: (_, gesture) => {
+        pan.setValue({ x: gesture.dx, y: gesture.dy });
+        scrollAtEdge(gesture.moveX);
+        const index = getColumnIndexAt(gesture.moveX);
+        setTargetIndex((current) => (current === index ? current : index));
+      },
+      onPanResponderRelease: (_, gesture) => endDrag(getColumnIndexAt(gesture.moveX)),
+      onPanResponderTerminate: () => endDrag(null),
+      onPanResponderTerminationRequest: () => false,
+    })
+  ).current;
+
+  /**
+   * Finger lifted before the drag moved (the responder was never granted)
+   */
+  const handleTouchEnd = () => {
+    if (dragRef.current && !grantedRef.current) {
+      endDrag(null);
+    }
+  };
+
+  /**
+   * Card content (shared by the cards and the dragged copy)
+   */
+  const renderCardContent = (task: Task) => {
+    const overdue = isOverdue(task.deadline, task.completed);
+
+    return (
+      <>
+        <Text
+          style={[styles.cardTitle, task.completed && styles.cardTitleCompleted]}
+          numberOfLines={2}
+        >
+          {task.pinned && !task.completed ? '📌 ' : ''}
+          {task.title}
+        </Text>
+        <Text style={[styles.cardMeta, overdue && styles.cardMetaOverdue]} numberOfLines={1}>
+          {overdue ? 'Overdue · ' : 'Due '}
+          {formatDate(task.deadline)}
+        </Text>
+      </>
+    );
+  };
+
+  /**
+   * Render a column
+   */
+  const renderColumn = (column: BoardColumn, columnIndex: number) => {
+    const limit = getColumnLimit(column.key);
+    const overLimit = isOverWipLimit(column.tasks.length, limit);
+    const isTarget = drag !== null && targetIndex === columnIndex;
+    const wouldExceed =
+      isTarget &&
+      columnIndex !== drag.columnIndex &&
+      isOverWipLimit(column.tasks.length + 1, limit);
+
+    return (
+      <View
+        key={column.key}
+        style={[
+          styles.column,
+          isTarget && styles.columnTarget,
+          wouldExceed && styles.columnTargetOverLimit,
+        ]}
+      >
+        <TouchableOpacity
+          style={[styles.columnHeader, !!column.color && { borderTopColor: column.color }]}
+          onPress={() => onColumnPress?.(column)}
+          disabled={!onColumnPress}
+          accessibilityLabel={`${column.title}, ${column.tasks.length} tasks${
+            limit !== null ? `, limit ${limit}` : ''
+          }`}
+        >
+          <Text style={styles.columnTitle} numberOfLines={1}>
+            {column.title}
+          </Text>
+          <Text style={[styles.columnCount, overLimit && styles.columnCountOverLimit]}>
+            {limit !== null ? `${column.tasks.length} / ${limit}` : column.tasks.length}
+          </Text>
+        </TouchableOpacity>
+
+        <ScrollView
+          style={styles.columnBody}
+          contentContainerStyle={styles.columnContent}
+          scrollEnabled={drag === null}
+          showsVerticalScrollIndicator={false}
+        >
+          {column.tasks.map((task) => (
+            <TouchableOpacity
+              key={task.id}
+              style={[
+                styles.card,
+                { borderLeftColor: PRIORITY_COLORS[task.priority] },
+                task.completed && styles.cardCompleted,
+                drag?.task.id === task.id && styles.cardPlaceholder,
+              ]}
+              onPress={() => onTaskPress(task)}
+              onLongPress={(event) => startDrag(task, columnIndex, event)}
+              activeOpacity={0.7}
+            >
+              {renderCardContent(task)}
+            </TouchableOpacity>
+          ))}
+          {column.tasks.length === 0 && (
+            <Text style={styles.emptyText}>{drag ? 'Drop here' : 'No tasks'}</Text>
+          )}
+        </ScrollView>
+      </View>
+    );
+  };
+
+  return (
+    <View
+      ref={boardRef}
+      style={styles.container}
+      onLayout={handleBoardLayout}
+      {...panResponder.panHandlers}
+      onTouchEnd={handleTouchEnd}
+      onTouchCancel={handleTouchEnd}
+    >
+      <ScrollView
+        ref={scrollRef}
+        horizontal
+        scrollEnabled={drag === null}
+        onScroll={handleScroll}
+        scrollEventThrottle={16}
+        contentContainerStyle={styles.board}
+        showsHorizontalScrollIndicator={false}
+      >
+        {columns.map(renderColumn)}
+      </ScrollView>
+
+      {/* Dragged card, above the columns so it is not clipped */}
+      {drag && (
+        <Animated.View
+          pointerEvents="none"
+          style={[
+            styles.card,
+            styles.cardDragged,
+            {
+              left: drag.left,
+              top: drag.top,
+              borderLeftColor: PRIORITY_COLORS[drag.task.priority],
+              transform: pan.getTranslateTransform(),
+            },
+          ]}
+        >
+          {renderCardContent(drag.task)}
+        </Animated.View>
+      )}
+    </View>
+  );
+};
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+  },
+  board: {
+    padding: SPACING.md,
+    gap: COLUMN_GAP,
+  },
+  column: {
+    width: COLUMN_WIDTH,
+    borderRadius: BORDER_RADIUS.md,
+    borderWidth: 2,
+    borderColor: 'transparent',
+    backgroundColor: COLORS.border,
+  },
+  columnTarget: {
+    borderColor: COLORS.primary,
+  },
+  columnTargetOverLimit: {
+    borderColor: COLORS.error,
+  },
+  columnHeader: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'space-between',
+    paddingHorizontal: SPACING.sm,
+    paddingVertical: SPACING.sm,
+    borderTopWidth: 3,
+    borderTopColor: 'transparent',
+    borderTopLeftRadius: BORDER_RADIUS.md,
+    borderTopRightRadius: BORDER_RADIUS.md,
+  },
+  columnTitle: {
+    flex: 1,
+    fontSize: FONT_SIZES.md,
+    fontWeight: FONT_WEIGHTS.semibold,
+    color: COLORS.text,
+  },
+  columnCount: {
+    marginLeft: SPACING.sm,
+    fontSize: FONT_SIZES.sm,
+    fontWeight: FONT_WEIGHTS.semibold,
+    color: COLORS.textSecondary,
+  },
+  columnCountOverLimit: {
+    color: COLORS.error,
+  },
+  columnBody: {
+    flex: 1,
+  },
+  columnContent: {
+    gap: SPACING.sm,
+    paddingHorizontal: SPACING.sm,
+    paddingBottom: SPACING.sm,
+  },
+  card: {
+    padding: SPACING.sm,
+    borderLeftWidth: 4,
+    borderRadius: BORDER_RADIUS.sm,
+    backgroundColor: COLORS.surface,
+    ...SHADOWS.small,
+  },
+  cardCompleted: {
+    opacity: 0.6,
+  },
+  cardPlaceholder: {
+    opacity: 0.3,
+  },
+  cardDragged: {
+    position: 'absolute',
+    width: COLUMN_WIDTH - 2 * SPACING.sm,
+    opacity: 0.95,
+    ...SHADOWS.large,
+  },
+  cardTitle: {
+    fontSize: FONT_SIZES.sm,
+    fontWeight: FONT_WEIGHTS.semibold,
+    color: COLORS.text,
+  },
+  cardTitleCompleted: {
+    textDecorationLine: 'line-through',
+    color: COLORS.completed,
+  },
+  cardMeta: {
+    marginTop: SPACING.xs,
+    fontSize: FONT_SIZES.xs,
+    color: COLORS.textSecondary,
+  },
+  cardMetaOverdue: {
+    color: COLORS.overdue,
+  },
+  emptyText: {
+    paddingVertical: SPACING.lg,
+    fontSize: FONT_SIZES.sm,
+    color: COLORS.textTertiary,
+    textAlign: 'center',
+  },
+});
+
+export default KanbanBoard;
@@ -0,0 +1,366 @@
+/**
+ * ListSwitcher Component
+ * 
+ * Header title that shows the active task list and opens a list picker.
+ * 
+ * Features:
+ * - Active list name with dropdown indicator
+ * - "All Tasks" option plus every list with its task count
+ * - Create a new list inline
+ * - Long-press a list to rename or delete it (the Inbox cannot be deleted)
+ * 
+ * Props:
+ * - lists: The user's lists, in display order
+ * - activeListId: Selected list (null = all lists)
+ * - counts: Number of tasks per list ID
+ * - onOpen: (Optional) Callback when the picker opens (e.g. to refresh counts)
+ * - onSelect: Callback with the chosen list ID (null = all lists)
+ * - onCreate: Callback to create a list; resolves to the new list
+ * - onRename: Callback to rename a list
+ * - onDelete: Callback to delete a list (its tasks move to the Inbox)
+ */
+
+import React, { useState } from 'react';
+import {
+  View,
+  Text,
+  TextInput,
+  TouchableOpacity,
+  Modal,
+  ScrollView,
+  StyleSheet,
+  Alert,
+} from 'react-native';
+import { TaskList } from '../types';
+import { DEFAULT_LIST_ID, getListName } from '../utils/listUtils';
+import { validateListName } from '../utils/validators';
+import { COLORS, SPACING, FONT_SIZES, BORDER_RADIUS, SHADOWS, FONT_WEIGHTS } from '../theme';
+
+interface ListSwitcherProps {
+  lists: TaskList[];
+  activeListId: string | null;
+  counts: Record<string, number>;
+  onOpen?: () => void;
+  onSelect: (listId: string | null) => void;
+  onCreate: (name: string) => Promise<TaskList>;
+  onRename: (listId: string, name: string) => Promise<void>;
+  onDelete: (listId: string) => Promise<void>;
+}
+
+const ListSwitcher: React.FC<ListSwitcherProps> = ({
+  lists,
+  activeListId,
+  counts,
+  onOpen,
+  onSelect,
+  onCreate,
+  onRename,
+  onDelete,
+}) => {
+  const [visible, setVisible] = useState(false);
+  const [newName, setNewName] = useState('');
+  const [editingId, setEditingId] = useState<string | null>(null);
+  const [editingName, setEditingName] = useState('');
+  const [error, setError] = useState<string | null>(null);
+
+  const totalCount = Object.values(counts).reduce((sum, count) => sum + count, 0);
+
+  /**
+   * Names of every list except `listId` (for the uniqueness check)
+   */
+  const otherNames = (listId: string | null): string[] =>
+    lists.filter((list) => list.id !== listId).map((list) => list.name);
+
+  /**
+   * Open the picker
+   */
+  const handleOpen = () => {
+    setVisible(true);
+    setError(null);
+    onOpen?.();
+  };
+
+  /**
+   * Close the picker and discard pending edits
+   */
+  const handleClose = () => {
+    setVisible(false);
+    setNewName('');
+    setEditingId(null);
+    setError(null);
+  };
+
+  /**
+   * Select a list and close
+   */
+  const handleSelect = (listId: string | null) => {
+    onSelect(listId);
+    handleClose();
+  };
+
+  /**
+   * Create a list and switch to it
+   */
+  const handleCreate = async () => {
+    const validation = validateListName(newName, otherNames(null));
+    setError(validation);
+    if (validation) {
+      return;
+    }
+
+    try {
+      const list = await onCreate(newName);
+      handleSelect(list.id);
+    } catch (err: any) {
+      Alert.alert('Error', err.message || 'Failed to create list');
+    }
+  };
+
+  /**
+   * Save the inline rename
+   */
+  const handleRename = async () => {
+    if (!editingId) {
+      return;
+    }
+
+    const validation = validateListName(editingName, otherNames(editingId));
+    setError(validation);
+    if (validation) {
+      return;
+    }
+
+    try {
+      await onRename(editingId, editingName);
+      setEditingId(null);
+    } catch (err: any) {
+      Alert.alert('Error', err.message || 'Failed to rename list');
+    }
+  };
+
+  /**
+   * Confirm and delete a list
+   */
+  const confirmDelete = (list: TaskList) => {
+    const count = counts[list.id] ?? 0;
+    const message =
+      count > 0
+        ? `Its ${count} task${count !== 1 ? 's' : ''} will be moved to the Inbox.`
+        : 'This list is empty.';
+
+    Alert.alert(`Delete "${list.name}"?`, message, [
+      { text: 'Cancel', style: 'cancel' },
+      {
+        text: 'Delete',
+        style: 'destructive',
+        onPress: async () => {
+          try {
+            await onDelete(list.id);
+          } catch (err: any) {
+            Alert.alert('Error', err.message || 'Failed to delete list');
+          }
+        },
+      },
+    ]);
+  };
+
+  /**
+   * Show rename/delete options for a list
+   */
+  const handleLongPress = (list: TaskList) => {
+    const startRename = () => {
+      setEditingId(list.id);
+      setEditingName(list.name);
+      setError(null);
+    };
+
+    if (list.id === DEFAULT_LIST_ID) {
+      Alert.alert(list.name, undefined, [
+        { text: 'Rename', onPress: startRename },
+        { text: 'Cancel', style: 'cancel' },
+      ]);
+      return;
+    }
+
+    Alert.alert(list.name, undefined, [
+      { text: 'Rename', onPress: startRename },
+      { text: 'Delete', style: 'destructive', onPress: () => confirmDelete(list) },
+      { text: 'Cancel', style: 'cancel' },
+    ]);
+  };
+
+  /**
+   * Render one selectable row
+   */
+  const renderRow = (listId: string | null, name: string, count: number, list?: TaskList) => {
+    const isActive = activeListId === listId;
+
+    if (list && editingId === list.id) {
+      return (
+        <View key={list.id} style={styles.row}>
+          <TextInput
+            style={styles.input}
+            value={editingName}
+            onChangeText={(text) => {
+              setEditingName(text);
+              setError(null);
+            }}
+            onSubmitEditing={handleRename}
+            maxLength={30}
+            autoFocus
+          />
+          <TouchableOpacity onPress={handleRename} style={styles.inlineButton}>
+            <Text style={styles.inlineButtonText}>Save</Text>
+          </TouchableOpacity>
+        </View>
+      );
+    }
+
+    return (
+      <TouchableOpacity
+        key={listId ?? 'all'}
+        style={[styles.row, isActive && styles.rowActive]}
+        onPress={() => handleSelect(listId)}
+        onLongPress={list ? () => handleLongPress(list) : undefined}
+      >
+        <Text style={[styles.rowText, isActive && styles.rowTextActive]} numberOfLines={1}>
+          {isActive ? '✓ ' : ''}
+          {name}
+        </Text>
+        <Text style={styles.countText}>{count}</Text>
+      </TouchableOpacity>
+    );
+  };
+
+  return (
+    <>
+      <TouchableOpacity onPress={handleOpen} style={styles.titleButton}>
+        <Text style={styles.titleText} numberOfLines={1}>
+          {getListName(lists, activeListId)} ▾
+        </Text>
+      </TouchableOpacity>
+
+      <Modal visible={visible} transparent animationType="fade" onRequestClose={handleClose}>
+        <TouchableOpacity style={styles.backdrop} activeOpacity={1} onPress={handleClose}>
+          <TouchableOpacity style={styles.sheet} activeOpacity={1}>
+            <Text style={styles.sheetTitle}>Lists</Text>
+            <Text style={styles.hint}>Long-press a list to rename or delete it</Text>
+
+            <ScrollView style={styles.rows} keyboardShouldPersistTaps="handled">
+              {renderRow(null, 'All Tasks', totalCount)}
+              {lists.map((list) => renderRow(list.id, list.name, counts[list.id] ?? 0, list))}
+            </ScrollView>
+
+            {/* New list */}
+            <View style={styles.row}>
+              <TextInput
+                style={styles.input}
+                placeholder="New list"
+                placeholderTextColor={COLORS.textTertiary}
+                value={newName}
+                onChangeText={(text) => {
+                  setNewName(text);
+                  setError(null);
+                }}
+                onSubmitEditing={handleCreate}
+                maxLength={30}
+              />
+              <TouchableOpacity onPress={handleCreate} style={styles.inlineButton}>
+                <Text style={styles.inlineButtonText}>Add</Text>
+              </TouchableOpacity>
+            </View>
+            {error && <Text style={styles.errorText}>{error}</Text>}
+          </TouchableOpacity>
+        </TouchableOpacity>
+      </Modal>
+    </>
+  );
+};
+
+const styles = StyleSheet.create({
+  titleButton: {
+    maxWidth: 220,
+  },
+  titleText: {
+    fontSize: FONT_SIZES.lg,
+    fontWeight: FONT_WEIGHTS.semibold,
+    color: '#fff',
+  },
+  backdrop: {
+    flex: 1,
+    backgroundColor: COLORS.backdrop,
+    justifyContent: 'center',
+    padding: SPACING.lg,
+  },
+  sheet: {
+    backgroundColor: COLORS.surface,
+    borderRadius: BORDER_RADIUS.lg,
+    padding: SPACING.lg,
+    maxHeight: '80%',
+    ...SHADOWS.large,
+  },
+  sheetTitle: {
+    fontSize: FONT_SIZES.xl,
+    fontWeight: FONT_WEIGHTS.bold,
+    color: COLORS.text,
+  },
+  hint: {
+    fontSize: FONT_SIZES.sm,
+    color: COLORS.textTertiary,
+    marginBottom: SPACING.md,
+  },
+  rows: {
+    flexGrow: 0,
+  },
+  row: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    paddingVertical: SPACING.sm,
+    paddingHorizontal: SPACING.sm,
+    borderRadius: BORDER_RADIUS.md,
+  },
+  rowActive: {
+    backgroundColor: COLORS.background,
+  },
+  rowText: {
+    flex: 1,
+    fontSize: FONT_SIZES.md,
+    color: COLORS.text,
+  },
+  rowTextActive: {
+    fontWeight: FONT_WEIGHTS.semibold,
+    color: COLORS.primary,
+  },
+  countText: {
+    fontSize: FONT_SIZES.sm,
+    color: COLORS.textSecondary,
+    marginLeft: SPACING.sm,
+  },
+  input: {
+    flex: 1,
+    borderWidth: 1,
+    borderColor: COLORS.border,
+    borderRadius: BORDER_RADIUS.md,
+    paddingHorizontal: SPACING.md,
+    paddingVertical: SPACING.sm,
+    fontSize: FONT_SIZES.md,
+    color: COLORS.text,
+  },
+  inlineButton: {
+    marginLeft: SPACING.sm,
+    paddingHorizontal: SPACING.md,
+    paddingVertical: SPACING.sm,
+  },
+  inlineButtonText: {
+    fontSize: FONT_SIZES.md,
+    fontWeight: FONT_WEIGHTS.semibold,
+    color: COLORS.primary,
+  },
+  errorText: {
+    fontSize: FONT_SIZES.sm,
+    color: COLORS.error,
+    marginTop: SPACING.xs,
+  },
+});
+
+export default ListSwitcher;
@@ -0,0 +1,209 @@
+/**
+ * PrerequisitePickerModal Component
+ * 
+ * Modal for choosing a task that another task is blocked by.
+ * 
+ * Features:
+ * - Open tasks of the loaded list, soonest deadline first, with a title filter
+ * - Tasks already linked and the task itself are left out
+ * - Tasks that already wait for the task are shown disabled (the link would
+ *   create a cycle)
+ * - Warning on tasks due after the task that would wait for them
+ * 
+ * Props:
+ * - task: Task that will wait (null hides the modal)
+ * - tasks: Tasks outside the trash to choose from
+ * - onClose: Callback when modal is closed
+ * - onSelect: Callback with the chosen prerequisite
+ */
+
+import React, { useState, useEffect, useMemo } from 'react';
+import { View, Text, TextInput, TouchableOpacity, FlatList, Modal, StyleSheet } from 'react-native';
+import { Task } from '../types';
+import { formatDateTime } from '../utils/dateUtils';
+import { wouldCreateCycle } from '../utils/dependencyUtils';
+import { COLORS, SPACING, FONT_SIZES, BORDER_RADIUS, FONT_WEIGHTS } from '../theme';
+
+interface PrerequisitePickerModalProps {
+  task: Task | null;
+  tasks: Task[];
+  onClose: () => void;
+  onSelect: (prerequisite: Task) => void;
+}
+
+const PrerequisitePickerModal: React.FC<PrerequisitePickerModalProps> = ({
+  task,
+  tasks,
+  onClose,
+  onSelect,
+}) => {
+  const [filter, setFilter] = useState('');
+
+  /**
+   * Clear the filter when the modal opens
+   */
+  useEffect(() => {
+    setFilter('');
+  }, [task]);
+
+  /**
+   * Open tasks that can be picked, soonest deadline first
+   */
+  const candidates = useMemo(() => {
+    if (!task) {
+      return [];
+    }
+
+    const query = filter.trim().toLowerCase();
+    return tasks
+      .filter(
+        (candidate) =>
+          candidate.id !== task.id &&
+          !candidate.completed &&
+          !task.blockedBy.includes(candidate.id) &&
+          candidate.title.toLowerCase().includes(query)
+      )
+      .sort((a, b) => a.deadline.localeCompare(b.deadline));
+  }, [task, tasks, filter]);
+
+  /**
+   * Render one candidate task
+   */
+  const renderCandidate = ({ item }: { item: Task }) => {
+    if (!task) {
+      return null;
+    }
+
+    const cycle = wouldCreateCycle(tasks, task.id, item.id);
+    const dueLater = new Date(item.deadline).getTime() > new Date(task.deadline).getTime();
+
+    return (
+      <TouchableOpacity
+        style={[styles.row, cycle && styles.rowDisabled]}
+        disabled={cycle}
+        onPress={() => {
+          onSelect(item);
+          onClose();
+        }}
+      >
+        <Text style={styles.rowTitle} numberOfLines={1}>
+          {item.title}
+        </Text>
+        <Text style={styles.rowMeta}>Due {formatDateTime(item.deadline)}</Text>
+        {cycle ? (
+          <Text style={styles.rowMeta}>Already waits for this task</Text>
+        ) : (
+          dueLater && <Text style={styles.rowWarning}>⚠️ Due after this task</Text>
+        )}
+      </TouchableOpacity>
+    );
+  };
+
+  return (
+    <Modal
+      visible={task !== null}
+      animationType="slide"
+      presentationStyle="formSheet"
+      onRequestClose={onClose}
+    >
+      <View style={styles.container}>
+        {/* Header */}
+        <View style={styles.header}>
+          <TouchableOpacity onPress={onClose}>
+            <Text style={styles.cancelButton}>Cancel</Text>
+          </TouchableOpacity>
+          <Text style={styles.headerTitle}>Blocked By</Text>
+          <View style={styles.headerSpacer} />
+        </View>
+
+        <TextInput
+          style={styles.input}
+          placeholder="Filter tasks"
+          placeholderTextColor={COLORS.textTertiary}
+          value={filter}
+          onChangeText={setFilter}
+        />
+
+        <FlatList
+          data={candidates}
+          keyExtractor={(item) => item.id}
+          renderItem={renderCandidate}
+          keyboardShouldPersistTaps="handled"
+          ListEmptyComponent={<Text style={styles.emptyText}>No open tasks to choose from</Text>}
+        />
+      </View>
+    </Modal>
+  );
+};
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+    backgroundColor: COLORS.background,
+  },
+  header: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'space-between',
+    paddingHorizontal: SPACING.lg,
+    paddingVertical: SPACING.md,
+    backgroundColor: COLORS.surface,
+    borderBottomWidth: 1,
+    borderBottomColor: COLORS.border,
+  },
+  headerTitle: {
+    fontSize: FONT_SIZES.xl,
+    fontWeight: FONT_WEIGHTS.bold,
+    color: COLORS.text,
+  },
+  headerSpacer: {
+    width: 50,
+  },
+  cancelButton: {
+    fontSize: FONT_SIZES.md,
+    color: COLORS.textSecondary,
+  },
+  input: {
+    backgroundColor: COLORS.surface,
+    borderWidth: 1,
+    borderColor: COLORS.border,
+    borderRadius: BORDER_RADIUS.md,
+    padding: SPACING.md,
+    margin: SPACING.md,
+    fontSize: FONT_SIZES.md,
+    color: COLORS.text,
+  },
+  row: {
+    backgroundColor: COLORS.surface,
+    paddingHorizontal: SPACING.lg,
+    paddingVertical: SPACING.md,
+    borderBottomWidth: 1,
+    borderBottomColor: COLORS.border,
+  },
+  rowDisabled: {
+    opacity: 0.5,
+  },
+  rowTitle: {
+    fontSize: FONT_SIZES.md,
+    fontWeight: FONT_WEIGHTS.medium,
+    color: COLORS.text,
+  },
+  rowMeta: {
+    fontSize: FONT_SIZES.sm,
+    color: COLORS.textSecondary,
+    marginTop: 2,
+  },
+  rowWarning: {
+    fontSize: FONT_SIZES.sm,
+    color: COLORS.warning,
+    marginTop: 2,
+  },
+  emptyText: {
+    fontSize: FONT_SIZES.md,
+    color: COLORS.textSecondary,
+    textAlign: 'center',
+    marginTop: SPACING.xl,
+  },
+});
+
+export default PrerequisitePickerModal;
@@ -0,0 +1,248 @@
+/**
+ * QuickAddBar Component
+ * 
+ * One-line task entry above the task list, e.g.
+ * "Submit report tomorrow 5pm !high #work".
+ * 
+ * Features:
+ * - Natural-language parsing of dates, times, priority and hashtags
+ *   (see quickAddUtils)
+ * - Live preview of the parsed fields while typing
+ * - Defaults for everything the line does not set (same as AddTaskModal)
+ * - Validation (title required, deadline in the future) before saving
+ * - Submit with the keyboard's return key or the "Add" button
+ * 
+ * Props:
+ * - categories: The user's categories (hashtags matching one set the category)
+ * - defaultCategoryId: Category used when no hashtag matches
+ * - listId: List new tasks are added to
+ * - onSubmit: Callback with the task payload; the input clears once it resolves
+ */
+
+import React, { useState, useMemo } from 'react';
+import { View, Text, TextInput, TouchableOpacity, StyleSheet } from 'react-native';
+import { CreateTaskPayload, Priority, UserCategory } from '../types';
+import { parseQuickAdd, buildQuickAddPayload } from '../utils/quickAddUtils';
+import { resolveCategory } from '../utils/categoryUtils';
+import { validateTaskTitle, validateDeadlineAfterStart } from '../utils/validators';
+import { formatDateTime } from '../utils/dateUtils';
+import { COLORS, SPACING, FONT_SIZES, BORDER_RADIUS, FONT_WEIGHTS } from '../theme';
+
+interface QuickAddBarProps {
+  categories: UserCategory[];
+  defaultCategoryId: string;
+  listId: string;
+  onSubmit: (taskData: CreateTaskPayload) => Promise<void>;
+}
+
+const PRIORITY_COLORS: Record<Priority, string> = {
+  [Priority.HIGH]: COLORS.priorityHigh,
+  [Priority.MEDIUM]: COLORS.priorityMedium,
+  [Priority.LOW]: COLORS.priorityLow,
+};
+
+const QuickAddBar: React.FC<QuickAddBarProps> = ({
+  categories,
+  defaultCategoryId,
+  listId,
+  onSubmit,
+}) => {
+  const [input, setInput] = useState('');
+  const [error, setError] = useState<string | null>(null);
+  const [saving, setSaving] = useState(false);
+
+  /**
+   * Parsed fields for the preview (re-parsed on every keystroke)
+   */
+  const parsed = useMemo(() => parseQuickAdd(input, categories), [input, categories]);
+  const category = resolveCategory(categories, parsed.categoryId ?? defaultCategoryId);
+
+  /**
+   * Validate and save the task, clearing the input on success
+   */
+  const handleSubmit = async () => {
+    if (saving || !input.trim()) {
+      return;
+    }
+
+    // Re-parse so relative dates are based on the moment of saving
+    const now = new Date();
+    const payload = buildQuickAddPayload(
+      parseQuickAdd(input, categories, now),
+      { categoryId: defaultCategoryId, listId },
+      now
+    );
+
+    const validation =
+      validateTaskTitle(payload.title) ??
+      validateDeadlineAfterStart(payload.dateTime, payload.deadline);
+    if (validation) {
+      setError(validation);
+      return;
+    }
+
+    setSaving(true);
+    try {
+      await onSubmit(payload);
+      setInput('');
+      setError(null);
+    } catch (submitError: any) {
+      setError(submitError.message || 'Failed to add task');
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  return (
+    <View style={styles.container}>
+      <View style={styles.inputRow}>
+        <TextInput
+          style={[styles.input, error && styles.inputError]}
+          value={input}
+          onChangeText={(text) => {
+            setInput(text);
+            setError(null);
+          }}
+          onSubmitEditing={handleSubmit}
+          placeholder='Quick add: "Call Ana tomorrow 5pm !high #work"'
+          placeholderTextColor={COLORS.textTertiary}
+          returnKeyType="done"
+          editable={!saving}
+        />
+        <TouchableOpacity
+          style={[styles.addButton, (!input.trim() || saving) && styles.addButtonDisabled]}
+          onPress={handleSubmit}
+          disabled={!input.trim() || saving}
+        >
+          <Text style={styles.addButtonText}>Add</Text>
+        </TouchableOpacity>
+      </View>
+
+      {/* Live preview of the parsed fields */}
+      {input.trim().length > 0 && (
+        <View style={styles.preview}>
+          <Text
+            style={[styles.previewTitle, !parsed.title && styles.previewTitleMissing]}
+            numberOfLines={1}
+          >
+            {parsed.title || 'Add a title'}
+          </Text>
+          <View style={styles.chipsRow}>
+            <View style={styles.chip}>
+              <Text style={styles.chipText}>
+                📅{' '}
+                {parsed.deadline
+                  ? formatDateTime(parsed.deadline.toISOString())
+                  : 'Due in 24 hours'}
+              </Text>
+            </View>
+            <View
+              style={[
+                styles.chip,
+                { backgroundColor: PRIORITY_COLORS[parsed.priority ?? Priority.MEDIUM] },
+              ]}
+            >
+              <Text style={[styles.chipText, styles.chipTextLight]}>
+                {(parsed.priority ?? Priority.MEDIUM).toUpperCase()}
+              </Text>
+            </View>
+            <View style={[styles.chip, { backgroundColor: category.color }]}>
+              <Text style={[styles.chipText, styles.chipTextLight]}>
+                {category.icon} {category.name}
+              </Text>
+            </View>
+            {parsed.tags.map((tag) => (
+              <View key={tag} style={styles.chip}>
+                <Text style={styles.chipText}>#{tag}</Text>
+              </View>
+            ))}
+          </View>
+        </View>
+      )}
+
+      {error && <Text style={styles.errorText}>{error}</Text>}
+    </View>
+  );
+};
+
+const styles = StyleSheet.create({
+  container: {
+    backgroundColor: COLORS.surface,
+    paddingHorizontal: SPACING.md,
+    paddingVertical: SPACING.sm,
+    borderBottomWidth: 1,
+    borderBottomColor: COLORS.border,
+  },
+  inputRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+  },
+  input: {
+    flex: 1,
+    backgroundColor: COLORS.background,
+    borderWidth: 1,
+    borderColor: COLORS.border,
+    borderRadius: BORDER_RADIUS.md,
+    paddingHorizontal: SPACING.md,
+    paddingVertical: SPACING.sm,
+    fontSize: FONT_SIZES.md,
+    color: COLORS.text,
+  },
+  inputError: {
+    borderColor: COLORS.error,
+  },
+  addButton: {
+    marginLeft: SPACING.sm,
+    paddingHorizontal: SPACING.md,
+    paddingVertical: SPACING.sm,
+    borderRadius: BORDER_RADIUS.md,
+    backgroundColor: COLORS.primary,
+  },
+  addButtonDisabled: {
+    backgroundColor: COLORS.disabled,
+  },
+  addButtonText: {
+    color: '#fff',
+    fontSize: FONT_SIZES.md,
+    fontWeight: FONT_WEIGHTS.semibold,
+  },
+  preview: {
+    marginTop: SPACING.sm,
+  },
+  previewTitle: {
+    fontSize: FONT_SIZES.md,
+    fontWeight: FONT_WEIGHTS.semibold,
+    color: COLORS.text,
+    marginBottom: SPACING.xs,
+  },
+  previewTitleMissing: {
+    color: COLORS.error,
+    fontStyle: 'italic',
+  },
+  chipsRow: {
+    flexDirection: 'row',
+    flexWrap: 'wrap',
+    gap: SPACING.xs,
+  },
+  chip: {
+    paddingHorizontal: SPACING.sm,
+    paddingVertical: 2,
+    borderRadius: BORDER_RADIUS.round,
+    backgroundColor: COLORS.background,
+  },
+  chipText: {
+    fontSize: FONT_SIZES.sm,
+    color: COLORS.text,
+  },
+  chipTextLight: {
+    color: '#fff',
+    fontWeight: FONT_WEIGHTS.semibold,
+  },
+  errorText: {
+    fontSize: FONT_SIZES.sm,
+    color: COLORS.error,
+    marginTop: SPACING.xs,
+  },
+});
+
+export default QuickAddBar;
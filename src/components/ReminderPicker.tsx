@@ -0,0 +1,260 @@
+/**
+ * ReminderPicker Component
+ * 
+ * Reminder editor used inside AddTaskModal.
+ * 
+ * Features:
+ * - One-tap presets (at start time, 1 hour / 1 day before the deadline, at the
+ *   deadline) that toggle on and off
+ * - Custom reminders: N minutes/hours/days before the start or the deadline
+ * - Removable chips for the custom reminders
+ * - Inline validation (whole number, max reminders per task)
+ * 
+ * Props:
+ * - reminders: Reminders currently set on the task
+ * - onChange: Callback with the updated reminder list
+ * - disabled: Disables all inputs (e.g., while saving)
+ */
+
+import React, { useState } from 'react';
+import { View, Text, TextInput, TouchableOpacity, StyleSheet } from 'react-native';
+import { ReminderAnchor, TaskReminder } from '../types';
+import {
+  REMINDER_PRESETS,
+  REMINDER_UNITS,
+  addReminder,
+  describeReminder,
+  isSameReminder,
+  removeReminder,
+} from '../utils/reminderUtils';
+import { validateReminderCount, validateReminderOffset } from '../utils/validators';
+import { COLORS, SPACING, FONT_SIZES, BORDER_RADIUS, FONT_WEIGHTS } from '../theme';
+
+interface ReminderPickerProps {
+  reminders: TaskReminder[];
+  onChange: (reminders: TaskReminder[]) => void;
+  disabled?: boolean;
+}
+
+const ANCHOR_OPTIONS: Array<{ key: ReminderAnchor; label: string }> = [
+  { key: 'dateTime', label: 'before start' },
+  { key: 'deadline', label: 'before deadline' },
+];
+
+const ReminderPicker: React.FC<ReminderPickerProps> = ({
+  reminders,
+  onChange,
+  disabled = false,
+}) => {
+  const [amount, setAmount] = useState('');
+  const [unitMinutes, setUnitMinutes] = useState(REMINDER_UNITS[0].minutes);
+  const [anchor, setAnchor] = useState<ReminderAnchor>('deadline');
+  const [error, setError] = useState<string | null>(null);
+
+  const customReminders = reminders.filter(
+    (reminder) => !REMINDER_PRESETS.some((preset) => isSameReminder(preset, reminder))
+  );
+
+  /**
+   * Toggle a preset on or off
+   */
+  const handlePresetToggle = (preset: TaskReminder) => {
+    setError(null);
+    if (reminders.some((reminder) => isSameReminder(reminder, preset))) {
+      onChange(removeReminder(reminders, preset));
+      return;
+    }
+
+    const validation = validateReminderCount(reminders);
+    if (validation) {
+      setError(validation);
+      return;
+    }
+    onChange(addReminder(reminders, preset));
+  };
+
+  /**
+   * Validate and add the custom reminder, clearing the input on success
+   */
+  const handleAddCustom = () => {
+    const validation = validateReminderOffset(amount) ?? validateReminderCount(reminders);
+    if (validation) {
+      setError(validation);
+      return;
+    }
+
+    onChange(addReminder(reminders, { anchor, offsetMinutes: Number(amount) * unitMinutes }));
+    setAmount('');
+    setError(null);
+  };
+
+  const renderOption = (key: string, label: string, isActive: boolean, onPress: () => void) => (
+    <TouchableOpacity
+      key={key}
+      style={[styles.optionButton, isActive && styles.optionButtonActive]}
+      onPress={onPress}
+      disabled={disabled}
+    >
+      <Text style={[styles.optionButtonText, isActive && styles.optionButtonTextActive]}>
+        {label}
+      </Text>
+    </TouchableOpacity>
+  );
+
+  return (
+    <View>
+      {/* Presets */}
+      <View style={styles.optionsRow}>
+        {REMINDER_PRESETS.map((preset) =>
+          renderOption(
+            `${preset.anchor}:${preset.offsetMinutes}`,
+            describeReminder(preset),
+            reminders.some((reminder) => isSameReminder(reminder, preset)),
+            () => handlePresetToggle(preset)
+          )
+        )}
+      </View>
+
+      {/* Custom reminders */}
+      {customReminders.length > 0 && (
+        <View style={[styles.optionsRow, styles.chipsRow]}>
+          {customReminders.map((reminder) => (
+            <TouchableOpacity
+              key={`${reminder.anchor}:${reminder.offsetMinutes}`}
+              style={styles.chip}
+              onPress={() => onChange(removeReminder(reminders, reminder))}
+              disabled={disabled}
+            >
+              <Text style={styles.chipText}>{describeReminder(reminder)}</Text>
+              <Text style={styles.chipRemove}>✕</Text>
+            </TouchableOpacity>
+          ))}
+        </View>
+      )}
+
+      {/* Custom reminder input */}
+      <View style={styles.customRow}>
+        <TextInput
+          style={[styles.input, error && styles.inputError]}
+          placeholder="15"
+          placeholderTextColor={COLORS.textTertiary}
+          value={amount}
+          onChangeText={(text) => {
+            setAmount(text);
+            setError(null);
+          }}
+          onSubmitEditing={handleAddCustom}
+          keyboardType="number-pad"
+          maxLength={3}
+          editable={!disabled}
+        />
+        {REMINDER_UNITS.map((unit) =>
+          renderOption(unit.label, unit.label, unitMinutes === unit.minutes, () =>
+            setUnitMinutes(unit.minutes)
+          )
+        )}
+      </View>
+      <View style={styles.customRow}>
+        {ANCHOR_OPTIONS.map((option) =>
+          renderOption(option.key, option.label, anchor === option.key, () => setAnchor(option.key))
+        )}
+        <TouchableOpacity
+          style={styles.addButton}
+          onPress={handleAddCustom}
+          disabled={disabled || amount.trim().length === 0}
+        >
+          <Text style={styles.addButtonText}>Add</Text>
+        </TouchableOpacity>
+      </View>
+
+      {error && <Text style={styles.errorText}>{error}</Text>}
+    </View>
+  );
+};
+
+const styles = StyleSheet.create({
+  optionsRow: {
+    flexDirection: 'row',
+    flexWrap: 'wrap',
+    gap: SPACING.sm,
+  },
+  chipsRow: {
+    marginTop: SPACING.sm,
+  },
+  optionButton: {
+    paddingHorizontal: SPACING.md,
+    paddingVertical: SPACING.sm,
+    borderRadius: BORDER_RADIUS.md,
+    borderWidth: 1,
+    borderColor: COLORS.border,
+    backgroundColor: COLORS.surface,
+  },
+  optionButtonActive: {
+    backgroundColor: COLORS.primary,
+    borderColor: COLORS.primary,
+  },
+  optionButtonText: {
+    fontSize: FONT_SIZES.sm,
+    fontWeight: FONT_WEIGHTS.medium,
+    color: COLORS.text,
+  },
+  optionButtonTextActive: {
+    color: '#fff',
+  },
+  chip: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: SPACING.xs,
+    paddingHorizontal: SPACING.sm,
+    paddingVertical: SPACING.xs,
+    borderRadius: BORDER_RADIUS.round,
+    backgroundColor: COLORS.secondary,
+  },
+  chipText: {
+    fontSize: FONT_SIZES.sm,
+    fontWeight: FONT_WEIGHTS.medium,
+    color: '#fff',
+  },
+  chipRemove: {
+    fontSize: FONT_SIZES.xs,
+    color: '#fff',
+  },
+  customRow: {
+    flexDirection: 'row',
+    flexWrap: 'wrap',
+    alignItems: 'center',
+    gap: SPACING.sm,
+    marginTop: SPACING.sm,
+  },
+  input: {
+    width: 56,
+    backgroundColor: COLORS.surface,
+    borderWidth: 1,
+    borderColor: COLORS.border,
+    borderRadius: BORDER_RADIUS.md,
+    paddingHorizontal: SPACING.sm,
+    paddingVertical: SPACING.sm,
+    fontSize: FONT_SIZES.md,
+    color: COLORS.text,
+    textAlign: 'center',
+  },
+  inputError: {
+    borderColor: COLORS.error,
+  },
+  addButton: {
+    paddingHorizontal: SPACING.md,
+    paddingVertical: SPACING.sm,
+  },
+  addButtonText: {
+    fontSize: FONT_SIZES.md,
+    fontWeight: FONT_WEIGHTS.semibold,
+    color: COLORS.primary,
+  },
+  errorText: {
+    fontSize: FONT_SIZES.sm,
+    color: COLORS.error,
+    marginTop: SPACING.xs,
+  },
+});
+
+export default ReminderPicker;
@@ -0,0 +1,381 @@
+/**
+ * RepeatPicker Component
+ * 
+ * Recurrence rule editor used inside AddTaskModal.
+ * 
+ * Features:
+ * - Frequency selector (Never/Daily/Weekly/Monthly/Yearly)
+ * - "Every N" interval stepper
+ * - Weekday chips for weekly rules
+ * - Day-of-month vs. nth-weekday choice for monthly rules
+ * - End condition (never, on a date, after N occurrences)
+ * - Plain-English summary of the rule
+ * 
+ * Props:
+ * - rule: Current rule (null = does not repeat)
+ * - startDate: Task start date, used to anchor new rules
+ * - onChange: Callback with the updated rule (or null)
+ * - disabled: Disables all inputs (e.g., while saving)
+ * - error: (Optional) Validation error to display
+ */
+
+import React, { useState } from 'react';
+import { View, Text, TouchableOpacity, StyleSheet, Platform } from 'react-native';
+import DateTimePicker, { DateTimePickerEvent } from '@react-native-community/datetimepicker';
+import { RecurrenceRule, RecurrenceFrequency } from '../types';
+import {
+  WEEKDAY_LABELS,
+  createRecurrenceRule,
+  describeRecurrence,
+  getWeekdayPosition,
+} from '../utils/recurrenceUtils';
+import { formatDate } from '../utils/dateUtils';
+import { COLORS, SPACING, FONT_SIZES, BORDER_RADIUS, FONT_WEIGHTS } from '../theme';
+
+interface RepeatPickerProps {
+  rule: RecurrenceRule | null;
+  startDate: Date;
+  onChange: (rule: RecurrenceRule | null) => void;
+  disabled?: boolean;
+  error?: string | null;
+}
+
+type EndMode = 'never' | 'until' | 'count';
+
+const FREQUENCY_OPTIONS: Array<{ key: RecurrenceFrequency | 'none'; label: string }> = [
+  { key: 'none', label: 'Never' },
+  { key: 'daily', label: 'Daily' },
+  { key: 'weekly', label: 'Weekly' },
+  { key: 'monthly', label: 'Monthly' },
+  { key: 'yearly', label: 'Yearly' },
+];
+
+const UNIT_LABELS: Record<RecurrenceFrequency, string> = {
+  daily: 'day',
+  weekly: 'week',
+  monthly: 'month',
+  yearly: 'year',
+};
+
+const POSITION_LABELS: Record<number, string> = {
+  [-1]: 'last',
+  1: '1st',
+  2: '2nd',
+  3: '3rd',
+  4: '4th',
+};
+
+const RepeatPicker: React.FC<RepeatPickerProps> = ({
+  rule,
+  startDate,
+  onChange,
+  disabled = false,
+  error,
+}) => {
+  const [showUntilPicker, setShowUntilPicker] = useState(false);
+
+  const endMode: EndMode = !rule
+    ? 'never'
+    : rule.count !== null
+    ? 'count'
+    : rule.until !== null
+    ? 'until'
+    : 'never';
+
+  /**
+   * Merge changes into the current rule
+   */
+  const update = (changes: Partial<RecurrenceRule>) => {
+    if (rule) {
+      onChange({ ...rule, ...changes });
+    }
+  };
+
+  /**
+   * Handle frequency change - creates a fresh rule anchored on the start date
+   */
+  const handleFrequencyChange = (key: RecurrenceFrequency | 'none') => {
+    if (key === 'none') {
+      onChange(null);
+    } else if (!rule || rule.frequency !== key) {
+      onChange(createRecurrenceRule(key, startDate));
+    }
+  };
+
+  /**
+   * Toggle a weekday for weekly rules (at least one day stays selected)
+   */
+  const handleWeekdayToggle = (weekday: number) => {
+    if (!rule) {
+      return;
+    }
+    const selected = rule.byWeekday.includes(weekday);
+    if (selected && rule.byWeekday.length === 1) {
+      return;
+    }
+    update({
+      byWeekday: selected
+        ? rule.byWeekday.filter((d) => d !== weekday)
+        : [...rule.byWeekday, weekday].sort((a, b) => a - b),
+    });
+  };
+
+  /**
+   * Handle end condition change
+   */
+  const handleEndModeChange = (mode: EndMode) => {
+    if (mode === 'never') {
+      update({ until: null, count: null });
+    } else if (mode === 'count') {
+      update({ until: null, count: rule?.count ?? 10 });
+    } else {
+      const defaultUntil = new Date(startDate.getTime() + 30 * 24 * 60 * 60 * 1000);
+      update({ count: null, until: rule?.until ?? defaultUntil.toISOString() });
+      setShowUntilPicker(true);
+    }
+  };
+
+  /**
+   * Handle end date picker change
+   */
+  const handleUntilChange = (event: DateTimePickerEvent, selectedDate?: Date) => {
+    if (Platform.OS === 'android') {
+      setShowUntilPicker(false);
+    }
+
+    if (event.type === 'set' && selectedDate) {
+      // Include the whole selected day
+      selectedDate.setHours(23, 59, 59, 999);
+      update({ until: selectedDate.toISOString() });
+    }
+  };
+
+  const renderOption = (
+    key: string,
+    label: string,
+    isActive: boolean,
+    onPress: () => void,
+    isDisabled = false
+  ) => (
+    <TouchableOpacity
+      key={key}
+      style={[styles.optionButton, isActive && styles.optionButtonActive]}
+      onPress={onPress}
+      disabled={disabled || isDisabled}
+    >
+      <Text style={[styles.optionButtonText, isActive && styles.optionButtonTextActive]}>
+        {label}
+      </Text>
+    </TouchableOpacity>
+  );
+
+  const startPosition = getWeekdayPosition(startDate);
+
+  return (
+    <View>
+      {/* Frequency */}
+      <View style={styles.optionsRow}>
+        {FREQUENCY_OPTIONS.map((option) =>
+          renderOption(
+            option.key,
+            option.label,
+            option.key === 'none' ? !rule : rule?.frequency === option.key,
+            () => handleFrequencyChange(option.key)
+          )
+        )}
+      </View>
+
+      {rule && (
+        <>
+          {/* Interval */}
+          <View style={styles.intervalRow}>
+            <Text style={styles.subLabel}>Every</Text>
+            <TouchableOpacity
+              style={styles.stepperButton}
+              onPress={() => update({ interval: rule.interval - 1 })}
+              disabled={disabled || rule.interval <= 1}
+            >
+              <Text style={styles.stepperText}>−</Text>
+            </TouchableOpacity>
+            <Text style={styles.intervalValue}>{rule.interval}</Text>
+            <TouchableOpacity
+              style={styles.stepperButton}
+              onPress={() => update({ interval: rule.interval + 1 })}
+              disabled={disabled || rule.interval >= 99}
+            >
+              <Text style={styles.stepperText}>+</Text>
+            </TouchableOpacity>
+            <Text style={styles.subLabel}>
+              {UNIT_LABELS[rule.frequency]}
+              {rule.interval !== 1 ? 's' : ''}
+            </Text>
+          </View>
+
+          {/* Weekdays */}
+          {rule.frequency === 'weekly' && (
+            <View style={styles.optionsRow}>
+              {WEEKDAY_LABELS.map((label, weekday) =>
+                renderOption(label, label, rule.byWeekday.includes(weekday), () =>
+                  handleWeekdayToggle(weekday)
+                )
+              )}
+            </View>
+          )}
+
+          {/* Monthly mode */}
+          {rule.frequency === 'monthly' && (
+            <View style={styles.optionsRow}>
+              {renderOption(
+                'monthDay',
+                `On day ${startDate.getDate()}`,
+                rule.bySetPos === null,
+                () =>
+                  update({ bySetPos: null, byWeekday: [], byMonthDay: startDate.getDate() })
+              )}
+              {renderOption(
+                'setPos',
+                `On the ${POSITION_LABELS[startPosition]} ${WEEKDAY_LABELS[startDate.getDay()]}`,
+                rule.bySetPos !== null,
+                () =>
+                  update({
+                    bySetPos: startPosition,
+                    byWeekday: [startDate.getDay()],
+                    byMonthDay: null,
+                  })
+              )}
+            </View>
+          )}
+
+          {/* End condition */}
+          <Text style={[styles.subLabel, styles.endLabel]}>Ends</Text>
+          <View style={styles.optionsRow}>
+            {renderOption('never', 'Never', endMode === 'never', () =>
+              handleEndModeChange('never')
+            )}
+            {renderOption(
+              'until',
+              rule.until ? `On ${formatDate(rule.until)}` : 'On date',
+              endMode === 'until',
+              () => handleEndModeChange('until')
+            )}
+            {renderOption('count', 'After…', endMode === 'count', () =>
+              handleEndModeChange('count')
+            )}
+          </View>
+
+          {endMode === 'count' && rule.count !== null && (
+            <View style={styles.intervalRow}>
+              <Text style={styles.subLabel}>After</Text>
+              <TouchableOpacity
+                style={styles.stepperButton}
+                onPress={() => update({ count: rule.count! - 1 })}
+                disabled={disabled || rule.count <= 1}
+              >
+                <Text style={styles.stepperText}>−</Text>
+              </TouchableOpacity>
+              <Text style={styles.intervalValue}>{rule.count}</Text>
+              <TouchableOpacity
+                style={styles.stepperButton}
+                onPress={() => update({ count: rule.count! + 1 })}
+                disabled={disabled}
+              >
+                <Text style={styles.stepperText}>+</Text>
+              </TouchableOpacity>
+              <Text style={styles.subLabel}>occurrences</Text>
+            </View>
+          )}
+
+          <Text style={styles.summary}>{describeRecurrence(rule)}</Text>
+        </>
+      )}
+
+      {error && <Text style={styles.errorText}>{error}</Text>}
+
+      {showUntilPicker && rule?.until && (
+        <DateTimePicker
+          value={new Date(rule.until)}
+          mode="date"
+          minimumDate={startDate}
+          onChange={handleUntilChange}
+        />
+      )}
+    </View>
+  );
+};
+
+const styles = StyleSheet.create({
+  optionsRow: {
+    flexDirection: 'row',
+    flexWrap: 'wrap',
+    gap: SPACING.sm,
+  },
+  optionButton: {
+    paddingHorizontal: SPACING.md,
+    paddingVertical: SPACING.sm,
+    borderRadius: BORDER_RADIUS.md,
+    borderWidth: 1,
+    borderColor: COLORS.border,
+    backgroundColor: COLORS.surface,
+  },
+  optionButtonActive: {
+    backgroundColor: COLORS.primary,
+    borderColor: COLORS.primary,
+  },
+  optionButtonText: {
+    fontSize: FONT_SIZES.sm,
+    fontWeight: FONT_WEIGHTS.medium,
+    color: COLORS.text,
+  },
+  optionButtonTextActive: {
+    color: '#fff',
+  },
+  intervalRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: SPACING.sm,
+    marginVertical: SPACING.sm,
+  },
+  subLabel: {
+    fontSize: FONT_SIZES.md,
+    color: COLORS.textSecondary,
+  },
+  endLabel: {
+    marginTop: SPACING.sm,
+    marginBottom: SPACING.xs,
+  },
+  stepperButton: {
+    width: 32,
+    height: 32,
+    borderRadius: BORDER_RADIUS.round,
+    borderWidth: 1,
+    borderColor: COLORS.border,
+    backgroundColor: COLORS.surface,
+    justifyContent: 'center',
+    alignItems: 'center',
+  },
+  stepperText: {
+    fontSize: FONT_SIZES.lg,
+    fontWeight: FONT_WEIGHTS.semibold,
+    color: COLORS.primary,
+  },
+  intervalValue: {
+    minWidth: 24,
+    textAlign: 'center',
+    fontSize: FONT_SIZES.lg,
+    fontWeight: FONT_WEIGHTS.semibold,
+    color: COLORS.text,
+  },
+  summary: {
+    marginTop: SPACING.sm,
+    fontSize: FONT_SIZES.sm,
+    color: COLORS.textSecondary,
+    fontStyle: 'italic',
+  },
+  errorText: {
+    fontSize: FONT_SIZES.sm,
+    color: COLORS.error,
+    marginTop: SPACING.xs,
+  },
+});
+
+export default RepeatPicker;
@@ -0,0 +1,110 @@
+/**
+ * Snackbar Component
+ * 
+ * Short message at the bottom of the screen with an optional action
+ * (e.g. "Task moved to trash · Undo"). Hides itself after a few seconds.
+ * 
+ * Features:
+ * - Fades in when a message is set
+ * - Auto-hide after `duration` (the timer restarts when the component remounts,
+ *   so give it a new `key` for each message)
+ * - Optional action button (the parent decides what to show next, e.g. swap
+ *   "Undo" for "Redo", or clear the message)
+ * 
+ * Props:
+ * - message: Text to show (null = hidden)
+ * - actionLabel: (Optional) Label of the action button
+ * - onAction: (Optional) Callback when the action button is pressed
+ * - onHide: Callback when the display time is up; keep it stable
+ * - duration: (Optional) Milliseconds before hiding (default: 5000)
+ */
+
+import React, { useEffect, useRef } from 'react';
+import { Animated, Text, TouchableOpacity, StyleSheet } from 'react-native';
+import { COLORS, SPACING, FONT_SIZES, BORDER_RADIUS, SHADOWS, FONT_WEIGHTS, ANIMATION_DURATION } from '../theme';
+
+interface SnackbarProps {
+  message: string | null;
+  actionLabel?: string;
+  onAction?: () => void;
+  onHide: () => void;
+  duration?: number;
+}
+
+const Snackbar: React.FC<SnackbarProps> = ({
+  message,
+  actionLabel,
+  onAction,
+  onHide,
+  duration = 5000,
+}) => {
+  const opacityAnim = useRef(new Animated.Value(0)).current;
+
+  /**
+   * Fade in and schedule auto-hide whenever a message is shown
+   */
+  useEffect(() => {
+    if (!message) {
+      return;
+    }
+
+    opacityAnim.setValue(0);
+    Animated.timing(opacityAnim, {
+      toValue: 1,
+      duration: ANIMATION_DURATION.normal,
+      useNativeDriver: true,
+    }).start();
+
+    const timer = setTimeout(onHide, duration);
+    return () => clearTimeout(timer);
+  }, [message, duration, onHide, opacityAnim]);
+
+  if (!message) {
+    return null;
+  }
+
+  return (
+    <Animated.View style={[styles.container, { opacity: opacityAnim }]}>
+      <Text style={styles.message} numberOfLines={2}>
+        {message}
+      </Text>
+      {actionLabel && (
+        <TouchableOpacity onPress={onAction} style={styles.action}>
+          <Text style={styles.actionText}>{actionLabel}</Text>
+        </TouchableOpacity>
+      )}
+    </Animated.View>
+  );
+};
+
+const styles = StyleSheet.create({
+  container: {
+    position: 'absolute',
+    left: SPACING.md,
+    right: SPACING.md,
+    bottom: SPACING.xl,
+    flexDirection: 'row',
+    alignItems: 'center',
+    backgroundColor: COLORS.text,
+    borderRadius: BORDER_RADIUS.md,
+    paddingVertical: SPACING.sm,
+    paddingHorizontal: SPACING.md,
+    ...SHADOWS.large,
+  },
+  message: {
+    flex: 1,
+    fontSize: FONT_SIZES.md,
+    color: COLORS.surface,
+  },
+  action: {
+    paddingLeft: SPACING.md,
+    paddingVertical: SPACING.xs,
+  },
+  actionText: {
+    fontSize: FONT_SIZES.md,
+    fontWeight: FONT_WEIGHTS.bold,
+    color: COLORS.secondary,
+  },
+});
+
+export default Snackbar;
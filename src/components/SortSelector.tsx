@@ -0,0 +1,308 @@
+/**
+ * SortSelector Component
+ * 
+ * Compact row under the filter bar showing the task list sort order.
+ * 
+ * Features:
+ * - Current sort mode and direction ("Deadline · Soonest first")
+ * - Picker with every sort mode (Smart, Deadline, Date created, Title, Category,
+ *   Manual)
+ * - Ascending/descending choice, labelled for the selected mode
+ * - One-tap direction toggle next to the current order
+ * - Switching modes starts from the mode's natural direction
+ * - Link to the smart sort weight settings
+ * 
+ * Props:
+ * - sort: Current sort mode and direction
+ * - onChange: Callback with the new sort order
+ * - onTuneSmartSort: (Optional) Callback to open the smart sort settings
+ */
+
+import React, { useState } from 'react';
+import { View, Text, TouchableOpacity, Modal, StyleSheet } from 'react-native';
+import { TaskSort, TaskSortMode, SortDirection } from '../types';
+import { DEFAULT_SORT_DIRECTIONS } from '../utils/taskUtils';
+import { COLORS, SPACING, FONT_SIZES, BORDER_RADIUS, SHADOWS, FONT_WEIGHTS } from '../theme';
+
+interface SortSelectorProps {
+  sort: TaskSort;
+  onChange: (sort: TaskSort) => void;
+  onTuneSmartSort?: () => void;
+}
+
+const MODE_OPTIONS: Array<{ mode: TaskSortMode; label: string; hint: string }> = [
+  { mode: 'smart', label: 'Smart', hint: 'Priority and urgency' },
+  { mode: 'deadline', label: 'Deadline', hint: 'By due date' },
+  { mode: 'created', label: 'Date created', hint: 'By when the task was added' },
+  { mode: 'title', label: 'Title', hint: 'Alphabetical' },
+  { mode: 'category', label: 'Category', hint: 'In your category order' },
+  { mode: 'manual', label: 'Manual', hint: 'Long-press a task and drag it' },
+];
+
+const DIRECTION_LABELS: Record<TaskSortMode, Record<SortDirection, string>> = {
+  smart: { desc: 'Most important first', asc: 'Least important first' },
+  deadline: { asc: 'Soonest first', desc: 'Latest first' },
+  created: { desc: 'Newest first', asc: 'Oldest first' },
+  title: { asc: 'A to Z', desc: 'Z to A' },
+  category: { asc: 'Category order', desc: 'Reverse order' },
+  manual: { asc: 'Your order', desc: 'Reversed' },
+};
+
+const SortSelector: React.FC<SortSelectorProps> = ({ sort, onChange, onTuneSmartSort }) => {
+  const [visible, setVisible] = useState(false);
+
+  const modeLabel = MODE_OPTIONS.find((option) => option.mode === sort.mode)?.label ?? 'Smart';
+  const defaultDirection = DEFAULT_SORT_DIRECTIONS[sort.mode];
+
+  // Natural direction first, so the picker reads the same way for every mode
+  const directions: SortDirection[] =
+    defaultDirection === 'asc' ? ['asc', 'desc'] : ['desc', 'asc'];
+
+  /**
+   * Select a mode (starting from its natural direction)
+   */
+  const handleModeSelect = (mode: TaskSortMode) => {
+    if (mode !== sort.mode) {
+      onChange({ mode, direction: DEFAULT_SORT_DIRECTIONS[mode] });
+    }
+  };
+
+  /**
+   * Flip the direction of the current mode
+   */
+  const handleToggleDirection = () => {
+    onChange({ ...sort, direction: sort.direction === 'asc' ? 'desc' : 'asc' });
+  };
+
+  return (
+    <View style={styles.container}>
+      <TouchableOpacity
+        style={styles.currentButton}
+        onPress={() => setVisible(true)}
+        accessibilityRole="button"
+        accessibilityLabel={`Sort by ${modeLabel}, ${DIRECTION_LABELS[sort.mode][sort.direction]}`}
+      >
+        <Text style={styles.currentText} numberOfLines={1}>
+          Sort: <Text style={styles.currentMode}>{modeLabel}</Text> ·{' '}
+          {DIRECTION_LABELS[sort.mode][sort.direction]} ▾
+        </Text>
+      </TouchableOpacity>
+
+      <TouchableOpacity
+        style={styles.directionButton}
+        onPress={handleToggleDirection}
+        accessibilityRole="button"
+        accessibilityLabel="Reverse sort direction"
+      >
+        <Text style={styles.directionIcon}>{sort.direction === 'asc' ? '↑' : '↓'}</Text>
+      </TouchableOpacity>
+
+      <Modal
+        visible={visible}
+        transparent
+        animationType="fade"
+        onRequestClose={() => setVisible(false)}
+      >
+        <TouchableOpacity
+          style={styles.backdrop}
+          activeOpacity={1}
+          onPress={() => setVisible(false)}
+        >
+          <TouchableOpacity style={styles.sheet} activeOpacity={1}>
+            <Text style={styles.sheetTitle}>Sort tasks</Text>
+            <Text style={styles.hint}>
+              Pinned tasks stay on top and completed tasks at the bottom
+            </Text>
+
+            {MODE_OPTIONS.map((option) => {
+              const active = option.mode === sort.mode;
+              return (
+                <TouchableOpacity
+                  key={option.mode}
+                  style={[styles.row, active && styles.rowActive]}
+                  onPress={() => handleModeSelect(option.mode)}
+                >
+                  <View style={styles.rowLabel}>
+                    <Text style={[styles.rowText, active && styles.rowTextActive]}>
+                      {option.label}
+                    </Text>
+                    <Text style={styles.rowHint}>{option.hint}</Text>
+                  </View>
+                  {active && <Text style={styles.check}>✓</Text>}
+                </TouchableOpacity>
+              );
+            })}
+
+            <View style={styles.directionRow}>
+              {directions.map((direction) => {
+                const active = direction === sort.direction;
+                return (
+                  <TouchableOpacity
+                    key={direction}
+                    style={[styles.directionChip, active && styles.directionChipActive]}
+                    onPress={() => onChange({ ...sort, direction })}
+                  >
+                    <Text
+                      style={[styles.directionChipText, active && styles.directionChipTextActive]}
+                    >
+                      {DIRECTION_LABELS[sort.mode][direction]}
+                    </Text>
+                  </TouchableOpacity>
+                );
+              })}
+            </View>
+
+            <View style={styles.footer}>
+              {onTuneSmartSort && (
+                <TouchableOpacity
+                  style={styles.footerButton}
+                  onPress={() => {
+                    setVisible(false);
+                    onTuneSmartSort();
+                  }}
+                >
+                  <Text style={styles.tuneButtonText}>Tune smart sort…</Text>
+                </TouchableOpacity>
+              )}
+              <TouchableOpacity style={styles.footerButton} onPress={() => setVisible(false)}>
+                <Text style={styles.doneButtonText}>Done</Text>
+              </TouchableOpacity>
+            </View>
+          </TouchableOpacity>
+        </TouchableOpacity>
+      </Modal>
+    </View>
+  );
+};
+
+const styles = StyleSheet.create({
+  container: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    paddingHorizontal: SPACING.md,
+    paddingVertical: SPACING.xs,
+    backgroundColor: COLORS.surface,
+    borderBottomWidth: 1,
+    borderBottomColor: COLORS.border,
+  },
+  currentButton: {
+    flex: 1,
+    paddingVertical: SPACING.xs,
+  },
+  currentText: {
+    fontSize: FONT_SIZES.sm,
+    color: COLORS.textSecondary,
+  },
+  currentMode: {
+    fontWeight: FONT_WEIGHTS.semibold,
+    color: COLORS.text,
+  },
+  directionButton: {
+    paddingHorizontal: SPACING.sm,
+    paddingVertical: SPACING.xs,
+    borderRadius: BORDER_RADIUS.sm,
+    backgroundColor: COLORS.background,
+  },
+  directionIcon: {
+    fontSize: FONT_SIZES.md,
+    fontWeight: FONT_WEIGHTS.bold,
+    color: COLORS.primary,
+  },
+  backdrop: {
+    flex: 1,
+    backgroundColor: COLORS.backdrop,
+    justifyContent: 'center',
+    padding: SPACING.lg,
+  },
+  sheet: {
+    backgroundColor: COLORS.surface,
+    borderRadius: BORDER_RADIUS.lg,
+    padding: SPACING.lg,
+    ...SHADOWS.large,
+  },
+  sheetTitle: {
+    fontSize: FONT_SIZES.xl,
+    fontWeight: FONT_WEIGHTS.bold,
+    color: COLORS.text,
+  },
+  hint: {
+    fontSize: FONT_SIZES.sm,
+    color: COLORS.textTertiary,
+    marginBottom: SPACING.md,
+  },
+  row: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    paddingVertical: SPACING.sm,
+    paddingHorizontal: SPACING.sm,
+    borderRadius: BORDER_RADIUS.md,
+  },
+  rowActive: {
+    backgroundColor: COLORS.background,
+  },
+  rowLabel: {
+    flex: 1,
+  },
+  rowText: {
+    fontSize: FONT_SIZES.md,
+    color: COLORS.text,
+  },
+  rowTextActive: {
+    fontWeight: FONT_WEIGHTS.semibold,
+    color: COLORS.primary,
+  },
+  rowHint: {
+    fontSize: FONT_SIZES.sm,
+    color: COLORS.textSecondary,
+  },
+  check: {
+    fontSize: FONT_SIZES.md,
+    color: COLORS.primary,
+    marginLeft: SPACING.sm,
+  },
+  directionRow: {
+    flexDirection: 'row',
+    gap: SPACING.sm,
+    marginTop: SPACING.md,
+  },
+  directionChip: {
+    flex: 1,
+    alignItems: 'center',
+    paddingVertical: SPACING.sm,
+    paddingHorizontal: SPACING.sm,
+    borderRadius: BORDER_RADIUS.md,
+    backgroundColor: COLORS.background,
+  },
+  directionChipActive: {
+    backgroundColor: COLORS.primary,
+  },
+  directionChipText: {
+    fontSize: FONT_SIZES.sm,
+    fontWeight: FONT_WEIGHTS.medium,
+    color: COLORS.text,
+  },
+  directionChipTextActive: {
+    color: '#fff',
+  },
+  footer: {
+    flexDirection: 'row',
+    justifyContent: 'flex-end',
+    alignItems: 'center',
+    marginTop: SPACING.md,
+  },
+  footerButton: {
+    paddingHorizontal: SPACING.md,
+    paddingVertical: SPACING.sm,
+  },
+  tuneButtonText: {
+    fontSize: FONT_SIZES.md,
+    color: COLORS.textSecondary,
+  },
+  doneButtonText: {
+    fontSize: FONT_SIZES.md,
+    fontWeight: FONT_WEIGHTS.semibold,
+    color: COLORS.primary,
+  },
+});
+
+export default SortSelector;
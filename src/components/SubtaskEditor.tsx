@@ -0,0 +1,231 @@
+/**
+ * SubtaskEditor Component
+ * 
+ * Editable checklist used inside AddTaskModal.
+ * 
+ * Features:
+ * - Add subtask via text input (submit or "Add" button)
+ * - Toggle subtask completion
+ * - Reorder subtasks (move up/down)
+ * - Remove subtask
+ * - Inline validation for subtask titles
+ * 
+ * Props:
+ * - subtasks: Current checklist
+ * - onChange: Callback with the updated checklist
+ * - disabled: Disables all inputs (e.g., while saving)
+ */
+
+import React, { useState } from 'react';
+import { View, Text, TextInput, TouchableOpacity, StyleSheet } from 'react-native';
+import { Subtask } from '../types';
+import {
+  addSubtask,
+  toggleSubtask,
+  removeSubtask,
+  moveSubtask,
+  sortSubtasks,
+} from '../utils/subtaskUtils';
+import { validateSubtaskTitle } from '../utils/validators';
+import { COLORS, SPACING, FONT_SIZES, BORDER_RADIUS, FONT_WEIGHTS } from '../theme';
+
+interface SubtaskEditorProps {
+  subtasks: Subtask[];
+  onChange: (subtasks: Subtask[]) => void;
+  disabled?: boolean;
+}
+
+const SubtaskEditor: React.FC<SubtaskEditorProps> = ({
+  subtasks,
+  onChange,
+  disabled = false,
+}) => {
+  const [newTitle, setNewTitle] = useState('');
+  const [error, setError] = useState<string | null>(null);
+
+  const sortedSubtasks = sortSubtasks(subtasks);
+
+  /**
+   * Handle add button press / input submit
+   */
+  const handleAdd = () => {
+    const validation = validateSubtaskTitle(newTitle);
+    if (validation) {
+      setError(validation);
+      return;
+    }
+
+    onChange(addSubtask(subtasks, newTitle));
+    setNewTitle('');
+    setError(null);
+  };
+
+  return (
+    <View>
+      {sortedSubtasks.map((subtask, index) => (
+        <View key={subtask.id} style={styles.row}>
+          <TouchableOpacity
+            onPress={() => onChange(toggleSubtask(subtasks, subtask.id))}
+            disabled={disabled}
+            hitSlop={{ top: 8, bottom: 8, left: 8, right: 8 }}
+          >
+            <View style={[styles.checkbox, subtask.completed && styles.checkboxChecked]}>
+              {subtask.completed && <Text style={styles.checkmark}>✓</Text>}
+            </View>
+          </TouchableOpacity>
+
+          <Text
+            style={[styles.title, subtask.completed && styles.titleCompleted]}
+            numberOfLines={2}
+          >
+            {subtask.title}
+          </Text>
+
+          <TouchableOpacity
+            onPress={() => onChange(moveSubtask(subtasks, subtask.id, -1))}
+            disabled={disabled || index === 0}
+            style={styles.iconButton}
+          >
+            <Text style={[styles.iconText, index === 0 && styles.iconTextDisabled]}>↑</Text>
+          </TouchableOpacity>
+          <TouchableOpacity
+            onPress={() => onChange(moveSubtask(subtasks, subtask.id, 1))}
+            disabled={disabled || index === sortedSubtasks.length - 1}
+            style={styles.iconButton}
+          >
+            <Text
+              style={[
+                styles.iconText,
+                index === sortedSubtasks.length - 1 && styles.iconTextDisabled,
+              ]}
+            >
+              ↓
+            </Text>
+          </TouchableOpacity>
+          <TouchableOpacity
+            onPress={() => onChange(removeSubtask(subtasks, subtask.id))}
+            disabled={disabled}
+            style={styles.iconButton}
+          >
+            <Text style={styles.removeText}>✕</Text>
+          </TouchableOpacity>
+        </View>
+      ))}
+
+      {/* New subtask input */}
+      <View style={styles.addRow}>
+        <TextInput
+          style={[styles.input, error && styles.inputError]}
+          placeholder="Add a subtask"
+          placeholderTextColor={COLORS.textTertiary}
+          value={newTitle}
+          onChangeText={(text) => {
+            setNewTitle(text);
+            setError(null);
+          }}
+          onSubmitEditing={handleAdd}
+          returnKeyType="done"
+          maxLength={100}
+          editable={!disabled}
+        />
+        <TouchableOpacity style={styles.addButton} onPress={handleAdd} disabled={disabled}>
+          <Text style={styles.addButtonText}>Add</Text>
+        </TouchableOpacity>
+      </View>
+      {error && <Text style={styles.errorText}>{error}</Text>}
+    </View>
+  );
+};
+
+const styles = StyleSheet.create({
+  row: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    backgroundColor: COLORS.surface,
+    borderWidth: 1,
+    borderColor: COLORS.border,
+    borderRadius: BORDER_RADIUS.md,
+    paddingHorizontal: SPACING.md,
+    paddingVertical: SPACING.sm,
+    marginBottom: SPACING.xs,
+  },
+  checkbox: {
+    width: 20,
+    height: 20,
+    borderRadius: BORDER_RADIUS.sm,
+    borderWidth: 2,
+    borderColor: COLORS.border,
+    justifyContent: 'center',
+    alignItems: 'center',
+    backgroundColor: COLORS.surface,
+  },
+  checkboxChecked: {
+    backgroundColor: COLORS.success,
+    borderColor: COLORS.success,
+  },
+  checkmark: {
+    color: '#fff',
+    fontSize: FONT_SIZES.sm,
+    fontWeight: FONT_WEIGHTS.bold,
+  },
+  title: {
+    flex: 1,
+    marginLeft: SPACING.sm,
+    fontSize: FONT_SIZES.md,
+    color: COLORS.text,
+  },
+  titleCompleted: {
+    textDecorationLine: 'line-through',
+    color: COLORS.textSecondary,
+  },
+  iconButton: {
+    paddingHorizontal: SPACING.xs,
+  },
+  iconText: {
+    fontSize: FONT_SIZES.lg,
+    color: COLORS.textSecondary,
+  },
+  iconTextDisabled: {
+    color: COLORS.disabled,
+  },
+  removeText: {
+    fontSize: FONT_SIZES.md,
+    color: COLORS.error,
+  },
+  addRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: SPACING.sm,
+  },
+  input: {
+    flex: 1,
+    backgroundColor: COLORS.surface,
+    borderWidth: 1,
+    borderColor: COLORS.border,
+    borderRadius: BORDER_RADIUS.md,
+    padding: SPACING.md,
+    fontSize: FONT_SIZES.md,
+    color: COLORS.text,
+  },
+  inputError: {
+    borderColor: COLORS.error,
+  },
+  addButton: {
+    paddingHorizontal: SPACING.md,
+    paddingVertical: SPACING.md,
+    borderRadius: BORDER_RADIUS.md,
+    backgroundColor: COLORS.primary,
+  },
+  addButtonText: {
+    fontSize: FONT_SIZES.md,
+    fontWeight: FONT_WEIGHTS.semibold,
+    color: '#fff',
+  },
+  errorText: {
+    fontSize: FONT_SIZES.sm,
+    color: COLORS.error,
+    marginTop: SPACING.xs,
+  },
+});
+
+export default SubtaskEditor;
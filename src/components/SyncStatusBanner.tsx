@@ -0,0 +1,115 @@
+/**
+ * SyncStatusBanner Component
+ * 
+ * Lists changes the server rejected, with retry and dismiss actions.
+ * Needed because a rejected new task is rolled back and has no card to show
+ * a badge on.
+ * 
+ * Features:
+ * - Hidden when nothing failed
+ * - One row per failed change with its error message
+ * - Retry (send again) and Dismiss (keep the rollback) per row
+ * 
+ * Props:
+ * - failedWrites: Queue entries in the 'failed' state
+ * - onRetry: Callback with the entry ID to retry
+ * - onDismiss: Callback with the entry ID to discard
+ */
+
+import React from 'react';
+import { View, Text, TouchableOpacity, StyleSheet } from 'react-native';
+import { PendingWrite } from '../types';
+import { describePendingWrite } from '../utils/syncUtils';
+import { COLORS, SPACING, FONT_SIZES, BORDER_RADIUS, FONT_WEIGHTS } from '../theme';
+
+interface SyncStatusBannerProps {
+  failedWrites: PendingWrite[];
+  onRetry: (writeId: string) => void;
+  onDismiss: (writeId: string) => void;
+}
+
+const SyncStatusBanner: React.FC<SyncStatusBannerProps> = ({
+  failedWrites,
+  onRetry,
+  onDismiss,
+}) => {
+  if (failedWrites.length === 0) {
+    return null;
+  }
+
+  return (
+    <View style={styles.container}>
+      <Text style={styles.title}>
+        ⚠️ {failedWrites.length} change{failedWrites.length !== 1 ? 's' : ''} could not be saved
+      </Text>
+      {failedWrites.map((write) => (
+        <View key={write.id} style={styles.row}>
+          <View style={styles.rowContent}>
+            <Text style={styles.rowText} numberOfLines={1}>
+              {describePendingWrite(write)}
+            </Text>
+            {write.error && (
+              <Text style={styles.errorText} numberOfLines={2}>
+                {write.error}
+              </Text>
+            )}
+          </View>
+          <TouchableOpacity onPress={() => onRetry(write.id)} style={styles.action}>
+            <Text style={styles.actionText}>Retry</Text>
+          </TouchableOpacity>
+          <TouchableOpacity onPress={() => onDismiss(write.id)} style={styles.action}>
+            <Text style={[styles.actionText, styles.dismissText]}>Dismiss</Text>
+          </TouchableOpacity>
+        </View>
+      ))}
+    </View>
+  );
+};
+
+const styles = StyleSheet.create({
+  container: {
+    backgroundColor: COLORS.surface,
+    borderLeftWidth: 4,
+    borderLeftColor: COLORS.error,
+    borderRadius: BORDER_RADIUS.md,
+    marginHorizontal: SPACING.md,
+    marginTop: SPACING.sm,
+    padding: SPACING.md,
+  },
+  title: {
+    fontSize: FONT_SIZES.md,
+    fontWeight: FONT_WEIGHTS.semibold,
+    color: COLORS.error,
+    marginBottom: SPACING.xs,
+  },
+  row: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    paddingVertical: SPACING.xs,
+  },
+  rowContent: {
+    flex: 1,
+  },
+  rowText: {
+    fontSize: FONT_SIZES.sm,
+    color: COLORS.text,
+  },
+  errorText: {
+    fontSize: FONT_SIZES.xs,
+    color: COLORS.textSecondary,
+  },
+  action: {
+    paddingHorizontal: SPACING.sm,
+    paddingVertical: SPACING.xs,
+  },
+  actionText: {
+    fontSize: FONT_SIZES.sm,
+    fontWeight: FONT_WEIGHTS.semibold,
+    color: COLORS.primary,
+  },
+  dismissText: {
+    color: COLORS.textSecondary,
+  },
+});
+
+export default SyncStatusBanner;
@@ -0,0 +1,193 @@
+/**
+ * TagEditor Component
+ * 
+ * Free-form tag input used inside AddTaskModal.
+ * 
+ * Features:
+ * - Removable tag chips
+ * - Text input that adds a tag on submit, space or comma
+ * - Autocomplete suggestions from the user's existing tags
+ * - Inline validation (length, characters, max tags per task)
+ * 
+ * Props:
+ * - tags: Tags currently applied to the task
+ * - existingTags: All tags in use (for autocomplete), most used first
+ * - onChange: Callback with the updated tag list
+ * - disabled: Disables all inputs (e.g., while saving)
+ */
+
+import React, { useState } from 'react';
+import { View, Text, TextInput, TouchableOpacity, StyleSheet } from 'react-native';
+import { addTag, normalizeTag, removeTag, suggestTags } from '../utils/tagUtils';
+import { validateTag } from '../utils/validators';
+import { COLORS, SPACING, FONT_SIZES, BORDER_RADIUS, FONT_WEIGHTS } from '../theme';
+
+interface TagEditorProps {
+  tags: string[];
+  existingTags: string[];
+  onChange: (tags: string[]) => void;
+  disabled?: boolean;
+}
+
+const TagEditor: React.FC<TagEditorProps> = ({
+  tags,
+  existingTags,
+  onChange,
+  disabled = false,
+}) => {
+  const [input, setInput] = useState('');
+  const [error, setError] = useState<string | null>(null);
+
+  const suggestions = suggestTags(input, existingTags, tags);
+
+  /**
+   * Validate and add a tag, clearing the input on success
+   */
+  const commitTag = (raw: string) => {
+    const tag = normalizeTag(raw);
+    if (!tag) {
+      setInput('');
+      return;
+    }
+    if (tags.includes(tag)) {
+      setInput('');
+      setError(null);
+      return;
+    }
+
+    const validation = validateTag(tag, tags);
+    if (validation) {
+      setError(validation);
+      return;
+    }
+
+    onChange(addTag(tags, tag));
+    setInput('');
+    setError(null);
+  };
+
+  /**
+   * Handle text changes - a trailing space or comma commits the tag
+   */
+  const handleChangeText = (text: string) => {
+    setError(null);
+    if (/[\s,]$/.test(text)) {
+      commitTag(text.slice(0, -1));
+    } else {
+      setInput(text);
+    }
+  };
+
+  return (
+    <View>
+      {/* Applied tags */}
+      {tags.length > 0 && (
+        <View style={styles.chipsRow}>
+          {tags.map((tag) => (
+            <TouchableOpacity
+              key={tag}
+              style={styles.chip}
+              onPress={() => onChange(removeTag(tags, tag))}
+              disabled={disabled}
+            >
+              <Text style={styles.chipText}>#{tag}</Text>
+              <Text style={styles.chipRemove}>✕</Text>
+            </TouchableOpacity>
+          ))}
+        </View>
+      )}
+
+      {/* Input */}
+      <TextInput
+        style={[styles.input, error && styles.inputError]}
+        placeholder="Add tags (e.g. q3-launch)"
+        placeholderTextColor={COLORS.textTertiary}
+        value={input}
+        onChangeText={handleChangeText}
+        onSubmitEditing={() => commitTag(input)}
+        blurOnSubmit={false}
+        autoCapitalize="none"
+        autoCorrect={false}
+        returnKeyType="done"
+        maxLength={31}
+        editable={!disabled}
+      />
+      {error && <Text style={styles.errorText}>{error}</Text>}
+
+      {/* Autocomplete suggestions */}
+      {suggestions.length > 0 && (
+        <View style={styles.chipsRow}>
+          {suggestions.map((tag) => (
+            <TouchableOpacity
+              key={tag}
+              style={styles.suggestion}
+              onPress={() => commitTag(tag)}
+              disabled={disabled}
+            >
+              <Text style={styles.suggestionText}>#{tag}</Text>
+            </TouchableOpacity>
+          ))}
+        </View>
+      )}
+    </View>
+  );
+};
+
+const styles = StyleSheet.create({
+  chipsRow: {
+    flexDirection: 'row',
+    flexWrap: 'wrap',
+    gap: SPACING.xs,
+    marginBottom: SPACING.sm,
+  },
+  chip: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: SPACING.xs,
+    paddingHorizontal: SPACING.sm,
+    paddingVertical: SPACING.xs,
+    borderRadius: BORDER_RADIUS.round,
+    backgroundColor: COLORS.secondary,
+  },
+  chipText: {
+    fontSize: FONT_SIZES.sm,
+    fontWeight: FONT_WEIGHTS.medium,
+    color: '#fff',
+  },
+  chipRemove: {
+    fontSize: FONT_SIZES.xs,
+    color: '#fff',
+  },
+  input: {
+    backgroundColor: COLORS.surface,
+    borderWidth: 1,
+    borderColor: COLORS.border,
+    borderRadius: BORDER_RADIUS.md,
+    padding: SPACING.md,
+    fontSize: FONT_SIZES.md,
+    color: COLORS.text,
+  },
+  inputError: {
+    borderColor: COLORS.error,
+  },
+  errorText: {
+    fontSize: FONT_SIZES.sm,
+    color: COLORS.error,
+    marginTop: SPACING.xs,
+  },
+  suggestion: {
+    paddingHorizontal: SPACING.sm,
+    paddingVertical: SPACING.xs,
+    borderRadius: BORDER_RADIUS.round,
+    borderWidth: 1,
+    borderColor: COLORS.secondary,
+    backgroundColor: COLORS.surface,
+    marginTop: SPACING.sm,
+  },
+  suggestionText: {
+    fontSize: FONT_SIZES.sm,
+    color: COLORS.primary,
+  },
+});
+
+export default TagEditor;
@@ -5,40 +5,95 @@
  * 
  * Features:
  * - Priority indicator (left border color)
- * - Category badge
- * - Title and description
+ * - Pin indicator for tasks pinned to the top
+ * - Category badge (user-defined color and icon)
+ * - Status pill for tasks in progress, blocked, waiting or cancelled
+ * - "Blocked by" pill while prerequisites are open, with a warning when one
+ *   of them is due after the task
+ * - Repeat indicator for recurring tasks
+ * - Reminder bell for open tasks with reminders
+ * - Title and description (search matches highlighted)
+ * - Tag chips
  * - Deadline with time remaining text
  * - Overdue highlighting
- * - Completion checkbox with animation
- * - Delete button
- * - Tap to edit
+ * - Completion checkbox with animation (✕ for cancelled tasks)
+ * - Subtask progress ("3/5 done" with progress bar), expandable checklist
+ * - Sync badge (saving / not saved) with retry action
+ * - "Why is this here?" popover: the task's smart score, factor by factor
+ * - Delete button (moves the task to the trash)
+ * - Tap to edit; long-press to drag (manual order)
+ * - Memoized: re-renders only when its props change (tasks keep their object
+ *   identity until they change)
  * 
  * Props:
  * - task: Task object to display
+ * - category: Resolved category of the task (for badge color, icon and name)
  * - onPress: Callback when card is tapped (for editing)
+ * - onLongPress: (Optional) Callback when card is long-pressed (starts a drag)
  * - onToggleComplete: Callback when checkbox is toggled
- * - onDelete: Callback when delete button is pressed
+ * - onDelete: Callback when delete button is pressed (no confirmation; deletes are undoable)
+ * - onToggleSubtask: (Optional) Callback when a checklist item is toggled
+ * - syncStatus: (Optional) Sync state of the task's latest changes (default: synced)
+ * - onRetrySync: (Optional) Callback when the "Not saved" badge is tapped
+ * - searchQuery: (Optional) Search input to highlight in the title and description
+ * - scoringConfig: (Optional) Smart sort weights; shows the "Why is this here?" button
+ * - dependencies: (Optional) Open prerequisites of the task (see dependencyUtils)
  */
 
-import React, { useRef, useEffect } from 'react';
-import { View, Text, TouchableOpacity, StyleSheet, Alert, Animated } from 'react-native';
-import { Task, Priority, Category } from '../types';
+import React, { useRef, useEffect, useState } from 'react';
+import { View, Text, TouchableOpacity, StyleSheet, Animated, Modal } from 'react-native';
+import {
+  Task,
+  Priority,
+  UserCategory,
+  SyncStatus,
+  ScoringConfig,
+  DependencySummary,
+} from '../types';
 import { COLORS, SPACING, FONT_SIZES, BORDER_RADIUS, SHADOWS, FONT_WEIGHTS, ANIMATION_DURATION } from '../theme';
 import { formatDateTime, isOverdue, getTimeRemainingText } from '../utils/dateUtils';
+import { getSubtaskProgress, sortSubtasks } from '../utils/subtaskUtils';
+import { describeRecurrence } from '../utils/recurrenceUtils';
+import { STATUS_LABELS, STATUS_COLORS } from '../utils/statusUtils';
+import { explainTaskScore, describeScoreBreakdown } from '../utils/taskUtils';
+import HighlightedText from './HighlightedText';
 
 interface TaskCardProps {
   task: Task;
+  category: UserCategory;
   onPress: (task: Task) => void;
+  onLongPress?: () => void;
   onToggleComplete: (taskId: string, completed: boolean) => void;
   onDelete: (taskId: string) => void;
+  onToggleSubtask?: (task: Task, subtaskId: string) => void;
+  syncStatus?: SyncStatus;
+  onRetrySync?: (task: Task) => void;
+  searchQuery?: string;
+  scoringConfig?: ScoringConfig;
+  dependencies?: DependencySummary;
 }
 
 const TaskCard: React.FC<TaskCardProps> = ({
   task,
+  category,
   onPress,
+  onLongPress,
   onToggleComplete,
   onDelete,
+  onToggleSubtask,
+  syncStatus = 'synced',
+  onRetrySync,
+  searchQuery = '',
+  scoringConfig,
+  dependencies,
 }) => {
+  // Whether the checklist is expanded below the description
+  const [showSubtasks, setShowSubtasks] = useState(false);
+
+  // Whether the score explanation popover is open
+  const [showScore, setShowScore] = useState(false);
+
+
   // Animation value for completion toggle
   const scaleAnim = useRef(new Animated.Value(1)).current;
   const opacityAnim = useRef(new Animated.Value(1)).current;
@@ -94,24 +149,6 @@ const TaskCard: React.FC<TaskCardProps> = ({
     }
   };
 
-  /**
-   * Get category display name
-   */
-  const getCategoryLabel = (category: Category): string => {
-    switch (category) {
-      case Category.WORK:
-        return 'Work';
-      case Category.PERSONAL:
-        return 'Personal';
-      case Category.STUDY:
-        return 'Study';
-      case Category.OTHER:
-        return 'Other';
-      default:
-        return category;
-    }
-  };
-
   /**
    * Get priority display name
    */
@@ -129,21 +166,11 @@ const TaskCard: React.FC<TaskCardProps> = ({
   };
 
   /**
-   * Handle delete button press with confirmation
+   * Handle delete button press
+   * No confirmation: the task goes to the trash and the list offers an undo
    */
   const handleDelete = () => {
-    Alert.alert(
-      'Delete Task',
-      `Are you sure you want to delete "${task.title}"?`,
-      [
-        { text: 'Cancel', style: 'cancel' },
-        {
-          text: 'Delete',
-          style: 'destructive',
-          onPress: () => onDelete(task.id),
-        },
-      ]
-    );
+    onDelete(task.id);
   };
 
   /**
@@ -156,6 +183,11 @@ const TaskCard: React.FC<TaskCardProps> = ({
   const priorityColor = getPriorityColor(task.priority);
   const isTaskOverdue = isOverdue(task.deadline, task.completed);
   const timeRemaining = getTimeRemainingText(task.deadline);
+  const subtaskProgress = getSubtaskProgress(task.subtasks);
+
+  // Computed when the popover opens (the score depends on the current time)
+  const scoreBreakdown =
+    showScore && scoringConfig ? explainTaskScore(task, scoringConfig) : null;
 
   return (
     <Animated.View
@@ -172,6 +204,7 @@ const TaskCard: React.FC<TaskCardProps> = ({
           task.completed && styles.completedContainer,
         ]}
         onPress={() => onPress(task)}
+        onLongPress={onLongPress}
         activeOpacity={0.7}
       >
         {/* Checkbox */}
@@ -180,8 +213,16 @@ const TaskCard: React.FC<TaskCardProps> = ({
           onPress={handleToggleComplete}
           hitSlop={{ top: 10, bottom: 10, left: 10, right: 10 }}
         >
-          <View style={[styles.checkbox, task.completed && styles.checkboxChecked]}>
-            {task.completed && <Text style={styles.checkmark}>✓</Text>}
+          <View
+            style={[
+              styles.checkbox,
+              task.completed && styles.checkboxChecked,
+              task.status === 'cancelled' && styles.checkboxCancelled,
+            ]}
+          >
+            {task.completed && (
+              <Text style={styles.checkmark}>{task.status === 'cancelled' ? '✕' : '✓'}</Text>
+            )}
           </View>
         </TouchableOpacity>
 
@@ -189,27 +230,149 @@ const TaskCard: React.FC<TaskCardProps> = ({
         <View style={styles.content}>
           {/* Header: Category and Priority */}
           <View style={styles.header}>
-            <View style={styles.categoryBadge}>
-              <Text style={styles.categoryText}>{getCategoryLabel(task.category)}</Text>
+            <View style={styles.headerLeft}>
+              {task.pinned && !task.completed && (
+                <Text style={styles.pinText} accessibilityLabel="Pinned">
+                  📌
+                </Text>
+              )}
+              <View style={[styles.categoryBadge, { backgroundColor: category.color }]}>
+                <Text style={styles.categoryText}>
+                  {category.icon} {category.name}
+                </Text>
+              </View>
+              {task.status !== 'todo' && task.status !== 'done' && (
+                <View style={[styles.statusPill, { borderColor: STATUS_COLORS[task.status] }]}>
+                  <Text style={[styles.statusText, { color: STATUS_COLORS[task.status] }]}>
+                    {STATUS_LABELS[task.status]}
+                  </Text>
+                </View>
+              )}
+              {dependencies && !task.completed && (
+                <View style={[styles.statusPill, { borderColor: COLORS.error }]}>
+                  <Text style={[styles.statusText, { color: COLORS.error }]}>
+                    ⛔ Blocked by {dependencies.openPrerequisites}{' '}
+                    {dependencies.openPrerequisites === 1 ? 'task' : 'tasks'}
+                  </Text>
+                </View>
+              )}
+              {task.recurrence && (
+                <Text style={styles.repeatText} numberOfLines={1}>
+                  🔁 {describeRecurrence(task.recurrence)}
+                </Text>
+              )}
+              {task.reminders.length > 0 && !task.completed && (
+                <Text style={styles.repeatText}>🔔 {task.reminders.length}</Text>
+              )}
+            </View>
+            <View style={styles.headerRight}>
+              {syncStatus === 'pending' && <Text style={styles.syncText}>⏳ Saving</Text>}
+              {syncStatus === 'failed' && (
+                <TouchableOpacity
+                  onPress={() => onRetrySync?.(task)}
+                  disabled={!onRetrySync}
+                  hitSlop={{ top: 8, bottom: 8, left: 8, right: 8 }}
+                >
+                  <Text style={[styles.syncText, styles.syncTextFailed]}>
+                    ⚠️ Not saved{onRetrySync ? ' · Retry' : ''}
+                  </Text>
+                </TouchableOpacity>
+              )}
+              <Text style={styles.priorityText}>{getPriorityLabel(task.priority)}</Text>
+              {scoringConfig && (
+                <TouchableOpacity
+                  style={styles.whyButton}
+                  onPress={() => setShowScore(true)}
+                  hitSlop={{ top: 8, bottom: 8, left: 8, right: 8 }}
+                  accessibilityRole="button"
+                  accessibilityLabel="Why is this here?"
+                >
+                  <Text style={styles.whyButtonText}>?</Text>
+                </TouchableOpacity>
+              )}
             </View>
-            <Text style={styles.priorityText}>{getPriorityLabel(task.priority)}</Text>
           </View>
 
           {/* Title */}
-          <Text
+          <HighlightedText
+            text={task.title}
+            query={searchQuery}
             style={[styles.title, task.completed && styles.titleCompleted]}
             numberOfLines={2}
-          >
-            {task.title}
-          </Text>
+          />
 
           {/* Description */}
           {task.description && task.description.trim().length > 0 && (
-            <Text
+            <HighlightedText
+              text={task.description}
+              query={searchQuery}
               style={[styles.description, task.completed && styles.descriptionCompleted]}
               numberOfLines={2}
+            />
+          )}
+
+          {/* Tags */}
+          {task.tags.length > 0 && (
+            <View style={styles.tagsRow}>
+              {task.tags.map((tag) => (
+                <View key={tag} style={styles.tagChip}>
+                  <Text style={styles.tagText}>#{tag}</Text>
+                </View>
+              ))}
+            </View>
+          )}
+
+          {/* Subtask Progress */}
+          {subtaskProgress.total > 0 && (
+            <TouchableOpacity
+              style={styles.subtaskSummary}
+              onPress={() => setShowSubtasks(!showSubtasks)}
+              activeOpacity={0.7}
             >
-              {task.description}
+              <View style={styles.progressTrack}>
+                <View
+                  style={[
+                    styles.progressFill,
+                    { width: `${subtaskProgress.ratio * 100}%` },
+                  ]}
+                />
+              </View>
+              <Text style={styles.subtaskSummaryText}>
+                {subtaskProgress.completed}/{subtaskProgress.total} done {showSubtasks ? '▲' : '▼'}
+              </Text>
+            </TouchableOpacity>
+          )}
+
+          {/* Expanded Checklist */}
+          {showSubtasks &&
+            sortSubtasks(task.subtasks).map((subtask) => (
+              <TouchableOpacity
+                key={subtask.id}
+                style={styles.subtaskRow}
+                onPress={() => onToggleSubtask?.(task, subtask.id)}
+                disabled={!onToggleSubtask}
+              >
+                <View
+                  style={[styles.subtaskCheckbox, subtask.completed && styles.checkboxChecked]}
+                >
+                  {subtask.completed && <Text style={styles.subtaskCheckmark}>✓</Text>}
+                </View>
+                <Text
+                  style={[styles.subtaskTitle, subtask.completed && styles.titleCompleted]}
+                  numberOfLines={1}
+                >
+                  {subtask.title}
+                </Text>
+              </TouchableOpacity>
+            ))}
+
+          {/* Prerequisites due after this task */}
+          {dependencies && dependencies.deadlineConflicts > 0 && !task.completed && (
+            <Text style={styles.dependencyWarning}>
+              ⚠️ Due before{' '}
+              {dependencies.deadlineConflicts === 1
+                ? 'a task it waits for'
+                : `${dependencies.deadlineConflicts} tasks it waits for`}
             </Text>
           )}
 
@@ -250,10 +413,52 @@ const TaskCard: React.FC<TaskCardProps> = ({
           <Text style={styles.deleteIcon}>🗑️</Text>
         </TouchableOpacity>
       </TouchableOpacity>
+
+      {/* Score explanation */}
+      <Modal
+        visible={scoreBreakdown !== null}
+        transparent
+        animationType="fade"
+        onRequestClose={() => setShowScore(false)}
+      >
+        <TouchableOpacity
+          style={styles.scoreBackdrop}
+          activeOpacity={1}
+          onPress={() => setShowScore(false)}
+        >
+          {scoreBreakdown && (
+            <View style={styles.scorePopover}>
+              <Text style={styles.scoreTitle}>Why is this here?</Text>
+              <Text style={styles.scoreSubtitle} numberOfLines={1}>
+                {task.title}
+              </Text>
+              {describeScoreBreakdown(task, scoreBreakdown).map((factor) => (
+                <View key={factor.key} style={styles.scoreRow}>
+                  <Text style={styles.scoreLabel}>{factor.label}</Text>
+                  <Text style={styles.scorePoints}>{formatPoints(factor.points)}</Text>
+                </View>
+              ))}
+              <View style={[styles.scoreRow, styles.scoreTotalRow]}>
+                <Text style={styles.scoreTotalLabel}>Score</Text>
+                <Text style={styles.scoreTotalLabel}>{Math.round(scoreBreakdown.total)}</Text>
+              </View>
+              <Text style={styles.scoreHint}>Higher scores appear first</Text>
+            </View>
+          )}
+        </TouchableOpacity>
+      </Modal>
     </Animated.View>
   );
 };
 
+/**
+ * Format score points with a sign ("+100", "-37", "0")
+ */
+const formatPoints = (points: number): string => {
+  const rounded = Math.round(points);
+  return rounded > 0 ? `+${rounded}` : String(rounded);
+};
+
 const styles = StyleSheet.create({
   container: {
     backgroundColor: COLORS.surface,
@@ -291,6 +496,10 @@ const styles = StyleSheet.create({
     backgroundColor: COLORS.success,
     borderColor: COLORS.success,
   },
+  checkboxCancelled: {
+    backgroundColor: COLORS.completed,
+    borderColor: COLORS.completed,
+  },
   checkmark: {
     color: '#fff',
     fontSize: FONT_SIZES.md,
@@ -306,8 +515,21 @@ const styles = StyleSheet.create({
     justifyContent: 'space-between',
     marginBottom: SPACING.xs,
   },
+  headerLeft: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    flex: 1,
+    gap: SPACING.sm,
+  },
+  pinText: {
+    fontSize: FONT_SIZES.xs,
+  },
+  repeatText: {
+    flexShrink: 1,
+    fontSize: FONT_SIZES.xs,
+    color: COLORS.textSecondary,
+  },
   categoryBadge: {
-    backgroundColor: COLORS.primary,
     paddingHorizontal: SPACING.sm,
     paddingVertical: 2,
     borderRadius: BORDER_RADIUS.sm,
@@ -318,11 +540,106 @@ const styles = StyleSheet.create({
     color: '#fff',
     textTransform: 'uppercase',
   },
+  statusPill: {
+    paddingHorizontal: SPACING.sm,
+    paddingVertical: 1,
+    borderWidth: 1,
+    borderRadius: BORDER_RADIUS.round,
+  },
+  statusText: {
+    fontSize: FONT_SIZES.xs,
+    fontWeight: FONT_WEIGHTS.semibold,
+  },
+  dependencyWarning: {
+    fontSize: FONT_SIZES.xs,
+    color: COLORS.warning,
+    marginBottom: SPACING.xs,
+  },
+  headerRight: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: SPACING.sm,
+  },
+  syncText: {
+    fontSize: FONT_SIZES.xs,
+    color: COLORS.textSecondary,
+  },
+  syncTextFailed: {
+    fontWeight: FONT_WEIGHTS.semibold,
+    color: COLORS.error,
+  },
   priorityText: {
     fontSize: FONT_SIZES.xs,
     fontWeight: FONT_WEIGHTS.medium,
     color: COLORS.textSecondary,
   },
+  whyButton: {
+    width: 18,
+    height: 18,
+    borderRadius: 9,
+    borderWidth: 1,
+    borderColor: COLORS.borderDark,
+    alignItems: 'center',
+    justifyContent: 'center',
+  },
+  whyButtonText: {
+    fontSize: FONT_SIZES.xs,
+    fontWeight: FONT_WEIGHTS.semibold,
+    color: COLORS.textSecondary,
+  },
+  scoreBackdrop: {
+    flex: 1,
+    backgroundColor: COLORS.backdrop,
+    justifyContent: 'center',
+    padding: SPACING.lg,
+  },
+  scorePopover: {
+    backgroundColor: COLORS.surface,
+    borderRadius: BORDER_RADIUS.lg,
+    padding: SPACING.lg,
+    ...SHADOWS.large,
+  },
+  scoreTitle: {
+    fontSize: FONT_SIZES.lg,
+    fontWeight: FONT_WEIGHTS.bold,
+    color: COLORS.text,
+  },
+  scoreSubtitle: {
+    fontSize: FONT_SIZES.sm,
+    color: COLORS.textSecondary,
+    marginBottom: SPACING.md,
+  },
+  scoreRow: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    paddingVertical: SPACING.xs,
+  },
+  scoreLabel: {
+    flex: 1,
+    fontSize: FONT_SIZES.md,
+    color: COLORS.text,
+  },
+  scorePoints: {
+    fontSize: FONT_SIZES.md,
+    color: COLORS.textSecondary,
+    marginLeft: SPACING.sm,
+  },
+  scoreTotalRow: {
+    borderTopWidth: 1,
+    borderTopColor: COLORS.border,
+    marginTop: SPACING.xs,
+    paddingTop: SPACING.sm,
+  },
+  scoreTotalLabel: {
+    fontSize: FONT_SIZES.md,
+    fontWeight: FONT_WEIGHTS.semibold,
+    color: COLORS.text,
+  },
+  scoreHint: {
+    fontSize: FONT_SIZES.xs,
+    color: COLORS.textTertiary,
+    marginTop: SPACING.sm,
+  },
   title: {
     fontSize: FONT_SIZES.lg,
     fontWeight: FONT_WEIGHTS.semibold,
@@ -344,6 +661,72 @@ const styles = StyleSheet.create({
     textDecorationLine: 'line-through',
     color: COLORS.textTertiary,
   },
+  tagsRow: {
+    flexDirection: 'row',
+    flexWrap: 'wrap',
+    gap: SPACING.xs,
+    marginBottom: SPACING.sm,
+  },
+  tagChip: {
+    backgroundColor: COLORS.background,
+    paddingHorizontal: SPACING.sm,
+    paddingVertical: 2,
+    borderRadius: BORDER_RADIUS.round,
+  },
+  tagText: {
+    fontSize: FONT_SIZES.xs,
+    color: COLORS.primaryDark,
+  },
+  subtaskSummary: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: SPACING.sm,
+    marginBottom: SPACING.sm,
+  },
+  progressTrack: {
+    flex: 1,
+    height: 6,
+    borderRadius: BORDER_RADIUS.round,
+    backgroundColor: COLORS.border,
+    overflow: 'hidden',
+  },
+  progressFill: {
+    height: '100%',
+    borderRadius: BORDER_RADIUS.round,
+    backgroundColor: COLORS.success,
+  },
+  subtaskSummaryText: {
+    fontSize: FONT_SIZES.xs,
+    fontWeight: FONT_WEIGHTS.semibold,
+    color: COLORS.textSecondary,
+  },
+  subtaskRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    paddingVertical: 2,
+    marginBottom: SPACING.xs,
+  },
+  subtaskCheckbox: {
+    width: 16,
+    height: 16,
+    borderRadius: BORDER_RADIUS.sm,
+    borderWidth: 2,
+    borderColor: COLORS.border,
+    justifyContent: 'center',
+    alignItems: 'center',
+    backgroundColor: COLORS.surface,
+  },
+  subtaskCheckmark: {
+    color: '#fff',
+    fontSize: FONT_SIZES.xs,
+    fontWeight: FONT_WEIGHTS.bold,
+  },
+  subtaskTitle: {
+    flex: 1,
+    marginLeft: SPACING.sm,
+    fontSize: FONT_SIZES.sm,
+    color: COLORS.text,
+  },
   footer: {
     flexDirection: 'row',
     alignItems: 'center',
@@ -394,4 +777,4 @@ const styles = StyleSheet.create({
   },
 });
 
-export default TaskCard;
+export default React.memo(TaskCard);
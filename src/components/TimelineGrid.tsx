@@ -0,0 +1,458 @@
+/**
+ * TimelineGrid Component
+ * 
+ * Hour-by-hour timeline of one or more days, with tasks as time blocks.
+ * 
+ * Features:
+ * - One column per day (day view or week view) with hour lines and labels
+ * - Tasks drawn from their start to their deadline (or estimated duration);
+ *   overlapping tasks share the width side by side
+ * - All-day lane above the hours for whole-day and multi-day tasks
+ * - Current time line on today's column
+ * - Long-press a block and drag it to another time (snaps to 15 minutes) or,
+ *   in the week view, another day; the new start is shown while dragging
+ * - Tap a block or all-day task to open it
+ * 
+ * Props:
+ * - days: Days to show, one column each (local midnight)
+ * - timelines: Laid-out tasks for each day (see timelineUtils.layoutDayTimeline)
+ * - onTaskPress: Callback when a task is tapped
+ * - onTaskMove: Callback with a dropped task and its new start time
+ * - onDayPress: (Optional) Callback when a day header is tapped (week view)
+ */
+
+import React, { useCallback, useRef, useState } from 'react';
+import {
+  View,
+  Text,
+  ScrollView,
+  TouchableOpacity,
+  StyleSheet,
+  Animated,
+  PanResponder,
+  LayoutChangeEvent,
+} from 'react-native';
+import { Task, Priority, TimelineBlock, DayTimeline } from '../types';
+import { getDayKey, formatTime } from '../utils/dateUtils';
+import { MIN_BLOCK_MINUTES, getTaskTimeRange, getDropStartTime } from '../utils/timelineUtils';
+import { COLORS, SPACING, FONT_SIZES, BORDER_RADIUS, SHADOWS, FONT_WEIGHTS } from '../theme';
+
+interface TimelineGridProps {
+  days: Date[];
+  timelines: DayTimeline[];
+  onTaskPress: (task: Task) => void;
+  onTaskMove: (task: Task, start: Date) => void;
+  onDayPress?: (day: Date) => void;
+}
+
+// Height of one hour on the timeline
+const HOUR_HEIGHT = 48;
+
+// Width of the hour labels column
+const GUTTER_WIDTH = 48;
+
+// Hour shown at the top when the timeline opens
+const FIRST_VISIBLE_HOUR = 7;
+
+const HOURS = Array.from({ length: 24 }, (_, hour) => hour);
+
+const WEEKDAYS = ['Sun', 'Mon', 'Tue', 'Wed', 'Thu', 'Fri', 'Sat'];
+
+const PRIORITY_COLORS: Record<Priority, string> = {
+  [Priority.HIGH]: COLORS.priorityHigh,
+  [Priority.MEDIUM]: COLORS.priorityMedium,
+  [Priority.LOW]: COLORS.priorityLow,
+};
+
+/**
+ * Hour label ("9 AM")
+ */
+const formatHour = (hour: number): string => {
+  return `${hour % 12 || 12} ${hour < 12 ? 'AM' : 'PM'}`;
+};
+
+/**
+ * Length of a task's time range in minutes
+ */
+const getDurationMinutes = (task: Task): number => {
+  const { start, end } = getTaskTimeRange(task);
+  return (end.getTime() - start.getTime()) / (60 * 1000);
+};
+
+interface DragState {
+  block: TimelineBlock;
+  dayIndex: number;
+}
+
+const TimelineGrid: React.FC<TimelineGridProps> = ({
+  days,
+  timelines,
+  onTaskPress,
+  onTaskMove,
+  onDayPress,
+}) => {
+  // Block being dragged and where it would be dropped
+  const [drag, setDrag] = useState<DragState | null>(null);
+  const [dropStart, setDropStart] = useState<Date | null>(null);
+
+  // Width of one day column
+  const [dayWidth, setDayWidth] = useState(0);
+
+  // Refs for the pan responder callbacks (created once)
+  const dragRef = useRef<DragState | null>(null);
+  const grantedRef = useRef(false);
+  const layoutRef = useRef({ days, dayWidth, onTaskMove });
+  layoutRef.current = { days, dayWidth, onTaskMove };
+  const pan = useRef(new Animated.ValueXY()).current;
+
+  const todayKey = getDayKey(new Date());
+  const now = new Date();
+  const nowMinutes = now.getHours() * 60 + now.getMinutes();
+
+  /**
+   * Measure the day columns
+   */
+  const handleColumnsLayout = useCallback(
+    (event: LayoutChangeEvent) => {
+      setDayWidth(event.nativeEvent.layout.width / days.length);
+    },
+    [days.length]
+  );
+
+  /**
+   * Start dragging a block
+   */
+  const startDrag = (block: TimelineBlock, dayIndex: number) => {
+    const state = { block, dayIndex };
+    dragRef.current = state;
+    pan.setValue({ x: 0, y: 0 });
+    setDrag(state);
+    setDropStart(new Date(block.task.dateTime));
+  };
+
+  /**
+   * Start time for the current drag offset
+   */
+  const getDrop = (dx: number, dy: number): Date | null => {
+    const current = dragRef.current;
+    const { days: shownDays, dayWidth: width } = layoutRef.current;
+    if (!current) {
+      return null;
+    }
+
+    const dayShift = width > 0 ? Math.round(dx / width) : 0;
+    const dayIndex = Math.min(Math.max(current.dayIndex + dayShift, 0), shownDays.length - 1);
+
+    return getDropStartTime(
+      shownDays[dayIndex],
+      current.block.startMinutes + (dy / HOUR_HEIGHT) * 60,
+      getDurationMinutes(current.block.task)
+    );
+  };
+
+  /**
+   * End the drag; moves the task unless cancelled or dropped at its old time
+   */
+  const endDrag = (drop: Date | null) => {
+    const current = dragRef.current;
+
+    dragRef.current = null;
+    grantedRef.current = false;
+    setDrag(null);
+    setDropStart(null);
+
+    if (current && drop && drop.getTime() !== new Date(current.block.task.dateTime).getTime()) {
+      layoutRef.current.onTaskMove(current.block.task, drop);
+    }
+  };
+
+  // Takes over the touch from the pressed block once a drag has started
+  const panResponder = useRef(
+    PanResponder.create({
+      onMoveShouldSetPanResponderCapture: () => dragRef.current !== null,
+      onPanResponderGrant: () => {
+        grantedRef.current = true;
+      },
+      onPanResponderMove: (_, gesture) => {
+        pan.setValue({ x: gesture.dx, y: gesture.dy });
+        const drop = getDrop(gesture.dx, gesture.dy);
+        setDropStart((current) =>
+          current && drop && current.getTime() === drop.getTime() ? current : drop
+        );
+      },
+      onPanResponderRelease: (_, gesture) => endDrag(getDrop(gesture.dx, gesture.dy)),
+      onPanResponderTerminate: () => endDrag(null),
+      onPanResponderTerminationRequest: () => false,
+    })
+  ).current;
+
+  /**
+   * Finger lifted before the drag moved (the responder was never granted)
+   */
+  const handleTouchEnd = () => {
+    if (dragRef.current && !grantedRef.current) {
+      endDrag(null);
+    }
+  };
+
+  /**
+   * Render a time block
+   */
+  const renderBlock = (block: TimelineBlock, dayIndex: number) => {
+    const { task } = block;
+    const isDragged = drag?.block.task.id === task.id && drag.dayIndex === dayIndex;
+    const height =
+      (Math.max(block.endMinutes - block.startMinutes, MIN_BLOCK_MINUTES) / 60) * HOUR_HEIGHT;
+
+    return (
+      <Animated.View
+        key={task.id}
+        style={[
+          styles.block,
+          {
+            top: (block.startMinutes / 60) * HOUR_HEIGHT,
+            height: height - 2,
+            left: `${(block.column / block.columnCount) * 100}%`,
+            width: `${100 / block.columnCount}%`,
+            borderLeftColor: PRIORITY_COLORS[task.priority],
+          },
+          task.completed && styles.blockCompleted,
+          isDragged && styles.blockDragged,
+          isDragged && { transform: pan.getTranslateTransform() },
+        ]}
+      >
+        <TouchableOpacity
+          style={styles.blockTouch}
+          onPress={() => onTaskPress(task)}
+          onLongPress={() => startDrag(block, dayIndex)}
+          activeOpacity={0.7}
+        >
+          <Text
+            style={[styles.blockTitle, task.completed && styles.blockTitleCompleted]}
+            numberOfLines={height > HOUR_HEIGHT ? 2 : 1}
+          >
+            {task.title}
+          </Text>
+          {height >= HOUR_HEIGHT * 0.75 && (
+            <Text style={styles.blockTime} numberOfLines={1}>
+              {isDragged && dropStart
+                ? `→ ${formatTime(dropStart.toISOString())}`
+                : formatTime(task.dateTime)}
+            </Text>
+          )}
+        </TouchableOpacity>
+      </Animated.View>
+    );
+  };
+
+  return (
+    <View
+      style={styles.container}
+      {...panResponder.panHandlers}
+      onTouchEnd={handleTouchEnd}
+      onTouchCancel={handleTouchEnd}
+    >
+      {/* Day headers (week view) */}
+      {days.length > 1 && (
+        <View style={styles.row}>
+          <View style={styles.gutter} />
+          {days.map((day) => {
+            const isToday = getDayKey(day) === todayKey;
+            return (
+              <TouchableOpacity
+                key={getDayKey(day)}
+                style={styles.dayHeader}
+                onPress={() => onDayPress?.(day)}
+                disabled={!onDayPress}
+              >
+                <Text style={styles.dayHeaderWeekday}>{WEEKDAYS[day.getDay()]}</Text>
+                <Text style={[styles.dayHeaderDate, isToday && styles.dayHeaderToday]}>
+                  {day.getDate()}
+                </Text>
+              </TouchableOpacity>
+            );
+          })}
+        </View>
+      )}
+
+      {/* All-day and multi-day tasks */}
+      {timelines.some((timeline) => timeline.allDay.length > 0) && (
+        <View style={[styles.row, styles.allDayLane]}>
+          <View style={styles.gutter}>
+            <Text style={styles.gutterText}>All day</Text>
+          </View>
+          {timelines.map((timeline, index) => (
+            <View key={getDayKey(days[index])} style={styles.allDayColumn}>
+              {timeline.allDay.map((task) => (
+                <TouchableOpacity
+                  key={task.id}
+                  style={[styles.allDayTask, { borderLeftColor: PRIORITY_COLORS[task.priority] }]}
+                  onPress={() => onTaskPress(task)}
+                >
+                  <Text style={styles.allDayText} numberOfLines={1}>
+                    {task.title}
+                  </Text>
+                </TouchableOpacity>
+              ))}
+            </View>
+          ))}
+        </View>
+      )}
+
+      {/* Hours */}
+      <ScrollView
+        scrollEnabled={drag === null}
+        contentOffset={{ x: 0, y: FIRST_VISIBLE_HOUR * HOUR_HEIGHT }}
+        showsVerticalScrollIndicator={false}
+      >
+        <View style={styles.row}>
+          <View style={styles.gutter}>
+            {HOURS.map((hour) => (
+              <Text key={hour} style={[styles.gutterText, styles.hourLabel]}>
+                {formatHour(hour)}
+              </Text>
+            ))}
+          </View>
+
+          <View style={styles.columns} onLayout={handleColumnsLayout}>
+            {days.map((day, dayIndex) => (
+              <View
+                key={getDayKey(day)}
+                style={[styles.dayColumn, drag?.dayIndex === dayIndex && styles.dayColumnDragging]}
+              >
+                {HOURS.map((hour) => (
+                  <View key={hour} style={styles.hourCell} />
+                ))}
+                {getDayKey(day) === todayKey && (
+                  <View style={[styles.nowLine, { top: (nowMinutes / 60) * HOUR_HEIGHT }]} />
+                )}
+                {timelines[dayIndex].blocks.map((block) => renderBlock(block, dayIndex))}
+              </View>
+            ))}
+          </View>
+        </View>
+      </ScrollView>
+    </View>
+  );
+};
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+    backgroundColor: COLORS.surface,
+  },
+  row: {
+    flexDirection: 'row',
+  },
+  gutter: {
+    width: GUTTER_WIDTH,
+  },
+  gutterText: {
+    fontSize: FONT_SIZES.xs,
+    color: COLORS.textTertiary,
+    textAlign: 'right',
+    paddingRight: SPACING.xs,
+  },
+  hourLabel: {
+    height: HOUR_HEIGHT,
+    marginTop: -6,
+  },
+  dayHeader: {
+    flex: 1,
+    alignItems: 'center',
+    paddingVertical: SPACING.xs,
+  },
+  dayHeaderWeekday: {
+    fontSize: FONT_SIZES.xs,
+    color: COLORS.textSecondary,
+  },
+  dayHeaderDate: {
+    fontSize: FONT_SIZES.md,
+    fontWeight: FONT_WEIGHTS.semibold,
+    color: COLORS.text,
+  },
+  dayHeaderToday: {
+    color: COLORS.primary,
+  },
+  allDayLane: {
+    paddingVertical: SPACING.xs,
+    borderBottomWidth: 1,
+    borderBottomColor: COLORS.border,
+  },
+  allDayColumn: {
+    flex: 1,
+    gap: 2,
+    paddingHorizontal: 1,
+  },
+  allDayTask: {
+    paddingHorizontal: SPACING.xs,
+    paddingVertical: 2,
+    borderLeftWidth: 3,
+    borderRadius: BORDER_RADIUS.sm,
+    backgroundColor: COLORS.background,
+  },
+  allDayText: {
+    fontSize: FONT_SIZES.xs,
+    color: COLORS.text,
+  },
+  columns: {
+    flex: 1,
+    flexDirection: 'row',
+  },
+  dayColumn: {
+    flex: 1,
+    borderLeftWidth: 1,
+    borderLeftColor: COLORS.border,
+  },
+  dayColumnDragging: {
+    zIndex: 1,
+  },
+  hourCell: {
+    height: HOUR_HEIGHT,
+    borderTopWidth: 1,
+    borderTopColor: COLORS.border,
+  },
+  nowLine: {
+    position: 'absolute',
+    left: 0,
+    right: 0,
+    height: 2,
+    backgroundColor: COLORS.error,
+  },
+  block: {
+    position: 'absolute',
+    paddingRight: 2,
+    borderLeftWidth: 3,
+    borderRadius: BORDER_RADIUS.sm,
+    backgroundColor: COLORS.background,
+    overflow: 'hidden',
+  },
+  blockCompleted: {
+    opacity: 0.5,
+  },
+  blockDragged: {
+    zIndex: 1,
+    opacity: 0.9,
+    ...SHADOWS.large,
+  },
+  blockTouch: {
+    flex: 1,
+    paddingHorizontal: SPACING.xs,
+    paddingVertical: 2,
+  },
+  blockTitle: {
+    fontSize: FONT_SIZES.xs,
+    fontWeight: FONT_WEIGHTS.semibold,
+    color: COLORS.text,
+  },
+  blockTitleCompleted: {
+    textDecorationLine: 'line-through',
+    color: COLORS.completed,
+  },
+  blockTime: {
+    fontSize: FONT_SIZES.xs,
+    color: COLORS.textSecondary,
+  },
+});
+
+export default TimelineGrid;
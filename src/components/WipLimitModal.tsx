@@ -0,0 +1,185 @@
+/**
+ * WipLimitModal Component
+ * 
+ * Modal for setting the work-in-progress limit of a board column.
+ * 
+ * Features:
+ * - Number input (empty = no limit) with validation
+ * - Shows how many tasks the column holds now
+ * - "Remove limit" shortcut when the column has one
+ * 
+ * Props:
+ * - column: Column being edited (null hides the modal)
+ * - limit: Current limit of the column (null = no limit)
+ * - onClose: Callback when modal is closed
+ * - onSave: Callback with the new limit (null removes it)
+ */
+
+import React, { useState, useEffect } from 'react';
+import { View, Text, TextInput, TouchableOpacity, Modal, StyleSheet } from 'react-native';
+import { BoardColumn } from '../types';
+import { validateWipLimit } from '../utils/validators';
+import { COLORS, SPACING, FONT_SIZES, BORDER_RADIUS, FONT_WEIGHTS } from '../theme';
+
+interface WipLimitModalProps {
+  column: BoardColumn | null;
+  limit: number | null;
+  onClose: () => void;
+  onSave: (limit: number | null) => void;
+}
+
+const WipLimitModal: React.FC<WipLimitModalProps> = ({ column, limit, onClose, onSave }) => {
+  const [text, setText] = useState('');
+  const [error, setError] = useState<string | null>(null);
+
+  /**
+   * Initialize the input with the current limit
+   */
+  useEffect(() => {
+    setText(limit !== null ? String(limit) : '');
+    setError(null);
+  }, [column, limit]);
+
+  /**
+   * Handle save button press
+   */
+  const handleSave = () => {
+    const validation = validateWipLimit(text);
+    setError(validation);
+    if (validation) {
+      return;
+    }
+
+    onSave(text.trim() ? Number(text.trim()) : null);
+    onClose();
+  };
+
+  return (
+    <Modal
+      visible={column !== null}
+      animationType="slide"
+      presentationStyle="formSheet"
+      onRequestClose={onClose}
+    >
+      <View style={styles.container}>
+        {/* Header */}
+        <View style={styles.header}>
+          <TouchableOpacity onPress={onClose}>
+            <Text style={styles.cancelButton}>Cancel</Text>
+          </TouchableOpacity>
+          <Text style={styles.headerTitle}>WIP Limit</Text>
+          <TouchableOpacity onPress={handleSave}>
+            <Text style={styles.saveButton}>Save</Text>
+          </TouchableOpacity>
+        </View>
+
+        <View style={styles.form}>
+          <Text style={styles.label}>{column?.title}</Text>
+          <Text style={styles.hint}>
+            {column?.tasks.length ?? 0} tasks now. The count turns red when the column holds
+            more tasks than its limit, and moving a task into a full column asks first.
+          </Text>
+          <TextInput
+            style={[styles.input, error && styles.inputError]}
+            placeholder="No limit"
+            placeholderTextColor={COLORS.textTertiary}
+            value={text}
+            onChangeText={(value) => {
+              setText(value);
+              setError(null);
+            }}
+            keyboardType="number-pad"
+            maxLength={3}
+            autoFocus
+          />
+          {error && <Text style={styles.errorText}>{error}</Text>}
+
+          {limit !== null && (
+            <TouchableOpacity
+              style={styles.removeButton}
+              onPress={() => {
+                onSave(null);
+                onClose();
+              }}
+            >
+              <Text style={styles.removeText}>Remove limit</Text>
+            </TouchableOpacity>
+          )}
+        </View>
+      </View>
+    </Modal>
+  );
+};
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+    backgroundColor: COLORS.background,
+  },
+  header: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'space-between',
+    paddingHorizontal: SPACING.lg,
+    paddingVertical: SPACING.md,
+    backgroundColor: COLORS.surface,
+    borderBottomWidth: 1,
+    borderBottomColor: COLORS.border,
+  },
+  headerTitle: {
+    fontSize: FONT_SIZES.xl,
+    fontWeight: FONT_WEIGHTS.bold,
+    color: COLORS.text,
+  },
+  cancelButton: {
+    fontSize: FONT_SIZES.md,
+    color: COLORS.textSecondary,
+  },
+  saveButton: {
+    fontSize: FONT_SIZES.md,
+    fontWeight: FONT_WEIGHTS.semibold,
+    color: COLORS.primary,
+  },
+  form: {
+    padding: SPACING.lg,
+  },
+  label: {
+    fontSize: FONT_SIZES.md,
+    fontWeight: FONT_WEIGHTS.medium,
+    color: COLORS.text,
+    marginBottom: SPACING.xs,
+  },
+  hint: {
+    fontSize: FONT_SIZES.sm,
+    color: COLORS.textSecondary,
+    marginBottom: SPACING.md,
+  },
+  input: {
+    backgroundColor: COLORS.surface,
+    borderWidth: 1,
+    borderColor: COLORS.border,
+    borderRadius: BORDER_RADIUS.md,
+    padding: SPACING.md,
+    fontSize: FONT_SIZES.md,
+    color: COLORS.text,
+  },
+  inputError: {
+    borderColor: COLORS.error,
+  },
+  errorText: {
+    fontSize: FONT_SIZES.sm,
+    color: COLORS.error,
+    marginTop: SPACING.xs,
+  },
+  removeButton: {
+    alignSelf: 'flex-start',
+    marginTop: SPACING.lg,
+  },
+  removeText: {
+    fontSize: FONT_SIZES.md,
+    fontWeight: FONT_WEIGHTS.medium,
+    color: COLORS.error,
+  },
+});
+
+export default WipLimitModal;
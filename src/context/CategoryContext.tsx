@@ -0,0 +1,217 @@
+/**
+ * Category Context
+ * 
+ * Provides user-defined categories and category management throughout the app.
+ * 
+ * Features:
+ * - Real-time synchronization with /users/{uid}/categories
+ * - Seeds the default categories on first sign-in (migration from the enum)
+ * - Create, update, reorder and delete categories
+ * - Deleting a category reassigns its tasks to another category first
+ *   (through TaskProvider, so the moves are queued and audited)
+ */
+
+import React, { createContext, useContext, useReducer, useEffect, ReactNode } from 'react';
+import { categoryReducer, initialCategoryState } from './categoryReducer';
+import { useAuth } from './AuthContext';
+import { useTasks } from './TaskContext';
+import {
+  addCategory as addCategoryService,
+  updateCategory as updateCategoryService,
+  deleteCategory as deleteCategoryService,
+  ensureDefaultCategories,
+  subscribeToUserCategories,
+} from '../api/categoryService';
+import { CategoryState, CreateCategoryPayload, UserCategory } from '../types';
+import { resolveCategory } from '../utils/categoryUtils';
+
+/**
+ * Category context value type
+ * Includes state and all category operations
+ */
+interface CategoryContextValue extends CategoryState {
+  getCategory: (categoryId: string) => UserCategory;
+  addCategory: (categoryData: Omit<CreateCategoryPayload, 'order'>) => Promise<void>;
+  updateCategory: (
+    categoryId: string,
+    updates: Partial<CreateCategoryPayload>
+  ) => Promise<void>;
+  moveCategory: (categoryId: string, direction: -1 | 1) => Promise<void>;
+  deleteCategory: (categoryId: string, reassignTo: string | null) => Promise<void>;
+}
+
+const CategoryContext = createContext<CategoryContextValue | undefined>(undefined);
+
+interface CategoryProviderProps {
+  children: ReactNode;
+}
+
+/**
+ * CategoryProvider Component
+ * 
+ * Wraps the app (inside AuthProvider and TaskProvider) to provide category management.
+ * Subscribes on login and clears categories on logout.
+ */
+export const CategoryProvider: React.FC<CategoryProviderProps> = ({ children }) => {
+  const [state, dispatch] = useReducer(categoryReducer, initialCategoryState);
+  const { user } = useAuth();
+  const { reassignTasksCategory } = useTasks();
+
+  /**
+   * Real-time category subscription effect
+   */
+  useEffect(() => {
+    if (!user) {
+      dispatch({ type: 'CATEGORIES_LOADED', payload: [] });
+      return;
+    }
+
+    dispatch({ type: 'CATEGORIES_LOADING' });
+
+    // Migrate accounts without categories; retried on next launch if offline
+    ensureDefaultCategories(user.uid).catch((error: any) => {
+      console.error('Error seeding default categories:', error);
+    });
+
+    const unsubscribe = subscribeToUserCategories(
+      user.uid,
+      (categories) => {
+        dispatch({ type: 'CATEGORIES_LOADED', payload: categories });
+      },
+      (error) => {
+        dispatch({ type: 'CATEGORIES_ERROR', payload: error.message });
+      }
+    );
+
+    return () => {
+      unsubscribe();
+    };
+  }, [user]);
+
+  /**
+   * Look up a category by ID (never undefined - falls back to a placeholder)
+   */
+  const getCategory = (categoryId: string): UserCategory => {
+    return resolveCategory(state.categories, categoryId);
+  };
+
+  /**
+   * Add a new category at the end of the list
+   * 
+   * @param categoryData - Name, color and icon
+   * @throws Error if not logged in
+   */
+  const addCategory = async (
+    categoryData: Omit<CreateCategoryPayload, 'order'>
+  ): Promise<void> => {
+    if (!user) {
+      throw new Error('You must be logged in to add categories');
+    }
+
+    const order =
+      state.categories.length > 0
+        ? Math.max(...state.categories.map((c) => c.order)) + 1
+        : 0;
+
+    await addCategoryService({ ...categoryData, order }, user.uid);
+  };
+
+  /**
+   * Update a category's name, color, icon or order
+   * 
+   * @throws Error if not logged in
+   */
+  const updateCategory = async (
+    categoryId: string,
+    updates: Partial<CreateCategoryPayload>
+  ): Promise<void> => {
+    if (!user) {
+      throw new Error('You must be logged in to update categories');
+    }
+
+    await updateCategoryService(user.uid, categoryId, updates);
+  };
+
+  /**
+   * Move a category up or down one position
+   * 
+   * Swaps order values with the neighbour, so only two documents are written.
+   */
+  const moveCategory = async (categoryId: string, direction: -1 | 1): Promise<void> => {
+    const index = state.categories.findIndex((c) => c.id === categoryId);
+    const neighbour = state.categories[index + direction];
+
+    if (index === -1 || !neighbour) {
+      return;
+    }
+
+    const current = state.categories[index];
+    // Orders can be equal after concurrent edits - fall back to list positions
+    const currentOrder = current.order === neighbour.order ? index : current.order;
+    const neighbourOrder =
+      current.order === neighbour.order ? index + direction : neighbour.order;
+
+    await Promise.all([
+      updateCategory(current.id, { order: neighbourOrder }),
+      updateCategory(neighbour.id, { order: currentOrder }),
+    ]);
+  };
+
+  /**
+   * Delete a category
+   * 
+   * @param categoryId - Category to delete
+   * @param reassignTo - Category that receives its tasks (null if it has none)
+   * @throws Error if it is the last category or reassigning tasks fails
+   */
+  const deleteCategory = async (
+    categoryId: string,
+    reassignTo: string | null
+  ): Promise<void> => {
+    if (!user) {
+      throw new Error('You must be logged in to delete categories');
+    }
+
+    if (state.categories.length <= 1) {
+      throw new Error('You need at least one category');
+    }
+
+    try {
+      if (reassignTo) {
+        await reassignTasksCategory(categoryId, reassignTo);
+      }
+      await deleteCategoryService(user.uid, categoryId);
+    } catch (error: any) {
+      dispatch({ type: 'CATEGORIES_ERROR', payload: error.message });
+      throw error;
+    }
+  };
+
+  const value: CategoryContextValue = {
+    ...state,
+    getCategory,
+    addCategory,
+    updateCategory,
+    moveCategory,
+    deleteCategory,
+  };
+
+  return <CategoryContext.Provider value={value}>{children}</CategoryContext.Provider>;
+};
+
+/**
+ * Custom hook to access category context
+ * 
+ * Usage: const { categories, getCategory, addCategory } = useCategories();
+ * 
+ * @throws Error if used outside of CategoryProvider
+ */
+export const useCategories = (): CategoryContextValue => {
+  const context = useContext(CategoryContext);
+
+  if (context === undefined) {
+    throw new Error('useCategories must be used within a CategoryProvider');
+  }
+
+  return context;
+};
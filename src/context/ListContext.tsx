@@ -0,0 +1,210 @@
+/**
+ * List Context
+ * 
+ * Provides task lists (projects) and the active list throughout the app.
+ * 
+ * Features:
+ * - Real-time synchronization with /users/{uid}/lists
+ * - Creates the default "Inbox" list on first sign-in (and moves legacy tasks into it)
+ * - Active list selection (TaskProvider subscribes to that list only)
+ * - Create, rename and delete lists
+ * - Per-list task counts from the task repository (count queries on Firestore)
+ * 
+ * Deleting a list does not move its tasks: ListProvider sits outside
+ * TaskProvider, so callers move them first with TaskProvider's moveTasksToList.
+ */
+
+import React, { createContext, useContext, useReducer, useEffect, ReactNode } from 'react';
+import { listReducer, initialListState } from './listReducer';
+import { useAuth } from './AuthContext';
+import {
+  addList as addListService,
+  updateList as updateListService,
+  deleteList as deleteListService,
+  ensureDefaultList,
+  subscribeToUserLists,
+} from '../api/listService';
+import { TaskRepository } from '../api/taskRepository';
+import { ListState, TaskList } from '../types';
+import { DEFAULT_LIST_ID } from '../utils/listUtils';
+
+/**
+ * List context value type
+ * Includes state and all list operations
+ */
+interface ListContextValue extends ListState {
+  selectList: (listId: string | null) => void;
+  addList: (name: string) => Promise<TaskList>;
+  renameList: (listId: string, name: string) => Promise<void>;
+  deleteList: (listId: string) => Promise<void>;
+  refreshCounts: () => Promise<void>;
+}
+
+const ListContext = createContext<ListContextValue | undefined>(undefined);
+
+interface ListProviderProps {
+  children: ReactNode;
+  
+  /** Task storage backend (the same one TaskProvider uses) */
+  repository: TaskRepository;
+}
+
+/**
+ * ListProvider Component
+ * 
+ * Wraps the app (inside AuthProvider, outside TaskProvider) so the task
+ * subscription can follow the active list.
+ * 
+ * Usage: <ListProvider repository={firestoreTaskRepository}>...</ListProvider>
+ */
+export const ListProvider: React.FC<ListProviderProps> = ({ children, repository }) => {
+  const [state, dispatch] = useReducer(listReducer, initialListState);
+  const { user } = useAuth();
+
+  /**
+   * Real-time list subscription effect
+   */
+  useEffect(() => {
+    if (!user) {
+      dispatch({ type: 'LISTS_LOADED', payload: [] });
+      dispatch({ type: 'LIST_SELECTED', payload: DEFAULT_LIST_ID });
+      dispatch({ type: 'LIST_COUNTS_LOADED', payload: {} });
+      return;
+    }
+
+    dispatch({ type: 'LISTS_LOADING' });
+
+    // Migrate accounts without lists; retried on next launch if offline
+    ensureDefaultList(user.uid, repository).catch((error: any) => {
+      console.error('Error creating default list:', error);
+    });
+
+    const unsubscribe = subscribeToUserLists(
+      user.uid,
+      (lists) => {
+        dispatch({ type: 'LISTS_LOADED', payload: lists });
+      },
+      (error) => {
+        dispatch({ type: 'LISTS_ERROR', payload: error.message });
+      }
+    );
+
+    return () => {
+      unsubscribe();
+    };
+  }, [user, repository]);
+
+  /**
+   * Switch the active list (null = all lists)
+   */
+  const selectList = (listId: string | null): void => {
+    dispatch({ type: 'LIST_SELECTED', payload: listId });
+  };
+
+  /**
+   * Create a new list at the end
+   * 
+   * @param name - List name
+   * @returns The created list
+   * @throws Error if not logged in
+   */
+  const addList = async (name: string): Promise<TaskList> => {
+    if (!user) {
+      throw new Error('You must be logged in to add lists');
+    }
+
+    const order =
+      state.lists.length > 0 ? Math.max(...state.lists.map((l) => l.order)) + 1 : 0;
+
+    return addListService({ name: name.trim(), order }, user.uid);
+  };
+
+  /**
+   * Rename a list
+   * 
+   * @throws Error if not logged in
+   */
+  const renameList = async (listId: string, name: string): Promise<void> => {
+    if (!user) {
+      throw new Error('You must be logged in to update lists');
+    }
+
+    await updateListService(user.uid, listId, { name: name.trim() });
+  };
+
+  /**
+   * Delete a list (move its tasks to the Inbox first with moveTasksToList)
+   * 
+   * @param listId - List to delete
+   * @throws Error if it is the Inbox
+   */
+  const deleteList = async (listId: string): Promise<void> => {
+    if (!user) {
+      throw new Error('You must be logged in to delete lists');
+    }
+
+    if (listId === DEFAULT_LIST_ID) {
+      throw new Error('The Inbox cannot be deleted');
+    }
+
+    try {
+      await deleteListService(user.uid, listId);
+
+      if (state.activeListId === listId) {
+        dispatch({ type: 'LIST_SELECTED', payload: DEFAULT_LIST_ID });
+      }
+    } catch (error: any) {
+      dispatch({ type: 'LISTS_ERROR', payload: error.message });
+      throw error;
+    }
+  };
+
+  /**
+   * Fetch the number of tasks in every list
+   * 
+   * Counts need a connection; on failure the previous counts are kept.
+   */
+  const refreshCounts = async (): Promise<void> => {
+    if (!user || state.lists.length === 0) {
+      return;
+    }
+
+    try {
+      const counts = await repository.getListTaskCounts(
+        user.uid,
+        state.lists.map((list) => list.id)
+      );
+      dispatch({ type: 'LIST_COUNTS_LOADED', payload: counts });
+    } catch (error: any) {
+      console.error('Error counting tasks per list:', error);
+    }
+  };
+
+  const value: ListContextValue = {
+    ...state,
+    selectList,
+    addList,
+    renameList,
+    deleteList,
+    refreshCounts,
+  };
+
+  return <ListContext.Provider value={value}>{children}</ListContext.Provider>;
+};
+
+/**
+ * Custom hook to access list context
+ * 
+ * Usage: const { lists, activeListId, selectList } = useLists();
+ * 
+ * @throws Error if used outside of ListProvider
+ */
+export const useLists = (): ListContextValue => {
+  const context = useContext(ListContext);
+
+  if (context === undefined) {
+    throw new Error('useLists must be used within a ListProvider');
+  }
+
+  return context;
+};
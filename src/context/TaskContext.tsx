@@ -5,37 +5,202 @@
  * Uses useReducer for predictable state management and Firestore for persistence.
  * 
  * Features:
- * - Real-time synchronization with Firestore
+ * - Real-time synchronization with Firestore (scoped to the active list),
+ *   applied change by change so unchanged tasks keep their object identity
+ * - Snapshot metadata (hasPendingWrites / fromCache) to tell local echoes and
+ *   cached data from server-confirmed data
+ * - Stable operation identities (safe to pass to memoized components)
  * - CRUD operations (create, update, delete, toggle completion)
+ * - Persistent pending-writes queue: per-task sync state, rollback of rejected
+ *   optimistic updates, retry of failed writes
+ * - Workflow status (state machine from To Do to Done or Cancelled), kept in
+ *   step with completion
+ * - Recurring tasks: completing one spawns the next occurrence
+ * - Dependencies: "blocked by" links without cycles; completing the last open
+ *   prerequisite moves Blocked dependents back to In Progress, and deleting a
+ *   prerequisite can remove its links
+ * - Manual order and pins: a reorder usually writes only the moved task
+ * - Reminders: local notifications before the start or deadline, rescheduled
+ *   on every task change (completing or deleting a task cancels them)
+ * - Trash: deleting sets deletedAt (restorable); trashed tasks are purged
+ *   permanently after the user's retention period
+ * - Undo/redo: every user action is recorded with its inverse mutations
+ *   (bounded history, cleared on logout)
+ * - Change history (audit trail): every update is written with one entry per
+ *   changed field (old/new value, timestamp, actor)
+ * - Bulk moves out of a category or list that is being deleted, including
+ *   tasks in lists that are not loaded (queued and audited like any update)
  * - Automatic subscription management (subscribes on login, unsubscribes on logout)
  * - Loading and error states
  * - Integration with AuthContext for user-scoped tasks
+ * - Integration with ListContext: re-subscribes when the active list changes
+ * - Storage backend chosen at construction (TaskRepository), so this logic
+ *   runs without native Firebase (local-only mode, Jest)
+ * - Notification backend chosen at construction (NotificationAdapter, optional)
  */
 
-import React, { createContext, useContext, useReducer, useEffect, ReactNode } from 'react';
+import React, {
+  createContext,
+  useContext,
+  useReducer,
+  useEffect,
+  useRef,
+  useCallback,
+  useMemo,
+  useState,
+  ReactNode,
+} from 'react';
 import { taskReducer, initialTaskState } from './taskReducer';
 import { useAuth } from './AuthContext';
+import { useLists } from './ListContext';
+import { TaskRepository, commitWrite } from '../api/taskRepository';
+import { NotificationAdapter } from '../api/notificationAdapter';
+import { createReminderScheduler } from '../api/reminderScheduler';
+import { loadWriteQueue, saveWriteQueue } from '../api/writeQueueStorage';
+import { loadTrashRetentionDays, saveTrashRetentionDays } from '../api/trashSettingsStorage';
 import {
-  addTask as addTaskService,
-  updateTask as updateTaskService,
-  deleteTask as deleteTaskService,
-  toggleTaskCompletion as toggleTaskCompletionService,
-  subscribeToUserTasks,
-} from '../api/taskService';
-import { TaskState, Task, CreateTaskPayload } from '../types';
+  TaskState,
+  TaskAction,
+  Task,
+  CreateTaskPayload,
+  PendingWrite,
+  SyncStatus,
+  TaskMutation,
+  AuditActor,
+  AuditEntry,
+  TaskOrderUpdate,
+  TaskStatus,
+  DeleteTaskOptions,
+} from '../types';
+import { buildNextOccurrence } from '../utils/recurrenceUtils';
+import {
+  STATUS_LABELS,
+  canTransition,
+  getStatusForCompletion,
+  getStatusUpdates,
+} from '../utils/statusUtils';
+import {
+  createPendingWrite,
+  getTaskSyncStatus,
+  getRollbackAction,
+  getReapplyAction,
+} from '../utils/syncUtils';
+import {
+  DEFAULT_TRASH_RETENTION_DAYS,
+  getActiveTasks,
+  getTrashedTasks,
+  getExpiredTrash,
+} from '../utils/trashUtils';
+import { createHistoryEntry } from '../utils/historyUtils';
+import {
+  findDependencyPath,
+  getDependents,
+  getUnblockedDependents,
+  getUnlinkUpdates,
+} from '../utils/dependencyUtils';
+import { diffTasks, createAuditEntries } from '../utils/auditUtils';
 
 /**
  * Task context value type
  * Includes state and all task operations
+ * (tasks excludes the trash; trashed tasks are in trashedTasks)
  */
 interface TaskContextValue extends TaskState {
+  trashedTasks: Task[];
+  trashRetentionDays: number;
   addTask: (taskData: CreateTaskPayload) => Promise<void>;
   updateTask: (taskId: string, updates: Partial<Task>) => Promise<void>;
-  deleteTask: (taskId: string) => Promise<void>;
+  deleteTask: (taskId: string, options?: DeleteTaskOptions) => Promise<void>;
+  restoreTask: (taskId: string) => Promise<void>;
+  permanentlyDeleteTask: (taskId: string) => Promise<void>;
+  emptyTrash: () => Promise<void>;
+  setTrashRetentionDays: (days: number) => void;
   toggleTaskCompletion: (taskId: string, completed: boolean) => Promise<void>;
+  setTaskStatus: (taskId: string, status: TaskStatus) => Promise<void>;
+  addPrerequisite: (taskId: string, prerequisiteId: string) => Promise<void>;
+  removePrerequisite: (taskId: string, prerequisiteId: string) => Promise<void>;
+  reorderTasks: (updates: TaskOrderUpdate[]) => Promise<void>;
+  setTaskPinned: (taskId: string, pinned: boolean) => Promise<void>;
+  canUndo: boolean;
+  canRedo: boolean;
+  undo: () => void;
+  redo: () => void;
+  getTask: (taskId: string) => Promise<Task | null>;
+  getTaskHistory: (taskId: string) => Promise<AuditEntry[]>;
+  reassignTasksCategory: (fromCategoryId: string, toCategoryId: string) => Promise<number>;
+  moveTasksToList: (fromListId: string, toListId: string) => Promise<number>;
+  getDependentTasks: (taskId: string) => Task[];
+  getSyncStatus: (taskId: string) => SyncStatus;
+  retryWrite: (writeId: string) => void;
+  dismissWrite: (writeId: string) => void;
   refreshTasks: () => void;
 }
 
+/**
+ * Send a queued write and record the server's answer
+ * 
+ * On success the entry leaves the queue; on failure it is marked failed and
+ * the optimistic update is rolled back.
+ * 
+ * @param repository - Backend to write to
+ * @param write - Queue entry to send
+ * @param dispatch - Task reducer dispatch
+ * @param getTasks - Returns the loaded tasks (read when the write fails)
+ */
+const sendWrite = (
+  repository: TaskRepository,
+  write: PendingWrite,
+  dispatch: React.Dispatch<TaskAction>,
+  getTasks: () => Task[]
+): void => {
+  commitWrite(repository, write)
+    .then(() => {
+      dispatch({ type: 'WRITE_SYNCED', payload: write.id });
+    })
+    .catch((error: any) => {
+      dispatch({ type: 'WRITE_FAILED', payload: { id: write.id, error: error.message } });
+      
+      const rollback = getRollbackAction(write, getTasks());
+      if (rollback) {
+        dispatch(rollback);
+      }
+    });
+};
+
+/**
+ * Whether a list's tasks are currently loaded
+ * (optimistic updates must not show tasks from other lists)
+ * 
+ * @param activeListId - Subscribed list (null = all lists)
+ * @param listId - List of the task
+ */
+const isListVisible = (activeListId: string | null, listId: string): boolean => {
+  return activeListId === null || activeListId === listId;
+};
+
+/**
+ * Get a task's title for history labels
+ * 
+ * @param tasks - Loaded tasks
+ * @param taskId - Task to describe
+ */
+const getTaskTitle = (tasks: Task[], taskId: string): string => {
+  return tasks.find((task) => task.id === taskId)?.title ?? 'task';
+};
+
+/**
+ * Get the actor recorded in the change history
+ * 
+ * @param user - Authenticated user
+ */
+const getAuditActor = (user: {
+  uid: string;
+  displayName: string | null;
+  email: string | null;
+}): AuditActor => {
+  return { userId: user.uid, name: user.displayName || user.email || 'Unknown user' };
+};
+
 /**
  * Create the context with undefined default
  * This forces consumers to use the Provider or get a runtime error
@@ -47,175 +212,890 @@ const TaskContext = createContext<TaskContextValue | undefined>(undefined);
  */
 interface TaskProviderProps {
   children: ReactNode;
+  
+  /** Storage backend (firestoreTaskRepository in the app) */
+  repository: TaskRepository;
+  
+  /** Local notification backend for reminders (omit to schedule none) */
+  notifications?: NotificationAdapter;
 }
 
 /**
  * TaskProvider Component
  * 
- * Wraps the app (inside AuthProvider) to provide task management functionality.
+ * Wraps the app (inside AuthProvider and ListProvider) to provide task management functionality.
  * Automatically subscribes to user's tasks when logged in.
  * Automatically unsubscribes when user logs out.
+ * 
+ * Usage: <TaskProvider repository={firestoreTaskRepository}>...</TaskProvider>
+ * Keep the repository and notification adapter stable across renders - a new
+ * repository re-subscribes.
  */
-export const TaskProvider: React.FC<TaskProviderProps> = ({ children }) => {
+export const TaskProvider: React.FC<TaskProviderProps> = ({
+  children,
+  repository,
+  notifications,
+}) => {
   const [state, dispatch] = useReducer(taskReducer, initialTaskState);
   const { user } = useAuth();
+  const { activeListId } = useLists();
+  
+  // User whose stored queue has been loaded (nothing is saved before that)
+  const restoredQueueFor = useRef<string | null>(null);
+  
+  // Latest state, read by the operations below so they keep their identity
+  const stateRef = useRef(state);
+  stateRef.current = state;
+  
+  // Days trashed tasks are kept (null until the user's setting is loaded)
+  const [trashRetentionDays, setRetentionDays] = useState<number | null>(null);
+  
+  // List the loaded tasks belong to (undefined until the subscription's first snapshot)
+  const loadedListId = useRef<string | null | undefined>(undefined);
+  
+  const reminderScheduler = useMemo(
+    () => (notifications ? createReminderScheduler(notifications) : null),
+    [notifications]
+  );
 
   /**
    * Real-time task subscription effect
    * 
    * Subscribes to Firestore updates when user is logged in.
    * Unsubscribes and clears tasks when user logs out.
-   * Runs whenever user changes (login/logout).
+   * Runs whenever user changes (login/logout) or another list is selected.
+   * Each snapshot's changes are applied incrementally (TASKS_CHANGED).
    */
   useEffect(() => {
     if (!user) {
-      // User logged out - clear tasks and reset state
+      // User logged out - clear tasks, their undo history and reset state
       dispatch({ type: 'TASKS_LOADED', payload: [] });
+      dispatch({ type: 'HISTORY_CLEARED' });
       return;
     }
 
     // User logged in - subscribe to their tasks
     dispatch({ type: 'TASKS_LOADING' });
+    loadedListId.current = undefined;
 
-    const unsubscribe = subscribeToUserTasks(
+    const unsubscribe = repository.subscribe(
       user.uid,
-      (tasks) => {
-        // Tasks updated - dispatch to reducer
-        dispatch({ type: 'TASKS_LOADED', payload: tasks });
+      (snapshot) => {
+        // Tasks changed - dispatch only the changes to the reducer
+        loadedListId.current = activeListId;
+        dispatch({ type: 'TASKS_CHANGED', payload: snapshot });
       },
       (error) => {
         // Subscription error
         console.error('Task subscription error:', error);
         dispatch({ type: 'TASKS_ERROR', payload: error.message });
-      }
+      },
+      activeListId
     );
 
     // Cleanup: unsubscribe when user logs out or component unmounts
     return () => {
       unsubscribe();
     };
-  }, [user]);
+  }, [user, activeListId, repository]);
 
   /**
-   * Add a new task
+   * Reminder effect
    * 
-   * Creates task in Firestore. The real-time subscription will automatically
-   * update the local state when Firestore confirms the addition.
+   * Reschedules the loaded tasks' reminders after every change, once the
+   * subscription has delivered the tasks of the active list (the previous
+   * list's tasks would cancel this list's reminders).
+   */
+  useEffect(() => {
+    if (!reminderScheduler || !user || loadedListId.current !== activeListId) {
+      return;
+    }
+    
+    reminderScheduler.reconcile(state.tasks, activeListId);
+  }, [reminderScheduler, user, activeListId, state.tasks]);
+
+  /**
+   * Reminder cleanup effect - cancels the user's reminders on logout
+   */
+  useEffect(() => {
+    if (!reminderScheduler || !user) {
+      return;
+    }
+    
+    return () => {
+      reminderScheduler.cancelAll();
+    };
+  }, [reminderScheduler, user]);
+
+  /**
+   * Pending-writes restore effect
    * 
-   * @param taskData - Task data without auto-generated fields
-   * @throws Error if creation fails
+   * Loads the stored queue on login and replays writes that were still
+   * pending when the app closed, so their outcome is reported.
    */
-  const addTask = async (taskData: CreateTaskPayload): Promise<void> => {
+  useEffect(() => {
+    restoredQueueFor.current = null;
+    
     if (!user) {
-      throw new Error('You must be logged in to add tasks');
+      dispatch({ type: 'WRITES_CLEARED' });
+      return;
     }
-
-    try {
-      // Add to Firestore (subscription will update state)
-      const newTask = await addTaskService(taskData, user.uid);
+    
+    let cancelled = false;
+    
+    loadWriteQueue(user.uid).then((writes) => {
+      if (cancelled) {
+        return;
+      }
       
-      // Optimistic update (improves perceived performance)
-      // Real-time listener will sync this shortly
-      dispatch({ type: 'TASK_ADDED', payload: newTask });
-    } catch (error: any) {
-      dispatch({ type: 'TASKS_ERROR', payload: error.message });
-      throw error; // Re-throw so UI can handle it
+      restoredQueueFor.current = user.uid;
+      dispatch({ type: 'WRITES_RESTORED', payload: writes });
+      writes
+        .filter((write) => write.status === 'pending')
+        .forEach((write) =>
+          sendWrite(repository, write, dispatch, () => stateRef.current.tasks)
+        );
+    });
+    
+    return () => {
+      cancelled = true;
+    };
+  }, [user, repository]);
+
+  /**
+   * Trash retention load effect
+   */
+  useEffect(() => {
+    setRetentionDays(null);
+    
+    if (!user) {
+      return;
     }
-  };
+    
+    let cancelled = false;
+    
+    loadTrashRetentionDays(user.uid).then((days) => {
+      if (!cancelled) {
+        setRetentionDays(days);
+      }
+    });
+    
+    return () => {
+      cancelled = true;
+    };
+  }, [user]);
 
   /**
-   * Update an existing task
+   * Pending-writes persistence effect
+   */
+  useEffect(() => {
+    if (user && restoredQueueFor.current === user.uid) {
+      saveWriteQueue(user.uid, state.pendingWrites);
+    }
+  }, [user, state.pendingWrites]);
+
+  /**
+   * Queue a write and send it to Firestore
+   */
+  const queueWrite = useCallback(
+    (write: PendingWrite): void => {
+      dispatch({ type: 'WRITE_QUEUED', payload: write });
+      sendWrite(repository, write, dispatch, () => stateRef.current.tasks);
+    },
+    [repository]
+  );
+
+  /**
+   * Apply a mutation: queue the write and update the UI optimistically
    * 
-   * Updates task in Firestore. The real-time subscription will automatically
-   * update the local state when Firestore confirms the update.
+   * The primitive behind every operation, undo and redo. Each write is
+   * tracked in the pending-writes queue until Firestore confirms it; if the
+   * server rejects it, the optimistic update is rolled back and the failure
+   * is kept for retry.
    * 
-   * @param taskId - ID of task to update
-   * @param updates - Partial task data to update
-   * @throws Error if update fails
+   * @param mutation - Mutation to apply
+   * @param fetchedTasks - Tasks read from the repository for this mutation
+   *   (outside the loaded list; used for the audit trail and rollback)
    */
-  const updateTask = async (
-    taskId: string,
-    updates: Partial<Task>
-  ): Promise<void> => {
-    if (!user) {
-      throw new Error('You must be logged in to update tasks');
-    }
+  const applyMutation = useCallback(
+    (mutation: TaskMutation, fetchedTasks: Task[] = []): void => {
+      switch (mutation.type) {
+        case 'add': {
+          const { task } = mutation;
+          queueWrite(createPendingWrite('add', task.id, task, null));
+          
+          // Optimistic update (improves perceived performance)
+          if (isListVisible(activeListId, task.listId)) {
+            dispatch({ type: 'TASK_ADDED', payload: task });
+          }
+          break;
+        }
+        
+        case 'update': {
+          const { taskId, updates } = mutation;
+          const existingTask = stateRef.current.tasks.find((t) => t.id === taskId);
+          const knownTask = existingTask ?? fetchedTasks.find((t) => t.id === taskId);
+          
+          // Record what changed (only known if the task is loaded or fetched)
+          const audit =
+            knownTask && user
+              ? createAuditEntries(
+                  taskId,
+                  diffTasks(knownTask, { ...knownTask, ...updates }),
+                  getAuditActor(user)
+                )
+              : [];
+          queueWrite(createPendingWrite('update', taskId, updates, knownTask ?? null, audit));
+          
+          // Optimistic update
+          // Find the task and merge updates
+          if (existingTask) {
+            const updatedTask = { ...existingTask, ...updates };
+            if (isListVisible(activeListId, updatedTask.listId)) {
+              dispatch({ type: 'TASK_UPDATED', payload: updatedTask });
+            } else {
+              // Moved to a list that is not loaded
+              dispatch({ type: 'TASK_DELETED', payload: taskId });
+            }
+          }
+          break;
+        }
+        
+        case 'delete': {
+          const { taskId } = mutation;
+          const existingTask = stateRef.current.tasks.find((t) => t.id === taskId);
+          queueWrite(createPendingWrite('delete', taskId, null, existingTask ?? null));
+          
+          // Optimistic update
+          dispatch({ type: 'TASK_DELETED', payload: taskId });
+          break;
+        }
+      }
+    },
+    [user, activeListId, queueWrite]
+  );
 
-    try {
-      // Update in Firestore (subscription will update state)
-      await updateTaskService(taskId, updates);
+  /**
+   * Apply a user action and record it in the undo history
+   * 
+   * @param label - Short description for the undo toast
+   * @param mutations - Mutations the action applies, in order
+   */
+  const perform = useCallback(
+    (label: string, mutations: TaskMutation[]): void => {
+      // Inverses are computed from the state before the action
+      const entry = createHistoryEntry(label, mutations, stateRef.current.tasks);
       
-      // Optimistic update
-      // Find the task and merge updates
-      const existingTask = state.tasks.find((t) => t.id === taskId);
-      if (existingTask) {
-        const updatedTask = { ...existingTask, ...updates };
-        dispatch({ type: 'TASK_UPDATED', payload: updatedTask });
+      mutations.forEach((mutation) => applyMutation(mutation));
+      
+      if (entry) {
+        dispatch({ type: 'HISTORY_RECORDED', payload: entry });
       }
-    } catch (error: any) {
-      dispatch({ type: 'TASKS_ERROR', payload: error.message });
-      throw error; // Re-throw so UI can handle it
-    }
-  };
+    },
+    [applyMutation]
+  );
 
   /**
-   * Delete a task
+   * Add a new task
    * 
-   * Removes task from Firestore. The real-time subscription will automatically
-   * update the local state when Firestore confirms the deletion.
+   * The task appears immediately (optimistic update) and is tracked in the
+   * pending-writes queue until Firestore confirms it. Undoable.
+   * 
+   * @param taskData - Task data without auto-generated fields
+   * @throws Error if not logged in
+   */
+  const addTask = useCallback(
+    async (taskData: CreateTaskPayload): Promise<void> => {
+      if (!user) {
+        throw new Error('You must be logged in to add tasks');
+      }
+
+      const newTask = repository.buildTask(taskData, user.uid);
+      perform(`Added "${newTask.title}"`, [{ type: 'add', task: newTask }]);
+    },
+    [user, repository, perform]
+  );
+
+  /**
+   * Move a task to the trash
+   * 
+   * Sets deletedAt (an ordinary update, so it is optimistic and rolled back
+   * if rejected). The task can be restored until it is purged. Undoable.
+   * 
+   * Links from tasks waiting for it are kept unless unlinkDependents is set
+   * (kept links are dangling: they no longer block, and block again if the
+   * task is restored). Removing them is part of the same undoable action.
    * 
    * @param taskId - ID of task to delete
-   * @throws Error if deletion fails
+   * @param options - Whether to remove the links of its dependents
+   * @throws Error if not logged in
+   */
+  const deleteTask = useCallback(
+    async (taskId: string, options: DeleteTaskOptions = {}): Promise<void> => {
+      if (!user) {
+        throw new Error('You must be logged in to delete tasks');
+      }
+
+      const unlinks = options.unlinkDependents
+        ? getUnlinkUpdates(taskId, getActiveTasks(stateRef.current.tasks))
+        : [];
+      perform(`Moved "${getTaskTitle(stateRef.current.tasks, taskId)}" to trash`, [
+        { type: 'update', taskId, updates: { deletedAt: new Date().toISOString() } },
+        ...unlinks.map(({ taskId: dependentId, blockedBy }) => ({
+          type: 'update' as const,
+          taskId: dependentId,
+          updates: { blockedBy },
+        })),
+      ]);
+    },
+    [user, perform]
+  );
+
+  /**
+   * Restore a task from the trash (undoable)
+   * 
+   * @param taskId - ID of the trashed task
+   * @throws Error if not logged in
    */
-  const deleteTask = async (taskId: string): Promise<void> => {
+  const restoreTask = useCallback(
+    async (taskId: string): Promise<void> => {
+      if (!user) {
+        throw new Error('You must be logged in to restore tasks');
+      }
+
+      perform(`Restored "${getTaskTitle(stateRef.current.tasks, taskId)}"`, [
+        { type: 'update', taskId, updates: { deletedAt: null } },
+      ]);
+    },
+    [user, perform]
+  );
+
+  /**
+   * Delete a task permanently
+   * 
+   * Removed immediately and tracked in the pending-writes queue; restored if
+   * the server rejects the deletion. Undo re-creates it.
+   * 
+   * @param taskId - ID of task to delete
+   * @throws Error if not logged in
+   */
+  const permanentlyDeleteTask = useCallback(
+    async (taskId: string): Promise<void> => {
+      if (!user) {
+        throw new Error('You must be logged in to delete tasks');
+      }
+
+      perform(`Deleted "${getTaskTitle(stateRef.current.tasks, taskId)}" forever`, [
+        { type: 'delete', taskId },
+      ]);
+    },
+    [user, perform]
+  );
+
+  /**
+   * Delete every loaded task in the trash permanently (one undoable action)
+   * 
+   * @throws Error if not logged in
+   */
+  const emptyTrash = useCallback(async (): Promise<void> => {
     if (!user) {
       throw new Error('You must be logged in to delete tasks');
     }
 
-    try {
-      // Delete from Firestore (subscription will update state)
-      await deleteTaskService(taskId);
-      
-      // Optimistic update
-      dispatch({ type: 'TASK_DELETED', payload: taskId });
-    } catch (error: any) {
-      dispatch({ type: 'TASKS_ERROR', payload: error.message });
-      throw error; // Re-throw so UI can handle it
+    const trashed = getTrashedTasks(stateRef.current.tasks);
+    if (trashed.length > 0) {
+      perform(
+        'Emptied the trash',
+        trashed.map((task) => ({ type: 'delete', taskId: task.id }))
+      );
     }
-  };
+  }, [user, perform]);
+
+  /**
+   * Change how long trashed tasks are kept (saved on the device)
+   * 
+   * @param days - Retention period in days
+   */
+  const setTrashRetentionDays = useCallback(
+    (days: number): void => {
+      setRetentionDays(days);
+      if (user) {
+        saveTrashRetentionDays(user.uid, days);
+      }
+    },
+    [user]
+  );
+
+  /**
+   * Trash purge effect
+   * 
+   * Permanently deletes loaded trashed tasks older than the retention period
+   * (not recorded in the undo history).
+   * Tasks with a queued write are skipped, so a rejected purge is not retried
+   * in a loop (the user can retry it from the failure banner).
+   */
+  useEffect(() => {
+    if (!user || state.loading || trashRetentionDays === null) {
+      return;
+    }
+    
+    getExpiredTrash(state.tasks, trashRetentionDays)
+      .filter((task) => getTaskSyncStatus(state.pendingWrites, task.id) === 'synced')
+      .forEach((task) => {
+        applyMutation({ type: 'delete', taskId: task.id });
+      });
+  }, [
+    user,
+    state.loading,
+    state.tasks,
+    state.pendingWrites,
+    trashRetentionDays,
+    applyMutation,
+  ]);
+
+  /**
+   * Apply a status change (status and completed move together)
+   * 
+   * Completing a recurring task spawns the next occurrence with shifted
+   * dateTime/deadline. The completed task's rule is cleared so the series
+   * continues only on the new task (re-completing never spawns twice).
+   * Completing a task also moves the Blocked tasks it was the last open
+   * prerequisite of back to In Progress.
+   * Other edits of the task (edits) are written with the status change and
+   * used for the next occurrence.
+   * All changes are a single undoable action.
+   */
+  const changeStatus = useCallback(
+    (
+      label: string,
+      taskId: string,
+      updates: Pick<Task, 'status' | 'completed'>,
+      edits: Partial<Task> = {}
+    ): void => {
+      if (!user) {
+        throw new Error('You must be logged in to update tasks');
+      }
+
+      const storedTask = stateRef.current.tasks.find((t) => t.id === taskId);
+      const existingTask = storedTask && { ...storedTask, ...edits };
+      const completing = updates.completed && storedTask !== undefined && !storedTask.completed;
+      const nextOccurrence =
+        completing && existingTask ? buildNextOccurrence(existingTask) : null;
+      const taskUpdates = { ...edits, ...updates };
+      const unblocked = completing
+        ? getUnblockedDependents(taskId, getActiveTasks(stateRef.current.tasks))
+        : [];
+      
+      const mutations: TaskMutation[] = nextOccurrence
+        ? [
+            // Hand the series over to the next occurrence
+            { type: 'update', taskId, updates: { ...taskUpdates, recurrence: null } },
+            { type: 'add', task: repository.buildTask(nextOccurrence, user.uid) },
+          ]
+        : [{ type: 'update', taskId, updates: taskUpdates }];
+      
+      unblocked.forEach((dependent) => {
+        mutations.push({
+          type: 'update',
+          taskId: dependent.id,
+          updates: getStatusUpdates('in_progress'),
+        });
+      });
+      
+      perform(label, mutations);
+    },
+    [user, repository, perform]
+  );
+
+  /**
+   * Update an existing task
+   * 
+   * Applied immediately and tracked in the pending-writes queue; rolled back
+   * to the previous version if the server rejects it. Undoable.
+   * 
+   * Changing the completed flag (e.g., from the edit form) goes through
+   * changeStatus with the other edits, so the status follows and recurring
+   * tasks and dependents are handled like toggleTaskCompletion.
+   * 
+   * @param taskId - ID of task to update
+   * @param updates - Partial task data to update
+   * @throws Error if not logged in
+   */
+  const updateTask = useCallback(
+    async (taskId: string, updates: Partial<Task>): Promise<void> => {
+      if (!user) {
+        throw new Error('You must be logged in to update tasks');
+      }
+
+      const label = `Edited "${getTaskTitle(stateRef.current.tasks, taskId)}"`;
+      const existingTask = stateRef.current.tasks.find((t) => t.id === taskId);
+      const { completed, ...edits } = updates;
+      if (
+        completed !== undefined &&
+        updates.status === undefined &&
+        existingTask &&
+        completed !== existingTask.completed
+      ) {
+        const statusUpdates = { completed, status: getStatusForCompletion(completed) };
+        changeStatus(label, taskId, statusUpdates, edits);
+        return;
+      }
+
+      perform(label, [{ type: 'update', taskId, updates }]);
+    },
+    [user, perform, changeStatus]
+  );
 
   /**
    * Toggle task completion status
    * 
-   * Convenience function to mark task as complete/incomplete.
+   * Convenience function to mark task as complete/incomplete. Completing
+   * sets the status to 'done', reopening sets it back to 'todo'; recurring
+   * tasks spawn their next occurrence (see changeStatus).
    * 
    * @param taskId - ID of task to toggle
    * @param completed - New completion status
-   * @throws Error if toggle fails
+   * @throws Error if not logged in
    */
-  const toggleTaskCompletion = async (
-    taskId: string,
-    completed: boolean
-  ): Promise<void> => {
-    if (!user) {
-      throw new Error('You must be logged in to update tasks');
+  const toggleTaskCompletion = useCallback(
+    async (taskId: string, completed: boolean): Promise<void> => {
+      const title = getTaskTitle(stateRef.current.tasks, taskId);
+      changeStatus(completed ? `Completed "${title}"` : `Reopened "${title}"`, taskId, {
+        completed,
+        status: getStatusForCompletion(completed),
+      });
+    },
+    [changeStatus]
+  );
+
+  /**
+   * Move a task to a workflow status (e.g., a board column). Undoable.
+   * 
+   * Only moves allowed by the status state machine are accepted (see
+   * statusUtils.STATUS_TRANSITIONS). Moving to Done or Cancelled completes
+   * the task; a recurring task then continues with its next occurrence,
+   * like toggleTaskCompletion.
+   * 
+   * @param taskId - ID of task to move
+   * @param status - New status
+   * @throws Error if not logged in or the move is not allowed
+   */
+  const setTaskStatus = useCallback(
+    async (taskId: string, status: TaskStatus): Promise<void> => {
+      const existingTask = stateRef.current.tasks.find((t) => t.id === taskId);
+      if (existingTask && !canTransition(existingTask.status, status)) {
+        throw new Error(
+          `${STATUS_LABELS[existingTask.status]} tasks can't be moved to ${STATUS_LABELS[status]}`
+        );
+      }
+
+      const title = getTaskTitle(stateRef.current.tasks, taskId);
+      changeStatus(
+        `Moved "${title}" to ${STATUS_LABELS[status]}`,
+        taskId,
+        getStatusUpdates(status)
+      );
+    },
+    [changeStatus]
+  );
+
+  /**
+   * Block a task by another task (it can't start until the other is done).
+   * Undoable.
+   * 
+   * @param taskId - ID of the dependent task
+   * @param prerequisiteId - ID of the task it waits for
+   * @throws Error if not logged in or the link would create a cycle
+   */
+  const addPrerequisite = useCallback(
+    async (taskId: string, prerequisiteId: string): Promise<void> => {
+      if (!user) {
+        throw new Error('You must be logged in to update tasks');
+      }
+
+      const tasks = getActiveTasks(stateRef.current.tasks);
+      const task = tasks.find((t) => t.id === taskId);
+      if (!task || task.blockedBy.includes(prerequisiteId)) {
+        return;
+      }
+      if (taskId === prerequisiteId) {
+        throw new Error("A task can't wait for itself");
+      }
+
+      // The prerequisite already waits for the task, directly or through others
+      const cycle = findDependencyPath(tasks, prerequisiteId, taskId);
+      if (cycle) {
+        const chain = cycle.length > 2 ? ` (${cycle.map((t) => t.title).join(' → ')})` : '';
+        throw new Error(`"${cycle[0].title}" already waits for "${task.title}"${chain}`);
+      }
+
+      perform(`"${task.title}" now waits for "${getTaskTitle(tasks, prerequisiteId)}"`, [
+        { type: 'update', taskId, updates: { blockedBy: [...task.blockedBy, prerequisiteId] } },
+      ]);
+    },
+    [user, perform]
+  );
+
+  /**
+   * Remove a "blocked by" link (also removes dangling links). Undoable.
+   * 
+   * @param taskId - ID of the dependent task
+   * @param prerequisiteId - ID of the task it no longer waits for
+   * @throws Error if not logged in
+   */
+  const removePrerequisite = useCallback(
+    async (taskId: string, prerequisiteId: string): Promise<void> => {
+      if (!user) {
+        throw new Error('You must be logged in to update tasks');
+      }
+
+      const task = stateRef.current.tasks.find((t) => t.id === taskId);
+      if (!task || !task.blockedBy.includes(prerequisiteId)) {
+        return;
+      }
+
+      const title = getTaskTitle(stateRef.current.tasks, prerequisiteId);
+      perform(`"${task.title}" no longer waits for "${title}"`, [
+        {
+          type: 'update',
+          taskId,
+          updates: { blockedBy: task.blockedBy.filter((id) => id !== prerequisiteId) },
+        },
+      ]);
+    },
+    [user, perform]
+  );
+
+  /**
+   * Save a manual reorder
+   * 
+   * Applies the order updates from getMoveUpdates as one undoable action
+   * (the first update is the moved task).
+   * 
+   * @param updates - New manual order values
+   * @throws Error if not logged in
+   */
+  const reorderTasks = useCallback(
+    async (updates: TaskOrderUpdate[]): Promise<void> => {
+      if (!user) {
+        throw new Error('You must be logged in to update tasks');
+      }
+      if (updates.length === 0) {
+        return;
+      }
+
+      perform(
+        `Moved "${getTaskTitle(stateRef.current.tasks, updates[0].taskId)}"`,
+        updates.map(({ taskId, manualOrder }) => ({
+          type: 'update' as const,
+          taskId,
+          updates: { manualOrder },
+        }))
+      );
+    },
+    [user, perform]
+  );
+
+  /**
+   * Pin a task to the top of the list (or unpin it). Undoable.
+   * 
+   * @param taskId - ID of task to pin
+   * @param pinned - New pinned state
+   * @throws Error if not logged in
+   */
+  const setTaskPinned = useCallback(
+    async (taskId: string, pinned: boolean): Promise<void> => {
+      if (!user) {
+        throw new Error('You must be logged in to update tasks');
+      }
+
+      const title = getTaskTitle(stateRef.current.tasks, taskId);
+      perform(pinned ? `Pinned "${title}"` : `Unpinned "${title}"`, [
+        { type: 'update', taskId, updates: { pinned } },
+      ]);
+    },
+    [user, perform]
+  );
+
+  /**
+   * Undo the most recent action (applies its inverse mutations)
+   */
+  const undo = useCallback((): void => {
+    const { past } = stateRef.current.history;
+    const entry = past[past.length - 1];
+    if (!entry) {
+      return;
+    }
+    
+    entry.inverse.forEach((mutation) => applyMutation(mutation));
+    dispatch({ type: 'HISTORY_UNDONE' });
+  }, [applyMutation]);
+
+  /**
+   * Redo the most recently undone action
+   */
+  const redo = useCallback((): void => {
+    const { future } = stateRef.current.history;
+    const entry = future[future.length - 1];
+    if (!entry) {
+      return;
     }
+    
+    entry.mutations.forEach((mutation) => applyMutation(mutation));
+    dispatch({ type: 'HISTORY_REDONE' });
+  }, [applyMutation]);
+
+  /**
+   * Fetch a single task, e.g. one outside the loaded list (deep links)
+   * 
+   * @param taskId - Task to fetch
+   * @returns Promise resolving to the task, or null if it does not exist
+   * @throws Error if the task cannot be fetched
+   */
+  const getTask = useCallback(
+    (taskId: string): Promise<Task | null> => {
+      return repository.get(taskId);
+    },
+    [repository]
+  );
+
+  /**
+   * Get a task's change history
+   * 
+   * @param taskId - Task to get the history of
+   * @returns Promise resolving to the entries, newest first
+   * @throws Error if the history cannot be fetched
+   */
+  const getTaskHistory = useCallback(
+    (taskId: string): Promise<AuditEntry[]> => {
+      return repository.getHistory(taskId);
+    },
+    [repository]
+  );
+
+  /**
+   * Move every task in a category to another category
+   * 
+   * Used before deleting a category. The tasks are read from the repository
+   * (most may be in lists that are not loaded); each move is queued like any
+   * update and recorded in the task's change history. Not undoable: undo would
+   * point the tasks back at the deleted category.
+   * 
+   * @param fromCategoryId - Category being removed
+   * @param toCategoryId - Category that receives the tasks
+   * @returns Number of tasks moved
+   * @throws Error if not logged in or the tasks cannot be read
+   */
+  const reassignTasksCategory = useCallback(
+    async (fromCategoryId: string, toCategoryId: string): Promise<number> => {
+      if (!user) {
+        throw new Error('You must be logged in to update tasks');
+      }
+
+      const moved = await repository.getTasksInCategory(user.uid, fromCategoryId);
+      moved.forEach((task) =>
+        applyMutation(
+          { type: 'update', taskId: task.id, updates: { category: toCategoryId } },
+          moved
+        )
+      );
+      return moved.length;
+    },
+    [user, repository, applyMutation]
+  );
 
-    try {
-      // Update in Firestore
-      await toggleTaskCompletionService(taskId, completed);
+  /**
+   * Move every task in a list to another list
+   * 
+   * Used before deleting a list. Like reassignTasksCategory: queued, recorded
+   * in the change history and not undoable.
+   * 
+   * @param fromListId - List being removed
+   * @param toListId - List that receives the tasks
+   * @returns Number of tasks moved
+   * @throws Error if not logged in or the tasks cannot be read
+   */
+  const moveTasksToList = useCallback(
+    async (fromListId: string, toListId: string): Promise<number> => {
+      if (!user) {
+        throw new Error('You must be logged in to update tasks');
+      }
+
+      if (fromListId === toListId) {
+        return 0;
+      }
+
+      const moved = await repository.getTasksInList(user.uid, fromListId);
+      moved.forEach((task) =>
+        applyMutation({ type: 'update', taskId: task.id, updates: { listId: toListId } }, moved)
+      );
+      return moved.length;
+    },
+    [user, repository, applyMutation]
+  );
+
+  /**
+   * Get the loaded tasks that are blocked by a task (e.g., to ask before
+   * deleting it). Reads the latest state, so its identity never changes.
+   * 
+   * @param taskId - Prerequisite task ID
+   * @returns Tasks outside the trash that wait for it
+   */
+  const getDependentTasks = useCallback((taskId: string): Task[] => {
+    return getDependents(taskId, getActiveTasks(stateRef.current.tasks));
+  }, []);
+
+  /**
+   * Get a task's sync state for its badge
+   * 
+   * @param taskId - Task to check
+   * @returns 'pending', 'failed', or 'synced' when nothing is queued
+   */
+  const getSyncStatus = useCallback(
+    (taskId: string): SyncStatus => {
+      return getTaskSyncStatus(state.pendingWrites, taskId);
+    },
+    [state.pendingWrites]
+  );
+
+  /**
+   * Retry a failed write
+   * 
+   * Re-applies its optimistic update and sends it again.
+   * 
+   * @param writeId - Queue entry to retry
+   */
+  const retryWrite = useCallback(
+    (writeId: string): void => {
+      const { pendingWrites, tasks } = stateRef.current;
+      const write = pendingWrites.find((w) => w.id === writeId);
+      if (!write) {
+        return;
+      }
       
-      // Optimistic update
-      const existingTask = state.tasks.find((t) => t.id === taskId);
-      if (existingTask) {
-        const updatedTask = { ...existingTask, completed };
-        dispatch({ type: 'TASK_UPDATED', payload: updatedTask });
+      const reapply = getReapplyAction(write, tasks);
+      if (reapply) {
+        dispatch(reapply);
       }
-    } catch (error: any) {
-      dispatch({ type: 'TASKS_ERROR', payload: error.message });
-      throw error; // Re-throw so UI can handle it
-    }
-  };
+      
+      queueWrite({
+        ...write,
+        status: 'pending',
+        error: null,
+        attempts: write.attempts + 1,
+      });
+    },
+    [queueWrite]
+  );
+
+  /**
+   * Discard a failed write (its change stays rolled back)
+   * 
+   * @param writeId - Queue entry to discard
+   */
+  const dismissWrite = useCallback((writeId: string): void => {
+    dispatch({ type: 'WRITE_DISMISSED', payload: writeId });
+  }, []);
 
   /**
    * Manually refresh tasks
@@ -223,19 +1103,47 @@ export const TaskProvider: React.FC<TaskProviderProps> = ({ children }) => {
    * Not typically needed (real-time sync handles this),
    * but useful for pull-to-refresh or error recovery.
    */
-  const refreshTasks = (): void => {
+  const refreshTasks = useCallback((): void => {
     // The subscription automatically keeps tasks in sync
     // This function is a no-op but provided for API consistency
     // If needed, we could force a re-fetch here
-  };
+  }, []);
+
+  // Trash is split off so screens only see live tasks in `tasks`
+  const activeTasks = useMemo(() => getActiveTasks(state.tasks), [state.tasks]);
+  const trashedTasks = useMemo(() => getTrashedTasks(state.tasks), [state.tasks]);
 
   // Context value includes state and operations
   const value: TaskContextValue = {
     ...state,
+    tasks: activeTasks,
+    trashedTasks,
+    trashRetentionDays: trashRetentionDays ?? DEFAULT_TRASH_RETENTION_DAYS,
     addTask,
     updateTask,
     deleteTask,
+    restoreTask,
+    permanentlyDeleteTask,
+    emptyTrash,
+    setTrashRetentionDays,
     toggleTaskCompletion,
+    setTaskStatus,
+    addPrerequisite,
+    removePrerequisite,
+    reorderTasks,
+    setTaskPinned,
+    canUndo: state.history.past.length > 0,
+    canRedo: state.history.future.length > 0,
+    undo,
+    redo,
+    getTask,
+    getTaskHistory,
+    reassignTasksCategory,
+    moveTasksToList,
+    getDependentTasks,
+    getSyncStatus,
+    retryWrite,
+    dismissWrite,
     refreshTasks,
   };
 
@@ -0,0 +1,265 @@
+/**
+ * Saved View Context
+ * 
+ * Provides the user's saved views (named filter queries), task list sort
+ * order, smart sort weights and board layout throughout the app.
+ * 
+ * Features:
+ * - Real-time synchronization with /users/{uid}/views
+ * - Create, update and delete views
+ * - Sort order (mode and direction), saved per user on the device
+ * - Smart sort weights and thresholds, saved per user on the device
+ * - Board grouping and WIP limits, saved per user on the device
+ */
+
+import React, {
+  createContext,
+  useContext,
+  useReducer,
+  useEffect,
+  useState,
+  ReactNode,
+} from 'react';
+import { viewReducer, initialViewState } from './viewReducer';
+import { useAuth } from './AuthContext';
+import {
+  addView as addViewService,
+  updateView as updateViewService,
+  deleteView as deleteViewService,
+  subscribeToUserViews,
+} from '../api/viewService';
+import { loadTaskSort, saveTaskSort } from '../api/sortSettingsStorage';
+import { loadScoringConfig, saveScoringConfig } from '../api/scoringSettingsStorage';
+import { loadBoardSettings, saveBoardSettings } from '../api/boardSettingsStorage';
+import { DEFAULT_SCORING_CONFIG, DEFAULT_TASK_SORT } from '../utils/taskUtils';
+import { DEFAULT_BOARD_SETTINGS } from '../utils/boardUtils';
+import {
+  BoardSettings,
+  CreateSavedViewPayload,
+  SavedView,
+  ScoringConfig,
+  TaskSort,
+  ViewState,
+} from '../types';
+
+/**
+ * View context value type
+ * Includes state and all view operations
+ */
+interface ViewContextValue extends ViewState {
+  addView: (name: string, query: string) => Promise<SavedView>;
+  updateView: (
+    viewId: string,
+    updates: Partial<Omit<CreateSavedViewPayload, 'order'>>
+  ) => Promise<void>;
+  deleteView: (viewId: string) => Promise<void>;
+  taskSort: TaskSort;
+  setTaskSort: (sort: TaskSort) => void;
+  scoringConfig: ScoringConfig;
+  setScoringConfig: (config: ScoringConfig) => void;
+  boardSettings: BoardSettings;
+  setBoardSettings: (settings: BoardSettings) => void;
+}
+
+const ViewContext = createContext<ViewContextValue | undefined>(undefined);
+
+interface ViewProviderProps {
+  children: ReactNode;
+}
+
+/**
+ * ViewProvider Component
+ * 
+ * Wraps the app (inside AuthProvider) to provide saved views.
+ * Subscribes on login and clears views on logout.
+ */
+export const ViewProvider: React.FC<ViewProviderProps> = ({ children }) => {
+  const [state, dispatch] = useReducer(viewReducer, initialViewState);
+  const { user } = useAuth();
+
+  // Task list sort order (the default until the user's setting is loaded)
+  const [taskSort, setSortState] = useState<TaskSort>(DEFAULT_TASK_SORT);
+
+  // Smart sort weights (the defaults until the user's setting is loaded)
+  const [scoringConfig, setScoringState] = useState<ScoringConfig>(DEFAULT_SCORING_CONFIG);
+
+  // Board layout (the default until the user's setting is loaded)
+  const [boardSettings, setBoardState] = useState<BoardSettings>(DEFAULT_BOARD_SETTINGS);
+
+  /**
+   * Real-time view subscription effect
+   */
+  useEffect(() => {
+    if (!user) {
+      dispatch({ type: 'VIEWS_LOADED', payload: [] });
+      return;
+    }
+
+    dispatch({ type: 'VIEWS_LOADING' });
+
+    const unsubscribe = subscribeToUserViews(
+      user.uid,
+      (views) => {
+        dispatch({ type: 'VIEWS_LOADED', payload: views });
+      },
+      (error) => {
+        dispatch({ type: 'VIEWS_ERROR', payload: error.message });
+      }
+    );
+
+    return () => {
+      unsubscribe();
+    };
+  }, [user]);
+
+  /**
+   * Settings load effect (sort order, smart sort weights and board layout)
+   */
+  useEffect(() => {
+    setSortState(DEFAULT_TASK_SORT);
+    setScoringState(DEFAULT_SCORING_CONFIG);
+    setBoardState(DEFAULT_BOARD_SETTINGS);
+
+    if (!user) {
+      return;
+    }
+
+    let cancelled = false;
+
+    Promise.all([
+      loadTaskSort(user.uid),
+      loadScoringConfig(user.uid),
+      loadBoardSettings(user.uid),
+    ]).then(([sort, config, board]) => {
+      if (!cancelled) {
+        setSortState(sort);
+        setScoringState(config);
+        setBoardState(board);
+      }
+    });
+
+    return () => {
+      cancelled = true;
+    };
+  }, [user]);
+
+  /**
+   * Save a new view at the end
+   * 
+   * @param name - View name
+   * @param query - Filter query text
+   * @returns The created view
+   * @throws Error if not logged in
+   */
+  const addView = async (name: string, query: string): Promise<SavedView> => {
+    if (!user) {
+      throw new Error('You must be logged in to save views');
+    }
+
+    const order =
+      state.views.length > 0 ? Math.max(...state.views.map((v) => v.order)) + 1 : 0;
+
+    return addViewService({ name: name.trim(), query: query.trim(), order }, user.uid);
+  };
+
+  /**
+   * Rename a view or change its query
+   * 
+   * @throws Error if not logged in
+   */
+  const updateView = async (
+    viewId: string,
+    updates: Partial<Omit<CreateSavedViewPayload, 'order'>>
+  ): Promise<void> => {
+    if (!user) {
+      throw new Error('You must be logged in to update views');
+    }
+
+    await updateViewService(user.uid, viewId, {
+      ...updates,
+      ...(updates.name !== undefined && { name: updates.name.trim() }),
+      ...(updates.query !== undefined && { query: updates.query.trim() }),
+    });
+  };
+
+  /**
+   * Delete a view (tasks are not affected)
+   * 
+   * @throws Error if not logged in
+   */
+  const deleteView = async (viewId: string): Promise<void> => {
+    if (!user) {
+      throw new Error('You must be logged in to delete views');
+    }
+
+    await deleteViewService(user.uid, viewId);
+  };
+
+  /**
+   * Change the task list sort order (saved on the device)
+   * 
+   * @param sort - Sort mode and direction
+   */
+  const setTaskSort = (sort: TaskSort): void => {
+    setSortState(sort);
+    if (user) {
+      saveTaskSort(user.uid, sort);
+    }
+  };
+
+  /**
+   * Change the smart sort weights and thresholds (saved on the device)
+   * 
+   * @param config - Validated scoring config
+   */
+  const setScoringConfig = (config: ScoringConfig): void => {
+    setScoringState(config);
+    if (user) {
+      saveScoringConfig(user.uid, config);
+    }
+  };
+
+  /**
+   * Change the board grouping or WIP limits (saved on the device)
+   * 
+   * @param settings - Board settings
+   */
+  const setBoardSettings = (settings: BoardSettings): void => {
+    setBoardState(settings);
+    if (user) {
+      saveBoardSettings(user.uid, settings);
+    }
+  };
+
+  const value: ViewContextValue = {
+    ...state,
+    addView,
+    updateView,
+    deleteView,
+    taskSort,
+    setTaskSort,
+    scoringConfig,
+    setScoringConfig,
+    boardSettings,
+    setBoardSettings,
+  };
+
+  return <ViewContext.Provider value={value}>{children}</ViewContext.Provider>;
+};
+
+/**
+ * Custom hook to access saved view context
+ * 
+ * Usage: const { views, addView } = useViews();
+ * 
+ * @throws Error if used outside of ViewProvider
+ */
+export const useViews = (): ViewContextValue => {
+  const context = useContext(ViewContext);
+
+  if (context === undefined) {
+    throw new Error('useViews must be used within a ViewProvider');
+  }
+
+  return context;
+};
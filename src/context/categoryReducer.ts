@@ -0,0 +1,64 @@
+/**
+ * Category State Reducer
+ * 
+ * Manages user-defined category state transitions using the reducer pattern.
+ * 
+ * State transitions:
+ * - CATEGORIES_LOADING: Set when subscribing to categories
+ * - CATEGORIES_LOADED: Categories loaded from Firestore (replaces the list)
+ * - CATEGORIES_ERROR: Failed to load or sync categories
+ */
+
+import { CategoryState, CategoryAction } from '../types';
+import { sortCategories } from '../utils/categoryUtils';
+
+/**
+ * Initial category state
+ * Used when app first loads and when user logs out
+ */
+export const initialCategoryState: CategoryState = {
+  categories: [],
+  loading: false,
+  error: null,
+};
+
+/**
+ * Category state reducer
+ * 
+ * Pure function - no side effects, same inputs always produce same output.
+ * 
+ * @param state - Current category state
+ * @param action - Action describing the state change
+ * @returns New category state
+ */
+export const categoryReducer = (
+  state: CategoryState,
+  action: CategoryAction
+): CategoryState => {
+  switch (action.type) {
+    case 'CATEGORIES_LOADING':
+      return {
+        ...state,
+        loading: true,
+        error: null,
+      };
+      
+    case 'CATEGORIES_LOADED':
+      // Real-time subscription delivers the complete list
+      return {
+        categories: sortCategories(action.payload),
+        loading: false,
+        error: null,
+      };
+      
+    case 'CATEGORIES_ERROR':
+      return {
+        ...state,
+        loading: false,
+        error: action.payload,
+      };
+      
+    default:
+      return state;
+  }
+};
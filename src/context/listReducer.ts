@@ -0,0 +1,85 @@
+/**
+ * Task List State Reducer
+ * 
+ * Manages task list (project) state transitions using the reducer pattern.
+ * 
+ * State transitions:
+ * - LISTS_LOADING: Set when subscribing to lists
+ * - LISTS_LOADED: Lists loaded from Firestore (replaces the lists)
+ * - LISTS_ERROR: Failed to load or sync lists
+ * - LIST_SELECTED: User switched the active list
+ * - LIST_COUNTS_LOADED: Per-list task counts fetched
+ */
+
+import { ListState, ListAction } from '../types';
+import { DEFAULT_LIST_ID, sortLists } from '../utils/listUtils';
+
+/**
+ * Initial list state
+ * Used when app first loads and when user logs out
+ */
+export const initialListState: ListState = {
+  lists: [],
+  activeListId: DEFAULT_LIST_ID,
+  counts: {},
+  loading: false,
+  error: null,
+};
+
+/**
+ * List state reducer
+ * 
+ * Pure function - no side effects, same inputs always produce same output.
+ * 
+ * @param state - Current list state
+ * @param action - Action describing the state change
+ * @returns New list state
+ */
+export const listReducer = (state: ListState, action: ListAction): ListState => {
+  switch (action.type) {
+    case 'LISTS_LOADING':
+      return {
+        ...state,
+        loading: true,
+        error: null,
+      };
+    
+    case 'LISTS_LOADED': {
+      // Fall back to the default list if the active one was deleted elsewhere
+      const activeMissing =
+        state.activeListId !== null &&
+        action.payload.length > 0 &&
+        !action.payload.some((list) => list.id === state.activeListId);
+      
+      return {
+        ...state,
+        lists: sortLists(action.payload),
+        activeListId: activeMissing ? DEFAULT_LIST_ID : state.activeListId,
+        loading: false,
+        error: null,
+      };
+    }
+    
+    case 'LISTS_ERROR':
+      return {
+        ...state,
+        loading: false,
+        error: action.payload,
+      };
+    
+    case 'LIST_SELECTED':
+      return {
+        ...state,
+        activeListId: action.payload,
+      };
+    
+    case 'LIST_COUNTS_LOADED':
+      return {
+        ...state,
+        counts: action.payload,
+      };
+    
+    default:
+      return state;
+  }
+};
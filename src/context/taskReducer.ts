@@ -6,14 +6,25 @@
  * 
  * State transitions:
  * - TASKS_LOADING: Set when fetching/syncing tasks
- * - TASKS_LOADED: Tasks successfully loaded from Firestore
+ * - TASKS_LOADED: Task list replaced (cleared on logout)
+ * - TASKS_CHANGED: Subscription snapshot applied change by change
  * - TASKS_ERROR: Failed to load or sync tasks
  * - TASK_ADDED: New task created (optimistic update)
  * - TASK_UPDATED: Existing task modified (optimistic update)
  * - TASK_DELETED: Task removed (optimistic update)
+ * - WRITES_RESTORED: Pending-writes queue loaded from storage
+ * - WRITES_CLEARED: User logged out
+ * - WRITE_QUEUED: Mutation sent (or re-sent) to Firestore
+ * - WRITE_SYNCED: Server confirmed a mutation (entry dropped)
+ * - WRITE_FAILED: Server rejected a mutation
+ * - WRITE_DISMISSED: User discarded a failed mutation
+ * - HISTORY_RECORDED: User action added to the undo stack (clears redo)
+ * - HISTORY_UNDONE / HISTORY_REDONE: Entry moved between the undo and redo stacks
+ * - HISTORY_CLEARED: User logged out
  */
 
-import { TaskState, TaskAction, Task } from '../types';
+import { TaskState, TaskAction, Task, TaskChange } from '../types';
+import { HISTORY_LIMIT } from '../utils/historyUtils';
 
 /**
  * Initial task state
@@ -21,10 +32,46 @@ import { TaskState, TaskAction, Task } from '../types';
  */
 export const initialTaskState: TaskState = {
   tasks: [],
+  snapshotMetadata: { hasPendingWrites: false, fromCache: false },
+  pendingWrites: [],
+  history: { past: [], future: [] },
   loading: false,
   error: null,
 };
 
+/**
+ * Apply subscription changes to the task list
+ * 
+ * Unchanged tasks keep their object identity (and position), so memoized
+ * cards only re-render for tasks that actually changed. A modified task equal
+ * to the current one (e.g. the echo of an optimistic update) is kept as is.
+ * 
+ * @param tasks - Current tasks
+ * @param changes - Changes in snapshot order
+ * @returns Updated tasks (the same array if nothing changed)
+ */
+const applyTaskChanges = (tasks: Task[], changes: TaskChange[]): Task[] => {
+  const byId = new Map(tasks.map((task) => [task.id, task]));
+  let changed = false;
+  
+  changes.forEach(({ type, task }) => {
+    const current = byId.get(task.id);
+    
+    if (type === 'removed') {
+      changed = byId.delete(task.id) || changed;
+      return;
+    }
+    
+    if (!current || JSON.stringify(current) !== JSON.stringify(task)) {
+      // Map.set keeps the position of an existing key
+      byId.set(task.id, task);
+      changed = true;
+    }
+  });
+  
+  return changed ? [...byId.values()] : tasks;
+};
+
 /**
  * Task state reducer
  * 
@@ -49,11 +96,23 @@ export const taskReducer = (state: TaskState, action: TaskAction): TaskState =>
       // Tasks successfully loaded from Firestore
       // This replaces the entire task list (from real-time subscription)
       return {
+        ...state,
         tasks: action.payload,
         loading: false,
         error: null,
       };
       
+    case 'TASKS_CHANGED':
+      // Incremental update from the real-time subscription
+      // The first snapshot after TASKS_LOADING (login, list switch) replaces the list
+      return {
+        ...state,
+        tasks: applyTaskChanges(state.loading ? [] : state.tasks, action.payload.changes),
+        snapshotMetadata: action.payload.metadata,
+        loading: false,
+        error: null,
+      };
+      
     case 'TASKS_ERROR':
       // Failed to load or sync tasks
       return {
@@ -65,9 +124,13 @@ export const taskReducer = (state: TaskState, action: TaskAction): TaskState =>
     case 'TASK_ADDED':
       // New task created - add to list (optimistic update)
       // Real-time subscription will sync this, but we update immediately for better UX
+      // (replaces any copy the subscription delivered first)
       return {
         ...state,
-        tasks: [...state.tasks, action.payload],
+        tasks: [
+          ...state.tasks.filter((task) => task.id !== action.payload.id),
+          action.payload,
+        ],
         error: null,
       };
       
@@ -89,6 +152,100 @@ export const taskReducer = (state: TaskState, action: TaskAction): TaskState =>
         error: null,
       };
       
+    case 'WRITES_RESTORED': {
+      // Keep writes queued while the stored queue was loading
+      const restoredIds = new Set(action.payload.map((write) => write.id));
+      return {
+        ...state,
+        pendingWrites: [
+          ...action.payload,
+          ...state.pendingWrites.filter((write) => !restoredIds.has(write.id)),
+        ],
+      };
+    }
+      
+    case 'WRITES_CLEARED':
+      return {
+        ...state,
+        pendingWrites: [],
+      };
+      
+    case 'WRITE_QUEUED':
+      // New entry, or a retried entry replacing its previous attempt
+      return {
+        ...state,
+        pendingWrites: [
+          ...state.pendingWrites.filter((write) => write.id !== action.payload.id),
+          action.payload,
+        ],
+      };
+      
+    case 'WRITE_SYNCED':
+      return {
+        ...state,
+        pendingWrites: state.pendingWrites.filter((write) => write.id !== action.payload),
+      };
+      
+    case 'WRITE_FAILED':
+      return {
+        ...state,
+        pendingWrites: state.pendingWrites.map((write) =>
+          write.id === action.payload.id
+            ? { ...write, status: 'failed', error: action.payload.error }
+            : write
+        ),
+      };
+      
+    case 'WRITE_DISMISSED':
+      return {
+        ...state,
+        pendingWrites: state.pendingWrites.filter((write) => write.id !== action.payload),
+      };
+      
+    case 'HISTORY_RECORDED':
+      // New action: bounded undo stack, redo stack no longer applies
+      return {
+        ...state,
+        history: {
+          past: [...state.history.past, action.payload].slice(-HISTORY_LIMIT),
+          future: [],
+        },
+      };
+      
+    case 'HISTORY_UNDONE': {
+      const entry = state.history.past[state.history.past.length - 1];
+      if (!entry) {
+        return state;
+      }
+      return {
+        ...state,
+        history: {
+          past: state.history.past.slice(0, -1),
+          future: [...state.history.future, entry],
+        },
+      };
+    }
+      
+    case 'HISTORY_REDONE': {
+      const entry = state.history.future[state.history.future.length - 1];
+      if (!entry) {
+        return state;
+      }
+      return {
+        ...state,
+        history: {
+          past: [...state.history.past, entry],
+          future: state.history.future.slice(0, -1),
+        },
+      };
+    }
+      
+    case 'HISTORY_CLEARED':
+      return {
+        ...state,
+        history: { past: [], future: [] },
+      };
+      
     default:
       // Unknown action type - return state unchanged
       // TypeScript's exhaustive checking ensures this should never happen
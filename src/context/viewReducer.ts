@@ -0,0 +1,61 @@
+/**
+ * Saved View State Reducer
+ * 
+ * Manages saved view state transitions using the reducer pattern.
+ * 
+ * State transitions:
+ * - VIEWS_LOADING: Set when subscribing to views
+ * - VIEWS_LOADED: Views loaded from Firestore (replaces the views)
+ * - VIEWS_ERROR: Failed to load or sync views
+ */
+
+import { ViewState, ViewAction } from '../types';
+import { sortViews } from '../utils/taskQueryUtils';
+
+/**
+ * Initial view state
+ * Used when app first loads and when user logs out
+ */
+export const initialViewState: ViewState = {
+  views: [],
+  loading: false,
+  error: null,
+};
+
+/**
+ * View state reducer
+ * 
+ * Pure function - no side effects, same inputs always produce same output.
+ * 
+ * @param state - Current view state
+ * @param action - Action describing the state change
+ * @returns New view state
+ */
+export const viewReducer = (state: ViewState, action: ViewAction): ViewState => {
+  switch (action.type) {
+    case 'VIEWS_LOADING':
+      return {
+        ...state,
+        loading: true,
+        error: null,
+      };
+    
+    case 'VIEWS_LOADED':
+      return {
+        ...state,
+        views: sortViews(action.payload),
+        loading: false,
+        error: null,
+      };
+    
+    case 'VIEWS_ERROR':
+      return {
+        ...state,
+        loading: false,
+        error: action.payload,
+      };
+    
+    default:
+      return state;
+  }
+};
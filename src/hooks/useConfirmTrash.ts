@@ -0,0 +1,60 @@
+/**
+ * useConfirmTrash Hook
+ * 
+ * Moves a task to the trash from any screen, asking first what to do with
+ * the links of the tasks waiting for it (see dependencyUtils).
+ * 
+ * Features:
+ * - Trashes at once when no task waits for it
+ * - Otherwise asks to keep the links (in case it is restored) or remove them
+ * - Errors are shown in an alert
+ * 
+ * Integration:
+ * - Uses useTasks hook for deleteTask and getDependentTasks
+ * 
+ * Usage:
+ * ```ts
+ * const confirmTrash = useConfirmTrash(showUndoToast);
+ * <TaskCard onDelete={confirmTrash} ... />
+ * ```
+ */
+
+import { useCallback } from 'react';
+import { Alert } from 'react-native';
+import { useTasks } from '../context/TaskContext';
+import { describeDanglingLinks } from '../utils/dependencyUtils';
+
+/**
+ * @param onTrashed - (Optional) Called after the task is moved to the trash
+ *   (e.g., to show the undo toast); keep it stable
+ * @returns Stable callback taking the ID of the task to trash
+ */
+export const useConfirmTrash = (onTrashed?: () => void): ((taskId: string) => void) => {
+  const { deleteTask, getDependentTasks } = useTasks();
+
+  return useCallback(
+    (taskId: string) => {
+      const trash = async (unlinkDependents: boolean) => {
+        try {
+          await deleteTask(taskId, { unlinkDependents });
+          onTrashed?.();
+        } catch (error: any) {
+          Alert.alert('Error', error.message || 'Failed to delete task');
+        }
+      };
+
+      const dependents = getDependentTasks(taskId);
+      if (dependents.length === 0) {
+        trash(false);
+        return;
+      }
+
+      Alert.alert('Other Tasks Wait for This', describeDanglingLinks(dependents), [
+        { text: 'Cancel', style: 'cancel' },
+        { text: 'Keep Links', onPress: () => trash(false) },
+        { text: 'Remove Links', style: 'destructive', onPress: () => trash(true) },
+      ]);
+    },
+    [deleteTask, getDependentTasks, onTrashed]
+  );
+};
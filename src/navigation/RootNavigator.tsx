@@ -10,25 +10,69 @@
  * Phase 1: Skeleton with hardcoded auth state ✅
  * Phase 2: Integrated with AuthContext for dynamic auth state ✅
  * Phase 5: Added logout button to header ✅
+ * Categories: Added category management screen ✅
+ * Lists: Added task list switcher to the task list header ✅
+ * Trash: Added trash screen (header button next to Sign Out) ✅
+ * Task detail: Added task detail screen with deep link todoapp://task/<id> ✅
+ * Smart sort: Added scoring settings screen (opened from the sort picker) ✅
+ * Calendar: Added month calendar screen (header button next to Trash) ✅
+ * Planner: Added day/week timeline screen (opened from the calendar) ✅
+ * Board: Added kanban board screen (header button next to Calendar) ✅
  * 
  * The navigator automatically switches stacks when auth state changes,
  * providing seamless login/logout experience without manual navigation.
  */
 
-import React from 'react';
+import React, { useMemo } from 'react';
 import { View, ActivityIndicator, StyleSheet, TouchableOpacity, Text, Alert } from 'react-native';
-import { NavigationContainer } from '@react-navigation/native';
-import { createNativeStackNavigator } from '@react-navigation/native-stack';
+import { NavigationContainer, LinkingOptions, useNavigation } from '@react-navigation/native';
+import {
+  createNativeStackNavigator,
+  NativeStackNavigationProp,
+} from '@react-navigation/native-stack';
 import { RootStackParamList, AuthStackParamList, AppStackParamList } from './types';
 import { useAuth } from '../context/AuthContext';
+import { useLists } from '../context/ListContext';
+import { useTasks } from '../context/TaskContext';
+import { DEFAULT_LIST_ID, mergeListCounts } from '../utils/listUtils';
+import ListSwitcher from '../components/ListSwitcher';
 
 // Screen imports
 import LoginScreen from '../screens/LoginScreen';
 import RegisterScreen from '../screens/RegisterScreen';
 import TaskListScreen from '../screens/TaskListScreen';
+import CategoriesScreen from '../screens/CategoriesScreen';
+import TrashScreen from '../screens/TrashScreen';
+import TaskDetailScreen from '../screens/TaskDetailScreen';
+import ScoringSettingsScreen from '../screens/ScoringSettingsScreen';
+import CalendarScreen from '../screens/CalendarScreen';
+import PlannerScreen from '../screens/PlannerScreen';
+import BoardScreen from '../screens/BoardScreen';
 
 import { COLORS, FONT_SIZES } from '../theme';
 
+/**
+ * Deep link configuration
+ * 
+ * todoapp://task/<id> opens TaskDetail (the scheme is registered in
+ * AndroidManifest.xml and Info.plist). Links only resolve while signed in;
+ * the App stack does not exist on the sign-in screens.
+ */
+const linking: LinkingOptions<RootStackParamList> = {
+  prefixes: ['todoapp://'],
+  config: {
+    screens: {
+      App: {
+        initialRouteName: 'TaskList',
+        screens: {
+          TaskList: '',
+          TaskDetail: 'task/:taskId',
+        },
+      },
+    },
+  },
+};
+
 // Create stack navigators
 const RootStack = createNativeStackNavigator<RootStackParamList>();
 const AuthStackNav = createNativeStackNavigator<AuthStackParamList>();
@@ -66,10 +110,116 @@ const AuthStack: React.FC = () => {
 };
 
 /**
- * Main Application Stack
- * Contains authenticated user screens (task management)
+ * Task list switcher shown as the TaskList header title
+ * 
+ * Counts for the loaded list(s) come from the live tasks; the rest come from
+ * the count queries refreshed whenever the picker opens.
  */
-const AppStack: React.FC = () => {
+const ListSwitcherHeader: React.FC = () => {
+  const { lists, activeListId, counts, selectList, addList, renameList, deleteList, refreshCounts } =
+    useLists();
+  const { tasks, moveTasksToList } = useTasks();
+
+  const mergedCounts = useMemo(
+    () => mergeListCounts(counts, activeListId, tasks),
+    [counts, activeListId, tasks]
+  );
+
+  /**
+   * Move the list's tasks to the Inbox (queued like any task update), then delete it
+   */
+  const handleDelete = async (listId: string): Promise<void> => {
+    await moveTasksToList(listId, DEFAULT_LIST_ID);
+    await deleteList(listId);
+  };
+
+  return (
+    <ListSwitcher
+      lists={lists}
+      activeListId={activeListId}
+      counts={mergedCounts}
+      onOpen={refreshCounts}
+      onSelect={selectList}
+      onCreate={addList}
+      onRename={renameList}
+      onDelete={handleDelete}
+    />
+  );
+};
+
+const renderListSwitcher = () => <ListSwitcherHeader />;
+
+type TaskListHeaderNavigationProp = NativeStackNavigationProp<AppStackParamList, 'TaskList'>;
+
+/**
+ * Categories button shown on the left of the TaskList header
+ */
+const CategoriesHeaderButton: React.FC = () => {
+  const navigation = useNavigation<TaskListHeaderNavigationProp>();
+
+  return (
+    <TouchableOpacity
+      onPress={() => navigation.navigate('Categories')}
+      style={styles.categoriesButton}
+    >
+      <Text style={styles.headerText}>Categories</Text>
+    </TouchableOpacity>
+  );
+};
+
+const renderCategoriesButton = () => <CategoriesHeaderButton />;
+
+/**
+ * Board button shown in the TaskList header
+ */
+const BoardHeaderButton: React.FC = () => {
+  const navigation = useNavigation<TaskListHeaderNavigationProp>();
+
+  return (
+    <TouchableOpacity
+      onPress={() => navigation.navigate('Board')}
+      style={styles.headerButton}
+      accessibilityLabel="Board"
+    >
+      <Text style={styles.headerIcon}>📋</Text>
+    </TouchableOpacity>
+  );
+};
+
+/**
+ * Calendar button shown in the TaskList header
+ */
+const CalendarHeaderButton: React.FC = () => {
+  const navigation = useNavigation<TaskListHeaderNavigationProp>();
+
+  return (
+    <TouchableOpacity
+      onPress={() => navigation.navigate('Calendar')}
+      style={styles.headerButton}
+      accessibilityLabel="Calendar"
+    >
+      <Text style={styles.headerIcon}>📅</Text>
+    </TouchableOpacity>
+  );
+};
+
+/**
+ * Trash button shown in the TaskList header
+ */
+const TrashHeaderButton: React.FC = () => {
+  const navigation = useNavigation<TaskListHeaderNavigationProp>();
+
+  return (
+    <TouchableOpacity onPress={() => navigation.navigate('Trash')} style={styles.headerButton}>
+      <Text style={styles.headerIcon}>🗑️</Text>
+    </TouchableOpacity>
+  );
+};
+
+/**
+ * Sign Out button shown at the right end of the TaskList header
+ */
+const SignOutHeaderButton: React.FC = () => {
   const { logout } = useAuth();
 
   /**
@@ -101,6 +251,32 @@ const AppStack: React.FC = () => {
     );
   };
 
+  return (
+    <TouchableOpacity onPress={handleLogout} style={styles.signOutButton}>
+      <Text style={styles.headerText}>Sign Out</Text>
+    </TouchableOpacity>
+  );
+};
+
+/**
+ * Buttons shown on the right of the TaskList header
+ */
+const TaskListHeaderActions: React.FC = () => (
+  <View style={styles.headerActions}>
+    <BoardHeaderButton />
+    <CalendarHeaderButton />
+    <TrashHeaderButton />
+    <SignOutHeaderButton />
+  </View>
+);
+
+const renderTaskListActions = () => <TaskListHeaderActions />;
+
+/**
+ * Main Application Stack
+ * Contains authenticated user screens (task management)
+ */
+const AppStack: React.FC = () => {
   return (
     <AppStackNav.Navigator
       screenOptions={{
@@ -118,15 +294,46 @@ const AppStack: React.FC = () => {
         component={TaskListScreen}
         options={{
           title: 'My Tasks',
-          headerRight: () => (
-            <TouchableOpacity onPress={handleLogout} style={{ paddingHorizontal: 16 }}>
-              <Text style={{ color: '#fff', fontSize: FONT_SIZES.md, fontWeight: '600' }}>
-                Sign Out
-              </Text>
-            </TouchableOpacity>
-          ),
+          headerTitle: renderListSwitcher,
+          headerLeft: renderCategoriesButton,
+          headerRight: renderTaskListActions,
         }}
       />
+      <AppStackNav.Screen
+        name="Categories"
+        component={CategoriesScreen}
+        options={{ title: 'Categories' }}
+      />
+      <AppStackNav.Screen
+        name="Trash"
+        component={TrashScreen}
+        options={{ title: 'Trash' }}
+      />
+      <AppStackNav.Screen
+        name="TaskDetail"
+        component={TaskDetailScreen}
+        options={{ title: 'Task' }}
+      />
+      <AppStackNav.Screen
+        name="ScoringSettings"
+        component={ScoringSettingsScreen}
+        options={{ title: 'Smart Sort' }}
+      />
+      <AppStackNav.Screen
+        name="Calendar"
+        component={CalendarScreen}
+        options={{ title: 'Calendar' }}
+      />
+      <AppStackNav.Screen
+        name="Planner"
+        component={PlannerScreen}
+        options={{ title: 'Planner' }}
+      />
+      <AppStackNav.Screen
+        name="Board"
+        component={BoardScreen}
+        options={{ title: 'Board' }}
+      />
     </AppStackNav.Navigator>
   );
 };
@@ -157,7 +364,7 @@ const RootNavigator: React.FC = () => {
   const isAuthenticated = user !== null;
   
   return (
-    <NavigationContainer>
+    <NavigationContainer linking={linking}>
       <RootStack.Navigator screenOptions={{ headerShown: false }}>
         {isAuthenticated ? (
           // User is logged in - show main app
@@ -178,6 +385,27 @@ const styles = StyleSheet.create({
     alignItems: 'center',
     backgroundColor: COLORS.background,
   },
+  headerActions: {
+    flexDirection: 'row',
+    alignItems: 'center',
+  },
+  headerButton: {
+    paddingHorizontal: 8,
+  },
+  categoriesButton: {
+    paddingRight: 16,
+  },
+  signOutButton: {
+    paddingHorizontal: 16,
+  },
+  headerText: {
+    color: '#fff',
+    fontSize: FONT_SIZES.md,
+    fontWeight: '600',
+  },
+  headerIcon: {
+    fontSize: FONT_SIZES.lg,
+  },
 });
 
 export default RootNavigator;
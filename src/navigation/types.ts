@@ -7,6 +7,8 @@
  * See: https://reactnavigation.org/docs/typescript/
  */
 
+import { NavigatorScreenParams } from '@react-navigation/native';
+
 /**
  * Authentication stack screens
  * Shown when user is not logged in
@@ -22,6 +24,13 @@ export type AuthStackParamList = {
  */
 export type AppStackParamList = {
   TaskList: undefined;   // Main task list screen (no parameters)
+  Categories: undefined; // Manage user-defined categories (no parameters)
+  Trash: undefined;      // Deleted tasks (restore / delete forever)
+  TaskDetail: { taskId: string }; // Single task (deep link: todoapp://task/<id>)
+  ScoringSettings: undefined; // Smart sort weights and thresholds (no parameters)
+  Calendar: undefined;   // Month calendar of the tasks (no parameters)
+  Planner: { date?: string } | undefined; // Day/week timeline (date = day key, default today)
+  Board: undefined;      // Kanban board by status, category or priority (no parameters)
 };
 
 /**
@@ -29,5 +38,5 @@ export type AppStackParamList = {
  */
 export type RootStackParamList = {
   Auth: undefined;       // Auth stack (login/register flow)
-  App: undefined;        // Main app stack (task management)
+  App: NavigatorScreenParams<AppStackParamList> | undefined; // Main app stack (task management; deep links)
 };
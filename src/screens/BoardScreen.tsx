@@ -0,0 +1,261 @@
+/**
+ * Board Screen
+ * 
+ * Kanban board of the tasks, for sprint-style work.
+ * 
+ * Features:
+ * - Columns grouped by status (To Do through Cancelled), category or
+ *   priority; the grouping is saved per user
+ * - Cards in the selected sort order within each column
+ * - Drag a card to another column to change its status, category or
+ *   priority (undoable); moving a task to Done or Cancelled completes it,
+ *   and status moves the workflow doesn't allow are refused
+ * - Per-column WIP limits (tap a column header); a move that would put a
+ *   column over its limit asks for confirmation
+ * - Tap a card to open the task
+ * 
+ * Integration:
+ * - Uses useTasks hook for the tasks of the active list, updateTask and
+ *   setTaskStatus
+ * - Uses useCategories hook for the category columns
+ * - Uses useViews hook for the sort order, smart sort weights and board settings
+ */
+
+import React, { useState, useMemo, useCallback } from 'react';
+import { View, Text, TouchableOpacity, StyleSheet, Alert } from 'react-native';
+import { useNavigation } from '@react-navigation/native';
+import { NativeStackNavigationProp } from '@react-navigation/native-stack';
+import { useTasks } from '../context/TaskContext';
+import { useCategories } from '../context/CategoryContext';
+import { useViews } from '../context/ViewContext';
+import { AppStackParamList } from '../navigation/types';
+import { Task, TaskStatus, BoardColumn, BoardGroupBy } from '../types';
+import { sortTasks } from '../utils/taskUtils';
+import {
+  getBoardColumns,
+  getWipLimit,
+  setWipLimit,
+  isOverWipLimit,
+  getColumnUpdates,
+} from '../utils/boardUtils';
+import { canTransition, STATUS_LABELS } from '../utils/statusUtils';
+import KanbanBoard from '../components/KanbanBoard';
+import WipLimitModal from '../components/WipLimitModal';
+import Snackbar from '../components/Snackbar';
+import { COLORS, SPACING, FONT_SIZES, BORDER_RADIUS, FONT_WEIGHTS } from '../theme';
+
+type BoardNavigationProp = NativeStackNavigationProp<AppStackParamList, 'Board'>;
+
+const GROUP_BY_OPTIONS: Array<{ groupBy: BoardGroupBy; label: string }> = [
+  { groupBy: 'status', label: 'Status' },
+  { groupBy: 'category', label: 'Category' },
+  { groupBy: 'priority', label: 'Priority' },
+];
+
+const BoardScreen: React.FC = () => {
+  const { tasks, updateTask, setTaskStatus, history, undo } = useTasks();
+  const { categories } = useCategories();
+  const { taskSort, scoringConfig, boardSettings, setBoardSettings } = useViews();
+  const navigation = useNavigation<BoardNavigationProp>();
+
+  // Column whose WIP limit is being edited
+  const [editingColumn, setEditingColumn] = useState<BoardColumn | null>(null);
+
+  // Undo toast after a move (key restarts its timer)
+  const [toastKey, setToastKey] = useState<number | null>(null);
+
+  /**
+   * Columns of the board, cards in the selected sort order
+   */
+  const columns = useMemo(
+    () =>
+      getBoardColumns(
+        sortTasks(tasks, taskSort, categories, scoringConfig),
+        boardSettings.groupBy,
+        categories
+      ),
+    [tasks, taskSort, categories, scoringConfig, boardSettings.groupBy]
+  );
+
+  /**
+   * WIP limit of a column in the current grouping
+   */
+  const getColumnLimit = useCallback(
+    (columnKey: string) => getWipLimit(boardSettings, columnKey),
+    [boardSettings]
+  );
+
+  /**
+   * Handle card press (open task details)
+   */
+  const handleTaskPress = useCallback(
+    (task: Task) => {
+      navigation.navigate('TaskDetail', { taskId: task.id });
+    },
+    [navigation]
+  );
+
+  /**
+   * Write a move (status moves go through setTaskStatus so recurring tasks
+   * spawn their next occurrence when moved to Done)
+   */
+  const moveTask = useCallback(
+    async (task: Task, to: BoardColumn) => {
+      try {
+        if (boardSettings.groupBy === 'status') {
+          await setTaskStatus(task.id, to.key as TaskStatus);
+        } else {
+          await updateTask(task.id, getColumnUpdates(boardSettings.groupBy, to.key));
+        }
+        setToastKey((current) => (current ?? 0) + 1);
+      } catch (error: any) {
+        Alert.alert('Error', error.message || 'Failed to move task');
+      }
+    },
+    [boardSettings.groupBy, setTaskStatus, updateTask]
+  );
+
+  /**
+   * Handle a dropped card; asks first when the target column is full
+   */
+  const handleTaskMove = useCallback(
+    (task: Task, _from: BoardColumn, to: BoardColumn) => {
+      if (boardSettings.groupBy === 'status' && !canTransition(task.status, to.key as TaskStatus)) {
+        Alert.alert(
+          "Can't move task",
+          `${STATUS_LABELS[task.status]} tasks can't be moved to ${to.title}.`
+        );
+        return;
+      }
+
+      const limit = getWipLimit(boardSettings, to.key);
+
+      if (!isOverWipLimit(to.tasks.length + 1, limit)) {
+        moveTask(task, to);
+        return;
+      }
+
+      Alert.alert(
+        'Column is full',
+        `${to.title} already has ${to.tasks.length} of ${limit} tasks. Move "${task.title}" anyway?`,
+        [
+          { text: 'Cancel', style: 'cancel' },
+          { text: 'Move', onPress: () => moveTask(task, to) },
+        ]
+      );
+    },
+    [boardSettings, moveTask]
+  );
+
+  /**
+   * Save the limit of the column being edited
+   */
+  const handleSaveLimit = useCallback(
+    (limit: number | null) => {
+      if (editingColumn) {
+        setBoardSettings(setWipLimit(boardSettings, editingColumn.key, limit));
+      }
+    },
+    [editingColumn, boardSettings, setBoardSettings]
+  );
+
+  /**
+   * Handle toast timeout
+   */
+  const handleToastHide = useCallback(() => {
+    setToastKey(null);
+  }, []);
+
+  const lastAction = history.past[history.past.length - 1];
+
+  return (
+    <View style={styles.container}>
+      <View style={styles.toolbar}>
+        <Text style={styles.toolbarLabel}>Group by</Text>
+        <View style={styles.modeSwitch}>
+          {GROUP_BY_OPTIONS.map(({ groupBy, label }) => {
+            const selected = boardSettings.groupBy === groupBy;
+            return (
+              <TouchableOpacity
+                key={groupBy}
+                style={[styles.modeButton, selected && styles.modeButtonActive]}
+                onPress={() => setBoardSettings({ ...boardSettings, groupBy })}
+              >
+                <Text style={[styles.modeText, selected && styles.modeTextActive]}>{label}</Text>
+              </TouchableOpacity>
+            );
+          })}
+        </View>
+      </View>
+
+      <KanbanBoard
+        columns={columns}
+        getColumnLimit={getColumnLimit}
+        onTaskPress={handleTaskPress}
+        onTaskMove={handleTaskMove}
+        onColumnPress={setEditingColumn}
+      />
+
+      <WipLimitModal
+        column={editingColumn}
+        limit={editingColumn ? getColumnLimit(editingColumn.key) : null}
+        onClose={() => setEditingColumn(null)}
+        onSave={handleSaveLimit}
+      />
+
+      <Snackbar
+        key={toastKey ?? 0}
+        message={toastKey !== null && lastAction ? lastAction.label : null}
+        actionLabel="Undo"
+        onAction={() => {
+          undo();
+          setToastKey(null);
+        }}
+        onHide={handleToastHide}
+      />
+    </View>
+  );
+};
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+    backgroundColor: COLORS.background,
+  },
+  toolbar: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'space-between',
+    paddingHorizontal: SPACING.md,
+    paddingVertical: SPACING.xs,
+    backgroundColor: COLORS.surface,
+  },
+  toolbarLabel: {
+    fontSize: FONT_SIZES.sm,
+    color: COLORS.textSecondary,
+  },
+  modeSwitch: {
+    flexDirection: 'row',
+    borderRadius: BORDER_RADIUS.md,
+    backgroundColor: COLORS.background,
+    padding: 2,
+  },
+  modeButton: {
+    paddingHorizontal: SPACING.md,
+    paddingVertical: SPACING.xs,
+    borderRadius: BORDER_RADIUS.md,
+  },
+  modeButtonActive: {
+    backgroundColor: COLORS.primary,
+  },
+  modeText: {
+    fontSize: FONT_SIZES.sm,
+    fontWeight: FONT_WEIGHTS.medium,
+    color: COLORS.text,
+  },
+  modeTextActive: {
+    color: '#fff',
+  },
+});
+
+export default BoardScreen;
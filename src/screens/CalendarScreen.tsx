@@ -0,0 +1,466 @@
+/**
+ * Calendar Screen
+ * 
+ * Month calendar of the tasks, for planning by date.
+ * 
+ * Features:
+ * - Month grid (Sunday to Saturday) with a dot per task on its due day
+ *   (priority color; gray when completed) and a count when there are more
+ * - Previous / next month and "Today" buttons
+ * - Option to also show tasks on the day they start (dateTime)
+ * - Tap a day to list its tasks below the grid (in the selected sort order)
+ * - "Plan day" opens the selected day in the timeline planner
+ * - Task cards with complete/delete actions; tap a task to open its details
+ *   (deleting a task others wait for asks whether to remove those links)
+ * - Undo toast after deleting a task
+ * - Days are the device's local calendar days
+ * 
+ * Integration:
+ * - Uses useTasks hook for the tasks of the active list and their actions
+ * - Uses useCategories hook for category badges
+ * - Uses useViews hook for the sort order and smart sort weights
+ * - Uses useConfirmTrash hook to delete tasks (asks about dependent tasks)
+ */
+
+import React, { useState, useMemo, useCallback } from 'react';
+import { View, Text, FlatList, TouchableOpacity, StyleSheet, Switch, Alert } from 'react-native';
+import { useNavigation } from '@react-navigation/native';
+import { NativeStackNavigationProp } from '@react-navigation/native-stack';
+import { useTasks } from '../context/TaskContext';
+import { useCategories } from '../context/CategoryContext';
+import { useViews } from '../context/ViewContext';
+import { useConfirmTrash } from '../hooks/useConfirmTrash';
+import { AppStackParamList } from '../navigation/types';
+import { Task, Priority } from '../types';
+import {
+  getDayKey,
+  parseDayKey,
+  getMonthStart,
+  getMonthGrid,
+  groupTasksByDay,
+  formatMonth,
+  formatDate,
+} from '../utils/dateUtils';
+import { sortTasks } from '../utils/taskUtils';
+import { getDependencySummaries } from '../utils/dependencyUtils';
+import TaskCard from '../components/TaskCard';
+import Snackbar from '../components/Snackbar';
+import { COLORS, SPACING, FONT_SIZES, BORDER_RADIUS, FONT_WEIGHTS } from '../theme';
+
+type CalendarNavigationProp = NativeStackNavigationProp<AppStackParamList, 'Calendar'>;
+
+const WEEKDAYS = ['Sun', 'Mon', 'Tue', 'Wed', 'Thu', 'Fri', 'Sat'];
+
+// Dots shown per day before switching to "+n"
+const MAX_DOTS = 3;
+
+const PRIORITY_COLORS: Record<Priority, string> = {
+  [Priority.HIGH]: COLORS.priorityHigh,
+  [Priority.MEDIUM]: COLORS.priorityMedium,
+  [Priority.LOW]: COLORS.priorityLow,
+};
+
+const CalendarScreen: React.FC = () => {
+  const { tasks, toggleTaskCompletion, getSyncStatus, history, undo } = useTasks();
+  const { categories, getCategory } = useCategories();
+  const { taskSort, scoringConfig } = useViews();
+  const navigation = useNavigation<CalendarNavigationProp>();
+
+  // Shown month (first day) and selected day
+  const [month, setMonth] = useState(() => getMonthStart(new Date()));
+  const [selectedDay, setSelectedDay] = useState(() => getDayKey(new Date()));
+
+  // Whether tasks are also shown on the day they start
+  const [includeStartDate, setIncludeStartDate] = useState(false);
+
+  // Undo toast after a delete (key restarts its timer)
+  const [toastKey, setToastKey] = useState<number | null>(null);
+
+  const todayKey = getDayKey(new Date());
+
+  /**
+   * Weeks of the shown month
+   */
+  const weeks = useMemo(() => getMonthGrid(month), [month]);
+
+  /**
+   * Tasks per local day
+   */
+  const tasksByDay = useMemo(
+    () => groupTasksByDay(sortTasks(tasks, taskSort, categories, scoringConfig), includeStartDate),
+    [tasks, taskSort, categories, scoringConfig, includeStartDate]
+  );
+
+  /**
+   * Open prerequisites of blocked tasks, for their cards
+   */
+  const dependencySummaries = useMemo(() => getDependencySummaries(tasks), [tasks]);
+
+  const selectedTasks = tasksByDay.get(selectedDay) ?? [];
+
+  /**
+   * Show another month (keeps the selected day)
+   */
+  const handleChangeMonth = useCallback((offset: number) => {
+    setMonth((current) => getMonthStart(current, offset));
+  }, []);
+
+  /**
+   * Jump back to the current month and select today
+   */
+  const handleToday = useCallback(() => {
+    const now = new Date();
+    setMonth(getMonthStart(now));
+    setSelectedDay(getDayKey(now));
+  }, []);
+
+  /**
+   * Select a day; days of the neighboring months also switch the month
+   */
+  const handleDayPress = useCallback(
+    (day: Date) => {
+      setSelectedDay(getDayKey(day));
+      if (day.getMonth() !== month.getMonth()) {
+        setMonth(getMonthStart(day));
+      }
+    },
+    [month]
+  );
+
+  /**
+   * Handle task card press (open task details)
+   */
+  const handleTaskPress = useCallback(
+    (task: Task) => {
+      navigation.navigate('TaskDetail', { taskId: task.id });
+    },
+    [navigation]
+  );
+
+  /**
+   * Handle task completion toggle
+   */
+  const handleToggleComplete = useCallback(
+    async (taskId: string, completed: boolean) => {
+      try {
+        await toggleTaskCompletion(taskId, completed);
+      } catch (error: any) {
+        Alert.alert('Error', error.message || 'Failed to update task');
+      }
+    },
+    [toggleTaskCompletion]
+  );
+
+  /**
+   * Handle task delete (moves it to the trash)
+   * Asks first what to do with the links of tasks waiting for it, then
+   * shows the undo toast
+   */
+  const showUndoToast = useCallback(() => setToastKey((current) => (current ?? 0) + 1), []);
+  const handleDeleteTask = useConfirmTrash(showUndoToast);
+
+  /**
+   * Handle toast timeout
+   */
+  const handleToastHide = useCallback(() => {
+    setToastKey(null);
+  }, []);
+
+  /**
+   * Render one day of the grid
+   */
+  const renderDay = (day: Date) => {
+    const key = getDayKey(day);
+    const dayTasks = tasksByDay.get(key) ?? [];
+    const inMonth = day.getMonth() === month.getMonth();
+    const selected = key === selectedDay;
+
+    return (
+      <TouchableOpacity
+        key={key}
+        style={[styles.day, selected && styles.daySelected]}
+        onPress={() => handleDayPress(day)}
+        accessibilityRole="button"
+        accessibilityLabel={`${formatDate(day.toISOString())}, ${dayTasks.length} task${
+          dayTasks.length !== 1 ? 's' : ''
+        }`}
+      >
+        <Text
+          style={[
+            styles.dayNumber,
+            !inMonth && styles.dayNumberOutside,
+            key === todayKey && styles.dayNumberToday,
+            selected && styles.dayNumberSelected,
+          ]}
+        >
+          {day.getDate()}
+        </Text>
+        <View style={styles.dots}>
+          {dayTasks.slice(0, MAX_DOTS).map((task) => (
+            <View
+              key={task.id}
+              style={[
+                styles.dot,
+                {
+                  backgroundColor: task.completed
+                    ? COLORS.completed
+                    : PRIORITY_COLORS[task.priority],
+                },
+              ]}
+            />
+          ))}
+        </View>
+        {dayTasks.length > MAX_DOTS && (
+          <Text style={[styles.moreText, selected && styles.dayNumberSelected]}>
+            +{dayTasks.length - MAX_DOTS}
+          </Text>
+        )}
+      </TouchableOpacity>
+    );
+  };
+
+  /**
+   * Month header, grid and the selected day's title
+   */
+  const renderHeader = () => (
+    <View>
+      <View style={styles.calendar}>
+        <View style={styles.monthHeader}>
+          <TouchableOpacity
+            style={styles.monthButton}
+            onPress={() => handleChangeMonth(-1)}
+            accessibilityLabel="Previous month"
+          >
+            <Text style={styles.monthButtonText}>‹</Text>
+          </TouchableOpacity>
+          <Text style={styles.monthTitle}>{formatMonth(month)}</Text>
+          <TouchableOpacity
+            style={styles.monthButton}
+            onPress={() => handleChangeMonth(1)}
+            accessibilityLabel="Next month"
+          >
+            <Text style={styles.monthButtonText}>›</Text>
+          </TouchableOpacity>
+          <TouchableOpacity style={styles.todayButton} onPress={handleToday}>
+            <Text style={styles.todayButtonText}>Today</Text>
+          </TouchableOpacity>
+        </View>
+
+        <View style={styles.week}>
+          {WEEKDAYS.map((weekday) => (
+            <Text key={weekday} style={styles.weekday}>
+              {weekday}
+            </Text>
+          ))}
+        </View>
+
+        {weeks.map((week) => (
+          <View key={getDayKey(week[0])} style={styles.week}>
+            {week.map(renderDay)}
+          </View>
+        ))}
+
+        <View style={styles.option}>
+          <Text style={styles.optionText}>Also show tasks on their start date</Text>
+          <Switch
+            value={includeStartDate}
+            onValueChange={setIncludeStartDate}
+            trackColor={{ true: COLORS.primary, false: COLORS.border }}
+          />
+        </View>
+      </View>
+
+      <View style={styles.dayTitleRow}>
+        <Text style={styles.dayTitle}>
+          {formatDate(parseDayKey(selectedDay).toISOString())} ·{' '}
+          {selectedTasks.length} task{selectedTasks.length !== 1 ? 's' : ''}
+        </Text>
+        <TouchableOpacity
+          style={styles.planButton}
+          onPress={() => navigation.navigate('Planner', { date: selectedDay })}
+        >
+          <Text style={styles.planButtonText}>Plan day ›</Text>
+        </TouchableOpacity>
+      </View>
+    </View>
+  );
+
+  /**
+   * Render task item
+   */
+  const renderTask = ({ item }: { item: Task }) => (
+    <TaskCard
+      task={item}
+      category={getCategory(item.category)}
+      onPress={handleTaskPress}
+      onToggleComplete={handleToggleComplete}
+      onDelete={handleDeleteTask}
+      syncStatus={getSyncStatus(item.id)}
+      dependencies={dependencySummaries[item.id]}
+    />
+  );
+
+  const lastAction = history.past[history.past.length - 1];
+
+  return (
+    <View style={styles.container}>
+      <FlatList
+        contentContainerStyle={styles.listContent}
+        data={selectedTasks}
+        renderItem={renderTask}
+        keyExtractor={(item) => item.id}
+        ListHeaderComponent={renderHeader()}
+        ListEmptyComponent={<Text style={styles.emptyText}>Nothing due this day</Text>}
+      />
+
+      <Snackbar
+        key={toastKey ?? 0}
+        message={toastKey !== null && lastAction ? lastAction.label : null}
+        actionLabel="Undo"
+        onAction={() => {
+          undo();
+          setToastKey(null);
+        }}
+        onHide={handleToastHide}
+      />
+    </View>
+  );
+};
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+    backgroundColor: COLORS.background,
+  },
+  listContent: {
+    paddingBottom: SPACING.xl,
+  },
+  calendar: {
+    backgroundColor: COLORS.surface,
+    paddingHorizontal: SPACING.sm,
+    paddingBottom: SPACING.sm,
+    borderBottomWidth: 1,
+    borderBottomColor: COLORS.border,
+  },
+  monthHeader: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    paddingVertical: SPACING.sm,
+  },
+  monthButton: {
+    paddingHorizontal: SPACING.md,
+    paddingVertical: SPACING.xs,
+  },
+  monthButtonText: {
+    fontSize: FONT_SIZES.xxl,
+    color: COLORS.primary,
+  },
+  monthTitle: {
+    flex: 1,
+    textAlign: 'center',
+    fontSize: FONT_SIZES.lg,
+    fontWeight: FONT_WEIGHTS.semibold,
+    color: COLORS.text,
+  },
+  todayButton: {
+    paddingHorizontal: SPACING.sm,
+    paddingVertical: SPACING.xs,
+    borderRadius: BORDER_RADIUS.sm,
+    backgroundColor: COLORS.background,
+    marginLeft: SPACING.xs,
+  },
+  todayButtonText: {
+    fontSize: FONT_SIZES.sm,
+    fontWeight: FONT_WEIGHTS.medium,
+    color: COLORS.primary,
+  },
+  week: {
+    flexDirection: 'row',
+  },
+  weekday: {
+    flex: 1,
+    textAlign: 'center',
+    fontSize: FONT_SIZES.xs,
+    color: COLORS.textTertiary,
+    paddingVertical: SPACING.xs,
+  },
+  day: {
+    flex: 1,
+    alignItems: 'center',
+    paddingVertical: SPACING.xs,
+    minHeight: 52,
+    borderRadius: BORDER_RADIUS.md,
+  },
+  daySelected: {
+    backgroundColor: COLORS.primary,
+  },
+  dayNumber: {
+    fontSize: FONT_SIZES.md,
+    color: COLORS.text,
+  },
+  dayNumberOutside: {
+    color: COLORS.textTertiary,
+  },
+  dayNumberToday: {
+    fontWeight: FONT_WEIGHTS.bold,
+    color: COLORS.primary,
+  },
+  dayNumberSelected: {
+    color: '#fff',
+  },
+  dots: {
+    flexDirection: 'row',
+    gap: 3,
+    marginTop: SPACING.xs,
+  },
+  dot: {
+    width: 6,
+    height: 6,
+    borderRadius: 3,
+  },
+  moreText: {
+    fontSize: FONT_SIZES.xs,
+    color: COLORS.textSecondary,
+  },
+  option: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'space-between',
+    paddingHorizontal: SPACING.sm,
+    paddingTop: SPACING.sm,
+  },
+  optionText: {
+    fontSize: FONT_SIZES.sm,
+    color: COLORS.textSecondary,
+  },
+  dayTitleRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    paddingHorizontal: SPACING.md,
+    paddingTop: SPACING.md,
+    paddingBottom: SPACING.sm,
+  },
+  dayTitle: {
+    flex: 1,
+    fontSize: FONT_SIZES.md,
+    fontWeight: FONT_WEIGHTS.semibold,
+    color: COLORS.text,
+  },
+  planButton: {
+    paddingHorizontal: SPACING.sm,
+    paddingVertical: SPACING.xs,
+  },
+  planButtonText: {
+    fontSize: FONT_SIZES.sm,
+    fontWeight: FONT_WEIGHTS.medium,
+    color: COLORS.primary,
+  },
+  emptyText: {
+    fontSize: FONT_SIZES.md,
+    color: COLORS.textTertiary,
+    textAlign: 'center',
+    marginTop: SPACING.lg,
+  },
+});
+
+export default CalendarScreen;
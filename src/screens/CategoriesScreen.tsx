@@ -0,0 +1,403 @@
+/**
+ * Categories Screen
+ * 
+ * Lets users manage their own categories.
+ * 
+ * Features:
+ * - List of categories with icon, color and task count
+ * - Add / edit (name, color, icon) via CategoryFormModal
+ * - Reorder with up/down buttons
+ * - Delete, with a prompt to move the category's tasks to another category
+ * 
+ * Integration:
+ * - Uses useCategories hook for category state and operations
+ * - Uses useTasks hook for per-category task counts
+ * - Uses useLists hook: counts only cover the loaded list unless "All Tasks" is active
+ */
+
+import React, { useState, useMemo, useCallback } from 'react';
+import {
+  View,
+  Text,
+  FlatList,
+  TouchableOpacity,
+  StyleSheet,
+  Alert,
+  Modal,
+} from 'react-native';
+import { useCategories } from '../context/CategoryContext';
+import { useTasks } from '../context/TaskContext';
+import { useLists } from '../context/ListContext';
+import { UserCategory } from '../types';
+import { getCategoryCounts } from '../utils/categoryUtils';
+import { getListName } from '../utils/listUtils';
+import CategoryFormModal from '../components/CategoryFormModal';
+import { COLORS, SPACING, FONT_SIZES, BORDER_RADIUS, SHADOWS, FONT_WEIGHTS } from '../theme';
+
+const CategoriesScreen: React.FC = () => {
+  const { categories, addCategory, updateCategory, moveCategory, deleteCategory } =
+    useCategories();
+  const { tasks } = useTasks();
+  const { lists, activeListId } = useLists();
+
+  // Only tasks of the active list are loaded; other lists may use a category too
+  const countsComplete = activeListId === null;
+
+  // Form modal state
+  const [formVisible, setFormVisible] = useState(false);
+  const [editingCategory, setEditingCategory] = useState<UserCategory | null>(null);
+
+  // Category being deleted that still has tasks (drives the reassign modal)
+  const [reassigningCategory, setReassigningCategory] = useState<UserCategory | null>(null);
+
+  const taskCounts = useMemo(() => getCategoryCounts(tasks), [tasks]);
+
+  /**
+   * Names of the other categories (for the uniqueness check)
+   */
+  const otherNames = useMemo(
+    () => categories.filter((c) => c.id !== editingCategory?.id).map((c) => c.name),
+    [categories, editingCategory]
+  );
+
+  /**
+   * Handle add button press
+   */
+  const handleAdd = useCallback(() => {
+    setEditingCategory(null);
+    setFormVisible(true);
+  }, []);
+
+  /**
+   * Handle category row press (edit)
+   */
+  const handleEdit = useCallback((category: UserCategory) => {
+    setEditingCategory(category);
+    setFormVisible(true);
+  }, []);
+
+  /**
+   * Handle form save (create or update)
+   */
+  const handleSave = useCallback(
+    async (data: { name: string; color: string; icon: string }) => {
+      if (editingCategory) {
+        await updateCategory(editingCategory.id, data);
+      } else {
+        await addCategory(data);
+      }
+    },
+    [editingCategory, addCategory, updateCategory]
+  );
+
+  /**
+   * Delete a category, moving its tasks to `reassignTo` first
+   */
+  const performDelete = useCallback(
+    async (category: UserCategory, reassignTo: string | null) => {
+      try {
+        await deleteCategory(category.id, reassignTo);
+      } catch (error: any) {
+        Alert.alert('Error', error.message || 'Failed to delete category');
+      }
+    },
+    [deleteCategory]
+  );
+
+  /**
+   * Handle delete button press
+   * 
+   * Empty categories are deleted after a confirmation; categories with tasks
+   * (or possibly with tasks in lists that are not loaded) open the reassign
+   * picker instead.
+   */
+  const handleDelete = useCallback(
+    (category: UserCategory) => {
+      if (categories.length <= 1) {
+        Alert.alert('Cannot Delete', 'You need at least one category.');
+        return;
+      }
+
+      if (!countsComplete || (taskCounts[category.id] ?? 0) > 0) {
+        setReassigningCategory(category);
+        return;
+      }
+
+      Alert.alert('Delete Category', `Delete "${category.name}"?`, [
+        { text: 'Cancel', style: 'cancel' },
+        {
+          text: 'Delete',
+          style: 'destructive',
+          onPress: () => performDelete(category, null),
+        },
+      ]);
+    },
+    [categories.length, countsComplete, taskCounts, performDelete]
+  );
+
+  /**
+   * Handle reassign target selection
+   */
+  const handleReassign = useCallback(
+    (target: UserCategory) => {
+      const category = reassigningCategory;
+      setReassigningCategory(null);
+      if (category) {
+        performDelete(category, target.id);
+      }
+    },
+    [reassigningCategory, performDelete]
+  );
+
+  /**
+   * Render category row
+   */
+  const renderCategory = useCallback(
+    ({ item, index }: { item: UserCategory; index: number }) => {
+      const count = taskCounts[item.id] ?? 0;
+      const isFirst = index === 0;
+      const isLast = index === categories.length - 1;
+
+      return (
+        <TouchableOpacity
+          style={styles.row}
+          onPress={() => handleEdit(item)}
+          activeOpacity={0.7}
+        >
+          <View style={[styles.iconBadge, { backgroundColor: item.color }]}>
+            <Text style={styles.iconText}>{item.icon}</Text>
+          </View>
+          <View style={styles.rowContent}>
+            <Text style={styles.name}>{item.name}</Text>
+            <Text style={styles.count}>
+              {count} task{count !== 1 ? 's' : ''}
+              {countsComplete ? '' : ` in ${getListName(lists, activeListId)}`}
+            </Text>
+          </View>
+          <TouchableOpacity
+            style={styles.actionButton}
+            onPress={() => moveCategory(item.id, -1)}
+            disabled={isFirst}
+          >
+            <Text style={[styles.actionText, isFirst && styles.actionTextDisabled]}>↑</Text>
+          </TouchableOpacity>
+          <TouchableOpacity
+            style={styles.actionButton}
+            onPress={() => moveCategory(item.id, 1)}
+            disabled={isLast}
+          >
+            <Text style={[styles.actionText, isLast && styles.actionTextDisabled]}>↓</Text>
+          </TouchableOpacity>
+          <TouchableOpacity style={styles.actionButton} onPress={() => handleDelete(item)}>
+            <Text style={styles.deleteIcon}>🗑️</Text>
+          </TouchableOpacity>
+        </TouchableOpacity>
+      );
+    },
+    [
+      taskCounts,
+      categories.length,
+      countsComplete,
+      lists,
+      activeListId,
+      handleEdit,
+      moveCategory,
+      handleDelete,
+    ]
+  );
+
+  const keyExtractor = useCallback((item: UserCategory) => item.id, []);
+
+  const reassignCount = reassigningCategory ? taskCounts[reassigningCategory.id] ?? 0 : 0;
+
+  return (
+    <View style={styles.container}>
+      <FlatList
+        data={categories}
+        renderItem={renderCategory}
+        keyExtractor={keyExtractor}
+        contentContainerStyle={styles.listContent}
+      />
+
+      {/* Floating Action Button */}
+      <TouchableOpacity style={styles.fab} onPress={handleAdd} activeOpacity={0.8}>
+        <Text style={styles.fabIcon}>+</Text>
+      </TouchableOpacity>
+
+      {/* Add/Edit Category Modal */}
+      <CategoryFormModal
+        visible={formVisible}
+        onClose={() => setFormVisible(false)}
+        onSave={handleSave}
+        editCategory={editingCategory}
+        otherNames={otherNames}
+      />
+
+      {/* Reassign Tasks Modal */}
+      <Modal
+        visible={!!reassigningCategory}
+        transparent
+        animationType="fade"
+        onRequestClose={() => setReassigningCategory(null)}
+      >
+        <View style={styles.backdrop}>
+          <View style={styles.dialog}>
+            <Text style={styles.dialogTitle}>Delete "{reassigningCategory?.name}"</Text>
+            <Text style={styles.dialogMessage}>
+              {countsComplete
+                ? `Move its ${reassignCount} task${reassignCount !== 1 ? 's' : ''} to:`
+                : 'Move its tasks (in all lists) to:'}
+            </Text>
+            {categories
+              .filter((c) => c.id !== reassigningCategory?.id)
+              .map((target) => (
+                <TouchableOpacity
+                  key={target.id}
+                  style={styles.dialogOption}
+                  onPress={() => handleReassign(target)}
+                >
+                  <View style={[styles.colorDot, { backgroundColor: target.color }]} />
+                  <Text style={styles.dialogOptionText}>
+                    {target.icon} {target.name}
+                  </Text>
+                </TouchableOpacity>
+              ))}
+            <TouchableOpacity
+              style={styles.dialogCancel}
+              onPress={() => setReassigningCategory(null)}
+            >
+              <Text style={styles.dialogCancelText}>Cancel</Text>
+            </TouchableOpacity>
+          </View>
+        </View>
+      </Modal>
+    </View>
+  );
+};
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+    backgroundColor: COLORS.background,
+  },
+  listContent: {
+    paddingTop: SPACING.md,
+    paddingBottom: SPACING.xxl * 2, // Extra padding for FAB
+  },
+  row: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    backgroundColor: COLORS.surface,
+    borderRadius: BORDER_RADIUS.lg,
+    padding: SPACING.md,
+    marginHorizontal: SPACING.md,
+    marginBottom: SPACING.sm,
+    ...SHADOWS.small,
+  },
+  iconBadge: {
+    width: 40,
+    height: 40,
+    borderRadius: BORDER_RADIUS.round,
+    justifyContent: 'center',
+    alignItems: 'center',
+  },
+  iconText: {
+    fontSize: FONT_SIZES.xl,
+  },
+  rowContent: {
+    flex: 1,
+    marginLeft: SPACING.md,
+  },
+  name: {
+    fontSize: FONT_SIZES.lg,
+    fontWeight: FONT_WEIGHTS.semibold,
+    color: COLORS.text,
+  },
+  count: {
+    fontSize: FONT_SIZES.sm,
+    color: COLORS.textSecondary,
+  },
+  actionButton: {
+    padding: SPACING.xs,
+    marginLeft: SPACING.xs,
+  },
+  actionText: {
+    fontSize: FONT_SIZES.xl,
+    color: COLORS.textSecondary,
+  },
+  actionTextDisabled: {
+    color: COLORS.disabled,
+  },
+  deleteIcon: {
+    fontSize: 20,
+  },
+  fab: {
+    position: 'absolute',
+    right: SPACING.lg,
+    bottom: SPACING.xl,
+    width: 56,
+    height: 56,
+    borderRadius: 28,
+    backgroundColor: COLORS.primary,
+    justifyContent: 'center',
+    alignItems: 'center',
+    ...SHADOWS.large,
+  },
+  fabIcon: {
+    fontSize: 32,
+    color: '#fff',
+    fontWeight: FONT_WEIGHTS.bold,
+    lineHeight: 32,
+  },
+  backdrop: {
+    flex: 1,
+    backgroundColor: COLORS.backdrop,
+    justifyContent: 'center',
+    padding: SPACING.lg,
+  },
+  dialog: {
+    backgroundColor: COLORS.surface,
+    borderRadius: BORDER_RADIUS.lg,
+    padding: SPACING.lg,
+    ...SHADOWS.large,
+  },
+  dialogTitle: {
+    fontSize: FONT_SIZES.xl,
+    fontWeight: FONT_WEIGHTS.bold,
+    color: COLORS.text,
+    marginBottom: SPACING.xs,
+  },
+  dialogMessage: {
+    fontSize: FONT_SIZES.md,
+    color: COLORS.textSecondary,
+    marginBottom: SPACING.md,
+  },
+  dialogOption: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    paddingVertical: SPACING.md,
+    borderBottomWidth: 1,
+    borderBottomColor: COLORS.border,
+  },
+  colorDot: {
+    width: 12,
+    height: 12,
+    borderRadius: BORDER_RADIUS.round,
+    marginRight: SPACING.sm,
+  },
+  dialogOptionText: {
+    fontSize: FONT_SIZES.md,
+    color: COLORS.text,
+  },
+  dialogCancel: {
+    alignItems: 'center',
+    paddingTop: SPACING.md,
+  },
+  dialogCancelText: {
+    fontSize: FONT_SIZES.md,
+    fontWeight: FONT_WEIGHTS.semibold,
+    color: COLORS.textSecondary,
+  },
+});
+
+export default CategoriesScreen;
@@ -0,0 +1,250 @@
+/**
+ * Planner Screen
+ * 
+ * Day or week timeline of the tasks, for time-blocking.
+ * 
+ * Features:
+ * - Day / Week switch; previous / next and "Today" buttons
+ * - Tasks as blocks from their start to their deadline (an hour when the
+ *   deadline is not after the start), overlapping tasks side by side
+ * - All-day lane for whole-day and multi-day tasks
+ * - Long-press and drag a block to reschedule it: start and deadline move
+ *   together, so the task keeps its duration (undoable)
+ * - Tap a day header (week view) to open that day; tap a task to open it
+ * 
+ * Integration:
+ * - Uses useTasks hook for the tasks of the active list and updateTask
+ * - Opened from the calendar with the selected day (route param `date`)
+ */
+
+import React, { useState, useMemo, useCallback } from 'react';
+import { View, Text, TouchableOpacity, StyleSheet, Alert } from 'react-native';
+import { NativeStackNavigationProp } from '@react-navigation/native-stack';
+import { RouteProp } from '@react-navigation/native';
+import { useTasks } from '../context/TaskContext';
+import { AppStackParamList } from '../navigation/types';
+import { Task } from '../types';
+import { getDayKey, parseDayKey, getWeekDays, formatDate } from '../utils/dateUtils';
+import { layoutDayTimeline, getRescheduleUpdates } from '../utils/timelineUtils';
+import TimelineGrid from '../components/TimelineGrid';
+import Snackbar from '../components/Snackbar';
+import { COLORS, SPACING, FONT_SIZES, BORDER_RADIUS, FONT_WEIGHTS } from '../theme';
+
+type PlannerNavigationProp = NativeStackNavigationProp<AppStackParamList, 'Planner'>;
+type PlannerRouteProp = RouteProp<AppStackParamList, 'Planner'>;
+
+interface Props {
+  navigation: PlannerNavigationProp;
+  route: PlannerRouteProp;
+}
+
+type PlannerMode = 'day' | 'week';
+
+const PlannerScreen: React.FC<Props> = ({ navigation, route }) => {
+  const { tasks, updateTask, history, undo } = useTasks();
+
+  // Shown day (any day of the shown week in week mode)
+  const [day, setDay] = useState(() => parseDayKey(route.params?.date ?? getDayKey(new Date())));
+  const [mode, setMode] = useState<PlannerMode>('day');
+
+  // Undo toast after a move (key restarts its timer)
+  const [toastKey, setToastKey] = useState<number | null>(null);
+
+  const days = useMemo(() => (mode === 'day' ? [day] : getWeekDays(day)), [mode, day]);
+
+  /**
+   * Laid-out tasks for each shown day
+   */
+  const timelines = useMemo(
+    () => days.map((shownDay) => layoutDayTimeline(tasks, shownDay)),
+    [tasks, days]
+  );
+
+  /**
+   * Move by a day or a week
+   */
+  const handleShift = useCallback(
+    (direction: number) => {
+      const step = mode === 'day' ? 1 : 7;
+      setDay(
+        (current) =>
+          new Date(current.getFullYear(), current.getMonth(), current.getDate() + direction * step)
+      );
+    },
+    [mode]
+  );
+
+  /**
+   * Open a day of the week view
+   */
+  const handleDayPress = useCallback((pressed: Date) => {
+    setDay(pressed);
+    setMode('day');
+  }, []);
+
+  /**
+   * Handle task press (open task details)
+   */
+  const handleTaskPress = useCallback(
+    (task: Task) => {
+      navigation.navigate('TaskDetail', { taskId: task.id });
+    },
+    [navigation]
+  );
+
+  /**
+   * Reschedule a dropped task (start and deadline move together)
+   */
+  const handleTaskMove = useCallback(
+    async (task: Task, start: Date) => {
+      try {
+        await updateTask(task.id, getRescheduleUpdates(task, start));
+        setToastKey((current) => (current ?? 0) + 1);
+      } catch (error: any) {
+        Alert.alert('Error', error.message || 'Failed to reschedule task');
+      }
+    },
+    [updateTask]
+  );
+
+  /**
+   * Handle toast timeout
+   */
+  const handleToastHide = useCallback(() => {
+    setToastKey(null);
+  }, []);
+
+  const title =
+    mode === 'day'
+      ? formatDate(day.toISOString())
+      : `${formatDate(days[0].toISOString())} – ${formatDate(days[6].toISOString())}`;
+  const lastAction = history.past[history.past.length - 1];
+
+  return (
+    <View style={styles.container}>
+      <View style={styles.toolbar}>
+        <TouchableOpacity
+          style={styles.navButton}
+          onPress={() => handleShift(-1)}
+          accessibilityLabel={mode === 'day' ? 'Previous day' : 'Previous week'}
+        >
+          <Text style={styles.navButtonText}>‹</Text>
+        </TouchableOpacity>
+        <Text style={styles.title} numberOfLines={1}>
+          {title}
+        </Text>
+        <TouchableOpacity
+          style={styles.navButton}
+          onPress={() => handleShift(1)}
+          accessibilityLabel={mode === 'day' ? 'Next day' : 'Next week'}
+        >
+          <Text style={styles.navButtonText}>›</Text>
+        </TouchableOpacity>
+      </View>
+
+      <View style={styles.toolbar}>
+        <View style={styles.modeSwitch}>
+          {(['day', 'week'] as const).map((option) => (
+            <TouchableOpacity
+              key={option}
+              style={[styles.modeButton, mode === option && styles.modeButtonActive]}
+              onPress={() => setMode(option)}
+            >
+              <Text style={[styles.modeText, mode === option && styles.modeTextActive]}>
+                {option === 'day' ? 'Day' : 'Week'}
+              </Text>
+            </TouchableOpacity>
+          ))}
+        </View>
+        <TouchableOpacity
+          style={styles.todayButton}
+          onPress={() => setDay(parseDayKey(getDayKey(new Date())))}
+        >
+          <Text style={styles.todayText}>Today</Text>
+        </TouchableOpacity>
+      </View>
+
+      <TimelineGrid
+        days={days}
+        timelines={timelines}
+        onTaskPress={handleTaskPress}
+        onTaskMove={handleTaskMove}
+        onDayPress={handleDayPress}
+      />
+
+      <Snackbar
+        key={toastKey ?? 0}
+        message={toastKey !== null && lastAction ? lastAction.label : null}
+        actionLabel="Undo"
+        onAction={() => {
+          undo();
+          setToastKey(null);
+        }}
+        onHide={handleToastHide}
+      />
+    </View>
+  );
+};
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+    backgroundColor: COLORS.background,
+  },
+  toolbar: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'space-between',
+    paddingHorizontal: SPACING.md,
+    paddingVertical: SPACING.xs,
+    backgroundColor: COLORS.surface,
+  },
+  navButton: {
+    paddingHorizontal: SPACING.md,
+    paddingVertical: SPACING.xs,
+  },
+  navButtonText: {
+    fontSize: FONT_SIZES.xxl,
+    color: COLORS.primary,
+  },
+  title: {
+    flex: 1,
+    textAlign: 'center',
+    fontSize: FONT_SIZES.lg,
+    fontWeight: FONT_WEIGHTS.semibold,
+    color: COLORS.text,
+  },
+  modeSwitch: {
+    flexDirection: 'row',
+    borderRadius: BORDER_RADIUS.md,
+    backgroundColor: COLORS.background,
+    padding: 2,
+  },
+  modeButton: {
+    paddingHorizontal: SPACING.md,
+    paddingVertical: SPACING.xs,
+    borderRadius: BORDER_RADIUS.md,
+  },
+  modeButtonActive: {
+    backgroundColor: COLORS.primary,
+  },
+  modeText: {
+    fontSize: FONT_SIZES.sm,
+    fontWeight: FONT_WEIGHTS.medium,
+    color: COLORS.text,
+  },
+  modeTextActive: {
+    color: '#fff',
+  },
+  todayButton: {
+    paddingHorizontal: SPACING.sm,
+    paddingVertical: SPACING.xs,
+  },
+  todayText: {
+    fontSize: FONT_SIZES.sm,
+    fontWeight: FONT_WEIGHTS.medium,
+    color: COLORS.primary,
+  },
+});
+
+export default PlannerScreen;
@@ -0,0 +1,417 @@
+/**
+ * Scoring Settings Screen
+ * 
+ * Tunes the weights and thresholds behind the smart sort order.
+ * 
+ * Features:
+ * - Priority weights (High / Medium / Low)
+ * - Overdue bonus and urgency thresholds ("due within 72h: +500")
+ * - Deadline penalty cap and checklist progress bonus
+ * - Live preview: the current list re-ordered with the edited weights,
+ *   with each task's score and how far it moved
+ * - Validation (numbers, zero or more, thresholds increasing)
+ * - Reset to the default weights; Save stores them for the user on this device
+ * 
+ * Integration:
+ * - Uses useViews hook for the saved scoring config
+ * - Uses useTasks hook for the tasks shown in the preview
+ */
+
+import React, { useMemo, useState } from 'react';
+import {
+  View,
+  Text,
+  TextInput,
+  TouchableOpacity,
+  ScrollView,
+  StyleSheet,
+  Alert,
+} from 'react-native';
+import { useNavigation } from '@react-navigation/native';
+import { useTasks } from '../context/TaskContext';
+import { useViews } from '../context/ViewContext';
+import { Priority, ScoringConfig } from '../types';
+import {
+  DEFAULT_SCORING_CONFIG,
+  calculateTaskScore,
+  sortTasksByPriority,
+} from '../utils/taskUtils';
+import { validateScoringConfig } from '../utils/validators';
+import { COLORS, SPACING, FONT_SIZES, BORDER_RADIUS, SHADOWS, FONT_WEIGHTS } from '../theme';
+
+/**
+ * Number of tasks shown in the preview
+ */
+const PREVIEW_LIMIT = 10;
+
+const PRIORITY_LABELS: Array<{ priority: Priority; label: string }> = [
+  { priority: Priority.HIGH, label: 'High' },
+  { priority: Priority.MEDIUM, label: 'Medium' },
+  { priority: Priority.LOW, label: 'Low' },
+];
+
+/**
+ * Editable text for every number in a scoring config
+ */
+interface ScoringDraft {
+  priorityWeights: Record<Priority, string>;
+  overdueBonus: string;
+  urgencyThresholds: Array<{ hours: string; bonus: string }>;
+  maxDeadlinePenalty: string;
+  subtaskProgressWeight: string;
+}
+
+const toDraft = (config: ScoringConfig): ScoringDraft => ({
+  priorityWeights: {
+    [Priority.HIGH]: String(config.priorityWeights[Priority.HIGH]),
+    [Priority.MEDIUM]: String(config.priorityWeights[Priority.MEDIUM]),
+    [Priority.LOW]: String(config.priorityWeights[Priority.LOW]),
+  },
+  overdueBonus: String(config.overdueBonus),
+  urgencyThresholds: config.urgencyThresholds.map((t) => ({
+    hours: String(t.hours),
+    bonus: String(t.bonus),
+  })),
+  maxDeadlinePenalty: String(config.maxDeadlinePenalty),
+  subtaskProgressWeight: String(config.subtaskProgressWeight),
+});
+
+// Empty fields parse to NaN so validation reports them
+const toNumber = (text: string): number => (text.trim() === '' ? NaN : Number(text));
+
+const fromDraft = (draft: ScoringDraft): ScoringConfig => ({
+  priorityWeights: {
+    [Priority.HIGH]: toNumber(draft.priorityWeights[Priority.HIGH]),
+    [Priority.MEDIUM]: toNumber(draft.priorityWeights[Priority.MEDIUM]),
+    [Priority.LOW]: toNumber(draft.priorityWeights[Priority.LOW]),
+  },
+  overdueBonus: toNumber(draft.overdueBonus),
+  urgencyThresholds: draft.urgencyThresholds.map((t) => ({
+    hours: toNumber(t.hours),
+    bonus: toNumber(t.bonus),
+  })),
+  maxDeadlinePenalty: toNumber(draft.maxDeadlinePenalty),
+  subtaskProgressWeight: toNumber(draft.subtaskProgressWeight),
+});
+
+const ScoringSettingsScreen: React.FC = () => {
+  const { tasks } = useTasks();
+  const { scoringConfig, setScoringConfig } = useViews();
+  const navigation = useNavigation();
+
+  const [draft, setDraft] = useState<ScoringDraft>(() => toDraft(scoringConfig));
+
+  const draftConfig = useMemo(() => fromDraft(draft), [draft]);
+  const error = validateScoringConfig(draftConfig);
+  const hasChanges = JSON.stringify(draftConfig) !== JSON.stringify(scoringConfig);
+
+  /**
+   * Preview: open tasks in the edited order, with their rank change
+   * (shown with the saved weights while the draft is invalid)
+   */
+  const preview = useMemo(() => {
+    const openTasks = tasks.filter((task) => !task.completed);
+    const config = error ? scoringConfig : draftConfig;
+    const savedRanks = new Map(
+      sortTasksByPriority(openTasks, scoringConfig).map((task, index) => [task.id, index])
+    );
+
+    return sortTasksByPriority(openTasks, config)
+      .slice(0, PREVIEW_LIMIT)
+      .map((task, index) => ({
+        task,
+        score: Math.round(calculateTaskScore(task, config)),
+        moved: (savedRanks.get(task.id) ?? index) - index,
+      }));
+  }, [tasks, scoringConfig, draftConfig, error]);
+
+  /**
+   * Update one threshold field
+   */
+  const handleThresholdChange = (index: number, field: 'hours' | 'bonus', text: string) => {
+    setDraft((current) => ({
+      ...current,
+      urgencyThresholds: current.urgencyThresholds.map((t, i) =>
+        i === index ? { ...t, [field]: text } : t
+      ),
+    }));
+  };
+
+  /**
+   * Restore the default weights (saved only when Save is pressed)
+   */
+  const handleReset = () => {
+    setDraft(toDraft(DEFAULT_SCORING_CONFIG));
+  };
+
+  /**
+   * Save the weights and return to the list
+   */
+  const handleSave = () => {
+    if (error) {
+      Alert.alert('Invalid weights', error);
+      return;
+    }
+    setScoringConfig(draftConfig);
+    navigation.goBack();
+  };
+
+  /**
+   * Render a labelled number input
+   */
+  const renderField = (
+    label: string,
+    value: string,
+    onChangeText: (text: string) => void,
+    suffix?: string
+  ) => (
+    <View key={label} style={styles.field}>
+      <Text style={styles.fieldLabel}>{label}</Text>
+      <TextInput
+        style={styles.input}
+        value={value}
+        onChangeText={onChangeText}
+        keyboardType="numeric"
+        selectTextOnFocus
+        accessibilityLabel={label}
+      />
+      {suffix && <Text style={styles.suffix}>{suffix}</Text>}
+    </View>
+  );
+
+  return (
+    <ScrollView style={styles.container} contentContainerStyle={styles.content}>
+      {/* Priority weights */}
+      <View style={styles.section}>
+        <Text style={styles.sectionTitle}>Priority weights</Text>
+        {PRIORITY_LABELS.map(({ priority, label }) =>
+          renderField(label, draft.priorityWeights[priority], (text) =>
+            setDraft((current) => ({
+              ...current,
+              priorityWeights: { ...current.priorityWeights, [priority]: text },
+            }))
+          )
+        )}
+      </View>
+
+      {/* Urgency */}
+      <View style={styles.section}>
+        <Text style={styles.sectionTitle}>Urgency bonuses</Text>
+        {renderField('Overdue', draft.overdueBonus, (text) =>
+          setDraft((current) => ({ ...current, overdueBonus: text }))
+        )}
+        {draft.urgencyThresholds.map((threshold, index) => (
+          <View key={index} style={styles.field}>
+            <Text style={styles.fieldLabel}>Due within</Text>
+            <TextInput
+              style={styles.input}
+              value={threshold.hours}
+              onChangeText={(text) => handleThresholdChange(index, 'hours', text)}
+              keyboardType="numeric"
+              selectTextOnFocus
+              accessibilityLabel={`Threshold ${index + 1} hours`}
+            />
+            <Text style={styles.suffix}>h</Text>
+            <Text style={styles.plus}>+</Text>
+            <TextInput
+              style={styles.input}
+              value={threshold.bonus}
+              onChangeText={(text) => handleThresholdChange(index, 'bonus', text)}
+              keyboardType="numeric"
+              selectTextOnFocus
+              accessibilityLabel={`Threshold ${index + 1} bonus`}
+            />
+          </View>
+        ))}
+        <Text style={styles.hint}>The first threshold a deadline falls within applies</Text>
+      </View>
+
+      {/* Deadline and checklist */}
+      <View style={styles.section}>
+        <Text style={styles.sectionTitle}>Other factors</Text>
+        {renderField(
+          'Hours-left penalty cap',
+          draft.maxDeadlinePenalty,
+          (text) => setDraft((current) => ({ ...current, maxDeadlinePenalty: text })),
+          'h'
+        )}
+        {renderField('Full checklist bonus', draft.subtaskProgressWeight, (text) =>
+          setDraft((current) => ({ ...current, subtaskProgressWeight: text }))
+        )}
+        <Text style={styles.hint}>
+          Each hour until the deadline subtracts one point, up to the cap
+        </Text>
+      </View>
+
+      {error && <Text style={styles.errorText}>{error}</Text>}
+
+      {/* Actions */}
+      <View style={styles.actions}>
+        <TouchableOpacity style={styles.resetButton} onPress={handleReset}>
+          <Text style={styles.resetButtonText}>Reset to defaults</Text>
+        </TouchableOpacity>
+        <TouchableOpacity
+          style={[styles.saveButton, (!hasChanges || !!error) && styles.saveButtonDisabled]}
+          onPress={handleSave}
+          disabled={!hasChanges || !!error}
+        >
+          <Text style={styles.saveButtonText}>Save</Text>
+        </TouchableOpacity>
+      </View>
+
+      {/* Live preview */}
+      <View style={styles.section}>
+        <Text style={styles.sectionTitle}>Preview</Text>
+        {preview.length === 0 ? (
+          <Text style={styles.hint}>No open tasks in this list</Text>
+        ) : (
+          preview.map(({ task, score, moved }, index) => (
+            <View key={task.id} style={styles.previewRow}>
+              <Text style={styles.previewRank}>{index + 1}</Text>
+              <Text style={styles.previewTitle} numberOfLines={1}>
+                {task.title}
+              </Text>
+              <Text style={styles.previewScore}>{score}</Text>
+              <Text
+                style={[
+                  styles.previewMoved,
+                  moved > 0 && styles.previewMovedUp,
+                  moved < 0 && styles.previewMovedDown,
+                ]}
+              >
+                {moved > 0 ? `↑${moved}` : moved < 0 ? `↓${-moved}` : '–'}
+              </Text>
+            </View>
+          ))
+        )}
+      </View>
+    </ScrollView>
+  );
+};
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+    backgroundColor: COLORS.background,
+  },
+  content: {
+    padding: SPACING.md,
+    paddingBottom: SPACING.xl,
+  },
+  section: {
+    backgroundColor: COLORS.surface,
+    borderRadius: BORDER_RADIUS.lg,
+    padding: SPACING.md,
+    marginBottom: SPACING.md,
+    ...SHADOWS.small,
+  },
+  sectionTitle: {
+    fontSize: FONT_SIZES.md,
+    fontWeight: FONT_WEIGHTS.semibold,
+    color: COLORS.text,
+    marginBottom: SPACING.sm,
+  },
+  field: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    marginBottom: SPACING.sm,
+  },
+  fieldLabel: {
+    flex: 1,
+    fontSize: FONT_SIZES.md,
+    color: COLORS.text,
+  },
+  input: {
+    width: 72,
+    borderWidth: 1,
+    borderColor: COLORS.border,
+    borderRadius: BORDER_RADIUS.md,
+    paddingHorizontal: SPACING.sm,
+    paddingVertical: SPACING.xs,
+    fontSize: FONT_SIZES.md,
+    color: COLORS.text,
+    textAlign: 'right',
+  },
+  suffix: {
+    width: 16,
+    marginLeft: SPACING.xs,
+    fontSize: FONT_SIZES.sm,
+    color: COLORS.textSecondary,
+  },
+  plus: {
+    marginHorizontal: SPACING.sm,
+    fontSize: FONT_SIZES.md,
+    color: COLORS.textSecondary,
+  },
+  hint: {
+    fontSize: FONT_SIZES.xs,
+    color: COLORS.textTertiary,
+  },
+  errorText: {
+    fontSize: FONT_SIZES.sm,
+    color: COLORS.error,
+    marginBottom: SPACING.md,
+  },
+  actions: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'space-between',
+    marginBottom: SPACING.md,
+  },
+  resetButton: {
+    paddingVertical: SPACING.sm,
+  },
+  resetButtonText: {
+    fontSize: FONT_SIZES.md,
+    color: COLORS.primary,
+  },
+  saveButton: {
+    backgroundColor: COLORS.primary,
+    borderRadius: BORDER_RADIUS.md,
+    paddingHorizontal: SPACING.lg,
+    paddingVertical: SPACING.sm,
+  },
+  saveButtonDisabled: {
+    backgroundColor: COLORS.disabled,
+  },
+  saveButtonText: {
+    fontSize: FONT_SIZES.md,
+    fontWeight: FONT_WEIGHTS.semibold,
+    color: '#fff',
+  },
+  previewRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    paddingVertical: SPACING.xs,
+  },
+  previewRank: {
+    width: 24,
+    fontSize: FONT_SIZES.sm,
+    color: COLORS.textTertiary,
+  },
+  previewTitle: {
+    flex: 1,
+    fontSize: FONT_SIZES.md,
+    color: COLORS.text,
+  },
+  previewScore: {
+    width: 56,
+    textAlign: 'right',
+    fontSize: FONT_SIZES.sm,
+    color: COLORS.textSecondary,
+  },
+  previewMoved: {
+    width: 36,
+    textAlign: 'right',
+    fontSize: FONT_SIZES.sm,
+    color: COLORS.textTertiary,
+  },
+  previewMovedUp: {
+    color: COLORS.success,
+  },
+  previewMovedDown: {
+    color: COLORS.error,
+  },
+});
+
+export default ScoringSettingsScreen;
@@ -0,0 +1,779 @@
+/**
+ * Task Detail Screen
+ * 
+ * Everything about a single task, reachable from a task card or a deep link
+ * (todoapp://task/<id>).
+ * 
+ * Features:
+ * - Full description, dates (start, deadline, created, updated), priority,
+ *   category, list, tags, repeat rule and reminders
+ * - Workflow status with buttons for the statuses it can move to
+ * - "Blocked by" links: add (no cycles), remove, open; warnings for
+ *   prerequisites due after the task and for links to deleted tasks; the
+ *   tasks it blocks
+ * - Subtask checklist (toggle items)
+ * - Change history timeline
+ * - Actions: Edit, Pin/Unpin (open tasks), Complete/Reopen, Move to Trash (or
+ *   Restore / Delete Forever for a trashed task); moving a task others wait
+ *   for to the trash asks whether to remove those links
+ * - Not-found state for missing tasks and tasks of other users
+ * 
+ * Integration:
+ * - Uses useTasks hook: loaded tasks update live; tasks outside the loaded
+ *   list are fetched (and fetched again whenever one of their writes settles)
+ * - Uses useAuth hook to hide tasks that belong to another user
+ * - Uses useCategories / useLists hooks for names and the edit form
+ * - Uses useConfirmTrash hook for "Move to Trash" (asks about dependent tasks)
+ */
+
+import React, { useState, useEffect, useMemo, useCallback } from 'react';
+import {
+  View,
+  Text,
+  ScrollView,
+  TouchableOpacity,
+  ActivityIndicator,
+  StyleSheet,
+  Alert,
+} from 'react-native';
+import { NativeStackNavigationProp } from '@react-navigation/native-stack';
+import { RouteProp } from '@react-navigation/native';
+import { useTasks } from '../context/TaskContext';
+import { useAuth } from '../context/AuthContext';
+import { useCategories } from '../context/CategoryContext';
+import { useLists } from '../context/ListContext';
+import { useConfirmTrash } from '../hooks/useConfirmTrash';
+import { AppStackParamList } from '../navigation/types';
+import { Task, Priority, CreateTaskPayload } from '../types';
+import { formatDateTime, isOverdue, getTimeRemainingText } from '../utils/dateUtils';
+import { getSubtaskProgress, sortSubtasks, toggleSubtask } from '../utils/subtaskUtils';
+import { describeRecurrence } from '../utils/recurrenceUtils';
+import { describeReminder } from '../utils/reminderUtils';
+import { STATUS_LABELS, STATUS_COLORS, STATUS_TRANSITIONS } from '../utils/statusUtils';
+import {
+  getPrerequisites,
+  getDanglingLinks,
+  getDeadlineConflicts,
+  getDependents,
+} from '../utils/dependencyUtils';
+import { getListName, DEFAULT_LIST_ID } from '../utils/listUtils';
+import { getAllTags } from '../utils/tagUtils';
+import ChangeHistory from '../components/ChangeHistory';
+import AddTaskModal from '../components/AddTaskModal';
+import PrerequisitePickerModal from '../components/PrerequisitePickerModal';
+import { COLORS, SPACING, FONT_SIZES, BORDER_RADIUS, SHADOWS, FONT_WEIGHTS } from '../theme';
+
+type TaskDetailNavigationProp = NativeStackNavigationProp<AppStackParamList, 'TaskDetail'>;
+type TaskDetailRouteProp = RouteProp<AppStackParamList, 'TaskDetail'>;
+
+interface Props {
+  navigation: TaskDetailNavigationProp;
+  route: TaskDetailRouteProp;
+}
+
+/**
+ * Fetch state for tasks that are not loaded in TaskContext
+ */
+type FetchState =
+  | { status: 'loading' }
+  | { status: 'loaded'; task: Task | null }
+  | { status: 'error'; message: string };
+
+const PRIORITY_COLORS: Record<Priority, string> = {
+  [Priority.HIGH]: COLORS.priorityHigh,
+  [Priority.MEDIUM]: COLORS.priorityMedium,
+  [Priority.LOW]: COLORS.priorityLow,
+};
+
+const TaskDetailScreen: React.FC<Props> = ({ navigation, route }) => {
+  const { taskId } = route.params;
+  const {
+    tasks,
+    trashedTasks,
+    pendingWrites,
+    loading,
+    updateTask,
+    restoreTask,
+    permanentlyDeleteTask,
+    toggleTaskCompletion,
+    setTaskStatus,
+    addPrerequisite,
+    removePrerequisite,
+    setTaskPinned,
+    getTask,
+    getTaskHistory,
+  } = useTasks();
+  const { user } = useAuth();
+  const { categories, getCategory } = useCategories();
+  const { lists } = useLists();
+
+  const [fetchState, setFetchState] = useState<FetchState>({ status: 'loading' });
+  const [editing, setEditing] = useState(false);
+  const [pickingPrerequisite, setPickingPrerequisite] = useState(false);
+
+  /**
+   * The task as loaded in TaskContext (live), if it is in the loaded list
+   */
+  const loadedTask = useMemo(
+    () => [...tasks, ...trashedTasks].find((task) => task.id === taskId),
+    [tasks, trashedTasks, taskId]
+  );
+
+  /**
+   * Changes whenever one of the task's queued writes is added or settles
+   */
+  const writesKey = useMemo(
+    () =>
+      pendingWrites
+        .filter((write) => write.taskId === taskId)
+        .map((write) => `${write.id}:${write.status}`)
+        .join(','),
+    [pendingWrites, taskId]
+  );
+
+  /**
+   * Fetch the task when it is not in the loaded list
+   */
+  useEffect(() => {
+    if (loadedTask || loading) {
+      return;
+    }
+
+    let active = true;
+    getTask(taskId)
+      .then((task) => {
+        if (active) {
+          setFetchState({ status: 'loaded', task });
+        }
+      })
+      .catch((error: any) => {
+        if (active) {
+          setFetchState({ status: 'error', message: error.message || 'Failed to load the task' });
+        }
+      });
+
+    return () => {
+      active = false;
+    };
+  }, [loadedTask, loading, taskId, writesKey, getTask]);
+
+  const fetchedTask = fetchState.status === 'loaded' ? fetchState.task : null;
+  const candidate = loadedTask ?? fetchedTask;
+
+  // Tasks of other users are treated as missing
+  const task = candidate && user && candidate.userId === user.uid ? candidate : null;
+
+  /**
+   * Show the task title in the header
+   */
+  useEffect(() => {
+    navigation.setOptions({ title: task ? task.title : 'Task' });
+  }, [navigation, task]);
+
+  /**
+   * Run an action and report failures
+   */
+  const runAction = useCallback(async (action: () => Promise<void>, failure: string) => {
+    try {
+      await action();
+    } catch (error: any) {
+      Alert.alert('Error', error.message || failure);
+    }
+  }, []);
+
+  /**
+   * Handle edit form save
+   */
+  const handleSave = useCallback(
+    async (taskData: CreateTaskPayload) => {
+      if (task) {
+        await updateTask(task.id, taskData);
+      }
+    },
+    [task, updateTask]
+  );
+
+  /**
+   * Handle "Move to Trash" (the task stays viewable, with Restore)
+   * Asks first what to do with the links of tasks waiting for it
+   */
+  const confirmTrash = useConfirmTrash();
+  const handleTrash = useCallback(() => {
+    if (task) {
+      confirmTrash(task.id);
+    }
+  }, [task, confirmTrash]);
+
+  /**
+   * Handle "Delete Forever" (with confirmation), then leave the screen
+   */
+  const handleDeleteForever = useCallback(() => {
+    if (!task) {
+      return;
+    }
+
+    Alert.alert('Delete Forever', `"${task.title}" will be deleted permanently.`, [
+      { text: 'Cancel', style: 'cancel' },
+      {
+        text: 'Delete',
+        style: 'destructive',
+        onPress: () =>
+          runAction(async () => {
+            await permanentlyDeleteTask(task.id);
+            navigation.goBack();
+          }, 'Failed to delete task'),
+      },
+    ]);
+  }, [task, permanentlyDeleteTask, navigation, runAction]);
+
+  const allTags = useMemo(() => getAllTags(tasks), [tasks]);
+
+  if (!task && (loading || (!loadedTask && fetchState.status === 'loading'))) {
+    return (
+      <View style={styles.centered}>
+        <ActivityIndicator size="large" color={COLORS.primary} />
+      </View>
+    );
+  }
+
+  if (!task) {
+    const message =
+      fetchState.status === 'error'
+        ? fetchState.message
+        : 'This task does not exist or was deleted permanently.';
+
+    return (
+      <View style={styles.centered}>
+        <Text style={styles.notFoundEmoji}>🔍</Text>
+        <Text style={styles.notFoundTitle}>Task not found</Text>
+        <Text style={styles.notFoundMessage}>{message}</Text>
+        <TouchableOpacity
+          style={styles.primaryButton}
+          onPress={() =>
+            navigation.canGoBack() ? navigation.goBack() : navigation.navigate('TaskList')
+          }
+        >
+          <Text style={styles.primaryButtonText}>Back to Tasks</Text>
+        </TouchableOpacity>
+      </View>
+    );
+  }
+
+  const category = getCategory(task.category);
+  const progress = getSubtaskProgress(task.subtasks);
+  const overdue = isOverdue(task.deadline, task.completed);
+  const trashed = task.deletedAt !== null;
+  const prerequisites = getPrerequisites(task, tasks);
+  const danglingLinks = getDanglingLinks(task, tasks);
+  const deadlineConflicts = getDeadlineConflicts(task, tasks);
+  const dependents = getDependents(task.id, tasks);
+
+  return (
+    <View style={styles.container}>
+      <ScrollView contentContainerStyle={styles.content}>
+        {/* Title and badges */}
+        <View style={[styles.card, { borderLeftColor: PRIORITY_COLORS[task.priority] }]}>
+          <Text style={[styles.title, task.completed && styles.titleCompleted]}>{task.title}</Text>
+          <View style={styles.badgeRow}>
+            <View style={[styles.badge, { backgroundColor: PRIORITY_COLORS[task.priority] }]}>
+              <Text style={styles.badgeText}>{task.priority.toUpperCase()}</Text>
+            </View>
+            <View style={[styles.badge, { backgroundColor: category.color }]}>
+              <Text style={styles.badgeText}>
+                {category.icon} {category.name}
+              </Text>
+            </View>
+            <Text style={styles.listName}>📁 {getListName(lists, task.listId)}</Text>
+          </View>
+          <Text style={[styles.status, overdue && styles.statusOverdue]}>
+            {trashed
+              ? `In the trash since ${formatDateTime(task.deletedAt as string)}`
+              : task.status === 'cancelled'
+              ? '✕ Cancelled'
+              : task.completed
+              ? '✓ Completed'
+              : overdue
+              ? '⚠️ Overdue'
+              : getTimeRemainingText(task.deadline)}
+          </Text>
+        </View>
+
+        {/* Workflow status */}
+        <View style={styles.section}>
+          <Text style={styles.sectionTitle}>Status</Text>
+          <View style={styles.tagRow}>
+            <View style={[styles.statusPill, { backgroundColor: STATUS_COLORS[task.status] }]}>
+              <Text style={styles.badgeText}>{STATUS_LABELS[task.status]}</Text>
+            </View>
+          </View>
+          {!trashed && (
+            <View style={styles.tagRow}>
+              {STATUS_TRANSITIONS[task.status].map((status) => (
+                <TouchableOpacity
+                  key={status}
+                  style={[styles.statusButton, { borderColor: STATUS_COLORS[status] }]}
+                  onPress={() =>
+                    runAction(() => setTaskStatus(task.id, status), 'Failed to update task')
+                  }
+                >
+                  <Text style={[styles.statusButtonText, { color: STATUS_COLORS[status] }]}>
+                    → {STATUS_LABELS[status]}
+                  </Text>
+                </TouchableOpacity>
+              ))}
+            </View>
+          )}
+        </View>
+
+        {/* Dependencies */}
+        <View style={styles.section}>
+          <Text style={styles.sectionTitle}>Blocked By</Text>
+          {prerequisites.map((prerequisite) => (
+            <View key={prerequisite.id} style={styles.linkRow}>
+              <TouchableOpacity
+                style={styles.linkInfo}
+                onPress={() => navigation.push('TaskDetail', { taskId: prerequisite.id })}
+              >
+                <Text style={[styles.body, prerequisite.completed && styles.subtaskCompleted]}>
+                  {prerequisite.completed ? '✓' : '⛔'} {prerequisite.title}
+                </Text>
+                {deadlineConflicts.includes(prerequisite) && (
+                  <Text style={styles.linkWarning}>
+                    ⚠️ Due {formatDateTime(prerequisite.deadline)}, after this task
+                  </Text>
+                )}
+              </TouchableOpacity>
+              {!trashed && (
+                <TouchableOpacity
+                  onPress={() =>
+                    runAction(
+                      () => removePrerequisite(task.id, prerequisite.id),
+                      'Failed to update task'
+                    )
+                  }
+                  hitSlop={{ top: 8, bottom: 8, left: 8, right: 8 }}
+                >
+                  <Text style={styles.linkRemove}>✕</Text>
+                </TouchableOpacity>
+              )}
+            </View>
+          ))}
+          {danglingLinks.map((prerequisiteId) => (
+            <View key={prerequisiteId} style={styles.linkRow}>
+              <Text style={[styles.placeholder, styles.linkInfo]}>
+                Deleted task or task in another list
+              </Text>
+              {!trashed && (
+                <TouchableOpacity
+                  onPress={() =>
+                    runAction(
+                      () => removePrerequisite(task.id, prerequisiteId),
+                      'Failed to update task'
+                    )
+                  }
+                  hitSlop={{ top: 8, bottom: 8, left: 8, right: 8 }}
+                >
+                  <Text style={styles.linkRemove}>✕</Text>
+                </TouchableOpacity>
+              )}
+            </View>
+          ))}
+          {task.blockedBy.length === 0 && (
+            <Text style={styles.placeholder}>Not waiting for other tasks</Text>
+          )}
+          {!trashed && !task.completed && (
+            <TouchableOpacity onPress={() => setPickingPrerequisite(true)}>
+              <Text style={styles.linkAdd}>+ Add a task it waits for</Text>
+            </TouchableOpacity>
+          )}
+
+          {dependents.length > 0 && (
+            <>
+              <Text style={[styles.sectionTitle, styles.linkHeading]}>Blocks</Text>
+              {dependents.map((dependent) => (
+                <TouchableOpacity
+                  key={dependent.id}
+                  style={styles.linkRow}
+                  onPress={() => navigation.push('TaskDetail', { taskId: dependent.id })}
+                >
+                  <Text style={[styles.body, dependent.completed && styles.subtaskCompleted]}>
+                    {dependent.title}
+                  </Text>
+                </TouchableOpacity>
+              ))}
+            </>
+          )}
+        </View>
+
+        {/* Description */}
+        <View style={styles.section}>
+          <Text style={styles.sectionTitle}>Description</Text>
+          <Text style={task.description ? styles.body : styles.placeholder}>
+            {task.description || 'No description'}
+          </Text>
+        </View>
+
+        {/* Dates */}
+        <View style={styles.section}>
+          <Text style={styles.sectionTitle}>Dates</Text>
+          <Text style={styles.body}>Starts: {formatDateTime(task.dateTime)}</Text>
+          <Text style={[styles.body, overdue && styles.statusOverdue]}>
+            Deadline: {formatDateTime(task.deadline)}
+          </Text>
+          <Text style={styles.meta}>Created {formatDateTime(task.createdAt)}</Text>
+          <Text style={styles.meta}>Last updated {formatDateTime(task.updatedAt)}</Text>
+        </View>
+
+        {/* Tags, repeat rule and reminders */}
+        {(task.tags.length > 0 || task.recurrence || task.reminders.length > 0) && (
+          <View style={styles.section}>
+            {task.tags.length > 0 && (
+              <View style={styles.tagRow}>
+                {task.tags.map((tag) => (
+                  <View key={tag} style={styles.tag}>
+                    <Text style={styles.tagText}>#{tag}</Text>
+                  </View>
+                ))}
+              </View>
+            )}
+            {task.recurrence && (
+              <Text style={styles.body}>🔁 {describeRecurrence(task.recurrence)}</Text>
+            )}
+            {task.reminders.length > 0 && (
+              <Text style={styles.body}>🔔 {task.reminders.map(describeReminder).join(', ')}</Text>
+            )}
+          </View>
+        )}
+
+        {/* Subtasks */}
+        {task.subtasks.length > 0 && (
+          <View style={styles.section}>
+            <Text style={styles.sectionTitle}>
+              Subtasks ({progress.completed}/{progress.total} done)
+            </Text>
+            {sortSubtasks(task.subtasks).map((subtask) => (
+              <TouchableOpacity
+                key={subtask.id}
+                style={styles.subtaskRow}
+                disabled={trashed}
+                onPress={() =>
+                  runAction(
+                    () =>
+                      updateTask(task.id, { subtasks: toggleSubtask(task.subtasks, subtask.id) }),
+                    'Failed to update subtask'
+                  )
+                }
+              >
+                <View style={[styles.checkbox, subtask.completed && styles.checkboxChecked]}>
+                  {subtask.completed && <Text style={styles.checkmark}>✓</Text>}
+                </View>
+                <Text style={[styles.body, subtask.completed && styles.subtaskCompleted]}>
+                  {subtask.title}
+                </Text>
+              </TouchableOpacity>
+            ))}
+          </View>
+        )}
+
+        {/* Change history */}
+        <View style={styles.section}>
+          <Text style={styles.sectionTitle}>History</Text>
+          <ChangeHistory task={task} loadHistory={getTaskHistory} />
+        </View>
+      </ScrollView>
+
+      {/* Actions */}
+      <View style={styles.actions}>
+        {trashed ? (
+          <>
+            <TouchableOpacity
+              style={styles.actionButton}
+              onPress={() => runAction(() => restoreTask(task.id), 'Failed to restore task')}
+            >
+              <Text style={styles.actionText}>Restore</Text>
+            </TouchableOpacity>
+            <TouchableOpacity style={styles.actionButton} onPress={handleDeleteForever}>
+              <Text style={[styles.actionText, styles.actionTextDestructive]}>Delete Forever</Text>
+            </TouchableOpacity>
+          </>
+        ) : (
+          <>
+            <TouchableOpacity style={styles.actionButton} onPress={() => setEditing(true)}>
+              <Text style={styles.actionText}>Edit</Text>
+            </TouchableOpacity>
+            {!task.completed && (
+              <TouchableOpacity
+                style={styles.actionButton}
+                onPress={() =>
+                  runAction(() => setTaskPinned(task.id, !task.pinned), 'Failed to update task')
+                }
+              >
+                <Text style={styles.actionText}>{task.pinned ? 'Unpin' : 'Pin'}</Text>
+              </TouchableOpacity>
+            )}
+            <TouchableOpacity
+              style={styles.actionButton}
+              onPress={() =>
+                runAction(
+                  () => toggleTaskCompletion(task.id, !task.completed),
+                  'Failed to update task'
+                )
+              }
+            >
+              <Text style={styles.actionText}>{task.completed ? 'Reopen' : 'Complete'}</Text>
+            </TouchableOpacity>
+            <TouchableOpacity style={styles.actionButton} onPress={handleTrash}>
+              <Text style={[styles.actionText, styles.actionTextDestructive]}>Move to Trash</Text>
+            </TouchableOpacity>
+          </>
+        )}
+      </View>
+
+      <PrerequisitePickerModal
+        task={pickingPrerequisite ? task : null}
+        tasks={tasks}
+        onClose={() => setPickingPrerequisite(false)}
+        onSelect={(prerequisite) =>
+          runAction(() => addPrerequisite(task.id, prerequisite.id), 'Failed to update task')
+        }
+      />
+
+      <AddTaskModal
+        visible={editing}
+        onClose={() => setEditing(false)}
+        onSave={handleSave}
+        editTask={task}
+        categories={categories}
+        lists={lists}
+        defaultListId={DEFAULT_LIST_ID}
+        existingTags={allTags}
+      />
+    </View>
+  );
+};
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+    backgroundColor: COLORS.background,
+  },
+  content: {
+    padding: SPACING.md,
+    paddingBottom: SPACING.xl,
+  },
+  centered: {
+    flex: 1,
+    justifyContent: 'center',
+    alignItems: 'center',
+    padding: SPACING.xl,
+    backgroundColor: COLORS.background,
+  },
+  notFoundEmoji: {
+    fontSize: 64,
+    marginBottom: SPACING.md,
+  },
+  notFoundTitle: {
+    fontSize: FONT_SIZES.xl,
+    fontWeight: FONT_WEIGHTS.bold,
+    color: COLORS.text,
+    marginBottom: SPACING.xs,
+  },
+  notFoundMessage: {
+    fontSize: FONT_SIZES.md,
+    color: COLORS.textSecondary,
+    textAlign: 'center',
+    marginBottom: SPACING.lg,
+  },
+  primaryButton: {
+    backgroundColor: COLORS.primary,
+    borderRadius: BORDER_RADIUS.md,
+    paddingVertical: SPACING.sm,
+    paddingHorizontal: SPACING.lg,
+  },
+  primaryButtonText: {
+    color: '#fff',
+    fontSize: FONT_SIZES.md,
+    fontWeight: FONT_WEIGHTS.semibold,
+  },
+  card: {
+    backgroundColor: COLORS.surface,
+    borderRadius: BORDER_RADIUS.lg,
+    borderLeftWidth: 4,
+    padding: SPACING.md,
+    marginBottom: SPACING.md,
+    ...SHADOWS.small,
+  },
+  title: {
+    fontSize: FONT_SIZES.xl,
+    fontWeight: FONT_WEIGHTS.bold,
+    color: COLORS.text,
+  },
+  titleCompleted: {
+    textDecorationLine: 'line-through',
+    color: COLORS.textSecondary,
+  },
+  badgeRow: {
+    flexDirection: 'row',
+    flexWrap: 'wrap',
+    alignItems: 'center',
+    marginTop: SPACING.sm,
+  },
+  badge: {
+    paddingHorizontal: SPACING.sm,
+    paddingVertical: 2,
+    borderRadius: BORDER_RADIUS.sm,
+    marginRight: SPACING.xs,
+  },
+  badgeText: {
+    color: '#fff',
+    fontSize: FONT_SIZES.xs,
+    fontWeight: FONT_WEIGHTS.semibold,
+  },
+  listName: {
+    fontSize: FONT_SIZES.sm,
+    color: COLORS.textSecondary,
+  },
+  status: {
+    fontSize: FONT_SIZES.sm,
+    color: COLORS.textSecondary,
+    marginTop: SPACING.sm,
+  },
+  statusOverdue: {
+    color: COLORS.error,
+  },
+  section: {
+    backgroundColor: COLORS.surface,
+    borderRadius: BORDER_RADIUS.lg,
+    padding: SPACING.md,
+    marginBottom: SPACING.md,
+  },
+  sectionTitle: {
+    fontSize: FONT_SIZES.md,
+    fontWeight: FONT_WEIGHTS.semibold,
+    color: COLORS.text,
+    marginBottom: SPACING.xs,
+  },
+  body: {
+    fontSize: FONT_SIZES.md,
+    color: COLORS.text,
+  },
+  placeholder: {
+    fontSize: FONT_SIZES.md,
+    color: COLORS.textTertiary,
+    fontStyle: 'italic',
+  },
+  meta: {
+    fontSize: FONT_SIZES.sm,
+    color: COLORS.textSecondary,
+    marginTop: SPACING.xs,
+  },
+  tagRow: {
+    flexDirection: 'row',
+    flexWrap: 'wrap',
+    marginBottom: SPACING.xs,
+  },
+  tag: {
+    backgroundColor: COLORS.background,
+    borderRadius: BORDER_RADIUS.round,
+    paddingHorizontal: SPACING.sm,
+    paddingVertical: 2,
+    marginRight: SPACING.xs,
+    marginBottom: SPACING.xs,
+  },
+  tagText: {
+    fontSize: FONT_SIZES.sm,
+    color: COLORS.primary,
+  },
+  statusPill: {
+    borderRadius: BORDER_RADIUS.round,
+    paddingHorizontal: SPACING.sm,
+    paddingVertical: 2,
+  },
+  statusButton: {
+    borderWidth: 1,
+    borderRadius: BORDER_RADIUS.round,
+    paddingHorizontal: SPACING.sm,
+    paddingVertical: SPACING.xs,
+    marginRight: SPACING.xs,
+    marginBottom: SPACING.xs,
+  },
+  statusButtonText: {
+    fontSize: FONT_SIZES.sm,
+    fontWeight: FONT_WEIGHTS.medium,
+  },
+  linkRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    paddingVertical: SPACING.xs,
+  },
+  linkInfo: {
+    flex: 1,
+  },
+  linkWarning: {
+    fontSize: FONT_SIZES.sm,
+    color: COLORS.warning,
+  },
+  linkRemove: {
+    fontSize: FONT_SIZES.md,
+    color: COLORS.textSecondary,
+    paddingHorizontal: SPACING.sm,
+  },
+  linkAdd: {
+    fontSize: FONT_SIZES.md,
+    fontWeight: FONT_WEIGHTS.medium,
+    color: COLORS.primary,
+    marginTop: SPACING.xs,
+  },
+  linkHeading: {
+    marginTop: SPACING.md,
+  },
+  subtaskRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    paddingVertical: SPACING.xs,
+  },
+  checkbox: {
+    width: 20,
+    height: 20,
+    borderRadius: BORDER_RADIUS.sm,
+    borderWidth: 2,
+    borderColor: COLORS.border,
+    justifyContent: 'center',
+    alignItems: 'center',
+    marginRight: SPACING.sm,
+  },
+  checkboxChecked: {
+    backgroundColor: COLORS.success,
+    borderColor: COLORS.success,
+  },
+  checkmark: {
+    color: '#fff',
+    fontSize: FONT_SIZES.xs,
+    fontWeight: FONT_WEIGHTS.bold,
+  },
+  subtaskCompleted: {
+    textDecorationLine: 'line-through',
+    color: COLORS.textSecondary,
+  },
+  actions: {
+    flexDirection: 'row',
+    backgroundColor: COLORS.surface,
+    borderTopWidth: 1,
+    borderTopColor: COLORS.border,
+  },
+  actionButton: {
+    flex: 1,
+    alignItems: 'center',
+    paddingVertical: SPACING.md,
+  },
+  actionText: {
+    fontSize: FONT_SIZES.md,
+    fontWeight: FONT_WEIGHTS.semibold,
+    color: COLORS.primary,
+  },
+  actionTextDestructive: {
+    color: COLORS.error,
+  },
+});
+
+export default TaskDetailScreen;
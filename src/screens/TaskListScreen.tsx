@@ -4,25 +4,45 @@
  * Main screen for viewing and managing tasks.
  * 
  * Features:
- * - Task list with smart sorting (priority + urgency algorithm)
- * - Filter bar (All / Active / Completed)
+ * - Task list with smart sorting (priority + urgency algorithm) by default;
+ *   deadline, creation date, title or category order can be selected
+ *   (ascending or descending, remembered per user); the smart sort weights
+ *   are tuned on the Smart Sort settings screen; in smart order each card
+ *   explains its score ("Why is this here?")
+ * - Manual order: long-press a task and drag it (within its section);
+ *   pinned tasks stay on top in every sort order
+ * - Search field in the header (titles and descriptions, ranked by relevance,
+ *   matches highlighted on the cards; combines with the filters)
+ * - Filter bar (All / Active / Completed) with status and tag filters
+ * - Filter builder with a query language ("priority:high due:<7d -completed")
+ *   and saved views shown as extra tabs with their own counts
  * - Pull-to-refresh
  * - Empty state when no tasks
- * - Task cards with complete/delete actions
+ * - Task cards with complete/delete actions (delete moves to the trash;
+ *   deleting a task others wait for asks whether to remove those links)
+ * - "Blocked by" pills on tasks with open prerequisites
+ * - Undo toast after each action (then Redo after undoing)
+ * - Subtask toggling from the card (offers to complete the parent when done)
+ * - Quick-add bar with natural-language parsing ("Call Ana tomorrow 5pm !high #work")
  * - Floating action button to add tasks
- * - Edit task on tap
+ * - Tap a task to open its details (edit, history, actions)
+ * - Sync badges on cards and a banner for changes the server rejected (retry/dismiss)
+ * - Notice while showing cached tasks the server has not confirmed (offline)
  * - Logout button in header (via navigation options)
  * 
  * Integration:
  * - Uses useTasks hook for task state and CRUD operations
+ * - Uses useCategories hook for category badges and the category selector
+ * - Uses useLists hook for the list selector (new tasks go to the active list)
+ * - Uses useViews hook for saved views, the sort order and the smart sort weights
  * - Uses useAuth hook for logout functionality
+ * - Uses useConfirmTrash hook to delete tasks (asks about dependent tasks)
  * - Real-time synchronization via TaskContext
  */
 
-import React, { useState, useMemo, useCallback } from 'react';
+import React, { useState, useMemo, useCallback, useLayoutEffect } from 'react';
 import {
   View,
-  FlatList,
   StyleSheet,
   RefreshControl,
   TouchableOpacity,
@@ -30,45 +50,185 @@ import {
   Alert,
 } from 'react-native';
 import { useNavigation } from '@react-navigation/native';
+import { NativeStackNavigationProp } from '@react-navigation/native-stack';
 import { useTasks } from '../context/TaskContext';
 import { useAuth } from '../context/AuthContext';
-import { Task, TaskFilter, CreateTaskPayload } from '../types';
+import { useCategories } from '../context/CategoryContext';
+import { useLists } from '../context/ListContext';
+import { useViews } from '../context/ViewContext';
+import { useConfirmTrash } from '../hooks/useConfirmTrash';
+import { AppStackParamList } from '../navigation/types';
+import { Task, TaskFilter, TaskStatus, CreateTaskPayload, SavedView } from '../types';
 import { sortAndFilterTasks, getTaskCounts } from '../utils/taskUtils';
+import { getSectionRange, getMoveUpdates } from '../utils/orderUtils';
+import { toggleSubtask, areAllSubtasksComplete } from '../utils/subtaskUtils';
+import { getAllTags } from '../utils/tagUtils';
+import { filterTasksByStatuses } from '../utils/statusUtils';
+import { getDependencySummaries } from '../utils/dependencyUtils';
+import { DEFAULT_LIST_ID } from '../utils/listUtils';
+import { getDefaultCategoryId } from '../utils/categoryUtils';
+import { parseTaskQuery, filterTasksByQuery, getViewCounts } from '../utils/taskQueryUtils';
 import FilterBar from '../components/FilterBar';
+import FilterBuilderModal from '../components/FilterBuilderModal';
+import SortSelector from '../components/SortSelector';
 import TaskCard from '../components/TaskCard';
+import DraggableFlatList, { DragItemInfo } from '../components/DraggableFlatList';
+import SyncStatusBanner from '../components/SyncStatusBanner';
+import Snackbar from '../components/Snackbar';
 import EmptyState from '../components/EmptyState';
 import AddTaskModal from '../components/AddTaskModal';
+import QuickAddBar from '../components/QuickAddBar';
 import { COLORS, SPACING, BORDER_RADIUS, SHADOWS, FONT_SIZES, FONT_WEIGHTS } from '../theme';
 
+type TaskListNavigationProp = NativeStackNavigationProp<AppStackParamList, 'TaskList'>;
+
 const TaskListScreen: React.FC = () => {
-  const { tasks, loading, addTask, updateTask, deleteTask, toggleTaskCompletion } = useTasks();
+  const {
+    tasks,
+    pendingWrites,
+    snapshotMetadata,
+    loading,
+    addTask,
+    updateTask,
+    toggleTaskCompletion,
+    reorderTasks,
+    history,
+    undo,
+    redo,
+    getSyncStatus,
+    retryWrite,
+    dismissWrite,
+  } = useTasks();
+  const { categories, getCategory } = useCategories();
+  const { lists, activeListId } = useLists();
+  const { views, addView, updateView, deleteView, taskSort, setTaskSort, scoringConfig } =
+    useViews();
   const { logout } = useAuth();
-  const navigation = useNavigation();
+  const navigation = useNavigation<TaskListNavigationProp>();
 
   // Filter state
   const [activeFilter, setActiveFilter] = useState<TaskFilter>('all');
+  const [selectedTags, setSelectedTags] = useState<string[]>([]);
+  const [selectedStatuses, setSelectedStatuses] = useState<TaskStatus[]>([]);
+  const [searchQuery, setSearchQuery] = useState('');
+  const [selectedViewId, setSelectedViewId] = useState<string | null>(null);
+  const [customQuery, setCustomQuery] = useState('');
+
+  // Filter builder state (editingView set = editing a saved view)
+  const [builderVisible, setBuilderVisible] = useState(false);
+  const [editingView, setEditingView] = useState<SavedView | null>(null);
 
-  // Modal state
+  // Add task modal state
   const [modalVisible, setModalVisible] = useState(false);
-  const [editingTask, setEditingTask] = useState<Task | null>(null);
 
   // Refreshing state
   const [refreshing, setRefreshing] = useState(false);
 
+  // Undo/redo toast (key restarts its timer for every new action)
+  const [toast, setToast] = useState<{ mode: 'undo' | 'redo'; key: number } | null>(null);
+
   /**
    * Calculate task counts for filter badges
    */
   const taskCounts = useMemo(() => getTaskCounts(tasks), [tasks]);
 
   /**
-   * Get sorted and filtered tasks for display
-   * Uses smart sorting algorithm (priority + urgency)
+   * All tags in use (most used first) for tag filters and autocomplete
+   */
+  const allTags = useMemo(() => getAllTags(tasks), [tasks]);
+
+  /**
+   * Open prerequisites of blocked tasks, for their cards
+   */
+  const dependencySummaries = useMemo(() => getDependencySummaries(tasks), [tasks]);
+
+  /**
+   * Selected tags that are still in use
+   * (a tag disappears when its last task is deleted or edited)
+   */
+  const activeTags = useMemo(
+    () => selectedTags.filter((tag) => allTags.includes(tag)),
+    [selectedTags, allTags]
+  );
+
+  /**
+   * Selected view, if it still exists (it may be deleted on another device)
    */
-  const displayTasks = useMemo(
-    () => sortAndFilterTasks(tasks, activeFilter),
-    [tasks, activeFilter]
+  const activeView = useMemo(
+    () => views.find((view) => view.id === selectedViewId) ?? null,
+    [views, selectedViewId]
   );
 
+  /**
+   * Number of tasks in each saved view, for the view tabs
+   */
+  const viewCounts = useMemo(
+    () => getViewCounts(tasks, views, categories),
+    [tasks, views, categories]
+  );
+
+  /**
+   * Get sorted and filtered tasks for display
+   * The selected tab (built-in filter or saved view) and the applied filter
+   * query combine with the status and tag filters and the search
+   * Uses the selected sort order (smart score by default), or relevance while searching
+   */
+  const displayTasks = useMemo(() => {
+    let filtered = tasks;
+    if (activeView) {
+      filtered = filterTasksByQuery(filtered, parseTaskQuery(activeView.query, categories).query);
+    }
+    if (customQuery) {
+      filtered = filterTasksByQuery(filtered, parseTaskQuery(customQuery, categories).query);
+    }
+    return sortAndFilterTasks(
+      filterTasksByStatuses(filtered, selectedStatuses),
+      activeView ? 'all' : activeFilter,
+      activeTags,
+      searchQuery,
+      taskSort,
+      categories,
+      scoringConfig
+    );
+  }, [
+    tasks,
+    categories,
+    activeView,
+    customQuery,
+    activeFilter,
+    selectedStatuses,
+    activeTags,
+    searchQuery,
+    taskSort,
+    scoringConfig,
+  ]);
+
+  // Cards explain their rank while the list is in smart order (not while
+  // searching, when relevance decides the order)
+  const showScoreExplanation = taskSort.mode === 'smart' && searchQuery.trim() === '';
+
+  // Tasks can be dragged in manual order (not while searching)
+  const canReorder = taskSort.mode === 'manual' && searchQuery.trim() === '';
+
+  /**
+   * Search field in the native header
+   */
+  useLayoutEffect(() => {
+    navigation.setOptions({
+      headerSearchBarOptions: {
+        placeholder: 'Search tasks',
+        autoCapitalize: 'none',
+        textColor: COLORS.text,
+        hintTextColor: COLORS.textTertiary,
+        headerIconColor: '#fff',
+        barTintColor: COLORS.surface,
+        tintColor: COLORS.primary,
+        onChangeText: (event) => setSearchQuery(event.nativeEvent.text),
+        onClose: () => setSearchQuery(''),
+      },
+    });
+  }, [navigation]);
+
   /**
    * Handle pull-to-refresh
    * Tasks are already synced in real-time, so this is mostly for user feedback
@@ -84,43 +244,97 @@ const TaskListScreen: React.FC = () => {
    */
   const handleFilterChange = useCallback((filter: TaskFilter) => {
     setActiveFilter(filter);
+    setSelectedViewId(null);
+  }, []);
+
+  /**
+   * Open the filter builder for the applied filter query
+   */
+  const handleOpenBuilder = useCallback(() => {
+    setEditingView(null);
+    setBuilderVisible(true);
+  }, []);
+
+  /**
+   * Open the filter builder to edit a saved view
+   */
+  const handleEditView = useCallback((view: SavedView) => {
+    setEditingView(view);
+    setBuilderVisible(true);
+  }, []);
+
+  /**
+   * Count the tasks a query text matches (shown while building a filter)
+   */
+  const getQueryMatchCount = useCallback(
+    (query: string) => filterTasksByQuery(tasks, parseTaskQuery(query, categories).query).length,
+    [tasks, categories]
+  );
+
+  /**
+   * Save the builder's query: update the edited view, or save a new view and
+   * switch to it (it replaces the applied filter query)
+   */
+  const handleSaveView = useCallback(
+    async (name: string, query: string) => {
+      if (editingView) {
+        await updateView(editingView.id, { name, query });
+        return;
+      }
+      const view = await addView(name, query);
+      setSelectedViewId(view.id);
+      setCustomQuery('');
+    },
+    [editingView, addView, updateView]
+  );
+
+  /**
+   * Delete the view being edited
+   */
+  const handleDeleteView = useCallback(async () => {
+    if (editingView) {
+      await deleteView(editingView.id);
+    }
+  }, [editingView, deleteView]);
+
+  /**
+   * Show the undo toast (after an action) or the redo toast (after an undo)
+   */
+  const showToast = useCallback((mode: 'undo' | 'redo') => {
+    setToast((current) => ({ mode, key: (current?.key ?? 0) + 1 }));
   }, []);
 
   /**
    * Handle add task FAB press
    */
   const handleAddTask = useCallback(() => {
-    setEditingTask(null);
     setModalVisible(true);
   }, []);
 
   /**
-   * Handle task card press (edit task)
+   * Handle task card press (open task details)
    */
-  const handleTaskPress = useCallback((task: Task) => {
-    setEditingTask(task);
-    setModalVisible(true);
-  }, []);
+  const handleTaskPress = useCallback(
+    (task: Task) => {
+      navigation.navigate('TaskDetail', { taskId: task.id });
+    },
+    [navigation]
+  );
 
   /**
-   * Handle task save (create or update)
+   * Handle new task save
    */
   const handleTaskSave = useCallback(
     async (taskData: CreateTaskPayload) => {
       try {
-        if (editingTask) {
-          // Update existing task
-          await updateTask(editingTask.id, taskData);
-        } else {
-          // Create new task
-          await addTask(taskData);
-        }
+        await addTask(taskData);
+        showToast('undo');
       } catch (error: any) {
         // Error already handled in TaskContext and shown in modal
         throw error;
       }
     },
-    [editingTask, addTask, updateTask]
+    [addTask, showToast]
   );
 
   /**
@@ -128,7 +342,6 @@ const TaskListScreen: React.FC = () => {
    */
   const handleModalClose = useCallback(() => {
     setModalVisible(false);
-    setEditingTask(null);
   }, []);
 
   /**
@@ -138,40 +351,166 @@ const TaskListScreen: React.FC = () => {
     async (taskId: string, completed: boolean) => {
       try {
         await toggleTaskCompletion(taskId, completed);
+        showToast('undo');
       } catch (error: any) {
         Alert.alert('Error', error.message || 'Failed to update task');
       }
     },
-    [toggleTaskCompletion]
+    [toggleTaskCompletion, showToast]
+  );
+
+  /**
+   * Handle subtask toggle from a task card
+   * 
+   * Checking off the last open subtask offers to complete the parent task.
+   */
+  const handleToggleSubtask = useCallback(
+    async (task: Task, subtaskId: string) => {
+      const updatedSubtasks = toggleSubtask(task.subtasks, subtaskId);
+
+      try {
+        await updateTask(task.id, { subtasks: updatedSubtasks });
+        showToast('undo');
+      } catch (error: any) {
+        Alert.alert('Error', error.message || 'Failed to update subtask');
+        return;
+      }
+
+      const finishedChecklist =
+        !areAllSubtasksComplete(task.subtasks) && areAllSubtasksComplete(updatedSubtasks);
+
+      if (finishedChecklist && !task.completed) {
+        Alert.alert(
+          'All Subtasks Done',
+          `Mark "${task.title}" as complete?`,
+          [
+            { text: 'Not Yet', style: 'cancel' },
+            { text: 'Complete', onPress: () => handleToggleComplete(task.id, true) },
+          ]
+        );
+      }
+    },
+    [updateTask, handleToggleComplete, showToast]
+  );
+
+  /**
+   * Handle task delete (moves it to the trash)
+   * Asks first what to do with the links of tasks waiting for it, then
+   * shows the undo toast
+   */
+  const showUndoToast = useCallback(() => showToast('undo'), [showToast]);
+  const handleDeleteTask = useConfirmTrash(showUndoToast);
+
+  /**
+   * Handle toast action - undo the last action (then offer redo), or redo it
+   */
+  const handleToastAction = useCallback(() => {
+    if (toast?.mode === 'undo') {
+      undo();
+      showToast('redo');
+    } else {
+      redo();
+      showToast('undo');
+    }
+  }, [toast, undo, redo, showToast]);
+
+  /**
+   * Handle toast timeout
+   */
+  const handleToastHide = useCallback(() => {
+    setToast(null);
+  }, []);
+
+  /**
+   * Toast text: the action to undo, or the action just undone
+   */
+  const toastEntry =
+    toast?.mode === 'undo'
+      ? history.past[history.past.length - 1]
+      : history.future[history.future.length - 1];
+  const toastMessage = toast && toastEntry
+    ? toast.mode === 'undo'
+      ? toastEntry.label
+      : `Undone: ${toastEntry.label}`
+    : null;
+
+  /**
+   * Changes the server rejected
+   */
+  const failedWrites = useMemo(
+    () => pendingWrites.filter((write) => write.status === 'failed'),
+    [pendingWrites]
+  );
+
+  /**
+   * Handle "Not saved" badge press - retry every failed change of the task
+   */
+  const handleRetrySync = useCallback(
+    (task: Task) => {
+      failedWrites
+        .filter((write) => write.taskId === task.id)
+        .forEach((write) => retryWrite(write.id));
+    },
+    [failedWrites, retryWrite]
+  );
+
+  /**
+   * Positions a task can be dragged to (its own section: pinned, open or completed)
+   */
+  const getDropRange = useCallback(
+    (index: number) => getSectionRange(displayTasks, index),
+    [displayTasks]
   );
 
   /**
-   * Handle task delete
+   * Handle a drag-and-drop move (saves the new manual order)
    */
-  const handleDeleteTask = useCallback(
-    async (taskId: string) => {
+  const handleReorder = useCallback(
+    async (fromIndex: number, toIndex: number) => {
       try {
-        await deleteTask(taskId);
+        await reorderTasks(getMoveUpdates(displayTasks, fromIndex, toIndex, taskSort.direction));
+        showToast('undo');
       } catch (error: any) {
-        Alert.alert('Error', error.message || 'Failed to delete task');
+        Alert.alert('Error', error.message || 'Failed to move task');
       }
     },
-    [deleteTask]
+    [displayTasks, taskSort.direction, reorderTasks, showToast]
   );
 
   /**
    * Render task item
    */
   const renderTask = useCallback(
-    ({ item }: { item: Task }) => (
+    ({ item, drag }: DragItemInfo<Task>) => (
       <TaskCard
         task={item}
+        category={getCategory(item.category)}
         onPress={handleTaskPress}
+        onLongPress={canReorder ? drag : undefined}
         onToggleComplete={handleToggleComplete}
         onDelete={handleDeleteTask}
+        onToggleSubtask={handleToggleSubtask}
+        syncStatus={getSyncStatus(item.id)}
+        onRetrySync={handleRetrySync}
+        searchQuery={searchQuery}
+        scoringConfig={showScoreExplanation ? scoringConfig : undefined}
+        dependencies={dependencySummaries[item.id]}
       />
     ),
-    [handleTaskPress, handleToggleComplete, handleDeleteTask]
+    [
+      getCategory,
+      getSyncStatus,
+      handleTaskPress,
+      handleToggleComplete,
+      handleDeleteTask,
+      handleToggleSubtask,
+      handleRetrySync,
+      searchQuery,
+      showScoreExplanation,
+      scoringConfig,
+      dependencySummaries,
+      canReorder,
+    ]
   );
 
   /**
@@ -181,8 +520,14 @@ const TaskListScreen: React.FC = () => {
     if (loading) {
       return null; // Show nothing while loading (refresh control handles this)
     }
-    return <EmptyState filter={activeFilter} />;
-  }, [loading, activeFilter]);
+    return (
+      <EmptyState
+        filter={activeFilter}
+        searchQuery={`${customQuery} ${searchQuery}`.trim()}
+        viewName={activeView?.name}
+      />
+    );
+  }, [loading, activeFilter, customQuery, searchQuery, activeView]);
 
   /**
    * Task item key extractor
@@ -191,18 +536,61 @@ const TaskListScreen: React.FC = () => {
 
   return (
     <View style={styles.container}>
+      {/* Quick Add */}
+      <QuickAddBar
+        categories={categories}
+        defaultCategoryId={getDefaultCategoryId(categories)}
+        listId={activeListId ?? DEFAULT_LIST_ID}
+        onSubmit={handleTaskSave}
+      />
+
       {/* Filter Bar */}
       <FilterBar
         activeFilter={activeFilter}
         onFilterChange={handleFilterChange}
         counts={taskCounts}
+        availableTags={allTags}
+        selectedTags={activeTags}
+        onTagsChange={setSelectedTags}
+        selectedStatuses={selectedStatuses}
+        onStatusesChange={setSelectedStatuses}
+        views={views}
+        viewCounts={viewCounts}
+        activeViewId={activeView?.id ?? null}
+        onViewSelect={setSelectedViewId}
+        onViewLongPress={handleEditView}
+        customQuery={customQuery}
+        onOpenBuilder={handleOpenBuilder}
+        onClearCustomQuery={() => setCustomQuery('')}
+      />
+
+      {/* Sort order */}
+      <SortSelector
+        sort={taskSort}
+        onChange={setTaskSort}
+        onTuneSmartSort={() => navigation.navigate('ScoringSettings')}
+      />
+
+      {/* Cached data (offline, or the server has not answered yet) */}
+      {snapshotMetadata.fromCache && !loading && (
+        <Text style={styles.cacheNotice}>📴 Showing saved tasks · waiting for the server</Text>
+      )}
+
+      {/* Rejected changes */}
+      <SyncStatusBanner
+        failedWrites={failedWrites}
+        onRetry={retryWrite}
+        onDismiss={dismissWrite}
       />
 
       {/* Task List */}
-      <FlatList
+      <DraggableFlatList
         data={displayTasks}
         renderItem={renderTask}
         keyExtractor={keyExtractor}
+        onReorder={handleReorder}
+        getDropRange={getDropRange}
+        dragEnabled={canReorder}
         contentContainerStyle={[
           styles.listContent,
           displayTasks.length === 0 && styles.listContentEmpty,
@@ -224,12 +612,41 @@ const TaskListScreen: React.FC = () => {
         <Text style={styles.fabIcon}>+</Text>
       </TouchableOpacity>
 
+      {/* Filter builder / saved view editor */}
+      <FilterBuilderModal
+        visible={builderVisible}
+        onClose={() => setBuilderVisible(false)}
+        initialQuery={customQuery}
+        editView={editingView}
+        categories={categories}
+        availableTags={allTags}
+        otherViewNames={views
+          .filter((view) => view.id !== editingView?.id)
+          .map((view) => view.name)}
+        getMatchCount={getQueryMatchCount}
+        onApply={setCustomQuery}
+        onSaveView={handleSaveView}
+        onDeleteView={editingView ? handleDeleteView : undefined}
+      />
+
       {/* Add/Edit Task Modal */}
       <AddTaskModal
         visible={modalVisible}
         onClose={handleModalClose}
         onSave={handleTaskSave}
-        editTask={editingTask}
+        categories={categories}
+        lists={lists}
+        defaultListId={activeListId ?? DEFAULT_LIST_ID}
+        existingTags={allTags}
+      />
+
+      {/* Undo / redo the last action */}
+      <Snackbar
+        key={toast?.key ?? 0}
+        message={toastMessage}
+        actionLabel={toast?.mode === 'redo' ? 'Redo' : 'Undo'}
+        onAction={handleToastAction}
+        onHide={handleToastHide}
       />
     </View>
   );
@@ -240,6 +657,12 @@ const styles = StyleSheet.create({
     flex: 1,
     backgroundColor: COLORS.background,
   },
+  cacheNotice: {
+    fontSize: FONT_SIZES.xs,
+    color: COLORS.textSecondary,
+    textAlign: 'center',
+    marginTop: SPACING.sm,
+  },
   listContent: {
     paddingTop: SPACING.md,
     paddingBottom: SPACING.xxl * 2, // Extra padding for FAB
@@ -0,0 +1,325 @@
+/**
+ * Trash Screen
+ * 
+ * Lists deleted tasks so they can be restored or deleted permanently.
+ * 
+ * Features:
+ * - Deleted tasks, most recently deleted first, with the days left before purge
+ * - Restore and permanent-delete actions per task
+ * - "Empty Trash" (with confirmation)
+ * - Retention period picker (how many days deleted tasks are kept)
+ * 
+ * Integration:
+ * - Uses useTasks hook for the trash and its operations
+ * - Uses useLists hook: only the loaded list's trash is shown unless "All Tasks" is active
+ */
+
+import React, { useCallback } from 'react';
+import { View, Text, FlatList, TouchableOpacity, StyleSheet, Alert } from 'react-native';
+import { useTasks } from '../context/TaskContext';
+import { useLists } from '../context/ListContext';
+import { Task } from '../types';
+import { formatDateTime } from '../utils/dateUtils';
+import { getListName } from '../utils/listUtils';
+import { TRASH_RETENTION_OPTIONS, getDaysUntilPurge } from '../utils/trashUtils';
+import { COLORS, SPACING, FONT_SIZES, BORDER_RADIUS, SHADOWS, FONT_WEIGHTS } from '../theme';
+
+const TrashScreen: React.FC = () => {
+  const {
+    trashedTasks,
+    trashRetentionDays,
+    restoreTask,
+    permanentlyDeleteTask,
+    emptyTrash,
+    setTrashRetentionDays,
+  } = useTasks();
+  const { lists, activeListId } = useLists();
+
+  /**
+   * Handle restore button press
+   */
+  const handleRestore = useCallback(
+    async (task: Task) => {
+      try {
+        await restoreTask(task.id);
+      } catch (error: any) {
+        Alert.alert('Error', error.message || 'Failed to restore task');
+      }
+    },
+    [restoreTask]
+  );
+
+  /**
+   * Handle permanent delete button press (with confirmation)
+   */
+  const handleDelete = useCallback(
+    (task: Task) => {
+      Alert.alert('Delete Forever', `"${task.title}" will be deleted permanently.`, [
+        { text: 'Cancel', style: 'cancel' },
+        {
+          text: 'Delete',
+          style: 'destructive',
+          onPress: async () => {
+            try {
+              await permanentlyDeleteTask(task.id);
+            } catch (error: any) {
+              Alert.alert('Error', error.message || 'Failed to delete task');
+            }
+          },
+        },
+      ]);
+    },
+    [permanentlyDeleteTask]
+  );
+
+  /**
+   * Handle "Empty Trash" press (with confirmation)
+   */
+  const handleEmptyTrash = useCallback(() => {
+    Alert.alert(
+      'Empty Trash',
+      `Delete ${trashedTasks.length} task${trashedTasks.length !== 1 ? 's' : ''} permanently?`,
+      [
+        { text: 'Cancel', style: 'cancel' },
+        {
+          text: 'Empty Trash',
+          style: 'destructive',
+          onPress: async () => {
+            try {
+              await emptyTrash();
+            } catch (error: any) {
+              Alert.alert('Error', error.message || 'Failed to empty the trash');
+            }
+          },
+        },
+      ]
+    );
+  }, [trashedTasks.length, emptyTrash]);
+
+  /**
+   * Render trashed task row
+   */
+  const renderTask = useCallback(
+    ({ item }: { item: Task }) => {
+      const daysLeft = getDaysUntilPurge(item, trashRetentionDays);
+
+      return (
+        <View style={styles.row}>
+          <View style={styles.rowContent}>
+            <Text style={styles.title} numberOfLines={1}>
+              {item.title}
+            </Text>
+            <Text style={styles.meta}>
+              Deleted {formatDateTime(item.deletedAt as string)} ·{' '}
+              {daysLeft > 0
+                ? `purged in ${daysLeft} day${daysLeft !== 1 ? 's' : ''}`
+                : 'purged today'}
+            </Text>
+          </View>
+          <TouchableOpacity style={styles.actionButton} onPress={() => handleRestore(item)}>
+            <Text style={styles.restoreText}>Restore</Text>
+          </TouchableOpacity>
+          <TouchableOpacity style={styles.actionButton} onPress={() => handleDelete(item)}>
+            <Text style={styles.deleteIcon}>🗑️</Text>
+          </TouchableOpacity>
+        </View>
+      );
+    },
+    [trashRetentionDays, handleRestore, handleDelete]
+  );
+
+  const keyExtractor = useCallback((item: Task) => item.id, []);
+
+  /**
+   * Render empty state
+   */
+  const renderEmptyState = useCallback(
+    () => (
+      <View style={styles.emptyContainer}>
+        <Text style={styles.emptyEmoji}>🗑️</Text>
+        <Text style={styles.emptyTitle}>Trash is empty</Text>
+        <Text style={styles.emptyMessage}>Deleted tasks show up here.</Text>
+      </View>
+    ),
+    []
+  );
+
+  return (
+    <View style={styles.container}>
+      {/* Retention period and Empty Trash */}
+      <View style={styles.header}>
+        <Text style={styles.headerLabel}>Keep deleted tasks for</Text>
+        <View style={styles.optionRow}>
+          {TRASH_RETENTION_OPTIONS.map((days) => {
+            const isActive = days === trashRetentionDays;
+            return (
+              <TouchableOpacity
+                key={days}
+                style={[styles.option, isActive && styles.optionActive]}
+                onPress={() => setTrashRetentionDays(days)}
+              >
+                <Text style={[styles.optionText, isActive && styles.optionTextActive]}>
+                  {days} days
+                </Text>
+              </TouchableOpacity>
+            );
+          })}
+          <TouchableOpacity
+            style={styles.emptyTrashButton}
+            onPress={handleEmptyTrash}
+            disabled={trashedTasks.length === 0}
+          >
+            <Text
+              style={[
+                styles.emptyTrashText,
+                trashedTasks.length === 0 && styles.emptyTrashTextDisabled,
+              ]}
+            >
+              Empty Trash
+            </Text>
+          </TouchableOpacity>
+        </View>
+        {activeListId !== null && (
+          <Text style={styles.scopeNote}>
+            Showing deleted tasks in {getListName(lists, activeListId)}
+          </Text>
+        )}
+      </View>
+
+      <FlatList
+        data={trashedTasks}
+        renderItem={renderTask}
+        keyExtractor={keyExtractor}
+        contentContainerStyle={[
+          styles.listContent,
+          trashedTasks.length === 0 && styles.listContentEmpty,
+        ]}
+        ListEmptyComponent={renderEmptyState}
+      />
+    </View>
+  );
+};
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+    backgroundColor: COLORS.background,
+  },
+  header: {
+    backgroundColor: COLORS.surface,
+    padding: SPACING.md,
+    borderBottomWidth: 1,
+    borderBottomColor: COLORS.border,
+  },
+  headerLabel: {
+    fontSize: FONT_SIZES.sm,
+    color: COLORS.textSecondary,
+    marginBottom: SPACING.xs,
+  },
+  optionRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+  },
+  option: {
+    paddingHorizontal: SPACING.md,
+    paddingVertical: SPACING.xs,
+    borderRadius: BORDER_RADIUS.round,
+    borderWidth: 1,
+    borderColor: COLORS.border,
+    marginRight: SPACING.sm,
+  },
+  optionActive: {
+    backgroundColor: COLORS.primary,
+    borderColor: COLORS.primary,
+  },
+  optionText: {
+    fontSize: FONT_SIZES.sm,
+    color: COLORS.text,
+  },
+  optionTextActive: {
+    color: '#fff',
+    fontWeight: FONT_WEIGHTS.semibold,
+  },
+  emptyTrashButton: {
+    marginLeft: 'auto',
+    paddingVertical: SPACING.xs,
+  },
+  emptyTrashText: {
+    fontSize: FONT_SIZES.sm,
+    fontWeight: FONT_WEIGHTS.semibold,
+    color: COLORS.error,
+  },
+  emptyTrashTextDisabled: {
+    color: COLORS.disabled,
+  },
+  scopeNote: {
+    fontSize: FONT_SIZES.xs,
+    color: COLORS.textTertiary,
+    marginTop: SPACING.sm,
+  },
+  listContent: {
+    paddingTop: SPACING.md,
+    paddingBottom: SPACING.xl,
+  },
+  listContentEmpty: {
+    flexGrow: 1,
+  },
+  row: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    backgroundColor: COLORS.surface,
+    borderRadius: BORDER_RADIUS.lg,
+    padding: SPACING.md,
+    marginHorizontal: SPACING.md,
+    marginBottom: SPACING.sm,
+    ...SHADOWS.small,
+  },
+  rowContent: {
+    flex: 1,
+  },
+  title: {
+    fontSize: FONT_SIZES.lg,
+    fontWeight: FONT_WEIGHTS.semibold,
+    color: COLORS.text,
+  },
+  meta: {
+    fontSize: FONT_SIZES.sm,
+    color: COLORS.textSecondary,
+    marginTop: SPACING.xs,
+  },
+  actionButton: {
+    padding: SPACING.xs,
+    marginLeft: SPACING.sm,
+  },
+  restoreText: {
+    fontSize: FONT_SIZES.md,
+    fontWeight: FONT_WEIGHTS.semibold,
+    color: COLORS.primary,
+  },
+  deleteIcon: {
+    fontSize: 20,
+  },
+  emptyContainer: {
+    flex: 1,
+    justifyContent: 'center',
+    alignItems: 'center',
+    padding: SPACING.xl,
+  },
+  emptyEmoji: {
+    fontSize: 64,
+    marginBottom: SPACING.md,
+  },
+  emptyTitle: {
+    fontSize: FONT_SIZES.xl,
+    fontWeight: FONT_WEIGHTS.bold,
+    color: COLORS.text,
+    marginBottom: SPACING.xs,
+  },
+  emptyMessage: {
+    fontSize: FONT_SIZES.md,
+    color: COLORS.textSecondary,
+    textAlign: 'center',
+  },
+});
+
+export default TrashScreen;
@@ -47,12 +47,32 @@ export const COLORS = {
   // Status colors
   overdue: '#D32F2F',        // Dark red - overdue tasks
   completed: '#9E9E9E',      // Gray - completed tasks (de-emphasized)
+  highlight: '#FFF59D',      // Yellow - search matches
   
   // UI element colors
   disabled: '#BDBDBD',       // Gray - disabled buttons
   backdrop: 'rgba(0, 0, 0, 0.5)', // Semi-transparent black - modal backdrops
 };
 
+/**
+ * Palette offered when users pick a category color
+ * 
+ * Mid-saturation Material colors that keep white badge text readable.
+ * The first four are the colors of the default categories.
+ */
+export const CATEGORY_COLORS = [
+  '#2196F3', // Blue - Work
+  '#9C27B0', // Purple - Personal
+  '#009688', // Teal - Study
+  '#607D8B', // Blue gray - Other
+  '#F44336', // Red
+  '#FF9800', // Orange
+  '#4CAF50', // Green
+  '#795548', // Brown
+  '#3F51B5', // Indigo
+  '#E91E63', // Pink
+];
+
 /**
  * Spacing scale based on 4px grid
  * Ensures consistent spacing throughout the app
@@ -18,8 +18,11 @@ export enum Priority {
 }
 
 /**
- * Task categories for organization
- * Allows users to group tasks by context (work, personal, study, etc.)
+ * Built-in default category IDs
+ * 
+ * Categories are user data (see UserCategory). These four are seeded for every
+ * user on first sign-in, and tasks created before custom categories existed
+ * reference them by these IDs.
  */
 export enum Category {
   WORK = 'work',
@@ -28,6 +31,91 @@ export enum Category {
   OTHER = 'other',
 }
 
+/**
+ * Subtask model - a single checklist item inside a Task
+ * 
+ * Subtasks are stored inline on the parent task document (not a subcollection)
+ * so a task and its checklist are always read and written together.
+ */
+export interface Subtask {
+  /** Locally generated ID, unique within the parent task */
+  id: string;
+  
+  /** Subtask title (required, max 100 chars) */
+  title: string;
+  
+  /** Whether the subtask has been checked off */
+  completed: boolean;
+  
+  /** Display position within the checklist (0-based, ascending) */
+  order: number;
+}
+
+/**
+ * How often a recurring task repeats
+ */
+export type RecurrenceFrequency = 'daily' | 'weekly' | 'monthly' | 'yearly';
+
+/**
+ * RRULE-style repeat rule for recurring tasks
+ * 
+ * Modeled loosely on RFC 5545 RRULE. Every field is always present (null/empty
+ * when unused) because Firestore rejects documents containing `undefined`.
+ * 
+ * Examples:
+ * - Every weekday: { frequency: 'weekly', interval: 1, byWeekday: [1, 2, 3, 4, 5] }
+ * - Monthly on the 15th: { frequency: 'monthly', interval: 1, byMonthDay: 15 }
+ * - Last Friday of every month: { frequency: 'monthly', interval: 1, byWeekday: [5], bySetPos: -1 }
+ */
+export interface RecurrenceRule {
+  /** Repeat unit */
+  frequency: RecurrenceFrequency;
+  
+  /** Repeat every N units (1 = every day/week/month/year) */
+  interval: number;
+  
+  /** Weekdays (0 = Sunday ... 6 = Saturday) for weekly rules; first entry is the weekday for nth-weekday monthly rules */
+  byWeekday: number[];
+  
+  /** Day of month (1-31, clamped to month length) for monthly rules */
+  byMonthDay: number | null;
+  
+  /** Nth weekday of the month (1-4, or -1 for last) for monthly rules; takes precedence over byMonthDay */
+  bySetPos: number | null;
+  
+  /** Last date an occurrence may start (ISO 8601 string), null for no end date */
+  until: string | null;
+  
+  /** Total number of occurrences in the series, null for unlimited */
+  count: number | null;
+  
+  /** 1-based position of this task within the series (used with count) */
+  occurrence: number;
+}
+
+/**
+ * Task time a reminder is relative to
+ * - dateTime: When the task starts
+ * - deadline: When the task is due
+ */
+export type ReminderAnchor = 'dateTime' | 'deadline';
+
+/**
+ * Local notification for a task, a number of minutes before its start or
+ * deadline
+ * 
+ * Examples:
+ * - At start time: { anchor: 'dateTime', offsetMinutes: 0 }
+ * - 1 hour before the deadline: { anchor: 'deadline', offsetMinutes: 60 }
+ */
+export interface TaskReminder {
+  /** Task time the reminder is relative to */
+  anchor: ReminderAnchor;
+  
+  /** Minutes before the anchor (0 = at that time) */
+  offsetMinutes: number;
+}
+
 /**
  * Task model - represents a single todo item
  * 
@@ -56,12 +144,48 @@ export interface Task {
   /** Task priority level - affects sorting and visual display */
   priority: Priority;
   
-  /** Task category - used for filtering and organization */
-  category: Category;
+  /** Category ID (a UserCategory document ID, e.g. 'work' or an auto-generated ID) */
+  category: string;
+  
+  /** List (project) this task belongs to (a TaskList document ID, e.g. 'inbox') */
+  listId: string;
   
-  /** Whether the task has been marked as complete */
+  /** Free-form user tags (lowercase, without '#'), e.g. ['q3-launch', 'backend'] */
+  tags: string[];
+  
+  /** Whether the task has been marked as complete (true when done or cancelled) */
   completed: boolean;
   
+  /** Workflow status (closed exactly when completed, see statusUtils) */
+  status: TaskStatus;
+  
+  /** Checklist of subtasks (empty array if the task is atomic) */
+  subtasks: Subtask[];
+  
+  /** Repeat rule (null for one-off tasks) */
+  recurrence: RecurrenceRule | null;
+  
+  /** Local notifications before the start or deadline (empty for none) */
+  reminders: TaskReminder[];
+  
+  /**
+   * IDs of the tasks that must be completed before this one can start
+   * (no cycles, see dependencyUtils)
+   */
+  blockedBy: string[];
+  
+  /** When the task was moved to the trash (ISO 8601 string, null if not deleted) */
+  deletedAt: string | null;
+  
+  /** Pinned to the top of the list, above the sort order */
+  pinned: boolean;
+  
+  /**
+   * Position in the manual sort order (fractional index: moving a task sets a
+   * value between its new neighbors, so only that task is written)
+   */
+  manualOrder: number;
+  
   /** Timestamp when task was created (ISO 8601 string) */
   createdAt: string;
   
@@ -69,11 +193,55 @@ export interface Task {
   updatedAt: string;
 }
 
+/**
+ * Workflow status of a task
+ * Allowed moves between statuses: see statusUtils.STATUS_TRANSITIONS
+ */
+export type TaskStatus = 'todo' | 'in_progress' | 'blocked' | 'waiting' | 'done' | 'cancelled';
+
 /**
  * Task creation payload - excludes auto-generated fields
  * Used when adding a new task via the AddTaskModal
  */
-export type CreateTaskPayload = Omit<Task, 'id' | 'userId' | 'createdAt' | 'updatedAt'>;
+export type CreateTaskPayload = Omit<
+  Task,
+  | 'id'
+  | 'userId'
+  | 'status'
+  | 'blockedBy'
+  | 'deletedAt'
+  | 'pinned'
+  | 'manualOrder'
+  | 'createdAt'
+  | 'updatedAt'
+>;
+
+/**
+ * New manual order for one task (see orderUtils.getMoveUpdates)
+ */
+export interface TaskOrderUpdate {
+  taskId: string;
+  manualOrder: number;
+}
+
+/**
+ * Options for moving a task to the trash
+ */
+export interface DeleteTaskOptions {
+  /** Also remove the task from the blockedBy lists of the tasks waiting for it */
+  unlinkDependents?: boolean;
+}
+
+/**
+ * Prerequisites of a blocked task, for its card (see dependencyUtils)
+ */
+export interface DependencySummary {
+  /** Prerequisites that are not completed yet */
+  openPrerequisites: number;
+  
+  /** Open prerequisites due after the task itself */
+  deadlineConflicts: number;
+}
 
 /**
  * Task update payload - all fields optional except id
@@ -83,6 +251,141 @@ export type UpdateTaskPayload = Partial<Omit<Task, 'id' | 'userId' | 'createdAt'
   id: string;
 };
 
+/**
+ * User-defined category
+ * 
+ * Stored per user at /users/{userId}/categories/{categoryId}.
+ * The defaults use the Category enum values as document IDs.
+ */
+export interface UserCategory {
+  /** Firestore document ID (referenced by Task.category) */
+  id: string;
+  
+  /** Display name (required, max 30 chars) */
+  name: string;
+  
+  /** Badge color (hex string, e.g. '#2196F3') */
+  color: string;
+  
+  /** Emoji icon shown next to the name */
+  icon: string;
+  
+  /** Display position (0-based, ascending) */
+  order: number;
+  
+  /** Timestamp when category was created (ISO 8601 string) */
+  createdAt: string;
+  
+  /** Timestamp of last update (ISO 8601 string) */
+  updatedAt: string;
+}
+
+/**
+ * Category creation payload - excludes auto-generated fields
+ */
+export type CreateCategoryPayload = Omit<UserCategory, 'id' | 'createdAt' | 'updatedAt'>;
+
+/**
+ * Named task list (project) that groups tasks
+ * 
+ * Stored per user at /users/{userId}/lists/{listId}.
+ * Every user has an undeletable default list with the ID 'inbox'.
+ */
+export interface TaskList {
+  /** Firestore document ID (referenced by Task.listId) */
+  id: string;
+  
+  /** Display name (required, max 30 chars) */
+  name: string;
+  
+  /** Display position (0-based, ascending) */
+  order: number;
+  
+  /** Timestamp when list was created (ISO 8601 string) */
+  createdAt: string;
+  
+  /** Timestamp of last update (ISO 8601 string) */
+  updatedAt: string;
+}
+
+/**
+ * Task list creation payload - excludes auto-generated fields
+ */
+export type CreateTaskListPayload = Omit<TaskList, 'id' | 'createdAt' | 'updatedAt'>;
+
+/**
+ * Structured task filter
+ * 
+ * Parsed from a filter query such as `priority:high due:<7d -completed`
+ * (see taskQueryUtils). A task must match every field that is set;
+ * empty arrays and null mean "any".
+ * 
+ * Due values are relative ('12h', '3d', '2w' from now), days ('today',
+ * 'tomorrow', 'yesterday') or dates ('2026-06-01'), resolved when matching.
+ */
+export interface TaskQuery {
+  /** Priorities to include */
+  priorities: Priority[];
+  
+  /** Category IDs to include */
+  categories: string[];
+  
+  /** Deadline before this point (before the start of a day) */
+  dueBefore: string | null;
+  
+  /** Deadline after this point (after the end of a day) */
+  dueAfter: string | null;
+  
+  /** Deadline on this day, or between now and this point */
+  dueWithin: string | null;
+  
+  /** Overdue (true) or not overdue (false) */
+  overdue: boolean | null;
+  
+  /** Completed (true) or active (false) */
+  completed: boolean | null;
+  
+  /** Tags a task must all carry */
+  tags: string[];
+  
+  /** Tags a task must not carry */
+  excludedTags: string[];
+  
+  /** Search text matched against title and description */
+  text: string;
+}
+
+/**
+ * Named filter (saved view) shown as a tab next to All / Active / Completed
+ * 
+ * Stored per user at /users/{userId}/views/{viewId}. The filter is kept as
+ * query text so it stays readable and editable.
+ */
+export interface SavedView {
+  /** Firestore document ID */
+  id: string;
+  
+  /** Display name (required, max 30 chars) */
+  name: string;
+  
+  /** Filter query (e.g., 'priority:high due:<7d -completed') */
+  query: string;
+  
+  /** Display position (0-based, ascending) */
+  order: number;
+  
+  /** Timestamp when view was created (ISO 8601 string) */
+  createdAt: string;
+  
+  /** Timestamp of last update (ISO 8601 string) */
+  updatedAt: string;
+}
+
+/**
+ * Saved view creation payload - excludes auto-generated fields
+ */
+export type CreateSavedViewPayload = Omit<SavedView, 'id' | 'createdAt' | 'updatedAt'>;
+
 // ============================================================
 // Authentication State Types
 // ============================================================
@@ -115,6 +418,192 @@ export type AuthAction =
 // Task State Types
 // ============================================================
 
+/**
+ * Sync state of a task mutation
+ * - pending: written locally, not yet confirmed by the server
+ * - synced: confirmed by the server
+ * - failed: rejected by the server (optimistic change rolled back)
+ */
+export type SyncStatus = 'pending' | 'synced' | 'failed';
+
+/**
+ * Kind of task mutation tracked by the write queue
+ */
+export type PendingWriteType = 'add' | 'update' | 'delete';
+
+/**
+ * Entry in the persistent pending-writes queue
+ * 
+ * Holds everything needed to replay the write (after a restart or on retry)
+ * and to roll back the optimistic update if the server rejects it.
+ */
+export interface PendingWrite {
+  /** Unique queue entry ID */
+  id: string;
+  
+  /** Task the mutation applies to */
+  taskId: string;
+  
+  /** Kind of mutation */
+  type: PendingWriteType;
+  
+  /** Full task for 'add', changed fields for 'update', null for 'delete' */
+  data: Partial<Task> | null;
+  
+  /** Task before the mutation (null for 'add'), used for rollback */
+  previous: Task | null;
+  
+  /** Current sync state (synced entries are dropped from the queue) */
+  status: SyncStatus;
+  
+  /** Error message from the last failed attempt (null if none) */
+  error: string | null;
+  
+  /** Number of times the write has been sent */
+  attempts: number;
+  
+  /** Timestamp when the mutation was queued (ISO 8601 string) */
+  createdAt: string;
+  
+  /** Change-history entries written together with an 'update' (empty otherwise) */
+  audit: AuditEntry[];
+}
+
+/**
+ * Who made a recorded change
+ */
+export interface AuditActor {
+  /** Firebase Auth UID */
+  userId: string;
+  
+  /** Display name or email at the time of the change */
+  name: string;
+}
+
+/**
+ * Single field changed between two versions of a task
+ */
+export interface AuditFieldChange {
+  /** Changed task field */
+  field: keyof Task;
+  
+  /** Value before the change (null if the field was missing) */
+  oldValue: Task[keyof Task] | null;
+  
+  /** Value after the change (null if the field was removed) */
+  newValue: Task[keyof Task] | null;
+}
+
+/**
+ * Entry in a task's change history (audit trail)
+ * 
+ * Stored at /tasks/{taskId}/history/{entryId}, one entry per changed field.
+ */
+export interface AuditEntry extends AuditFieldChange {
+  /** Unique entry ID (Firestore document ID) */
+  id: string;
+  
+  /** Task the change applies to */
+  taskId: string;
+  
+  /** When the change was made (ISO 8601 string) */
+  timestamp: string;
+  
+  /** Who made the change */
+  actor: AuditActor;
+}
+
+/**
+ * Single task mutation as applied by TaskContext (and replayed by undo/redo)
+ */
+export type TaskMutation =
+  | { type: 'add'; task: Task }
+  | { type: 'update'; taskId: string; updates: Partial<Task> }
+  | { type: 'delete'; taskId: string };
+
+/**
+ * Undoable user action (one or more mutations)
+ */
+export interface HistoryEntry {
+  /** Unique entry ID */
+  id: string;
+  
+  /** Short description for the undo toast, e.g. 'Completed "Buy milk"' */
+  label: string;
+  
+  /** Mutations the action applied (re-applied by redo) */
+  mutations: TaskMutation[];
+  
+  /** Mutations that revert the action, in the order to apply them */
+  inverse: TaskMutation[];
+}
+
+/**
+ * Undo/redo stacks (most recent entry last)
+ */
+export interface TaskHistory {
+  past: HistoryEntry[];
+  future: HistoryEntry[];
+}
+
+/**
+ * Kind of change delivered by a task subscription (mirrors Firestore's docChanges)
+ */
+export type TaskChangeType = 'added' | 'modified' | 'removed';
+
+/**
+ * Single task change in a subscription snapshot
+ */
+export interface TaskChange {
+  type: TaskChangeType;
+  
+  /** Task after the change (last known version for 'removed') */
+  task: Task;
+}
+
+/**
+ * Where a snapshot's data comes from
+ */
+export interface SnapshotMetadata {
+  /** Snapshot includes local writes the server has not confirmed yet (a local echo) */
+  hasPendingWrites: boolean;
+  
+  /** Data came from the local cache (offline, or before the server answered) */
+  fromCache: boolean;
+}
+
+/**
+ * Incremental update delivered by a task subscription
+ * The first snapshot lists every task as 'added'; later ones only what changed.
+ */
+export interface TaskSnapshot {
+  changes: TaskChange[];
+  metadata: SnapshotMetadata;
+}
+
+/**
+ * A reminder scheduled as a local notification (see reminderUtils)
+ */
+export interface ScheduledNotification {
+  /** Stable ID per task and reminder, so rescheduling replaces it */
+  id: string;
+  
+  /** Task the reminder belongs to */
+  taskId: string;
+  
+  /** List of the task (reconciling a list leaves other lists alone) */
+  listId: string;
+  
+  /** Notification title (the task title) */
+  title: string;
+  
+  /** Notification text (e.g. 'Due in 1 hour') */
+  body: string;
+  
+  /** When the notification is shown (ISO 8601 string) */
+  fireAt: string;
+}
+
 /**
  * Task state managed by TaskContext
  */
@@ -122,6 +611,15 @@ export interface TaskState {
   /** All tasks for the current user */
   tasks: Task[];
   
+  /** Metadata of the latest subscription snapshot */
+  snapshotMetadata: SnapshotMetadata;
+  
+  /** Writes not yet confirmed by the server, plus failed writes awaiting retry */
+  pendingWrites: PendingWrite[];
+  
+  /** Undo/redo history of the user's task actions (cleared on logout) */
+  history: TaskHistory;
+  
   /** Loading state for initial fetch or refresh */
   loading: boolean;
   
@@ -136,13 +634,284 @@ export interface TaskState {
 export type TaskAction =
   | { type: 'TASKS_LOADING' }
   | { type: 'TASKS_LOADED'; payload: Task[] }
+  | { type: 'TASKS_CHANGED'; payload: TaskSnapshot }
   | { type: 'TASKS_ERROR'; payload: string }
   | { type: 'TASK_ADDED'; payload: Task }
   | { type: 'TASK_UPDATED'; payload: Task }
-  | { type: 'TASK_DELETED'; payload: string };
+  | { type: 'TASK_DELETED'; payload: string }
+  | { type: 'WRITES_RESTORED'; payload: PendingWrite[] }
+  | { type: 'WRITES_CLEARED' }
+  | { type: 'WRITE_QUEUED'; payload: PendingWrite }
+  | { type: 'WRITE_SYNCED'; payload: string }
+  | { type: 'WRITE_FAILED'; payload: { id: string; error: string } }
+  | { type: 'WRITE_DISMISSED'; payload: string }
+  | { type: 'HISTORY_RECORDED'; payload: HistoryEntry }
+  | { type: 'HISTORY_UNDONE' }
+  | { type: 'HISTORY_REDONE' }
+  | { type: 'HISTORY_CLEARED' };
+
+// ============================================================
+// Category State Types
+// ============================================================
+
+/**
+ * Category state managed by CategoryContext
+ */
+export interface CategoryState {
+  /** All categories for the current user, sorted by order */
+  categories: UserCategory[];
+  
+  /** Loading state for initial fetch */
+  loading: boolean;
+  
+  /** Error message from last failed operation (null if no error) */
+  error: string | null;
+}
+
+/**
+ * Category context actions
+ * Defines all possible state transitions for the category reducer
+ */
+export type CategoryAction =
+  | { type: 'CATEGORIES_LOADING' }
+  | { type: 'CATEGORIES_LOADED'; payload: UserCategory[] }
+  | { type: 'CATEGORIES_ERROR'; payload: string };
+
+// ============================================================
+// Task List State Types
+// ============================================================
+
+/**
+ * Task list state managed by ListContext
+ */
+export interface ListState {
+  /** All lists for the current user, sorted by order */
+  lists: TaskList[];
+  
+  /** List whose tasks are subscribed to (null = all lists) */
+  activeListId: string | null;
+  
+  /** Number of tasks per list ID (refreshed on demand) */
+  counts: Record<string, number>;
+  
+  /** Loading state for initial fetch */
+  loading: boolean;
+  
+  /** Error message from last failed operation (null if no error) */
+  error: string | null;
+}
+
+/**
+ * Task list context actions
+ * Defines all possible state transitions for the list reducer
+ */
+export type ListAction =
+  | { type: 'LISTS_LOADING' }
+  | { type: 'LISTS_LOADED'; payload: TaskList[] }
+  | { type: 'LISTS_ERROR'; payload: string }
+  | { type: 'LIST_SELECTED'; payload: string | null }
+  | { type: 'LIST_COUNTS_LOADED'; payload: Record<string, number> };
+
+// ============================================================
+// Saved View State Types
+// ============================================================
+
+/**
+ * Saved view state managed by ViewContext
+ */
+export interface ViewState {
+  /** All saved views for the current user, sorted by order */
+  views: SavedView[];
+  
+  /** Loading state for initial fetch */
+  loading: boolean;
+  
+  /** Error message from last failed operation (null if no error) */
+  error: string | null;
+}
+
+/**
+ * Saved view context actions
+ * Defines all possible state transitions for the view reducer
+ */
+export type ViewAction =
+  | { type: 'VIEWS_LOADING' }
+  | { type: 'VIEWS_LOADED'; payload: SavedView[] }
+  | { type: 'VIEWS_ERROR'; payload: string };
 
 /**
  * Filter options for task list
  * Used by FilterBar component to show active/completed/all tasks
  */
 export type TaskFilter = 'all' | 'active' | 'completed';
+
+/**
+ * Sort modes for the task list
+ * - smart: priority and urgency score (the default)
+ * - deadline / created: by date
+ * - title: alphabetical
+ * - category: by the user's category order
+ * - manual: the user's own order (drag and drop)
+ */
+export type TaskSortMode = 'smart' | 'deadline' | 'created' | 'title' | 'category' | 'manual';
+
+/**
+ * Sort direction (asc = smallest / earliest / A first)
+ */
+export type SortDirection = 'asc' | 'desc';
+
+/**
+ * Task list sort order, persisted per user on the device
+ */
+export interface TaskSort {
+  mode: TaskSortMode;
+  direction: SortDirection;
+}
+
+/**
+ * Urgency bonus for tasks due within a number of hours
+ */
+export interface UrgencyThreshold {
+  /** Applies when the deadline is less than this many hours away */
+  hours: number;
+  
+  /** Points added to the score */
+  bonus: number;
+}
+
+/**
+ * How a task's smart score was computed (see taskUtils.explainTaskScore)
+ * The parts add up to the total.
+ */
+export interface ScoreBreakdown {
+  /** Points for the task's priority (0 for completed tasks) */
+  priorityWeight: number;
+  
+  /** Which urgency bonus applied ('blocked': none, blocked tasks get no urgency bonus) */
+  urgency: 'overdue' | 'threshold' | 'none' | 'blocked';
+  
+  /** Hours of the urgency threshold that applied (null unless urgency is 'threshold') */
+  urgencyHours: number | null;
+  
+  /** Points for being overdue or due soon */
+  urgencyBonus: number;
+  
+  /** Hours until the deadline (negative when overdue) */
+  hoursRemaining: number;
+  
+  /** Minus the hours until the deadline (capped; positive when overdue) */
+  timePenalty: number;
+  
+  /** Points for checklist progress */
+  subtaskBonus: number;
+  
+  /** Points for being blocked (negative, 0 for other tasks) */
+  blockedPenalty: number;
+  
+  /** Points for being completed (negative, 0 for open tasks) */
+  completionPenalty: number;
+  
+  /** Final score (higher = appears first) */
+  total: number;
+}
+
+/**
+ * One line of a score explanation ("High priority: +100")
+ */
+export interface ScoreFactor {
+  key: 'priority' | 'urgency' | 'time' | 'subtasks' | 'blocked' | 'completion';
+  label: string;
+  points: number;
+}
+
+/**
+ * Smart sort scoring weights and thresholds, stored per user on the device
+ * (see taskUtils.calculateTaskScore)
+ */
+export interface ScoringConfig {
+  /** Base points per priority */
+  priorityWeights: Record<Priority, number>;
+  
+  /** Points added to overdue tasks */
+  overdueBonus: number;
+  
+  /** Urgency bonuses, by increasing hours (the first one that applies is used) */
+  urgencyThresholds: UrgencyThreshold[];
+  
+  /** Cap on the hours-until-deadline penalty */
+  maxDeadlinePenalty: number;
+  
+  /** Bonus for a fully checked-off checklist (proportional to progress) */
+  subtaskProgressWeight: number;
+}
+
+/**
+ * Task counts for filter badges
+ * Includes one count per filter tab plus the number of tasks carrying each
+ * tag and the number of tasks in each status
+ */
+export type TaskCounts = Record<TaskFilter, number> & {
+  tags: Record<string, number>;
+  statuses: Record<TaskStatus, number>;
+};
+
+/**
+ * A task laid out on a day timeline (see timelineUtils.layoutDayTimeline)
+ * Overlapping tasks share the width side by side.
+ */
+export interface TimelineBlock {
+  task: Task;
+  
+  /** Start, in minutes after local midnight of the day */
+  startMinutes: number;
+  
+  /** End, in minutes after local midnight (up to 1440) */
+  endMinutes: number;
+  
+  /** Column within the overlapping group (0 = leftmost) */
+  column: number;
+  
+  /** Number of columns in the overlapping group */
+  columnCount: number;
+}
+
+/**
+ * Tasks of one day on the timeline
+ */
+export interface DayTimeline {
+  /** Tasks spanning the whole day or several days (all-day lane) */
+  allDay: Task[];
+  
+  /** Tasks with a time range within the day */
+  blocks: TimelineBlock[];
+}
+
+/**
+ * Task field that board columns are grouped by
+ */
+export type BoardGroupBy = 'status' | 'category' | 'priority';
+
+/**
+ * One column of the board (see boardUtils.getBoardColumns)
+ */
+export interface BoardColumn {
+  /** Value of the grouped field (status, category ID or priority) */
+  key: string;
+  
+  title: string;
+  
+  /** Accent color (category or priority color) */
+  color?: string;
+  
+  tasks: Task[];
+}
+
+/**
+ * Board layout, stored per user on the device
+ */
+export interface BoardSettings {
+  groupBy: BoardGroupBy;
+  
+  /** Work-in-progress limits, by column ("status:in_progress" → 3); no entry = no limit */
+  wipLimits: Record<string, number>;
+}
@@ -0,0 +1,213 @@
+/**
+ * Audit Utilities
+ * 
+ * Pure helpers for a task's change history (audit trail): diffing two
+ * versions of a task, building history entries, and describing changes for
+ * the timeline.
+ * 
+ * Bookkeeping fields (id, userId, manualOrder, createdAt, updatedAt) are never
+ * recorded.
+ */
+
+import {
+  AuditActor,
+  AuditEntry,
+  AuditFieldChange,
+  RecurrenceRule,
+  Subtask,
+  Task,
+  TaskReminder,
+  TaskStatus,
+} from '../types';
+import { formatDateTime } from './dateUtils';
+import { describeRecurrence } from './recurrenceUtils';
+import { describeReminder } from './reminderUtils';
+import { getSubtaskProgress } from './subtaskUtils';
+import { STATUS_LABELS } from './statusUtils';
+import { generateId } from './idUtils';
+
+/**
+ * Fields that change on every write or never change, and the manual order
+ * (a position in the list, not part of the task)
+ */
+const IGNORED_FIELDS: Array<keyof Task> = ['id', 'userId', 'manualOrder', 'createdAt', 'updatedAt'];
+
+/**
+ * Compare two versions of a task field by value
+ */
+const isSameValue = (a: unknown, b: unknown): boolean => {
+  return JSON.stringify(a ?? null) === JSON.stringify(b ?? null);
+};
+
+/**
+ * Get the fields that differ between two versions of a task
+ * 
+ * Arrays and objects (tags, subtasks, recurrence) are compared by value.
+ * Missing fields (tasks from older app versions) are reported as null.
+ * 
+ * @param before - Task before the change
+ * @param after - Task after the change
+ * @returns Changed fields, in the order of the task's fields
+ */
+export const diffTasks = (before: Task, after: Task): AuditFieldChange[] => {
+  const fields = new Set([...Object.keys(before), ...Object.keys(after)] as Array<keyof Task>);
+  const changes: AuditFieldChange[] = [];
+  
+  fields.forEach((field) => {
+    if (IGNORED_FIELDS.includes(field) || isSameValue(before[field], after[field])) {
+      return;
+    }
+    
+    changes.push({
+      field,
+      oldValue: before[field] ?? null,
+      newValue: after[field] ?? null,
+    });
+  });
+  
+  return changes;
+};
+
+/**
+ * Turn field changes into history entries
+ * 
+ * @param taskId - Task the changes apply to
+ * @param changes - Changed fields (see diffTasks)
+ * @param actor - Who made the change
+ * @param timestamp - When the change was made (defaults to now)
+ * @returns One entry per changed field
+ */
+export const createAuditEntries = (
+  taskId: string,
+  changes: AuditFieldChange[],
+  actor: AuditActor,
+  timestamp: string = new Date().toISOString()
+): AuditEntry[] => {
+  return changes.map((change) => ({
+    ...change,
+    id: generateId(),
+    taskId,
+    timestamp,
+    actor,
+  }));
+};
+
+/**
+ * Sort history entries newest first
+ * 
+ * @param entries - Entries to sort
+ * @returns New sorted array
+ */
+export const sortAuditEntries = (entries: AuditEntry[]): AuditEntry[] => {
+  return [...entries].sort((a, b) => b.timestamp.localeCompare(a.timestamp));
+};
+
+/**
+ * Format an optional date value for the timeline
+ */
+const formatDateValue = (value: unknown): string => {
+  return typeof value === 'string' && value ? formatDateTime(value) : 'none';
+};
+
+/**
+ * Format a status value for a description (null for tasks from before statuses)
+ */
+const formatStatusValue = (value: unknown): string => {
+  return STATUS_LABELS[value as TaskStatus] ?? 'none';
+};
+
+/**
+ * Describe a field change in one line for the history timeline
+ * 
+ * @param change - Changed field
+ * @returns Readable description (e.g., 'Deadline moved from … to …')
+ */
+export const describeAuditChange = (change: AuditFieldChange): string => {
+  const { field, oldValue, newValue } = change;
+  
+  switch (field) {
+    case 'title':
+      return `Renamed from "${oldValue}" to "${newValue}"`;
+    
+    case 'description':
+      if (!oldValue) {
+        return 'Description added';
+      }
+      return newValue ? 'Description edited' : 'Description removed';
+    
+    case 'dateTime':
+      return `Start moved from ${formatDateValue(oldValue)} to ${formatDateValue(newValue)}`;
+    
+    case 'deadline':
+      return `Deadline moved from ${formatDateValue(oldValue)} to ${formatDateValue(newValue)}`;
+    
+    case 'priority':
+      return `Priority changed from ${oldValue ?? 'none'} to ${newValue}`;
+    
+    case 'category':
+      return 'Category changed';
+    
+    case 'listId':
+      return 'Moved to another list';
+    
+    case 'tags': {
+      const oldTags = (oldValue as string[] | null) ?? [];
+      const newTags = (newValue as string[] | null) ?? [];
+      const added = newTags.filter((tag) => !oldTags.includes(tag));
+      const removed = oldTags.filter((tag) => !newTags.includes(tag));
+      const parts: string[] = [];
+      
+      if (added.length > 0) {
+        parts.push(`added ${added.map((tag) => `#${tag}`).join(', ')}`);
+      }
+      if (removed.length > 0) {
+        parts.push(`removed ${removed.map((tag) => `#${tag}`).join(', ')}`);
+      }
+      return parts.length > 0 ? `Tags ${parts.join('; ')}` : 'Tags reordered';
+    }
+    
+    case 'completed':
+      return newValue ? 'Marked complete' : 'Reopened';
+    
+    case 'status':
+      return `Status changed from ${formatStatusValue(oldValue)} to ${formatStatusValue(newValue)}`;
+    
+    case 'subtasks': {
+      const before = getSubtaskProgress((oldValue as Subtask[] | null) ?? []);
+      const after = getSubtaskProgress((newValue as Subtask[] | null) ?? []);
+      return `Checklist changed (${before.completed}/${before.total} → ${after.completed}/${after.total} done)`;
+    }
+    
+    case 'recurrence':
+      if (!newValue) {
+        return 'Repeat removed';
+      }
+      return `Repeat changed to: ${describeRecurrence(newValue as RecurrenceRule)}`;
+    
+    case 'blockedBy': {
+      const before = ((oldValue as string[] | null) ?? []).length;
+      const after = ((newValue as string[] | null) ?? []).length;
+      if (after > before) {
+        return 'Prerequisite added';
+      }
+      return after < before ? 'Prerequisite removed' : 'Prerequisites changed';
+    }
+    
+    case 'reminders': {
+      const reminders = (newValue as TaskReminder[] | null) ?? [];
+      if (reminders.length === 0) {
+        return 'Reminders removed';
+      }
+      return `Reminders changed to: ${reminders.map(describeReminder).join(', ')}`;
+    }
+    
+    case 'deletedAt':
+      return newValue ? 'Moved to the trash' : 'Restored from the trash';
+    
+    case 'pinned':
+      return newValue ? 'Pinned to the top' : 'Unpinned';
+    
+    default:
+      return `${field} changed`;
+  }
+};
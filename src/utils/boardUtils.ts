@@ -0,0 +1,190 @@
+/**
+ * Board Utilities
+ * 
+ * Groups tasks into the columns of the kanban board and handles the
+ * work-in-progress (WIP) limits of each column.
+ * 
+ * The board can be grouped by workflow status, category or priority.
+ * The status board shows every task (its last columns are Done and
+ * Cancelled); the category and priority boards show open tasks only, since
+ * completed tasks have left the workflow. Tasks keep the order they are
+ * passed in within each column.
+ */
+
+import {
+  BoardColumn,
+  BoardGroupBy,
+  BoardSettings,
+  Priority,
+  Task,
+  TaskStatus,
+  UserCategory,
+} from '../types';
+import { COLORS } from '../theme';
+import { resolveCategory, sortCategories } from './categoryUtils';
+import { STATUS_LABELS, TASK_STATUSES, getStatusUpdates } from './statusUtils';
+
+/**
+ * Board layout used until the user changes it: by status, no limits
+ */
+export const DEFAULT_BOARD_SETTINGS: BoardSettings = {
+  groupBy: 'status',
+  wipLimits: {},
+};
+
+/**
+ * Priority columns, most important first
+ */
+const PRIORITY_COLUMNS: Array<{ priority: Priority; title: string; color: string }> = [
+  { priority: Priority.HIGH, title: 'High', color: COLORS.priorityHigh },
+  { priority: Priority.MEDIUM, title: 'Medium', color: COLORS.priorityMedium },
+  { priority: Priority.LOW, title: 'Low', color: COLORS.priorityLow },
+];
+
+/**
+ * Split tasks into columns by a key, in the order of the columns
+ */
+const fillColumns = (
+  columns: Array<Omit<BoardColumn, 'tasks'>>,
+  tasks: Task[],
+  getKey: (task: Task) => string
+): BoardColumn[] => {
+  const byKey = new Map<string, Task[]>(columns.map((column) => [column.key, []]));
+  
+  tasks.forEach((task) => {
+    byKey.get(getKey(task))?.push(task);
+  });
+  
+  return columns.map((column) => ({ ...column, tasks: byKey.get(column.key) ?? [] }));
+};
+
+/**
+ * Group tasks into board columns
+ * 
+ * Category columns follow the user's category order; tasks pointing at a
+ * category that is not loaded get a column of their own at the end.
+ * 
+ * @param tasks - Tasks to show (already sorted)
+ * @param groupBy - Field the columns are grouped by
+ * @param categories - User's categories, for the category board
+ * @returns Columns, with every column shown even when empty
+ * 
+ * Example usage:
+ * ```ts
+ * const columns = getBoardColumns(sortedTasks, 'status', categories);
+ * // [{ key: 'todo', title: 'To Do', tasks: [...] }, { key: 'in_progress', ... }, ...]
+ * ```
+ */
+export const getBoardColumns = (
+  tasks: Task[],
+  groupBy: BoardGroupBy,
+  categories: UserCategory[]
+): BoardColumn[] => {
+  if (groupBy === 'status') {
+    return fillColumns(
+      TASK_STATUSES.map((status) => ({ key: status, title: STATUS_LABELS[status] })),
+      tasks,
+      (task) => task.status
+    );
+  }
+  
+  const openTasks = tasks.filter((task) => !task.completed);
+  
+  if (groupBy === 'priority') {
+    return fillColumns(
+      PRIORITY_COLUMNS.map(({ priority, title, color }) => ({ key: priority, title, color })),
+      openTasks,
+      (task) => task.priority
+    );
+  }
+  
+  const known = sortCategories(categories);
+  const unknownIds = [...new Set(openTasks.map((task) => task.category))].filter(
+    (id) => !known.some((category) => category.id === id)
+  );
+  
+  return fillColumns(
+    [...known, ...unknownIds.map((id) => resolveCategory(categories, id))].map((category) => ({
+      key: category.id,
+      title: `${category.icon} ${category.name}`,
+      color: category.color,
+    })),
+    openTasks,
+    (task) => task.category
+  );
+};
+
+/**
+ * Get the key of a column's WIP limit (limits are kept per grouping, so the
+ * "High" priority limit is not the limit of a category named "high")
+ * 
+ * @param groupBy - Field the columns are grouped by
+ * @param columnKey - BoardColumn.key
+ */
+export const getWipLimitKey = (groupBy: BoardGroupBy, columnKey: string): string => {
+  return `${groupBy}:${columnKey}`;
+};
+
+/**
+ * Get the WIP limit of a column
+ * 
+ * @param settings - Board settings
+ * @param columnKey - BoardColumn.key (in the settings' grouping)
+ * @returns Maximum number of tasks, or null when the column has no limit
+ */
+export const getWipLimit = (settings: BoardSettings, columnKey: string): number | null => {
+  return settings.wipLimits[getWipLimitKey(settings.groupBy, columnKey)] ?? null;
+};
+
+/**
+ * Set or clear the WIP limit of a column
+ * 
+ * @param settings - Board settings
+ * @param columnKey - BoardColumn.key (in the settings' grouping)
+ * @param limit - New limit (null, 0 or less removes it)
+ * @returns New settings
+ */
+export const setWipLimit = (
+  settings: BoardSettings,
+  columnKey: string,
+  limit: number | null
+): BoardSettings => {
+  const key = getWipLimitKey(settings.groupBy, columnKey);
+  const wipLimits = { ...settings.wipLimits };
+  
+  if (limit !== null && limit > 0) {
+    wipLimits[key] = Math.floor(limit);
+  } else {
+    delete wipLimits[key];
+  }
+  
+  return { ...settings, wipLimits };
+};
+
+/**
+ * Check if a column holds more tasks than its WIP limit allows
+ * 
+ * @param count - Number of tasks in the column (including any being added)
+ * @param limit - Column limit (null = no limit)
+ */
+export const isOverWipLimit = (count: number, limit: number | null): boolean => {
+  return limit !== null && count > limit;
+};
+
+/**
+ * Get the updates that move a task to a column
+ * 
+ * @param groupBy - Field the columns are grouped by
+ * @param columnKey - Target BoardColumn.key
+ * @returns Task updates (status and completed, category or priority)
+ */
+export const getColumnUpdates = (groupBy: BoardGroupBy, columnKey: string): Partial<Task> => {
+  switch (groupBy) {
+    case 'status':
+      return getStatusUpdates(columnKey as TaskStatus);
+    case 'category':
+      return { category: columnKey };
+    case 'priority':
+      return { priority: columnKey as Priority };
+  }
+};
@@ -0,0 +1,103 @@
+/**
+ * Category Utilities
+ * 
+ * Defaults and lookup helpers for user-defined categories.
+ * 
+ * The four built-in categories (Category enum) are seeded into every user's
+ * category collection on first sign-in, so existing tasks that reference
+ * 'work', 'personal', 'study' or 'other' keep resolving after the migration.
+ */
+
+import { Category, CreateCategoryPayload, UserCategory } from '../types';
+import { CATEGORY_COLORS } from '../theme';
+
+/**
+ * Default categories seeded for every user, keyed by their document ID
+ */
+export const DEFAULT_CATEGORIES: Record<Category, CreateCategoryPayload> = {
+  [Category.WORK]: { name: 'Work', color: CATEGORY_COLORS[0], icon: '💼', order: 0 },
+  [Category.PERSONAL]: { name: 'Personal', color: CATEGORY_COLORS[1], icon: '🏠', order: 1 },
+  [Category.STUDY]: { name: 'Study', color: CATEGORY_COLORS[2], icon: '📚', order: 2 },
+  [Category.OTHER]: { name: 'Other', color: CATEGORY_COLORS[3], icon: '📌', order: 3 },
+};
+
+/**
+ * Emoji icons offered when users pick a category icon
+ */
+export const CATEGORY_ICONS = [
+  '💼', '🏠', '📚', '📌', '🛒', '💪', '💰', '✈️', '🎨', '🎮', '❤️', '🧪',
+];
+
+/**
+ * Sort categories by display order (name as tiebreaker)
+ * 
+ * @param categories - Categories to sort
+ * @returns New sorted array
+ */
+export const sortCategories = (categories: UserCategory[]): UserCategory[] => {
+  return [...categories].sort(
+    (a, b) => a.order - b.order || a.name.localeCompare(b.name)
+  );
+};
+
+/**
+ * Find a category by ID, falling back to a neutral placeholder
+ * 
+ * A task can briefly reference a category that is not loaded yet (or was
+ * deleted on another device), so callers always get something displayable.
+ * 
+ * @param categories - Loaded categories
+ * @param categoryId - Task.category value
+ * @returns Matching category, or a placeholder named after the ID
+ */
+export const resolveCategory = (
+  categories: UserCategory[],
+  categoryId: string
+): UserCategory => {
+  const match = categories.find((category) => category.id === categoryId);
+  if (match) {
+    return match;
+  }
+  
+  const fallback = DEFAULT_CATEGORIES[categoryId as Category];
+  return {
+    id: categoryId,
+    name: fallback?.name ?? categoryId,
+    color: fallback?.color ?? CATEGORY_COLORS[3],
+    icon: fallback?.icon ?? '🏷️',
+    order: Number.MAX_SAFE_INTEGER,
+    createdAt: '',
+    updatedAt: '',
+  };
+};
+
+/**
+ * Pick the category preselected for new tasks
+ * 
+ * Prefers the default "Personal" category, otherwise the first one in order.
+ * 
+ * @param categories - Loaded categories
+ * @returns Category ID
+ */
+export const getDefaultCategoryId = (categories: UserCategory[]): string => {
+  if (categories.length === 0 || categories.some((c) => c.id === Category.PERSONAL)) {
+    return Category.PERSONAL;
+  }
+  return sortCategories(categories)[0].id;
+};
+
+/**
+ * Count tasks per category
+ * 
+ * @param tasks - Tasks to scan
+ * @returns Map of category ID → task count
+ */
+export const getCategoryCounts = (
+  tasks: Array<{ category: string }>
+): Record<string, number> => {
+  const counts: Record<string, number> = {};
+  tasks.forEach((task) => {
+    counts[task.category] = (counts[task.category] ?? 0) + 1;
+  });
+  return counts;
+};
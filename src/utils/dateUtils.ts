@@ -3,8 +3,12 @@
  * 
  * Helper functions for working with dates, deadlines, and time calculations.
  * All functions work with ISO 8601 date strings (as stored in Firestore).
+ * Calendar days (getDayKey, getWeekDays, getMonthGrid, groupTasksByDay) are
+ * in the device's local time zone.
  */
 
+import { Task } from '../types';
+
 /**
  * Check if a date is in the past
  * 
@@ -95,6 +99,20 @@ export const formatDate = (dateString: string): string => {
   return date.toLocaleDateString('en-US', options);
 };
 
+/**
+ * Format the time of a date for display
+ * 
+ * @param dateString - ISO 8601 date string
+ * @returns Formatted time (e.g., "10:30 AM")
+ */
+export const formatTime = (dateString: string): string => {
+  return new Date(dateString).toLocaleTimeString('en-US', {
+    hour: 'numeric',
+    minute: '2-digit',
+    hour12: true,
+  });
+};
+
 /**
  * Get a human-readable time remaining string
  * 
@@ -121,3 +139,143 @@ export const getTimeRemainingText = (deadline: string): string => {
   const days = Math.floor(hours / 24);
   return `${days} day${days !== 1 ? 's' : ''} left`;
 };
+
+/**
+ * Get the local calendar day of a date as a key
+ * 
+ * Uses the device's time zone, so a deadline at 23:30 local time is on that
+ * day even when it is already the next day in UTC.
+ * 
+ * @param date - Date (or ISO 8601 date string)
+ * @returns Day key (e.g., "2026-03-04")
+ */
+export const getDayKey = (date: Date | string): string => {
+  const value = typeof date === 'string' ? new Date(date) : date;
+  const month = String(value.getMonth() + 1).padStart(2, '0');
+  const day = String(value.getDate()).padStart(2, '0');
+  return `${value.getFullYear()}-${month}-${day}`;
+};
+
+/**
+ * Get the local midnight of a day key
+ * 
+ * @param key - Day key (e.g., "2026-03-04", see getDayKey)
+ */
+export const parseDayKey = (key: string): Date => {
+  const [year, month, day] = key.split('-').map(Number);
+  return new Date(year, month - 1, day);
+};
+
+/**
+ * Get the Sunday that starts the week a date is in (local time, midnight)
+ * 
+ * @param date - Any day of the week
+ * @param offset - Weeks to move (e.g., -1 for the previous week)
+ */
+export const getWeekStart = (date: Date, offset = 0): Date => {
+  return new Date(date.getFullYear(), date.getMonth(), date.getDate() - date.getDay() + offset * 7);
+};
+
+/**
+ * Get the seven days (Sunday to Saturday) of the week a date is in
+ * 
+ * @param date - Any day of the week
+ * @returns Days at local midnight
+ */
+export const getWeekDays = (date: Date): Date[] => {
+  const start = getWeekStart(date);
+  return Array.from(
+    { length: 7 },
+    (_, weekday) => new Date(start.getFullYear(), start.getMonth(), start.getDate() + weekday)
+  );
+};
+
+/**
+ * Get the first day of the month a date is in (local time, midnight)
+ * 
+ * @param date - Any day of the month
+ * @param offset - Months to move (e.g., -1 for the previous month)
+ */
+export const getMonthStart = (date: Date, offset = 0): Date => {
+  return new Date(date.getFullYear(), date.getMonth() + offset, 1);
+};
+
+/**
+ * Get the days shown on a month calendar
+ * 
+ * Whole weeks (Sunday to Saturday) from the week of the 1st to the week of
+ * the last day, so some days belong to the neighboring months. Days are
+ * built from local dates, so daylight saving changes do not shift them.
+ * 
+ * @param month - Any day of the month to show
+ * @returns Weeks of seven days (local midnight)
+ */
+export const getMonthGrid = (month: Date): Date[][] => {
+  const first = getMonthStart(month);
+  const daysInMonth = new Date(first.getFullYear(), first.getMonth() + 1, 0).getDate();
+  const weekCount = Math.ceil((first.getDay() + daysInMonth) / 7);
+  
+  return Array.from({ length: weekCount }, (_, week) =>
+    Array.from(
+      { length: 7 },
+      (__, weekday) =>
+        new Date(first.getFullYear(), first.getMonth(), 1 - first.getDay() + week * 7 + weekday)
+    )
+  );
+};
+
+/**
+ * Group tasks by the local day they are due
+ * 
+ * With includeStartDate, a task is also listed on the day it starts
+ * (dateTime); a task that starts and is due the same day is listed once.
+ * 
+ * @param tasks - Tasks to group (order is kept within each day)
+ * @param includeStartDate - Also group by start date (default: false)
+ * @returns Tasks per day key (see getDayKey); days without tasks are absent
+ * 
+ * Example usage:
+ * ```ts
+ * const byDay = groupTasksByDay(tasks);
+ * const today = byDay.get(getDayKey(new Date())) ?? [];
+ * ```
+ */
+export const groupTasksByDay = (
+  tasks: Task[],
+  includeStartDate = false
+): Map<string, Task[]> => {
+  const groups = new Map<string, Task[]>();
+  
+  const add = (key: string, task: Task) => {
+    const group = groups.get(key);
+    if (group) {
+      group.push(task);
+    } else {
+      groups.set(key, [task]);
+    }
+  };
+  
+  tasks.forEach((task) => {
+    const dueKey = getDayKey(task.deadline);
+    add(dueKey, task);
+    
+    if (includeStartDate && task.dateTime) {
+      const startKey = getDayKey(task.dateTime);
+      if (startKey !== dueKey) {
+        add(startKey, task);
+      }
+    }
+  });
+  
+  return groups;
+};
+
+/**
+ * Format a month for a calendar header
+ * 
+ * @param month - Any day of the month
+ * @returns Formatted month (e.g., "March 2026")
+ */
+export const formatMonth = (month: Date): string => {
+  return month.toLocaleDateString('en-US', { month: 'long', year: 'numeric' });
+};
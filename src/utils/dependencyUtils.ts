@@ -0,0 +1,250 @@
+/**
+ * Dependency Utilities
+ * 
+ * Helpers for "blocked by" links between tasks. A task lists the IDs of its
+ * prerequisites in blockedBy; it is blocked while any prerequisite is open.
+ * Completing (or cancelling) the last open prerequisite unblocks it.
+ * 
+ * Links point at tasks that may no longer be loaded: prerequisites in the
+ * trash, deleted forever or in another list are dangling links. They never
+ * block, and cycles through them cannot be detected.
+ * 
+ * All helpers take the tasks outside the trash.
+ */
+
+import { DependencySummary, Task } from '../types';
+
+/**
+ * Index tasks by ID
+ */
+const indexTasks = (tasks: Task[]): Map<string, Task> => {
+  return new Map(tasks.map((task) => [task.id, task]));
+};
+
+/**
+ * Get a task's prerequisites that are loaded, in link order
+ * 
+ * @param task - Dependent task
+ * @param tasks - Tasks outside the trash
+ * @returns Prerequisite tasks (dangling links are skipped)
+ */
+export const getPrerequisites = (task: Task, tasks: Task[]): Task[] => {
+  const byId = indexTasks(tasks);
+  return task.blockedBy
+    .map((id) => byId.get(id))
+    .filter((prerequisite): prerequisite is Task => prerequisite !== undefined);
+};
+
+/**
+ * Get a task's prerequisites that are not completed yet
+ * 
+ * @param task - Dependent task
+ * @param tasks - Tasks outside the trash
+ * @returns Open prerequisite tasks
+ */
+export const getOpenPrerequisites = (task: Task, tasks: Task[]): Task[] => {
+  return getPrerequisites(task, tasks).filter((prerequisite) => !prerequisite.completed);
+};
+
+/**
+ * Check if an open task waits for an open prerequisite
+ * 
+ * @param task - Task to check
+ * @param tasks - Tasks outside the trash
+ */
+export const isBlockedByPrerequisites = (task: Task, tasks: Task[]): boolean => {
+  return !task.completed && getOpenPrerequisites(task, tasks).length > 0;
+};
+
+/**
+ * Get the links of a task that point at tasks that are not loaded
+ * (trashed, deleted forever or in another list)
+ * 
+ * @param task - Dependent task
+ * @param tasks - Tasks outside the trash
+ * @returns IDs of the missing prerequisites
+ */
+export const getDanglingLinks = (task: Task, tasks: Task[]): string[] => {
+  const byId = indexTasks(tasks);
+  return task.blockedBy.filter((id) => !byId.has(id));
+};
+
+/**
+ * Get the tasks that are blocked by a task
+ * 
+ * @param taskId - Prerequisite task ID
+ * @param tasks - Tasks outside the trash
+ * @returns Tasks that list it in blockedBy
+ */
+export const getDependents = (taskId: string, tasks: Task[]): Task[] => {
+  return tasks.filter((task) => task.blockedBy.includes(taskId));
+};
+
+/**
+ * Find a chain of "blocked by" links from one task to another
+ * 
+ * @param tasks - Tasks outside the trash
+ * @param fromId - Task to start from
+ * @param toId - Task to reach
+ * @returns Tasks along the chain, both ends included (null if none)
+ * 
+ * Example usage:
+ * ```ts
+ * // deploy is blocked by review, review is blocked by write
+ * findDependencyPath(tasks, 'deploy', 'write'); // [deploy, review, write]
+ * ```
+ */
+export const findDependencyPath = (
+  tasks: Task[],
+  fromId: string,
+  toId: string
+): Task[] | null => {
+  const byId = indexTasks(tasks);
+  const visited = new Set<string>();
+  
+  const visit = (id: string): Task[] | null => {
+    const task = byId.get(id);
+    if (!task || visited.has(id)) {
+      return null;
+    }
+    if (id === toId) {
+      return [task];
+    }
+    
+    visited.add(id);
+    for (const prerequisiteId of task.blockedBy) {
+      const rest = visit(prerequisiteId);
+      if (rest) {
+        return [task, ...rest];
+      }
+    }
+    return null;
+  };
+  
+  return visit(fromId);
+};
+
+/**
+ * Check if blocking a task by another would create a cycle (the
+ * prerequisite already waits for the task, directly or through others)
+ * 
+ * @param tasks - Tasks outside the trash
+ * @param taskId - Dependent task
+ * @param prerequisiteId - Task it would wait for
+ */
+export const wouldCreateCycle = (
+  tasks: Task[],
+  taskId: string,
+  prerequisiteId: string
+): boolean => {
+  return taskId === prerequisiteId || findDependencyPath(tasks, prerequisiteId, taskId) !== null;
+};
+
+/**
+ * Get the open prerequisites that are due after the task that waits for them
+ * 
+ * The dependent task can't be finished before them, so its deadline is
+ * probably wrong (or the prerequisite's is).
+ * 
+ * @param task - Dependent task
+ * @param tasks - Tasks outside the trash
+ * @returns Prerequisites with a later deadline (none for completed tasks)
+ */
+export const getDeadlineConflicts = (task: Task, tasks: Task[]): Task[] => {
+  if (task.completed) {
+    return [];
+  }
+  
+  const deadline = new Date(task.deadline).getTime();
+  return getOpenPrerequisites(task, tasks).filter(
+    (prerequisite) => new Date(prerequisite.deadline).getTime() > deadline
+  );
+};
+
+/**
+ * Summarize the links of every task with open prerequisites, for task lists
+ * 
+ * @param tasks - Tasks outside the trash
+ * @returns Summary by task ID (tasks that are not blocked are left out)
+ */
+export const getDependencySummaries = (tasks: Task[]): Record<string, DependencySummary> => {
+  const summaries: Record<string, DependencySummary> = {};
+  
+  tasks.forEach((task) => {
+    if (task.blockedBy.length === 0 || task.completed) {
+      return;
+    }
+    
+    const openPrerequisites = getOpenPrerequisites(task, tasks).length;
+    if (openPrerequisites > 0) {
+      summaries[task.id] = {
+        openPrerequisites,
+        deadlineConflicts: getDeadlineConflicts(task, tasks).length,
+      };
+    }
+  });
+  
+  return summaries;
+};
+
+/**
+ * Get the tasks that completing a task unblocks: dependents whose workflow
+ * status is Blocked and for which it is the last open prerequisite
+ * 
+ * @param taskId - Task being completed
+ * @param tasks - Tasks outside the trash
+ * @returns Dependents to move back to In Progress
+ */
+export const getUnblockedDependents = (taskId: string, tasks: Task[]): Task[] => {
+  return getDependents(taskId, tasks).filter(
+    (dependent) =>
+      dependent.status === 'blocked' &&
+      getOpenPrerequisites(dependent, tasks).every((prerequisite) => prerequisite.id === taskId)
+  );
+};
+
+/**
+ * Get the blockedBy lists of a task's dependents without the task
+ * (removes the links before it is deleted)
+ * 
+ * @param taskId - Prerequisite task ID
+ * @param tasks - Tasks outside the trash
+ * @returns New blockedBy value of each dependent
+ */
+export const getUnlinkUpdates = (
+  taskId: string,
+  tasks: Task[]
+): Array<{ taskId: string; blockedBy: string[] }> => {
+  return getDependents(taskId, tasks).map((dependent) => ({
+    taskId: dependent.id,
+    blockedBy: dependent.blockedBy.filter((id) => id !== taskId),
+  }));
+};
+
+/**
+ * Describe the links deleting a task would leave dangling, for the prompt
+ * shown before it goes to the trash
+ * 
+ * @param dependents - Tasks waiting for it (at least one)
+ * @returns Prompt message naming the dependents
+ * 
+ * Example usage:
+ * ```ts
+ * describeDanglingLinks([deploy, ship, announce]);
+ * // '"Deploy" and 2 other tasks are blocked by this task. ...'
+ * ```
+ */
+export const describeDanglingLinks = (dependents: Task[]): string => {
+  const [first, ...others] = dependents;
+  const names =
+    others.length === 0
+      ? `"${first.title}" is`
+      : others.length === 1
+      ? `"${first.title}" and "${others[0].title}" are`
+      : `"${first.title}" and ${others.length} other tasks are`;
+  
+  return (
+    `${names} blocked by this task. ` +
+    'Remove those links, or keep them in case it is restored?'
+  );
+};
@@ -0,0 +1,81 @@
+/**
+ * History Utilities
+ * 
+ * Pure helpers for the undo/redo history: computing the inverse of task
+ * mutations and building history entries.
+ * 
+ * Inverses:
+ * - add → delete the task
+ * - update → update the same fields back to their previous values
+ * - delete → add the previous task back (same ID)
+ */
+
+import { HistoryEntry, Task, TaskMutation } from '../types';
+import { generateId } from './idUtils';
+
+/**
+ * Maximum number of undoable actions kept
+ */
+export const HISTORY_LIMIT = 50;
+
+/**
+ * Get the mutation that reverts a mutation
+ * 
+ * @param mutation - Mutation about to be applied
+ * @param tasks - Tasks before the mutation
+ * @returns Inverse mutation, or null if the affected task is not loaded
+ */
+export const getInverseMutation = (
+  mutation: TaskMutation,
+  tasks: Task[]
+): TaskMutation | null => {
+  if (mutation.type === 'add') {
+    return { type: 'delete', taskId: mutation.task.id };
+  }
+  
+  const previous = tasks.find((task) => task.id === mutation.taskId);
+  if (!previous) {
+    return null;
+  }
+  
+  if (mutation.type === 'delete') {
+    return { type: 'add', task: previous };
+  }
+  
+  const updates: Partial<Task> = {};
+  (Object.keys(mutation.updates) as Array<keyof Task>).forEach((key) => {
+    (updates as Record<string, unknown>)[key] = previous[key];
+  });
+  return { type: 'update', taskId: mutation.taskId, updates };
+};
+
+/**
+ * Build a history entry for a user action
+ * 
+ * @param label - Short description for the undo toast
+ * @param mutations - Mutations the action applies, in order
+ * @param tasks - Tasks before the action
+ * @returns Entry, or null if some mutation cannot be reverted (nothing to record)
+ */
+export const createHistoryEntry = (
+  label: string,
+  mutations: TaskMutation[],
+  tasks: Task[]
+): HistoryEntry | null => {
+  const inverse: TaskMutation[] = [];
+  
+  for (const mutation of mutations) {
+    const reverted = getInverseMutation(mutation, tasks);
+    if (!reverted) {
+      return null;
+    }
+    inverse.unshift(reverted);
+  }
+  
+  return {
+    id: generateId(),
+    label,
+    mutations,
+    inverse,
+  };
+};
@@ -0,0 +1,19 @@
+/**
+ * ID Utilities
+ * 
+ * Client-side IDs for records that never need a Firestore-generated ID:
+ * subtasks, pending writes, undo history entries, audit entries and tasks of
+ * the local repository.
+ */
+
+/**
+ * Generate a locally unique ID
+ * 
+ * Combines the current time with a random suffix, so IDs created in the same
+ * millisecond still differ and IDs sort roughly by creation time.
+ * 
+ * @returns Short random ID (e.g., "lx2k9f-a8c3d1")
+ */
+export const generateId = (): string => {
+  return `${Date.now().toString(36)}-${Math.random().toString(36).slice(2, 8)}`;
+};
@@ -0,0 +1,90 @@
+/**
+ * Task List Utilities
+ * 
+ * Defaults and helpers for named task lists (projects).
+ * 
+ * Every user has a default "Inbox" list with a fixed document ID. Tasks created
+ * before lists existed are moved into it on first sign-in.
+ */
+
+import { CreateTaskListPayload, TaskList } from '../types';
+
+/**
+ * Document ID of the default list (cannot be deleted)
+ */
+export const DEFAULT_LIST_ID = 'inbox';
+
+/**
+ * Default list seeded for every user
+ */
+export const DEFAULT_LIST: CreateTaskListPayload = {
+  name: 'Inbox',
+  order: 0,
+};
+
+/**
+ * Sort lists by display order (name as tiebreaker)
+ * 
+ * @param lists - Lists to sort
+ * @returns New sorted array
+ */
+export const sortLists = (lists: TaskList[]): TaskList[] => {
+  return [...lists].sort((a, b) => a.order - b.order || a.name.localeCompare(b.name));
+};
+
+/**
+ * Get the display name of a list
+ * 
+ * @param lists - Loaded lists
+ * @param listId - List ID (null = all lists)
+ * @returns List name, 'All Tasks' for null, or the default name while loading
+ */
+export const getListName = (lists: TaskList[], listId: string | null): string => {
+  if (listId === null) {
+    return 'All Tasks';
+  }
+  
+  const match = lists.find((list) => list.id === listId);
+  if (match) {
+    return match.name;
+  }
+  
+  return listId === DEFAULT_LIST_ID ? DEFAULT_LIST.name : 'Untitled';
+};
+
+/**
+ * Count tasks per list
+ * 
+ * @param tasks - Tasks to scan
+ * @returns Map of list ID → task count
+ */
+export const getListCounts = (tasks: Array<{ listId: string }>): Record<string, number> => {
+  const counts: Record<string, number> = {};
+  tasks.forEach((task) => {
+    counts[task.listId] = (counts[task.listId] ?? 0) + 1;
+  });
+  return counts;
+};
+
+/**
+ * Combine the live task counts with the count queries
+ * 
+ * The loaded list's count comes from the live tasks (always current); the
+ * other lists keep the counts from the last count queries.
+ * 
+ * @param counts - Counts from the count queries (list ID → task count)
+ * @param activeListId - Loaded list (null = all lists)
+ * @param tasks - Loaded tasks
+ * @returns Map of list ID → task count
+ */
+export const mergeListCounts = (
+  counts: Record<string, number>,
+  activeListId: string | null,
+  tasks: Array<{ listId: string }>
+): Record<string, number> => {
+  if (activeListId === null) {
+    // Every task is loaded - no need for the count queries
+    return getListCounts(tasks);
+  }
+  return { ...counts, [activeListId]: tasks.length };
+};
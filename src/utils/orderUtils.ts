@@ -0,0 +1,135 @@
+/**
+ * Manual Order Utilities
+ * 
+ * Helpers for the manual sort order and pinned tasks.
+ * 
+ * Every task has a numeric manualOrder. Moving a task gives it a value
+ * between its new neighbors (fractional indexing), so a move writes only the
+ * moved task. Only when the neighbors are too close for a value to fit between
+ * them (after many moves into the same gap) is the section renumbered.
+ * 
+ * The list is split into sections that are sorted separately: pinned open
+ * tasks, other open tasks, then completed tasks. Tasks are moved within their
+ * section; pinning moves a task between sections.
+ */
+
+import { SortDirection, Task, TaskOrderUpdate } from '../types';
+
+/**
+ * Manual order of a task that was never moved: its creation time, so new
+ * tasks go to the bottom and older tasks keep their creation order
+ * 
+ * @param createdAt - Task creation timestamp (ISO 8601 string)
+ */
+export const getInitialManualOrder = (createdAt: string): number => {
+  return Date.parse(createdAt) || 0;
+};
+
+/**
+ * Whether two tasks are in the same section (pinned / open / completed)
+ */
+const isSameSection = (a: Task, b: Task): boolean => {
+  return a.completed === b.completed && (a.completed || a.pinned === b.pinned);
+};
+
+/**
+ * Get the range of positions a task can be dragged to
+ * 
+ * @param tasks - Tasks in display order
+ * @param index - Position of the dragged task
+ * @returns First and last position of the task's section
+ */
+export const getSectionRange = (tasks: Task[], index: number): [number, number] => {
+  const task = tasks[index];
+  let first = index;
+  let last = index;
+  
+  while (first > 0 && isSameSection(tasks[first - 1], task)) {
+    first--;
+  }
+  while (last < tasks.length - 1 && isSameSection(tasks[last + 1], task)) {
+    last++;
+  }
+  
+  return [first, last];
+};
+
+/**
+ * Get a manual order value between two others
+ * 
+ * @param lower - Value to stay above (null = no lower bound)
+ * @param upper - Value to stay below (null = no upper bound)
+ * @returns A value strictly between them, or null if none fits
+ */
+export const getOrderBetween = (lower: number | null, upper: number | null): number | null => {
+  if (lower === null && upper === null) {
+    return 0;
+  }
+  if (lower === null) {
+    return (upper as number) - 1;
+  }
+  if (upper === null) {
+    return lower + 1;
+  }
+  
+  const middle = lower + (upper - lower) / 2;
+  return middle > lower && middle < upper ? middle : null;
+};
+
+/**
+ * Get the order updates for moving a task in the displayed list
+ * 
+ * The moved task takes a value between its new neighbors in the same
+ * section. If none fits, the whole section is renumbered in its new order.
+ * 
+ * @param tasks - Tasks in display order (manual sort)
+ * @param fromIndex - Current position of the task
+ * @param toIndex - Position after the move (within the task's section)
+ * @param direction - Manual sort direction (desc = highest value first)
+ * @returns Updates to write, the moved task first (empty if nothing moves)
+ * 
+ * Example usage:
+ * ```ts
+ * // Move the third task to the top
+ * const updates = getMoveUpdates(displayTasks, 2, 0, 'asc');
+ * ```
+ */
+export const getMoveUpdates = (
+  tasks: Task[],
+  fromIndex: number,
+  toIndex: number,
+  direction: SortDirection
+): TaskOrderUpdate[] => {
+  const moved = tasks[fromIndex];
+  if (!moved || fromIndex === toIndex) {
+    return [];
+  }
+  
+  const reordered = [...tasks];
+  reordered.splice(fromIndex, 1);
+  reordered.splice(toIndex, 0, moved);
+  
+  // Neighbors in other sections do not bound the value
+  const neighborOrder = (task: Task | undefined): number | null =>
+    task && isSameSection(task, moved) ? task.manualOrder : null;
+  const previous = neighborOrder(reordered[toIndex - 1]);
+  const next = neighborOrder(reordered[toIndex + 1]);
+  
+  const manualOrder =
+    direction === 'asc' ? getOrderBetween(previous, next) : getOrderBetween(next, previous);
+  if (manualOrder !== null) {
+    return [{ taskId: moved.id, manualOrder }];
+  }
+  
+  // No room left between the neighbors: renumber the section
+  const section = reordered.filter((task) => isSameSection(task, moved));
+  const updates = section.map((task, index) => ({
+    taskId: task.id,
+    manualOrder: direction === 'asc' ? index : section.length - 1 - index,
+  }));
+  
+  return [
+    ...updates.filter((update) => update.taskId === moved.id),
+    ...updates.filter((update) => update.taskId !== moved.id),
+  ];
+};
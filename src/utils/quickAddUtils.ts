@@ -0,0 +1,391 @@
+/**
+ * Quick Add Utilities
+ * 
+ * Natural-language parser for the quick-add bar: turns a line such as
+ * "Submit report tomorrow 5pm !high #work" into task fields.
+ * 
+ * Recognized (case-insensitive, anywhere in the line; the first match of each
+ * kind is used and removed from the title):
+ * - Relative days: today, tonight, tomorrow (tmr, tmrw)
+ * - Weekdays: friday / fri, "on friday", "next friday" (the coming one,
+ *   1-7 days ahead), "this friday" (today if it is Friday). Saturday and
+ *   Sunday are only recognized spelled out ("sat" and "sun" are words)
+ * - Offsets: "in 3 days", "in 2 weeks", "in 1 month", "in 30 minutes", "in 2 hours"
+ * - Dates: "jun 5", "5 june", "march 3rd", "2026-06-05" (a month/day that
+ *   has passed means next year)
+ * - Times: 5pm, 5:30 pm, 17:00, "at 9am", noon, midnight
+ * - Priority: !high / !h / !1 / !!!, !medium / !med / !m / !2 / !!,
+ *   !low / !l / !3 / !
+ * - Hashtags: a category name or ID (e.g. #work, #side-project) sets the
+ *   category; any other hashtag becomes a tag
+ * 
+ * All dates are local time. A date without a time is due at the end of that
+ * day; a time without a date means today, or tomorrow if that time has passed.
+ */
+
+import { CreateTaskPayload, Priority, UserCategory } from '../types';
+import { normalizeTag } from './tagUtils';
+
+/**
+ * Fields recognized in a quick-add line
+ */
+export interface QuickAddResult {
+  /** Input with every recognized token removed */
+  title: string;
+  
+  /** Parsed due date/time (null if the line has none) */
+  deadline: Date | null;
+  
+  /** Parsed priority (null if the line has none) */
+  priority: Priority | null;
+  
+  /** Category matched by a hashtag (null if none matched) */
+  categoryId: string | null;
+  
+  /** Hashtags that are not categories (normalized) */
+  tags: string[];
+}
+
+/**
+ * Hour used when a date has no time ("tomorrow" = by the end of tomorrow)
+ */
+const END_OF_DAY = { hours: 23, minutes: 59 };
+
+/**
+ * Hour used for "tonight" without a time
+ */
+const TONIGHT = { hours: 20, minutes: 0 };
+
+const WEEKDAYS: Record<string, number> = {
+  sunday: 0,
+  monday: 1,
+  mon: 1,
+  tuesday: 2,
+  tue: 2,
+  tues: 2,
+  wednesday: 3,
+  wed: 3,
+  thursday: 4,
+  thu: 4,
+  thur: 4,
+  thurs: 4,
+  friday: 5,
+  fri: 5,
+  saturday: 6,
+};
+
+const MONTH_PATTERN =
+  'jan(?:uary)?|feb(?:ruary)?|mar(?:ch)?|apr(?:il)?|may|june?|july?|aug(?:ust)?|sep(?:t(?:ember)?)?|oct(?:ober)?|nov(?:ember)?|dec(?:ember)?';
+
+const MONTHS = ['jan', 'feb', 'mar', 'apr', 'may', 'jun', 'jul', 'aug', 'sep', 'oct', 'nov', 'dec'];
+
+// Text after the first '!' ("!!!" leaves "!!", a lone "!" leaves "")
+const PRIORITY_MARKERS: Record<string, Priority> = {
+  high: Priority.HIGH,
+  h: Priority.HIGH,
+  '1': Priority.HIGH,
+  '!!': Priority.HIGH,
+  medium: Priority.MEDIUM,
+  med: Priority.MEDIUM,
+  m: Priority.MEDIUM,
+  '2': Priority.MEDIUM,
+  '!': Priority.MEDIUM,
+  low: Priority.LOW,
+  l: Priority.LOW,
+  '3': Priority.LOW,
+  '': Priority.LOW,
+};
+
+// Optional connector words consumed together with a date or time ("due friday", "by 5pm")
+const DATE_PREFIX = '(?:\\b(?:on|by|due)\\s+)?';
+const TIME_PREFIX = '(?:\\b(?:at|by)\\s+)?';
+
+const PATTERNS = {
+  priority: /(^|\s)!(high|medium|med|low|h|m|l|1|2|3|!!|!)?(?=\s|$)/i,
+  hashtag: /(^|\s)#([\w-]+)/i,
+  offset: /\bin\s+(\d+)\s+(minutes?|mins?|hours?|hrs?|days?|weeks?|months?)\b/i,
+  isoDate: new RegExp(`${DATE_PREFIX}\\b(\\d{4})-(\\d{2})-(\\d{2})\\b`, 'i'),
+  monthDay: new RegExp(
+    `${DATE_PREFIX}\\b(${MONTH_PATTERN})\\.?\\s+(\\d{1,2})(?:st|nd|rd|th)?\\b`,
+    'i'
+  ),
+  dayMonth: new RegExp(
+    `${DATE_PREFIX}\\b(\\d{1,2})(?:st|nd|rd|th)?\\s+(${MONTH_PATTERN})\\b`,
+    'i'
+  ),
+  relativeDay: new RegExp(`${DATE_PREFIX}\\b(today|tonight|tomorrow|tmrw|tmr)\\b`, 'i'),
+  weekday: new RegExp(
+    `${DATE_PREFIX}\\b(?:(this|next)\\s+)?(${Object.keys(WEEKDAYS).join('|')})\\b`,
+    'i'
+  ),
+  time12: new RegExp(`${TIME_PREFIX}\\b(\\d{1,2})(?::([0-5]\\d))?\\s*(am|pm)\\b`, 'i'),
+  time24: new RegExp(`${TIME_PREFIX}\\b([01]?\\d|2[0-3]):([0-5]\\d)\\b`, 'i'),
+  namedTime: new RegExp(`${TIME_PREFIX}\\b(noon|midnight)\\b`, 'i'),
+};
+
+/**
+ * Find the first match of a pattern and blank it out of the text
+ * 
+ * @returns The match (null if none) and the remaining text
+ */
+const take = (
+  text: string,
+  pattern: RegExp
+): { match: RegExpMatchArray | null; rest: string } => {
+  const match = text.match(pattern);
+  if (!match || match.index === undefined) {
+    return { match: null, rest: text };
+  }
+  
+  const rest = `${text.slice(0, match.index)} ${text.slice(match.index + match[0].length)}`;
+  return { match, rest };
+};
+
+/**
+ * Get a date at local midnight, a number of days after another date
+ */
+const addDays = (date: Date, days: number): Date => {
+  return new Date(date.getFullYear(), date.getMonth(), date.getDate() + days);
+};
+
+/**
+ * Set the time of day on a date
+ */
+const atTime = (day: Date, time: { hours: number; minutes: number }): Date => {
+  return new Date(day.getFullYear(), day.getMonth(), day.getDate(), time.hours, time.minutes);
+};
+
+/**
+ * Build the next occurrence of a month/day (this year, or next year if passed)
+ */
+const nextMonthDay = (now: Date, month: number, day: number): Date | null => {
+  let date = new Date(now.getFullYear(), month, day);
+  if (date.getMonth() !== month) {
+    return null; // e.g. "feb 30"
+  }
+  if (date < addDays(now, 0)) {
+    date = new Date(now.getFullYear() + 1, month, day);
+  }
+  return date;
+};
+
+/**
+ * Parse the date part of a line
+ * 
+ * @returns The day (local midnight) or an exact moment (offsets), and the remaining text
+ */
+const parseDate = (
+  text: string,
+  now: Date
+): { day: Date | null; exact: Date | null; tonight: boolean; rest: string } => {
+  const none = { day: null, exact: null, tonight: false };
+  
+  const offset = take(text, PATTERNS.offset);
+  if (offset.match) {
+    const amount = Number(offset.match[1]);
+    const unit = offset.match[2].toLowerCase();
+    
+    if (unit.startsWith('min') || unit.startsWith('h')) {
+      const minutes = unit.startsWith('min') ? amount : amount * 60;
+      return { ...none, exact: new Date(now.getTime() + minutes * 60 * 1000), rest: offset.rest };
+    }
+    
+    const day = unit.startsWith('w')
+      ? addDays(now, amount * 7)
+      : unit.startsWith('m')
+        ? new Date(now.getFullYear(), now.getMonth() + amount, now.getDate())
+        : addDays(now, amount);
+    return { ...none, day, rest: offset.rest };
+  }
+  
+  const iso = take(text, PATTERNS.isoDate);
+  if (iso.match) {
+    const [, year, month, day] = iso.match;
+    const date = new Date(Number(year), Number(month) - 1, Number(day));
+    if (date.getMonth() === Number(month) - 1) {
+      return { ...none, day: date, rest: iso.rest };
+    }
+  }
+  
+  const monthDay = take(text, PATTERNS.monthDay);
+  const dayMonth = monthDay.match ? monthDay : take(text, PATTERNS.dayMonth);
+  if (dayMonth.match) {
+    const [, first, second] = dayMonth.match;
+    const [monthName, dayNumber] = monthDay.match ? [first, second] : [second, first];
+    const month = MONTHS.indexOf(monthName.slice(0, 3).toLowerCase());
+    const date = nextMonthDay(now, month, Number(dayNumber));
+    if (date) {
+      return { ...none, day: date, rest: dayMonth.rest };
+    }
+  }
+  
+  const relative = take(text, PATTERNS.relativeDay);
+  if (relative.match) {
+    const word = relative.match[1].toLowerCase();
+    const isToday = word === 'today' || word === 'tonight';
+    return {
+      ...none,
+      day: addDays(now, isToday ? 0 : 1),
+      tonight: word === 'tonight',
+      rest: relative.rest,
+    };
+  }
+  
+  const weekday = take(text, PATTERNS.weekday);
+  if (weekday.match) {
+    const target = WEEKDAYS[weekday.match[2].toLowerCase()];
+    const allowToday = weekday.match[1]?.toLowerCase() === 'this';
+    let days = (target - now.getDay() + 7) % 7;
+    if (days === 0 && !allowToday) {
+      days = 7;
+    }
+    return { ...none, day: addDays(now, days), rest: weekday.rest };
+  }
+  
+  return { ...none, rest: text };
+};
+
+/**
+ * Parse the time part of a line
+ * 
+ * @returns Hours and minutes (null if none), and the remaining text
+ */
+const parseTime = (
+  text: string
+): { time: { hours: number; minutes: number } | null; rest: string } => {
+  const named = take(text, PATTERNS.namedTime);
+  if (named.match) {
+    const hours = named.match[1].toLowerCase() === 'noon' ? 12 : 0;
+    return { time: { hours, minutes: 0 }, rest: named.rest };
+  }
+  
+  const time12 = take(text, PATTERNS.time12);
+  if (time12.match) {
+    const hour = Number(time12.match[1]);
+    if (hour >= 1 && hour <= 12) {
+      const isPm = time12.match[3].toLowerCase() === 'pm';
+      const hours = (hour % 12) + (isPm ? 12 : 0);
+      return { time: { hours, minutes: Number(time12.match[2] ?? 0) }, rest: time12.rest };
+    }
+  }
+  
+  const time24 = take(text, PATTERNS.time24);
+  if (time24.match) {
+    return {
+      time: { hours: Number(time24.match[1]), minutes: Number(time24.match[2]) },
+      rest: time24.rest,
+    };
+  }
+  
+  return { time: null, rest: text };
+};
+
+/**
+ * Parse a quick-add line
+ * 
+ * @param input - Text typed in the quick-add bar
+ * @param categories - The user's categories (for hashtag matching)
+ * @param now - Reference time for relative dates (defaults to now)
+ * @returns Recognized fields and the remaining title
+ * 
+ * Example:
+ * ```ts
+ * parseQuickAdd('Submit report tomorrow 5pm !high #work', categories);
+ * // { title: 'Submit report', deadline: <tomorrow 17:00>, priority: 'high',
+ * //   categoryId: 'work', tags: [] }
+ * ```
+ */
+export const parseQuickAdd = (
+  input: string,
+  categories: UserCategory[],
+  now: Date = new Date()
+): QuickAddResult => {
+  let rest = input;
+  
+  // Priority
+  const priorityToken = take(rest, PATTERNS.priority);
+  let priority: Priority | null = null;
+  if (priorityToken.match) {
+    priority = PRIORITY_MARKERS[(priorityToken.match[2] ?? '').toLowerCase()];
+    rest = priorityToken.rest;
+  }
+  
+  // Hashtags: the first one naming a category sets it, the rest are tags
+  let categoryId: string | null = null;
+  const tags: string[] = [];
+  let hashtag = take(rest, PATTERNS.hashtag);
+  while (hashtag.match) {
+    const tag = normalizeTag(hashtag.match[2]);
+    const category: UserCategory | undefined = categoryId
+      ? undefined
+      : categories.find((c) => c.id === tag || normalizeTag(c.name) === tag);
+    
+    if (category) {
+      categoryId = category.id;
+    } else if (tag && !tags.includes(tag)) {
+      tags.push(tag);
+    }
+    rest = hashtag.rest;
+    hashtag = take(rest, PATTERNS.hashtag);
+  }
+  
+  // Date, then time
+  const date = parseDate(rest, now);
+  const time = date.exact ? { time: null, rest: date.rest } : parseTime(date.rest);
+  rest = time.rest;
+  
+  let deadline: Date | null = date.exact;
+  if (!deadline && (date.day || time.time)) {
+    const clock = time.time ?? (date.tonight ? TONIGHT : END_OF_DAY);
+    let day = date.day ?? addDays(now, 0);
+    deadline = atTime(day, clock);
+    
+    // A time alone that has already passed today means tomorrow
+    if (!date.day && deadline <= now) {
+      day = addDays(day, 1);
+      deadline = atTime(day, clock);
+    }
+  }
+  
+  return {
+    title: rest.replace(/\s+/g, ' ').trim(),
+    deadline,
+    priority,
+    categoryId,
+    tags,
+  };
+};
+
+/**
+ * Turn a parsed quick-add line into a new task
+ * 
+ * Fields the line does not set use the same defaults as AddTaskModal: starts
+ * now, due in 24 hours, medium priority.
+ * 
+ * @param result - Parsed line (see parseQuickAdd)
+ * @param defaults - Category and list for new tasks
+ * @param now - Start time (defaults to now)
+ * @returns Task payload ready for addTask
+ */
+export const buildQuickAddPayload = (
+  result: QuickAddResult,
+  defaults: { categoryId: string; listId: string },
+  now: Date = new Date()
+): CreateTaskPayload => {
+  const deadline = result.deadline ?? new Date(now.getTime() + 24 * 60 * 60 * 1000);
+  
+  return {
+    title: result.title,
+    description: '',
+    dateTime: now.toISOString(),
+    deadline: deadline.toISOString(),
+    priority: result.priority ?? Priority.MEDIUM,
+    category: result.categoryId ?? defaults.categoryId,
+    listId: defaults.listId,
+    tags: result.tags,
+    completed: false,
+    subtasks: [],
+    recurrence: null,
+    reminders: [],
+  };
+};
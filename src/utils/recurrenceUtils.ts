@@ -0,0 +1,320 @@
+/**
+ * Recurrence Rule Utilities
+ * 
+ * Pure functions for evaluating RRULE-style repeat rules on recurring tasks.
+ * All calculations happen in the device's local time zone so that a task
+ * repeating "every Monday at 9 AM" stays at 9 AM across DST changes.
+ * 
+ * Nothing here touches Firestore - TaskContext uses buildNextOccurrence to
+ * spawn the next task when a recurring task is completed.
+ */
+
+import { Task, CreateTaskPayload, RecurrenceRule, RecurrenceFrequency } from '../types';
+
+/**
+ * Short weekday labels indexed by Date.getDay() (0 = Sunday)
+ */
+export const WEEKDAY_LABELS = ['Sun', 'Mon', 'Tue', 'Wed', 'Thu', 'Fri', 'Sat'];
+
+const MS_PER_DAY = 24 * 60 * 60 * 1000;
+
+/**
+ * Number of days in a month
+ * 
+ * @param year - Full year (e.g., 2026)
+ * @param month - 0-based month index
+ * @returns Days in the month (28-31)
+ */
+const daysInMonth = (year: number, month: number): number => {
+  return new Date(year, month + 1, 0).getDate();
+};
+
+/**
+ * Build a local date on the given day, keeping the time of day from `time`
+ */
+const withTimeOf = (year: number, month: number, day: number, time: Date): Date => {
+  return new Date(
+    year,
+    month,
+    day,
+    time.getHours(),
+    time.getMinutes(),
+    time.getSeconds(),
+    time.getMilliseconds()
+  );
+};
+
+/**
+ * Local midnight of the Sunday starting the week that contains `date`
+ */
+const startOfWeek = (date: Date): Date => {
+  return new Date(date.getFullYear(), date.getMonth(), date.getDate() - date.getDay());
+};
+
+/**
+ * Find the nth weekday of a month
+ * 
+ * @param year - Full year
+ * @param month - 0-based month index
+ * @param weekday - 0 (Sunday) to 6 (Saturday)
+ * @param position - 1-4 for first..fourth, -1 for last
+ * @returns Day of month (1-31)
+ */
+export const getNthWeekdayOfMonth = (
+  year: number,
+  month: number,
+  weekday: number,
+  position: number
+): number => {
+  if (position === -1) {
+    const lastDay = daysInMonth(year, month);
+    const lastWeekday = new Date(year, month, lastDay).getDay();
+    return lastDay - ((lastWeekday - weekday + 7) % 7);
+  }
+  
+  const firstWeekday = new Date(year, month, 1).getDay();
+  const firstMatch = 1 + ((weekday - firstWeekday + 7) % 7);
+  return firstMatch + (position - 1) * 7;
+};
+
+/**
+ * Work out which occurrence of its weekday a date is within its month
+ * 
+ * @param date - Date to inspect
+ * @returns 1-4, or -1 if the date falls in the last 7 days of the month
+ * 
+ * Example: Tue Feb 24, 2026 → -1 (last Tuesday)
+ */
+export const getWeekdayPosition = (date: Date): number => {
+  const day = date.getDate();
+  if (day + 7 > daysInMonth(date.getFullYear(), date.getMonth())) {
+    return -1;
+  }
+  return Math.ceil(day / 7);
+};
+
+/**
+ * Create a default rule for a frequency, anchored on the task's start date
+ * 
+ * Weekly rules repeat on the start date's weekday; monthly rules repeat on
+ * its day of month.
+ * 
+ * @param frequency - Repeat unit
+ * @param start - Task start date
+ * @returns New recurrence rule (first occurrence of the series)
+ */
+export const createRecurrenceRule = (
+  frequency: RecurrenceFrequency,
+  start: Date
+): RecurrenceRule => {
+  return {
+    frequency,
+    interval: 1,
+    byWeekday: frequency === 'weekly' ? [start.getDay()] : [],
+    byMonthDay: frequency === 'monthly' ? start.getDate() : null,
+    bySetPos: null,
+    until: null,
+    count: null,
+    occurrence: 1,
+  };
+};
+
+/**
+ * Compute the next occurrence of a rule strictly after `from`
+ * 
+ * The time of day of `from` is preserved. End conditions (until/count) are
+ * NOT checked here - see getNextOccurrenceDates.
+ * 
+ * @param from - Start of the current occurrence
+ * @param rule - Repeat rule to apply
+ * @returns Start of the next occurrence
+ * 
+ * Example:
+ * ```ts
+ * // Every 2 weeks on Mon and Thu, from Mon Mar 2, 2026 09:00
+ * getNextOccurrence(new Date(2026, 2, 2, 9), rule); // Thu Mar 5, 2026 09:00
+ * ```
+ */
+export const getNextOccurrence = (from: Date, rule: RecurrenceRule): Date => {
+  const interval = Math.max(1, Math.floor(rule.interval));
+  const year = from.getFullYear();
+  const month = from.getMonth();
+  const day = from.getDate();
+  
+  switch (rule.frequency) {
+    case 'daily':
+      return withTimeOf(year, month, day + interval, from);
+    
+    case 'weekly': {
+      const weekdays = rule.byWeekday.length > 0 ? rule.byWeekday : [from.getDay()];
+      const anchorWeek = startOfWeek(from).getTime();
+      
+      // Scan forward day by day; at most interval weeks + 1 week is needed
+      for (let offset = 1; offset <= interval * 7 + 7; offset++) {
+        const candidate = withTimeOf(year, month, day + offset, from);
+        const weeksApart = Math.round(
+          (startOfWeek(candidate).getTime() - anchorWeek) / (7 * MS_PER_DAY)
+        );
+        if (weeksApart % interval === 0 && weekdays.includes(candidate.getDay())) {
+          return candidate;
+        }
+      }
+      return withTimeOf(year, month, day + interval * 7, from);
+    }
+    
+    case 'monthly': {
+      const target = new Date(year, month + interval, 1);
+      const targetYear = target.getFullYear();
+      const targetMonth = target.getMonth();
+      
+      if (rule.bySetPos !== null) {
+        const weekday = rule.byWeekday.length > 0 ? rule.byWeekday[0] : from.getDay();
+        const targetDay = getNthWeekdayOfMonth(targetYear, targetMonth, weekday, rule.bySetPos);
+        return withTimeOf(targetYear, targetMonth, targetDay, from);
+      }
+      
+      const monthDay = rule.byMonthDay ?? day;
+      const targetDay = Math.min(monthDay, daysInMonth(targetYear, targetMonth));
+      return withTimeOf(targetYear, targetMonth, targetDay, from);
+    }
+    
+    case 'yearly':
+    default: {
+      const targetYear = year + interval;
+      // Feb 29 falls back to Feb 28 in non-leap years
+      const targetDay = Math.min(day, daysInMonth(targetYear, month));
+      return withTimeOf(targetYear, month, targetDay, from);
+    }
+  }
+};
+
+/**
+ * Compute the shifted dates for a task's next occurrence
+ * 
+ * The start (dateTime) moves to the next occurrence and the deadline keeps
+ * the same offset from the start, so a task due 2 hours after it starts is
+ * always due 2 hours after it starts.
+ * 
+ * @param task - Recurring task (dateTime, deadline, recurrence)
+ * @returns Next dateTime/deadline as ISO strings, or null if the series has ended
+ */
+export const getNextOccurrenceDates = (
+  task: Pick<Task, 'dateTime' | 'deadline' | 'recurrence'>
+): { dateTime: string; deadline: string } | null => {
+  const rule = task.recurrence;
+  if (!rule) {
+    return null;
+  }
+  
+  if (rule.count !== null && rule.occurrence >= rule.count) {
+    return null;
+  }
+  
+  const start = new Date(task.dateTime);
+  const duration = new Date(task.deadline).getTime() - start.getTime();
+  const nextStart = getNextOccurrence(start, rule);
+  
+  if (rule.until !== null && nextStart.getTime() > new Date(rule.until).getTime()) {
+    return null;
+  }
+  
+  return {
+    dateTime: nextStart.toISOString(),
+    deadline: new Date(nextStart.getTime() + duration).toISOString(),
+  };
+};
+
+/**
+ * Build the payload for the next task in a recurring series
+ * 
+ * The new task copies the original's fields, is not completed, has its
+ * checklist reset, keeps its reminders (relative to the new dates) and carries
+ * the rule forward with an incremented occurrence.
+ * 
+ * @param task - The recurring task being completed
+ * @returns Payload for addTask, or null if the series has ended
+ */
+export const buildNextOccurrence = (task: Task): CreateTaskPayload | null => {
+  const nextDates = getNextOccurrenceDates(task);
+  if (!nextDates || !task.recurrence) {
+    return null;
+  }
+  
+  return {
+    title: task.title,
+    description: task.description,
+    dateTime: nextDates.dateTime,
+    deadline: nextDates.deadline,
+    priority: task.priority,
+    category: task.category,
+    listId: task.listId,
+    tags: task.tags,
+    completed: false,
+    subtasks: task.subtasks.map((subtask) => ({ ...subtask, completed: false })),
+    recurrence: {
+      ...task.recurrence,
+      occurrence: task.recurrence.occurrence + 1,
+    },
+    reminders: task.reminders,
+  };
+};
+
+/**
+ * Format the position label for nth-weekday rules
+ */
+const formatSetPos = (position: number): string => {
+  switch (position) {
+    case -1:
+      return 'last';
+    case 1:
+      return '1st';
+    case 2:
+      return '2nd';
+    case 3:
+      return '3rd';
+    default:
+      return `${position}th`;
+  }
+};
+
+/**
+ * Describe a rule in plain English
+ * 
+ * @param rule - Repeat rule
+ * @returns Human-readable summary (e.g., "Every 2 weeks on Mon, Thu")
+ */
+export const describeRecurrence = (rule: RecurrenceRule): string => {
+  const units: Record<RecurrenceFrequency, string> = {
+    daily: 'day',
+    weekly: 'week',
+    monthly: 'month',
+    yearly: 'year',
+  };
+  
+  const unit = units[rule.frequency];
+  let text = rule.interval === 1 ? `Every ${unit}` : `Every ${rule.interval} ${unit}s`;
+  
+  if (rule.frequency === 'weekly' && rule.byWeekday.length > 0) {
+    const days = [...rule.byWeekday].sort((a, b) => a - b).map((d) => WEEKDAY_LABELS[d]);
+    text += ` on ${days.join(', ')}`;
+  } else if (rule.frequency === 'monthly') {
+    if (rule.bySetPos !== null && rule.byWeekday.length > 0) {
+      text += ` on the ${formatSetPos(rule.bySetPos)} ${WEEKDAY_LABELS[rule.byWeekday[0]]}`;
+    } else if (rule.byMonthDay !== null) {
+      text += ` on day ${rule.byMonthDay}`;
+    }
+  }
+  
+  if (rule.count !== null) {
+    text += `, ${rule.count} times`;
+  } else if (rule.until !== null) {
+    const until = new Date(rule.until).toLocaleDateString('en-US', {
+      month: 'short',
+      day: 'numeric',
+      year: 'numeric',
+    });
+    text += `, until ${until}`;
+  }
+  
+  return text;
+};
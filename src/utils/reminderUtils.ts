@@ -0,0 +1,216 @@
+/**
+ * Reminder Utilities
+ * 
+ * Pure helpers for task reminders: describing them, and computing the local
+ * notifications that should be scheduled for a set of tasks. The reminder
+ * scheduler (src/api/reminderScheduler.ts) compares that set with what the
+ * device has scheduled and applies the difference.
+ * 
+ * Only open tasks outside the trash have pending notifications, so
+ * completing or deleting a task cancels its reminders on the next
+ * reconcile. Reminders whose time has passed are not scheduled.
+ */
+
+import { ReminderAnchor, ScheduledNotification, Task, TaskReminder } from '../types';
+
+const MINUTE_MS = 60 * 1000;
+const HOUR_MINUTES = 60;
+const DAY_MINUTES = 24 * HOUR_MINUTES;
+
+/**
+ * Reminders offered as one-tap choices in the reminder picker
+ */
+export const REMINDER_PRESETS: TaskReminder[] = [
+  { anchor: 'dateTime', offsetMinutes: 0 },
+  { anchor: 'deadline', offsetMinutes: 60 },
+  { anchor: 'deadline', offsetMinutes: DAY_MINUTES },
+  { anchor: 'deadline', offsetMinutes: 0 },
+];
+
+/**
+ * Units offered for custom reminder offsets, in minutes
+ */
+export const REMINDER_UNITS: Array<{ label: string; minutes: number }> = [
+  { label: 'minutes', minutes: 1 },
+  { label: 'hours', minutes: HOUR_MINUTES },
+  { label: 'days', minutes: DAY_MINUTES },
+];
+
+/**
+ * Format a number of minutes in the largest whole unit
+ * 
+ * @param minutes - Offset in minutes
+ * @returns e.g. '15 minutes', '1 hour', '2 days'
+ */
+export const formatReminderOffset = (minutes: number): string => {
+  const [value, unit] =
+    minutes % DAY_MINUTES === 0
+      ? [minutes / DAY_MINUTES, 'day']
+      : minutes % HOUR_MINUTES === 0
+      ? [minutes / HOUR_MINUTES, 'hour']
+      : [minutes, 'minute'];
+  
+  return `${value} ${unit}${value === 1 ? '' : 's'}`;
+};
+
+/**
+ * Describe a reminder for the picker
+ * 
+ * @param reminder - Reminder to describe
+ * @returns e.g. 'At start time', '1 hour before the deadline'
+ */
+export const describeReminder = (reminder: TaskReminder): string => {
+  const anchor = reminder.anchor === 'dateTime' ? 'start time' : 'the deadline';
+  if (reminder.offsetMinutes === 0) {
+    return `At ${anchor}`;
+  }
+  return `${formatReminderOffset(reminder.offsetMinutes)} before ${anchor}`;
+};
+
+/**
+ * Check if two reminders are the same (same anchor and offset)
+ */
+export const isSameReminder = (a: TaskReminder, b: TaskReminder): boolean => {
+  return a.anchor === b.anchor && a.offsetMinutes === b.offsetMinutes;
+};
+
+/**
+ * Add a reminder, keeping the list free of duplicates and ordered by how
+ * early it fires (start reminders first, then deadline reminders)
+ * 
+ * @param reminders - Current reminders
+ * @param reminder - Reminder to add
+ * @returns New array of reminders
+ */
+export const addReminder = (reminders: TaskReminder[], reminder: TaskReminder): TaskReminder[] => {
+  if (reminders.some((existing) => isSameReminder(existing, reminder))) {
+    return reminders;
+  }
+  
+  const anchorOrder: Record<ReminderAnchor, number> = { dateTime: 0, deadline: 1 };
+  return [...reminders, reminder].sort(
+    (a, b) => anchorOrder[a.anchor] - anchorOrder[b.anchor] || b.offsetMinutes - a.offsetMinutes
+  );
+};
+
+/**
+ * Remove a reminder
+ * 
+ * @param reminders - Current reminders
+ * @param reminder - Reminder to remove
+ * @returns New array without it
+ */
+export const removeReminder = (
+  reminders: TaskReminder[],
+  reminder: TaskReminder
+): TaskReminder[] => {
+  return reminders.filter((existing) => !isSameReminder(existing, reminder));
+};
+
+/**
+ * Get when a reminder of a task fires
+ * 
+ * @param task - Task the reminder belongs to
+ * @param reminder - The reminder
+ * @returns Notification time
+ */
+export const getReminderTime = (task: Task, reminder: TaskReminder): Date => {
+  return new Date(new Date(task[reminder.anchor]).getTime() - reminder.offsetMinutes * MINUTE_MS);
+};
+
+/**
+ * Notification text for a reminder
+ */
+const getReminderBody = (reminder: TaskReminder): string => {
+  if (reminder.anchor === 'dateTime') {
+    return reminder.offsetMinutes === 0
+      ? 'Starting now'
+      : `Starts in ${formatReminderOffset(reminder.offsetMinutes)}`;
+  }
+  return reminder.offsetMinutes === 0
+    ? 'Due now'
+    : `Due in ${formatReminderOffset(reminder.offsetMinutes)}`;
+};
+
+/**
+ * Compute the notifications that should be scheduled for a set of tasks
+ * 
+ * @param tasks - Loaded tasks (completed and trashed tasks are skipped)
+ * @param now - Current time (reminders at or before it are skipped)
+ * @returns Pending notifications, soonest first
+ * 
+ * Example usage:
+ * ```ts
+ * const pending = getPendingNotifications(state.tasks);
+ * // [{ id: 'abc:deadline:60', title: 'Send report', body: 'Due in 1 hour', ... }]
+ * ```
+ */
+export const getPendingNotifications = (
+  tasks: Task[],
+  now: Date = new Date()
+): ScheduledNotification[] => {
+  const notifications: ScheduledNotification[] = [];
+  
+  tasks.forEach((task) => {
+    if (task.completed || task.deletedAt !== null) {
+      return;
+    }
+    
+    task.reminders.forEach((reminder) => {
+      const fireAt = getReminderTime(task, reminder);
+      if (fireAt.getTime() <= now.getTime()) {
+        return;
+      }
+      
+      notifications.push({
+        id: `${task.id}:${reminder.anchor}:${reminder.offsetMinutes}`,
+        taskId: task.id,
+        listId: task.listId,
+        title: task.title,
+        body: getReminderBody(reminder),
+        fireAt: fireAt.toISOString(),
+      });
+    });
+  });
+  
+  return notifications.sort((a, b) => a.fireAt.localeCompare(b.fireAt));
+};
+
+/**
+ * Compare the scheduled notifications with the pending ones
+ * 
+ * Notifications are replaced when their time or text changed (e.g., the
+ * deadline moved or the task was renamed). Only the tasks of the loaded list
+ * are known, so scheduled notifications of other lists are left alone.
+ * 
+ * @param scheduled - Notifications the device has scheduled
+ * @param pending - Notifications that should be scheduled
+ * @param listId - Loaded list (null when all lists are loaded)
+ * @returns Notifications to schedule and IDs to cancel
+ */
+export const diffNotifications = (
+  scheduled: ScheduledNotification[],
+  pending: ScheduledNotification[],
+  listId: string | null
+): { toSchedule: ScheduledNotification[]; toCancel: string[] } => {
+  const scheduledById = new Map(scheduled.map((notification) => [notification.id, notification]));
+  const pendingIds = new Set(pending.map((notification) => notification.id));
+  
+  return {
+    toSchedule: pending.filter((notification) => {
+      const existing = scheduledById.get(notification.id);
+      return (
+        !existing ||
+        existing.fireAt !== notification.fireAt ||
+        existing.title !== notification.title ||
+        existing.body !== notification.body
+      );
+    }),
+    toCancel: scheduled
+      .filter(
+        (notification) =>
+          (listId === null || notification.listId === listId) && !pendingIds.has(notification.id)
+      )
+      .map((notification) => notification.id),
+  };
+};
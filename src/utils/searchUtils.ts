@@ -0,0 +1,240 @@
+/**
+ * Search Utilities
+ * 
+ * Full-text search over task titles and descriptions: matching, relevance
+ * ranking, and the ranges to highlight in the task list.
+ * 
+ * Matching is case- and accent-insensitive ("cafe" finds "Café"). A query is
+ * split into words and a task matches when every word appears in its title
+ * or description.
+ */
+
+import { Task } from '../types';
+
+/**
+ * Part of a text to highlight (start inclusive, end exclusive)
+ */
+export interface TextRange {
+  start: number;
+  end: number;
+}
+
+/**
+ * Text folded for matching, with the position of each character in the
+ * original text (folding can drop or add characters)
+ */
+interface FoldedText {
+  text: string;
+  starts: number[];
+  ends: number[];
+}
+
+/**
+ * Relevance of a query word found in a task
+ * 
+ * Title matches always outrank description matches; within a field a match
+ * at the start of a word beats one in the middle of a word.
+ */
+const MATCH_WEIGHTS = {
+  titlePrefix: 30,
+  titleWordStart: 20,
+  title: 10,
+  descriptionWordStart: 5,
+  description: 2,
+};
+
+/**
+ * Bonus when the whole query is the task's title
+ */
+const EXACT_TITLE_WEIGHT = 100;
+
+/**
+ * Fold a string for matching: lowercase, accents removed
+ * 
+ * @param text - Text to fold
+ * @returns Folded text (e.g., "Crème Brûlée" → "creme brulee")
+ */
+export const foldText = (text: string): string => {
+  return text.normalize('NFD').replace(/[\u0300-\u036f]/g, '').toLowerCase();
+};
+
+/**
+ * Fold a string character by character, remembering where each folded
+ * character came from
+ */
+const foldWithPositions = (text: string): FoldedText => {
+  const folded: FoldedText = { text: '', starts: [], ends: [] };
+  let index = 0;
+  
+  for (const char of text) {
+    const foldedChar = foldText(char);
+    if (!foldedChar && folded.ends.length > 0) {
+      // A dropped accent belongs to the character before it
+      folded.ends[folded.ends.length - 1] = index + char.length;
+    }
+    for (let i = 0; i < foldedChar.length; i++) {
+      folded.starts.push(index);
+      folded.ends.push(index + char.length);
+    }
+    folded.text += foldedChar;
+    index += char.length;
+  }
+  
+  return folded;
+};
+
+/**
+ * Split a search query into folded, unique words
+ * 
+ * @param query - Raw search input
+ * @returns Words to look for (empty for a blank query)
+ */
+export const getSearchTerms = (query: string): string[] => {
+  const terms = foldText(query).split(/\s+/).filter(Boolean);
+  return Array.from(new Set(terms));
+};
+
+/**
+ * Whether a position in a folded text starts a word
+ */
+const isWordStart = (text: string, index: number): boolean => {
+  return index === 0 || !/[a-z0-9]/.test(text[index - 1]);
+};
+
+/**
+ * Score one query word against a folded field
+ * 
+ * @returns 'prefix' (field starts with it), 'word' (starts a word), 'inner' or null
+ */
+const matchTerm = (text: string, term: string): 'prefix' | 'word' | 'inner' | null => {
+  let index = text.indexOf(term);
+  if (index === -1) {
+    return null;
+  }
+  if (index === 0) {
+    return 'prefix';
+  }
+  
+  while (index !== -1) {
+    if (isWordStart(text, index)) {
+      return 'word';
+    }
+    index = text.indexOf(term, index + 1);
+  }
+  return 'inner';
+};
+
+/**
+ * Calculate how well a task matches a search query
+ * 
+ * @param task - Task to score
+ * @param query - Raw search input
+ * @returns Relevance (higher = better), 0 if the task does not match
+ * 
+ * Example:
+ * ```ts
+ * getSearchScore(task, 'report'); // 30 for "Report for Q3", 10 for "Sales reports"
+ * ```
+ */
+export const getSearchScore = (task: Task, query: string): number => {
+  const terms = getSearchTerms(query);
+  if (terms.length === 0) {
+    return 0;
+  }
+  
+  const title = foldText(task.title);
+  const description = foldText(task.description ?? '');
+  const isExactTitle = title.trim().split(/\s+/).join(' ') === terms.join(' ');
+  let score = isExactTitle ? EXACT_TITLE_WEIGHT : 0;
+  
+  for (const term of terms) {
+    const titleMatch = matchTerm(title, term);
+    if (titleMatch === 'prefix') {
+      score += MATCH_WEIGHTS.titlePrefix;
+    } else if (titleMatch === 'word') {
+      score += MATCH_WEIGHTS.titleWordStart;
+    } else if (titleMatch === 'inner') {
+      score += MATCH_WEIGHTS.title;
+    } else {
+      const descriptionMatch = matchTerm(description, term);
+      if (!descriptionMatch) {
+        // Every word has to match somewhere
+        return 0;
+      }
+      score += descriptionMatch === 'inner'
+        ? MATCH_WEIGHTS.description
+        : MATCH_WEIGHTS.descriptionWordStart;
+    }
+  }
+  
+  return score;
+};
+
+/**
+ * Filter tasks by a search query and rank them by relevance
+ * 
+ * Tasks with the same relevance keep their input order, so pass tasks that
+ * are already sorted (e.g., by sortTasksByPriority). Pure function.
+ * 
+ * @param tasks - Tasks to search (in tie-break order)
+ * @param query - Raw search input; a blank query returns the tasks unchanged
+ * @returns Matching tasks, most relevant first
+ */
+export const searchTasks = (tasks: Task[], query: string): Task[] => {
+  if (getSearchTerms(query).length === 0) {
+    return tasks;
+  }
+  
+  return tasks
+    .map((task, index) => ({ task, index, score: getSearchScore(task, query) }))
+    .filter((result) => result.score > 0)
+    .sort((a, b) => b.score - a.score || a.index - b.index)
+    .map((result) => result.task);
+};
+
+/**
+ * Find the parts of a text that match a search query, for highlighting
+ * 
+ * @param text - Original text (title or description)
+ * @param query - Raw search input
+ * @returns Non-overlapping ranges in the original text, in order
+ * 
+ * Example:
+ * ```ts
+ * getMatchRanges('Café au lait', 'cafe lait');
+ * // [{ start: 0, end: 4 }, { start: 8, end: 12 }]
+ * ```
+ */
+export const getMatchRanges = (text: string, query: string): TextRange[] => {
+  const terms = getSearchTerms(query);
+  if (terms.length === 0 || !text) {
+    return [];
+  }
+  
+  const folded = foldWithPositions(text);
+  const ranges: TextRange[] = [];
+  
+  terms.forEach((term) => {
+    let index = folded.text.indexOf(term);
+    while (index !== -1) {
+      ranges.push({
+        start: folded.starts[index],
+        end: folded.ends[index + term.length - 1],
+      });
+      index = folded.text.indexOf(term, index + term.length);
+    }
+  });
+  
+  // Merge overlapping and touching ranges
+  return ranges
+    .sort((a, b) => a.start - b.start)
+    .reduce<TextRange[]>((merged, range) => {
+      const last = merged[merged.length - 1];
+      if (last && range.start <= last.end) {
+        last.end = Math.max(last.end, range.end);
+      } else {
+        merged.push({ ...range });
+      }
+      return merged;
+    }, []);
+};
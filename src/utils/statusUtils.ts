@@ -0,0 +1,180 @@
+/**
+ * Task Status Utilities
+ * 
+ * Workflow statuses and the state machine between them:
+ * 
+ *   todo → in_progress → blocked / waiting → done
+ *   (open tasks can also be completed or cancelled directly)
+ * 
+ * Done and cancelled are closed statuses. A task is completed exactly when
+ * its status is closed, so code that only knows about completion keeps
+ * working: completed tasks (done or cancelled) leave the active list.
+ * 
+ * Tasks from before statuses existed, or completed by an older app version
+ * that only toggles the flag, get their status from the completed flag
+ * (see migrateTaskStatus).
+ */
+
+import { Task, TaskStatus } from '../types';
+import { COLORS } from '../theme';
+
+/**
+ * Statuses in workflow order
+ */
+export const TASK_STATUSES: TaskStatus[] = [
+  'todo',
+  'in_progress',
+  'blocked',
+  'waiting',
+  'done',
+  'cancelled',
+];
+
+/**
+ * Display name of each status
+ */
+export const STATUS_LABELS: Record<TaskStatus, string> = {
+  todo: 'To Do',
+  in_progress: 'In Progress',
+  blocked: 'Blocked',
+  waiting: 'Waiting',
+  done: 'Done',
+  cancelled: 'Cancelled',
+};
+
+/**
+ * Color of each status (pills and filter chips)
+ */
+export const STATUS_COLORS: Record<TaskStatus, string> = {
+  todo: COLORS.textSecondary,
+  in_progress: COLORS.primary,
+  blocked: COLORS.error,
+  waiting: COLORS.warning,
+  done: COLORS.success,
+  cancelled: COLORS.completed,
+};
+
+/**
+ * Statuses each status can move to
+ * 
+ * Blocked and waiting tasks go back to in progress once unblocked; closed
+ * tasks are reopened to to do (done tasks also straight to in progress).
+ */
+export const STATUS_TRANSITIONS: Record<TaskStatus, TaskStatus[]> = {
+  todo: ['in_progress', 'done', 'cancelled'],
+  in_progress: ['todo', 'blocked', 'waiting', 'done', 'cancelled'],
+  blocked: ['in_progress', 'waiting', 'done', 'cancelled'],
+  waiting: ['in_progress', 'blocked', 'done', 'cancelled'],
+  done: ['todo', 'in_progress'],
+  cancelled: ['todo'],
+};
+
+/**
+ * Check that a value is a known status
+ * 
+ * @param value - Stored value
+ */
+export const isTaskStatus = (value: unknown): value is TaskStatus => {
+  return TASK_STATUSES.includes(value as TaskStatus);
+};
+
+/**
+ * Check if a status closes the task (done or cancelled)
+ * 
+ * @param status - Status to check
+ */
+export const isClosedStatus = (status: TaskStatus): boolean => {
+  return status === 'done' || status === 'cancelled';
+};
+
+/**
+ * Check if a task may move from one status to another
+ * (staying in the same status is always allowed)
+ * 
+ * @param from - Current status
+ * @param to - New status
+ */
+export const canTransition = (from: TaskStatus, to: TaskStatus): boolean => {
+  return from === to || STATUS_TRANSITIONS[from].includes(to);
+};
+
+/**
+ * Status matching a completed flag (completing or reopening a task)
+ * 
+ * @param completed - Task completion status
+ */
+export const getStatusForCompletion = (completed: boolean): TaskStatus => {
+  return completed ? 'done' : 'todo';
+};
+
+/**
+ * Get the status of a stored task
+ * 
+ * Keeps the stored status when it agrees with the completed flag. Missing
+ * or unknown statuses (tasks from before statuses) and statuses that
+ * disagree with the flag (completed or reopened by an older app version)
+ * are derived from the flag.
+ * 
+ * @param status - Stored status (may be missing)
+ * @param completed - Stored completion flag
+ * @returns Status to use
+ * 
+ * Example usage:
+ * ```ts
+ * migrateTaskStatus(undefined, true);      // 'done'
+ * migrateTaskStatus('blocked', false);     // 'blocked'
+ * migrateTaskStatus('blocked', true);      // 'done'
+ * ```
+ */
+export const migrateTaskStatus = (status: unknown, completed: boolean): TaskStatus => {
+  if (isTaskStatus(status) && isClosedStatus(status) === !!completed) {
+    return status;
+  }
+  return getStatusForCompletion(!!completed);
+};
+
+/**
+ * Get the updates that set a task's status (keeps completed in step)
+ * 
+ * @param status - New status
+ * @returns Task updates (status and completed)
+ */
+export const getStatusUpdates = (status: TaskStatus): Pick<Task, 'status' | 'completed'> => {
+  return { status, completed: isClosedStatus(status) };
+};
+
+/**
+ * Filter tasks by status
+ * 
+ * A task matches when it has ANY of the selected statuses (a task has only
+ * one). No selected statuses means no filtering.
+ * 
+ * @param tasks - Tasks to filter
+ * @param statuses - Selected statuses
+ * @returns Matching tasks
+ */
+export const filterTasksByStatuses = (tasks: Task[], statuses: TaskStatus[]): Task[] => {
+  if (statuses.length === 0) {
+    return tasks;
+  }
+  return tasks.filter((task) => statuses.includes(task.status));
+};
+
+/**
+ * Count tasks per status
+ * 
+ * @param tasks - Tasks to count
+ * @returns Number of tasks in each status (0 for unused statuses)
+ */
+export const getStatusCounts = (tasks: Task[]): Record<TaskStatus, number> => {
+  const counts = {} as Record<TaskStatus, number>;
+  TASK_STATUSES.forEach((status) => {
+    counts[status] = 0;
+  });
+  
+  tasks.forEach((task) => {
+    counts[task.status] += 1;
+  });
+  
+  return counts;
+};
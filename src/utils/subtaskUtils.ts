@@ -0,0 +1,144 @@
+/**
+ * Subtask (Checklist) Utilities
+ * 
+ * Pure helpers for creating, editing and summarizing a task's checklist.
+ * Every function returns a new array and never mutates its input, so results
+ * can be passed straight to updateTask or React state setters.
+ */
+
+import { Subtask } from '../types';
+import { generateId } from './idUtils';
+
+/**
+ * Sort subtasks by their display order
+ * 
+ * @param subtasks - Checklist to sort
+ * @returns New array ordered by `order` ascending
+ */
+export const sortSubtasks = (subtasks: Subtask[]): Subtask[] => {
+  return [...subtasks].sort((a, b) => a.order - b.order);
+};
+
+/**
+ * Re-number subtask order values to 0..n-1
+ * 
+ * Keeps order values compact after removals and moves.
+ * 
+ * @param subtasks - Checklist in the desired display order
+ * @returns New array with sequential order values
+ */
+const normalizeOrder = (subtasks: Subtask[]): Subtask[] => {
+  return subtasks.map((subtask, index) =>
+    subtask.order === index ? subtask : { ...subtask, order: index }
+  );
+};
+
+/**
+ * Append a new subtask to the end of a checklist
+ * 
+ * @param subtasks - Existing checklist
+ * @param title - Title of the new subtask (trimmed)
+ * @returns New checklist including the added subtask
+ */
+export const addSubtask = (subtasks: Subtask[], title: string): Subtask[] => {
+  const sorted = sortSubtasks(subtasks);
+  return [
+    ...sorted,
+    {
+      id: generateId(),
+      title: title.trim(),
+      completed: false,
+      order: sorted.length,
+    },
+  ];
+};
+
+/**
+ * Toggle a subtask's completed flag
+ * 
+ * @param subtasks - Existing checklist
+ * @param subtaskId - ID of the subtask to toggle
+ * @returns New checklist with the subtask toggled
+ */
+export const toggleSubtask = (subtasks: Subtask[], subtaskId: string): Subtask[] => {
+  return subtasks.map((subtask) =>
+    subtask.id === subtaskId ? { ...subtask, completed: !subtask.completed } : subtask
+  );
+};
+
+/**
+ * Remove a subtask from a checklist
+ * 
+ * @param subtasks - Existing checklist
+ * @param subtaskId - ID of the subtask to remove
+ * @returns New checklist without the subtask (order re-numbered)
+ */
+export const removeSubtask = (subtasks: Subtask[], subtaskId: string): Subtask[] => {
+  return normalizeOrder(
+    sortSubtasks(subtasks).filter((subtask) => subtask.id !== subtaskId)
+  );
+};
+
+/**
+ * Move a subtask up or down by one position
+ * 
+ * Moving past either end of the list is a no-op.
+ * 
+ * @param subtasks - Existing checklist
+ * @param subtaskId - ID of the subtask to move
+ * @param direction - -1 to move up, 1 to move down
+ * @returns New checklist with updated order values
+ */
+export const moveSubtask = (
+  subtasks: Subtask[],
+  subtaskId: string,
+  direction: -1 | 1
+): Subtask[] => {
+  const sorted = sortSubtasks(subtasks);
+  const index = sorted.findIndex((subtask) => subtask.id === subtaskId);
+  const target = index + direction;
+  
+  if (index === -1 || target < 0 || target >= sorted.length) {
+    return sorted;
+  }
+  
+  [sorted[index], sorted[target]] = [sorted[target], sorted[index]];
+  return normalizeOrder(sorted);
+};
+
+/**
+ * Summarize checklist progress
+ * 
+ * @param subtasks - Checklist to summarize
+ * @returns Completed count, total count and fraction done (0 when empty)
+ * 
+ * Example:
+ * ```ts
+ * getSubtaskProgress(task.subtasks);
+ * // { completed: 3, total: 5, ratio: 0.6 }
+ * ```
+ */
+export const getSubtaskProgress = (
+  subtasks: Subtask[]
+): { completed: number; total: number; ratio: number } => {
+  const total = subtasks.length;
+  const completed = subtasks.filter((subtask) => subtask.completed).length;
+  return {
+    completed,
+    total,
+    ratio: total === 0 ? 0 : completed / total,
+  };
+};
+
+/**
+ * Check whether every subtask is done
+ * 
+ * An empty checklist is never considered "all complete" so that
+ * atomic tasks don't trigger the complete-the-parent prompt.
+ * 
+ * @param subtasks - Checklist to check
+ * @returns true if the checklist is non-empty and fully checked off
+ */
+export const areAllSubtasksComplete = (subtasks: Subtask[]): boolean => {
+  return subtasks.length > 0 && subtasks.every((subtask) => subtask.completed);
+};
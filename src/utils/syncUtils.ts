@@ -0,0 +1,138 @@
+/**
+ * Sync Utilities
+ * 
+ * Pure helpers for the pending-writes queue: creating entries, deriving a
+ * task's sync badge, and computing the optimistic update to undo (on failure)
+ * or re-apply (on retry).
+ */
+
+import { AuditEntry, PendingWrite, PendingWriteType, SyncStatus, Task, TaskAction } from '../types';
+import { generateId } from './idUtils';
+
+/**
+ * Create a queue entry for a mutation
+ * 
+ * @param type - Kind of mutation
+ * @param taskId - Task the mutation applies to
+ * @param data - Full task for 'add', changed fields for 'update', null for 'delete'
+ * @param previous - Task before the mutation (null for 'add')
+ * @param audit - Change-history entries to write with an 'update'
+ * @returns New entry in the 'pending' state
+ */
+export const createPendingWrite = (
+  type: PendingWriteType,
+  taskId: string,
+  data: Partial<Task> | null,
+  previous: Task | null,
+  audit: AuditEntry[] = []
+): PendingWrite => {
+  return {
+    id: generateId(),
+    taskId,
+    type,
+    data,
+    previous,
+    status: 'pending',
+    error: null,
+    attempts: 1,
+    createdAt: new Date().toISOString(),
+    audit,
+  };
+};
+
+/**
+ * Get the sync state shown on a task's badge
+ * 
+ * A failed write wins over a pending one so failures are never hidden.
+ * 
+ * @param writes - Pending-writes queue
+ * @param taskId - Task to check
+ * @returns 'failed', 'pending', or 'synced' when nothing is queued
+ */
+export const getTaskSyncStatus = (writes: PendingWrite[], taskId: string): SyncStatus => {
+  const taskWrites = writes.filter((write) => write.taskId === taskId);
+  
+  if (taskWrites.some((write) => write.status === 'failed')) {
+    return 'failed';
+  }
+  if (taskWrites.length > 0) {
+    return 'pending';
+  }
+  return 'synced';
+};
+
+/**
+ * Get the reducer action that undoes a write's optimistic update
+ * 
+ * A rejected update only reverts the fields it changed, so later edits to
+ * the same task (still queued or already confirmed) are kept.
+ * 
+ * @param write - Rejected queue entry
+ * @param tasks - Currently loaded tasks
+ * @returns Action restoring the previous state, or null if there is nothing to restore
+ */
+export const getRollbackAction = (write: PendingWrite, tasks: Task[]): TaskAction | null => {
+  switch (write.type) {
+    case 'add':
+      return { type: 'TASK_DELETED', payload: write.taskId };
+    case 'update': {
+      const previous = write.previous;
+      if (!previous) {
+        return null;
+      }
+      
+      const reverted: Partial<Task> = {};
+      (Object.keys(write.data ?? {}) as Array<keyof Task>).forEach((key) => {
+        (reverted as Record<string, unknown>)[key] = previous[key];
+      });
+      const current = tasks.find((task) => task.id === write.taskId) ?? previous;
+      return { type: 'TASK_UPDATED', payload: { ...current, ...reverted } };
+    }
+    case 'delete':
+      return write.previous ? { type: 'TASK_ADDED', payload: write.previous } : null;
+  }
+};
+
+/**
+ * Get the reducer action that re-applies a write's optimistic update (on retry)
+ * 
+ * @param write - Queue entry being retried
+ * @param tasks - Currently loaded tasks
+ * @returns Action applying the write locally, or null if the task is not loaded
+ */
+export const getReapplyAction = (write: PendingWrite, tasks: Task[]): TaskAction | null => {
+  switch (write.type) {
+    case 'add':
+      return { type: 'TASK_ADDED', payload: write.data as Task };
+    case 'update': {
+      const current = tasks.find((task) => task.id === write.taskId) ?? write.previous;
+      return current ? { type: 'TASK_UPDATED', payload: { ...current, ...write.data } } : null;
+    }
+    case 'delete':
+      return { type: 'TASK_DELETED', payload: write.taskId };
+  }
+};
+
+/**
+ * Short label describing a failed write (for the failure banner)
+ * 
+ * @param write - Queue entry
+ * @returns e.g. 'Saving "Buy milk"'
+ */
+export const describePendingWrite = (write: PendingWrite): string => {
+  const title = write.data?.title ?? write.previous?.title ?? 'task';
+  
+  switch (write.type) {
+    case 'add':
+      return `Creating "${title}"`;
+    case 'update':
+      if (write.data && 'deletedAt' in write.data) {
+        return write.data.deletedAt
+          ? `Moving "${title}" to the trash`
+          : `Restoring "${title}"`;
+      }
+      return `Saving "${title}"`;
+    case 'delete':
+      return `Permanently deleting "${title}"`;
+  }
+};
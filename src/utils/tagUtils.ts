@@ -0,0 +1,135 @@
+/**
+ * Tag Utilities
+ * 
+ * Helpers for free-form task tags: normalization, collecting the user's
+ * existing tags for autocomplete, and filtering tasks by tag.
+ * 
+ * Tags are stored normalized (lowercase, trimmed, no leading '#', inner
+ * whitespace collapsed to '-') so "#Q3 Launch" and "q3-launch" are the same tag.
+ */
+
+import { Task } from '../types';
+
+/**
+ * Normalize raw user input into a tag
+ * 
+ * @param raw - User input (e.g., "#Q3 Launch")
+ * @returns Normalized tag (e.g., "q3-launch"), empty string if nothing is left
+ */
+export const normalizeTag = (raw: string): string => {
+  return raw
+    .trim()
+    .replace(/^#+/, '')
+    .toLowerCase()
+    .replace(/\s+/g, '-');
+};
+
+/**
+ * Add a tag to a tag list, skipping empty values and duplicates
+ * 
+ * @param tags - Existing tags
+ * @param raw - Tag to add (normalized before adding)
+ * @returns New tag list
+ */
+export const addTag = (tags: string[], raw: string): string[] => {
+  const tag = normalizeTag(raw);
+  if (!tag || tags.includes(tag)) {
+    return tags;
+  }
+  return [...tags, tag];
+};
+
+/**
+ * Remove a tag from a tag list
+ * 
+ * @param tags - Existing tags
+ * @param tag - Tag to remove
+ * @returns New tag list
+ */
+export const removeTag = (tags: string[], tag: string): string[] => {
+  return tags.filter((t) => t !== tag);
+};
+
+/**
+ * Count how many tasks carry each tag
+ * 
+ * @param tasks - Tasks to scan
+ * @returns Map of tag → task count
+ * 
+ * Example:
+ * ```ts
+ * getTagCounts(tasks); // { backend: 4, 'q3-launch': 2 }
+ * ```
+ */
+export const getTagCounts = (tasks: Task[]): Record<string, number> => {
+  const counts: Record<string, number> = {};
+  tasks.forEach((task) => {
+    task.tags.forEach((tag) => {
+      counts[tag] = (counts[tag] ?? 0) + 1;
+    });
+  });
+  return counts;
+};
+
+/**
+ * Collect every tag in use, most used first
+ * 
+ * Ties are broken alphabetically so the order is stable.
+ * 
+ * @param tasks - Tasks to scan
+ * @returns Distinct tags sorted by usage
+ */
+export const getAllTags = (tasks: Task[]): string[] => {
+  const counts = getTagCounts(tasks);
+  return Object.keys(counts).sort(
+    (a, b) => counts[b] - counts[a] || a.localeCompare(b)
+  );
+};
+
+/**
+ * Suggest existing tags for autocomplete
+ * 
+ * Prefix matches rank above substring matches; tags already applied are excluded.
+ * 
+ * @param query - Partial tag typed by the user
+ * @param existingTags - Candidate tags (e.g., from getAllTags)
+ * @param exclude - Tags already on the task
+ * @param limit - Maximum number of suggestions
+ * @returns Matching tags
+ */
+export const suggestTags = (
+  query: string,
+  existingTags: string[],
+  exclude: string[] = [],
+  limit = 5
+): string[] => {
+  const needle = normalizeTag(query);
+  if (!needle) {
+    return [];
+  }
+  
+  const candidates = existingTags.filter(
+    (tag) => !exclude.includes(tag) && tag.includes(needle)
+  );
+  const prefixMatches = candidates.filter((tag) => tag.startsWith(needle));
+  const otherMatches = candidates.filter((tag) => !tag.startsWith(needle));
+  
+  return [...prefixMatches, ...otherMatches].slice(0, limit);
+};
+
+/**
+ * Filter tasks by tags
+ * 
+ * A task matches when it carries ALL of the selected tags, so selecting more
+ * tags narrows the list. No selected tags means no filtering.
+ * 
+ * @param tasks - Tasks to filter
+ * @param tags - Selected tags
+ * @returns Matching tasks
+ */
+export const filterTasksByTags = (tasks: Task[], tags: string[]): Task[] => {
+  if (tags.length === 0) {
+    return tasks;
+  }
+  return tasks.filter((task) => tags.every((tag) => task.tags.includes(tag)));
+};
@@ -0,0 +1,457 @@
+/**
+ * Task Query Utilities
+ * 
+ * Filter query language for the task list and saved views: parsing query
+ * text into a TaskQuery, formatting it back, and matching tasks against it.
+ * 
+ * Syntax (terms are separated by spaces and combined with AND; a leading
+ * '-' negates a term):
+ * - priority:high, priority:high,medium (p: for short), -priority:low
+ * - category:work, category:work,study (category name or ID; cat: for short)
+ * - due:<7d (before), due:>tomorrow (after), due:today / due:3d (on that day /
+ *   from now until then). Values: 12h, 3d, 2w, today, tomorrow, yesterday,
+ *   2026-06-01
+ * - overdue, completed, active (also is:overdue ...), -overdue, -completed
+ * - #tag or tag:tag, -#tag to exclude
+ * - Anything else is search text; quote words that look like a term
+ *   ("completed")
+ * 
+ * When a term appears more than once, the last one wins (tags add up).
+ */
+
+import { Priority, SavedView, Task, TaskQuery, UserCategory } from '../types';
+import { normalizeTag } from './tagUtils';
+import { getSearchScore } from './searchUtils';
+
+/**
+ * Query that matches every task
+ */
+export const EMPTY_TASK_QUERY: TaskQuery = {
+  priorities: [],
+  categories: [],
+  dueBefore: null,
+  dueAfter: null,
+  dueWithin: null,
+  overdue: null,
+  completed: null,
+  tags: [],
+  excludedTags: [],
+  text: '',
+};
+
+/**
+ * Parsed query plus the problems found in the query text
+ */
+export interface TaskQueryParseResult {
+  query: TaskQuery;
+  errors: string[];
+}
+
+type QueryField = 'priority' | 'category' | 'due' | 'tag' | 'is';
+
+const FIELD_NAMES: Record<string, QueryField> = {
+  priority: 'priority',
+  p: 'priority',
+  category: 'category',
+  cat: 'category',
+  due: 'due',
+  tag: 'tag',
+  is: 'is',
+};
+
+const PRIORITY_NAMES: Record<string, Priority> = {
+  high: Priority.HIGH,
+  h: Priority.HIGH,
+  medium: Priority.MEDIUM,
+  med: Priority.MEDIUM,
+  m: Priority.MEDIUM,
+  low: Priority.LOW,
+  l: Priority.LOW,
+};
+
+const ALL_PRIORITIES = [Priority.HIGH, Priority.MEDIUM, Priority.LOW];
+
+const FLAGS = ['overdue', 'completed', 'active'];
+
+/**
+ * One term: optional '-', then a quoted phrase or a run of non-space characters
+ */
+const TOKEN_PATTERN = /(-?)(?:"([^"]*)"?|(\S+))/g;
+
+const DURATION_PATTERN = /^(\d+)([hdw])$/;
+const DATE_PATTERN = /^(\d{4})-(\d{2})-(\d{2})$/;
+const DAY_OFFSETS: Record<string, number> = { yesterday: -1, today: 0, tomorrow: 1 };
+const HOURS_PER_UNIT: Record<string, number> = { h: 1, d: 24, w: 168 };
+
+/**
+ * Look up user input in a name map (ignoring inherited keys like 'constructor')
+ */
+const lookup = <T>(map: Record<string, T>, key: string): T | undefined => {
+  return Object.prototype.hasOwnProperty.call(map, key) ? map[key] : undefined;
+};
+
+/**
+ * Resolve a due value to the period it stands for
+ * 
+ * Durations are a single moment (start = end); days run from midnight to
+ * midnight (local time).
+ * 
+ * @param value - Due value (e.g., '3d', 'today', '2026-06-01')
+ * @param now - Reference time
+ * @returns Start and end of the period, null if the value is invalid
+ */
+export const resolveDueValue = (
+  value: string,
+  now: Date = new Date()
+): { start: Date; end: Date; duration: boolean } | null => {
+  const duration = value.match(DURATION_PATTERN);
+  if (duration) {
+    const hours = Number(duration[1]) * HOURS_PER_UNIT[duration[2]];
+    const moment = new Date(now.getTime() + hours * 3600000);
+    return { start: moment, end: moment, duration: true };
+  }
+  
+  let day: Date | null = null;
+  const dayOffset = lookup(DAY_OFFSETS, value);
+  if (dayOffset !== undefined) {
+    day = new Date(now.getFullYear(), now.getMonth(), now.getDate() + dayOffset);
+  } else {
+    const date = value.match(DATE_PATTERN);
+    if (date) {
+      day = new Date(Number(date[1]), Number(date[2]) - 1, Number(date[3]));
+      if (day.getMonth() !== Number(date[2]) - 1) {
+        return null; // e.g. 2026-02-30
+      }
+    }
+  }
+  
+  if (!day) {
+    return null;
+  }
+  const end = new Date(day.getFullYear(), day.getMonth(), day.getDate() + 1);
+  return { start: day, end, duration: false };
+};
+
+/**
+ * Find the category a query value refers to (ID or normalized name)
+ */
+const findCategory = (categories: UserCategory[], value: string): UserCategory | undefined => {
+  return categories.find((c) => c.id === value || normalizeTag(c.name) === value);
+};
+
+/**
+ * Parse filter query text
+ * 
+ * Invalid terms are skipped and reported in errors; the rest still apply.
+ * 
+ * @param input - Query text (e.g., 'priority:high due:<7d -completed')
+ * @param categories - The user's categories (to resolve category names)
+ * @returns Parsed query and error messages
+ * 
+ * Example:
+ * ```ts
+ * parseTaskQuery('p:high #backend -completed', categories).query;
+ * // { ...EMPTY_TASK_QUERY, priorities: ['high'], tags: ['backend'], completed: false }
+ * ```
+ */
+export const parseTaskQuery = (
+  input: string,
+  categories: UserCategory[]
+): TaskQueryParseResult => {
+  const query: TaskQuery = { ...EMPTY_TASK_QUERY, tags: [], excludedTags: [] };
+  const errors: string[] = [];
+  const words: string[] = [];
+  
+  const addTag = (raw: string, negated: boolean) => {
+    const tag = normalizeTag(raw);
+    const target = negated ? query.excludedTags : query.tags;
+    if (!tag) {
+      errors.push('Empty tag');
+    } else if (!target.includes(tag)) {
+      target.push(tag);
+    }
+  };
+  
+  const setFlag = (flag: string, negated: boolean): boolean => {
+    if (flag === 'overdue') {
+      query.overdue = !negated;
+    } else if (flag === 'completed') {
+      query.completed = !negated;
+    } else if (flag === 'active') {
+      query.completed = negated;
+    } else {
+      return false;
+    }
+    return true;
+  };
+  
+  for (const match of input.matchAll(TOKEN_PATTERN)) {
+    const negated = match[1] === '-';
+    const quoted = match[2];
+    const term = match[3];
+    
+    if (quoted !== undefined) {
+      if (negated) {
+        errors.push(`Text cannot be excluded: -"${quoted}"`);
+      } else {
+        words.push(...quoted.split(/\s+/).filter(Boolean));
+      }
+      continue;
+    }
+    
+    if (term.startsWith('#')) {
+      addTag(term, negated);
+      continue;
+    }
+    
+    if (setFlag(term.toLowerCase(), negated)) {
+      continue;
+    }
+    
+    const colon = term.indexOf(':');
+    const field = colon > 0 ? lookup(FIELD_NAMES, term.slice(0, colon).toLowerCase()) : undefined;
+    if (!field) {
+      words.push(match[0]);
+      continue;
+    }
+    
+    const value = term.slice(colon + 1).toLowerCase();
+    switch (field) {
+      case 'priority': {
+        const names = value.split(',').filter(Boolean);
+        const priorities = names.map((name) => lookup(PRIORITY_NAMES, name));
+        const unknown = names.filter((name) => !lookup(PRIORITY_NAMES, name));
+        if (names.length === 0 || unknown.length > 0) {
+          errors.push(`Unknown priority: ${unknown.join(', ') || '(empty)'}`);
+          break;
+        }
+        query.priorities = negated
+          ? ALL_PRIORITIES.filter((p) => !priorities.includes(p))
+          : ALL_PRIORITIES.filter((p) => priorities.includes(p));
+        break;
+      }
+      
+      case 'category': {
+        const names = value.split(',').filter(Boolean);
+        const ids = names.map((name) => findCategory(categories, normalizeTag(name))?.id);
+        const unknown = names.filter((_, index) => !ids[index]);
+        if (names.length === 0 || unknown.length > 0) {
+          errors.push(`Unknown category: ${unknown.join(', ') || '(empty)'}`);
+          break;
+        }
+        query.categories = negated
+          ? categories.map((c) => c.id).filter((id) => !ids.includes(id))
+          : Array.from(new Set(ids as string[]));
+        break;
+      }
+      
+      case 'due': {
+        const operator = value[0] === '<' || value[0] === '>' ? value[0] : '';
+        const dueValue = value.slice(operator.length);
+        if (negated) {
+          errors.push(`Due dates cannot be excluded: ${match[0]}`);
+        } else if (!resolveDueValue(dueValue)) {
+          errors.push(`Unknown due date: ${dueValue || '(empty)'}`);
+        } else if (operator === '<') {
+          query.dueBefore = dueValue;
+        } else if (operator === '>') {
+          query.dueAfter = dueValue;
+        } else {
+          query.dueWithin = dueValue;
+        }
+        break;
+      }
+      
+      case 'tag':
+        addTag(value, negated);
+        break;
+      
+      case 'is':
+        if (!setFlag(value, negated)) {
+          errors.push(`Unknown state: is:${value}`);
+        }
+        break;
+    }
+  }
+  
+  query.text = words.join(' ');
+  return { query, errors };
+};
+
+/**
+ * Whether a search word would be read as a term and needs quotes
+ */
+const needsQuotes = (word: string): boolean => {
+  const colon = word.indexOf(':');
+  return (
+    /^[-#]/.test(word) ||
+    FLAGS.includes(word.toLowerCase()) ||
+    (colon > 0 && !!lookup(FIELD_NAMES, word.slice(0, colon).toLowerCase()))
+  );
+};
+
+/**
+ * Format a query as query text (the inverse of parseTaskQuery)
+ * 
+ * @param query - Query to format
+ * @param categories - The user's categories (categories are written by name)
+ * @returns Query text, empty for a query that matches everything
+ */
+export const formatTaskQuery = (query: TaskQuery, categories: UserCategory[]): string => {
+  const terms: string[] = [];
+  
+  if (query.priorities.length > 0) {
+    terms.push(`priority:${query.priorities.join(',')}`);
+  }
+  if (query.categories.length > 0) {
+    const names = query.categories.map((id) => {
+      const category = categories.find((c) => c.id === id);
+      return category ? normalizeTag(category.name) : id;
+    });
+    terms.push(`category:${names.join(',')}`);
+  }
+  if (query.dueWithin) {
+    terms.push(`due:${query.dueWithin}`);
+  }
+  if (query.dueAfter) {
+    terms.push(`due:>${query.dueAfter}`);
+  }
+  if (query.dueBefore) {
+    terms.push(`due:<${query.dueBefore}`);
+  }
+  if (query.overdue !== null) {
+    terms.push(query.overdue ? 'overdue' : '-overdue');
+  }
+  if (query.completed !== null) {
+    terms.push(query.completed ? 'completed' : '-completed');
+  }
+  query.tags.forEach((tag) => terms.push(`#${tag}`));
+  query.excludedTags.forEach((tag) => terms.push(`-#${tag}`));
+  query.text
+    .split(/\s+/)
+    .filter(Boolean)
+    .forEach((word) => {
+      const plain = word.replace(/"/g, '');
+      terms.push(needsQuotes(plain) ? `"${plain}"` : plain);
+    });
+  
+  return terms.join(' ');
+};
+
+/**
+ * Whether a query matches every task
+ * 
+ * @param query - Query to check
+ * @returns True if no field is set
+ */
+export const isTaskQueryEmpty = (query: TaskQuery): boolean => {
+  return formatTaskQuery(query, []) === '';
+};
+
+/**
+ * Check a task against a query
+ * 
+ * @param task - Task to check
+ * @param query - Parsed query
+ * @param now - Reference time for relative due dates (defaults to now)
+ * @returns True if the task matches every field of the query
+ */
+export const matchesTaskQuery = (
+  task: Task,
+  query: TaskQuery,
+  now: Date = new Date()
+): boolean => {
+  if (query.completed !== null && task.completed !== query.completed) {
+    return false;
+  }
+  if (query.priorities.length > 0 && !query.priorities.includes(task.priority)) {
+    return false;
+  }
+  if (query.categories.length > 0 && !query.categories.includes(task.category)) {
+    return false;
+  }
+  if (!query.tags.every((tag) => task.tags.includes(tag))) {
+    return false;
+  }
+  if (query.excludedTags.some((tag) => task.tags.includes(tag))) {
+    return false;
+  }
+  
+  // Same rule as isOverdue, against the reference time
+  const deadline = new Date(task.deadline).getTime();
+  const overdue = !task.completed && deadline < now.getTime();
+  if (query.overdue !== null && overdue !== query.overdue) {
+    return false;
+  }
+  
+  const before = query.dueBefore ? resolveDueValue(query.dueBefore, now) : null;
+  if (before && deadline >= before.start.getTime()) {
+    return false;
+  }
+  const after = query.dueAfter ? resolveDueValue(query.dueAfter, now) : null;
+  if (after && deadline < after.end.getTime()) {
+    return false;
+  }
+  const within = query.dueWithin ? resolveDueValue(query.dueWithin, now) : null;
+  if (within) {
+    const start = within.duration ? now.getTime() : within.start.getTime();
+    const end = within.end.getTime();
+    if (deadline < start || deadline >= end) {
+      return false;
+    }
+  }
+  
+  return !query.text.trim() || getSearchScore(task, query.text) > 0;
+};
+
+/**
+ * Keep the tasks matching a query
+ * 
+ * @param tasks - Tasks to filter
+ * @param query - Parsed query
+ * @param now - Reference time for relative due dates (defaults to now)
+ * @returns Matching tasks, in their input order
+ */
+export const filterTasksByQuery = (
+  tasks: Task[],
+  query: TaskQuery,
+  now: Date = new Date()
+): Task[] => {
+  if (isTaskQueryEmpty(query)) {
+    return tasks;
+  }
+  return tasks.filter((task) => matchesTaskQuery(task, query, now));
+};
+
+/**
+ * Count the tasks in each saved view
+ * 
+ * @param tasks - Tasks to count
+ * @param views - Saved views
+ * @param categories - The user's categories (to resolve category names)
+ * @param now - Reference time for relative due dates (defaults to now)
+ * @returns Map of view ID → number of matching tasks
+ */
+export const getViewCounts = (
+  tasks: Task[],
+  views: SavedView[],
+  categories: UserCategory[],
+  now: Date = new Date()
+): Record<string, number> => {
+  const counts: Record<string, number> = {};
+  views.forEach((view) => {
+    const { query } = parseTaskQuery(view.query, categories);
+    counts[view.id] = filterTasksByQuery(tasks, query, now).length;
+  });
+  return counts;
+};
+
+/**
+ * Sort saved views by display order
+ * 
+ * @param views - Views to sort
+ * @returns New sorted array
+ */
+export const sortViews = (views: SavedView[]): SavedView[] => {
+  return [...views].sort((a, b) => a.order - b.order);
+};
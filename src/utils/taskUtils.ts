@@ -8,38 +8,171 @@
  * 
  * This scoring system ensures the most important and time-sensitive tasks
  * appear at the top of the list, helping users focus on what matters most.
+ * The smart score is the default; deadline, creation date, title, category
+ * and manual orders can be selected instead (see sortTasks). Pinned tasks
+ * stay above the others in every order.
  */
 
-import { Task, Priority, TaskFilter } from '../types';
+import {
+  Task,
+  Priority,
+  TaskFilter,
+  TaskCounts,
+  TaskSort,
+  TaskSortMode,
+  SortDirection,
+  UserCategory,
+  ScoringConfig,
+  ScoreBreakdown,
+  ScoreFactor,
+} from '../types';
 import { hoursUntilDeadline } from './dateUtils';
+import { sortCategories } from './categoryUtils';
+import { getSubtaskProgress } from './subtaskUtils';
+import { filterTasksByTags, getTagCounts } from './tagUtils';
+import { searchTasks } from './searchUtils';
+import { getStatusCounts } from './statusUtils';
 
 /**
- * Priority weight map
+ * Default smart sort weights
  * 
- * Higher numbers = higher priority in sorting.
- * These weights are balanced to make priority impactful but not override urgency.
+ * Priority weights are balanced to make priority impactful but not override
+ * urgency. The full checklist bonus is kept below the 24h urgency bonus so
+ * momentum never beats a deadline. Users can tune every value; this config
+ * is the one used until they do.
  */
-const PRIORITY_WEIGHTS: Record<Priority, number> = {
-  [Priority.HIGH]: 100,
-  [Priority.MEDIUM]: 50,
-  [Priority.LOW]: 10,
+export const DEFAULT_SCORING_CONFIG: ScoringConfig = {
+  priorityWeights: {
+    [Priority.HIGH]: 100,
+    [Priority.MEDIUM]: 50,
+    [Priority.LOW]: 10,
+  },
+  overdueBonus: 1000,
+  urgencyThresholds: [
+    { hours: 24, bonus: 500 },
+    { hours: 48, bonus: 200 },
+    { hours: 168, bonus: 50 },
+  ],
+  maxDeadlinePenalty: 1000,
+  subtaskProgressWeight: 40,
 };
 
 /**
- * Calculate a task's sort score
+ * Score given to completed tasks (sorts them to the bottom)
+ */
+const COMPLETED_SCORE = -1000;
+
+/**
+ * Points taken from blocked tasks, so they sit below tasks that can be
+ * worked on now
+ */
+const BLOCKED_PENALTY = -500;
+
+/**
+ * Calculate a task's sort score, part by part
  * 
- * Algorithm:
+ * Algorithm (numbers are the default config):
  * 1. Start with priority weight (10-100)
  * 2. Add urgency score based on time remaining:
  *    - Overdue: +1000 (always sorts to top)
  *    - < 24 hours: +500
  *    - < 48 hours: +200
  *    - < 7 days: +50
- * 3. Subtract hours until deadline (earlier deadlines score higher)
+ * 3. Subtract hours until deadline (earlier deadlines score higher),
+ *    capped at 1000
+ * 4. Add checklist progress bonus (0-40, proportional to subtasks done)
+ *    so partially finished work is nudged towards completion
  * 
- * Result: Higher score = more important = appears first in list
+ * Blocked tasks cannot be worked on, so a close or missed deadline does not
+ * push them up: they get no urgency bonus and lose 500 points instead.
+ * Completed (done or cancelled) tasks skip all of this and score -1000.
  * 
  * @param task - Task to score
+ * @param config - Weights and thresholds (defaults to DEFAULT_SCORING_CONFIG)
+ * @returns Every part of the score and the total (higher = more important)
+ * 
+ * Example usage:
+ * ```ts
+ * const { urgencyBonus, total } = explainTaskScore(task);
+ * ```
+ */
+export const explainTaskScore = (
+  task: Task,
+  config: ScoringConfig = DEFAULT_SCORING_CONFIG
+): ScoreBreakdown => {
+  // Calculate hours until deadline
+  const hoursRemaining = hoursUntilDeadline(task.deadline);
+  
+  // Skip completed tasks - they'll be filtered or sorted to bottom
+  if (task.completed) {
+    return {
+      priorityWeight: 0,
+      urgency: 'none',
+      urgencyHours: null,
+      urgencyBonus: 0,
+      hoursRemaining,
+      timePenalty: 0,
+      subtaskBonus: 0,
+      blockedPenalty: 0,
+      completionPenalty: COMPLETED_SCORE,
+      total: COMPLETED_SCORE,
+    };
+  }
+  
+  // Start with priority weight
+  const priorityWeight = config.priorityWeights[task.priority];
+  
+  // Urgency bonus: overdue, or the closest threshold the deadline falls
+  // within (thresholds are ascending); none while blocked
+  const blocked = task.status === 'blocked';
+  const threshold =
+    blocked || hoursRemaining < 0
+      ? undefined
+      : config.urgencyThresholds.find((t) => hoursRemaining < t.hours);
+  const urgencyBonus = blocked
+    ? 0
+    : hoursRemaining < 0
+    ? config.overdueBonus
+    : threshold
+    ? threshold.bonus
+    : 0;
+  
+  // Subtract hours remaining (earlier deadlines score higher)
+  // Capped to prevent distant deadlines from going negative
+  const timePenalty = -Math.min(hoursRemaining, config.maxDeadlinePenalty);
+  
+  // Reward partially finished work (no effect for tasks without subtasks)
+  const subtaskBonus = getSubtaskProgress(task.subtasks).ratio * config.subtaskProgressWeight;
+  
+  const blockedPenalty = blocked ? BLOCKED_PENALTY : 0;
+  
+  return {
+    priorityWeight,
+    urgency: blocked
+      ? 'blocked'
+      : hoursRemaining < 0
+      ? 'overdue'
+      : threshold
+      ? 'threshold'
+      : 'none',
+    urgencyHours: threshold ? threshold.hours : null,
+    urgencyBonus,
+    hoursRemaining,
+    timePenalty,
+    subtaskBonus,
+    blockedPenalty,
+    completionPenalty: 0,
+    total: priorityWeight + urgencyBonus + timePenalty + subtaskBonus + blockedPenalty,
+  };
+};
+
+/**
+ * Calculate a task's sort score
+ * 
+ * Shorthand for explainTaskScore(task, config).total.
+ * 
+ * @param task - Task to score
+ * @param config - Weights and thresholds (defaults to DEFAULT_SCORING_CONFIG)
  * @returns Numeric score (higher = more important)
  * 
  * Example scores:
@@ -48,79 +181,245 @@ const PRIORITY_WEIGHTS: Record<Priority, number> = {
  * - Medium priority, due in 2 days: ~202
  * - Low priority, due in 1 week: ~60
  */
-export const calculateTaskScore = (task: Task): number => {
-  // Skip completed tasks - they'll be filtered or sorted to bottom
-  if (task.completed) {
-    return -1000; // Very low score
+export const calculateTaskScore = (
+  task: Task,
+  config: ScoringConfig = DEFAULT_SCORING_CONFIG
+): number => {
+  return explainTaskScore(task, config).total;
+};
+
+/**
+ * Format a number of hours for score explanations ("24h", "7 days")
+ */
+const formatHours = (hours: number): string => {
+  const rounded = Math.round(Math.abs(hours));
+  return rounded >= 72 && rounded % 24 === 0 ? `${rounded / 24} days` : `${rounded}h`;
+};
+
+/**
+ * Turn a score breakdown into labelled lines for display
+ * 
+ * Completed tasks get a single line. Open tasks get priority, urgency and
+ * time lines, plus a checklist line when the checklist adds points and a
+ * blocked line for blocked tasks.
+ * 
+ * @param task - The scored task
+ * @param breakdown - Result of explainTaskScore for the task
+ * @returns Lines in score order, their points adding up to the total
+ * 
+ * Example usage:
+ * ```ts
+ * describeScoreBreakdown(task, explainTaskScore(task));
+ * // [{ key: 'priority', label: 'High priority', points: 100 }, ...]
+ * ```
+ */
+export const describeScoreBreakdown = (task: Task, breakdown: ScoreBreakdown): ScoreFactor[] => {
+  if (breakdown.completionPenalty !== 0) {
+    return [
+      {
+        key: 'completion',
+        label: task.status === 'cancelled' ? 'Cancelled' : 'Completed',
+        points: breakdown.completionPenalty,
+      },
+    ];
   }
   
-  // Start with priority weight
-  let score = PRIORITY_WEIGHTS[task.priority];
+  const priorityLabel = task.priority.charAt(0).toUpperCase() + task.priority.slice(1);
+  const { hoursRemaining } = breakdown;
   
-  // Calculate hours until deadline
-  const hoursRemaining = hoursUntilDeadline(task.deadline);
+  const factors: ScoreFactor[] = [
+    { key: 'priority', label: `${priorityLabel} priority`, points: breakdown.priorityWeight },
+    {
+      key: 'urgency',
+      label:
+        breakdown.urgency === 'blocked'
+          ? 'No urgency bonus while blocked'
+          : breakdown.urgency === 'overdue'
+          ? 'Overdue'
+          : breakdown.urgency === 'threshold'
+          ? `Due within ${formatHours(breakdown.urgencyHours as number)}`
+          : 'Not due soon',
+      points: breakdown.urgencyBonus,
+    },
+    {
+      key: 'time',
+      label:
+        hoursRemaining < 0
+          ? `${formatHours(hoursRemaining)} past the deadline`
+          : `${formatHours(hoursRemaining)} left` +
+            (hoursRemaining > -breakdown.timePenalty ? ' (capped)' : ''),
+      points: breakdown.timePenalty,
+    },
+  ];
   
-  // Add urgency bonuses
-  if (hoursRemaining < 0) {
-    // Overdue - highest urgency
-    score += 1000;
-  } else if (hoursRemaining < 24) {
-    // Due within 24 hours
-    score += 500;
-  } else if (hoursRemaining < 48) {
-    // Due within 48 hours
-    score += 200;
-  } else if (hoursRemaining < 168) {
-    // Due within 7 days (168 hours)
-    score += 50;
+  if (breakdown.subtaskBonus !== 0) {
+    const progress = getSubtaskProgress(task.subtasks);
+    factors.push({
+      key: 'subtasks',
+      label: `Checklist ${progress.completed}/${progress.total} done`,
+      points: breakdown.subtaskBonus,
+    });
   }
   
-  // Subtract hours remaining (earlier deadlines score higher)
-  // Capped to prevent distant deadlines from going negative
-  score -= Math.min(hoursRemaining, 1000);
+  if (breakdown.blockedPenalty !== 0) {
+    factors.push({ key: 'blocked', label: 'Blocked', points: breakdown.blockedPenalty });
+  }
   
-  return score;
+  return factors;
 };
 
 /**
- * Sort tasks by smart scoring algorithm
+ * Default sort order: smart score, most important first
+ */
+export const DEFAULT_TASK_SORT: TaskSort = { mode: 'smart', direction: 'desc' };
+
+/**
+ * Natural direction of each sort mode, used when switching modes
+ * (most important, soonest, newest, A-Z, category order, the user's order)
+ */
+export const DEFAULT_SORT_DIRECTIONS: Record<TaskSortMode, SortDirection> = {
+  smart: 'desc',
+  deadline: 'asc',
+  created: 'desc',
+  title: 'asc',
+  category: 'asc',
+  manual: 'asc',
+};
+
+/**
+ * Compare two ISO timestamps (invalid dates compare as equal)
+ */
+const compareDates = (a: string, b: string): number =>
+  new Date(a).getTime() - new Date(b).getTime() || 0;
+
+/**
+ * Deterministic tiebreakers shared by every sort mode:
+ * earlier deadline, then earlier creation, then task ID
+ */
+const compareTiebreakers = (a: Task, b: Task): number =>
+  compareDates(a.deadline, b.deadline) ||
+  compareDates(a.createdAt, b.createdAt) ||
+  (a.id < b.id ? -1 : a.id > b.id ? 1 : 0);
+
+/**
+ * Build the primary sort key for each task
+ * 
+ * Keys are computed once per sort, so the smart score of every task is
+ * taken at the same moment.
+ */
+const getSortKeys = (
+  tasks: Task[],
+  mode: TaskSortMode,
+  categories: UserCategory[],
+  scoring: ScoringConfig
+): Map<Task, number | string> => {
+  // Category position in the user's order; unknown categories go last
+  const categoryRanks = new Map(sortCategories(categories).map((c, index) => [c.id, index]));
+  
+  return new Map(
+    tasks.map((task): [Task, number | string] => {
+      switch (mode) {
+        case 'deadline':
+          return [task, new Date(task.deadline).getTime() || 0];
+        case 'created':
+          return [task, new Date(task.createdAt).getTime() || 0];
+        case 'title':
+          return [task, task.title.trim()];
+        case 'category':
+          return [task, categoryRanks.get(task.category) ?? categories.length];
+        case 'manual':
+          return [task, task.manualOrder];
+        case 'smart':
+        default:
+          return [task, calculateTaskScore(task, scoring)];
+      }
+    })
+  );
+};
+
+/**
+ * Sort tasks by the selected sort order
  * 
  * Tasks are sorted by:
- * 1. Completion status (incomplete first)
- * 2. Score (higher first)
- * 3. Deadline (earlier first, as tiebreaker)
+ * 1. Completion status (incomplete first, in every mode)
+ * 2. Pinned open tasks first, in every mode
+ * 3. The selected key, in the selected direction
+ * 4. Deadline, creation date and ID (always ascending), so equal keys
+ *    give the same order every time
+ * 
+ * Titles are compared case- and accent-insensitively, with numbers in
+ * numeric order ("Task 2" before "Task 10").
  * 
  * Pure function - does not mutate input array.
  * 
  * @param tasks - Array of tasks to sort
+ * @param sort - Sort mode and direction (defaults to the smart score)
+ * @param categories - User's categories, for the category mode
+ * @param scoring - Smart score weights, for the smart mode
  * @returns New sorted array
  * 
  * Example usage:
  * ```ts
- * const sortedTasks = sortTasksByPriority(tasks);
+ * const byDeadline = sortTasks(tasks, { mode: 'deadline', direction: 'asc' });
+ * const byCategory = sortTasks(tasks, { mode: 'category', direction: 'asc' }, categories);
  * ```
  */
-export const sortTasksByPriority = (tasks: Task[]): Task[] => {
+export const sortTasks = (
+  tasks: Task[],
+  sort: TaskSort = DEFAULT_TASK_SORT,
+  categories: UserCategory[] = [],
+  scoring: ScoringConfig = DEFAULT_SCORING_CONFIG
+): Task[] => {
+  const keys = getSortKeys(tasks, sort.mode, categories, scoring);
+  const sign = sort.direction === 'desc' ? -1 : 1;
+  
   return [...tasks].sort((a, b) => {
     // Completed tasks always go to bottom
     if (a.completed && !b.completed) return 1;
     if (!a.completed && b.completed) return -1;
     
-    // Sort by score (higher first)
-    const scoreA = calculateTaskScore(a);
-    const scoreB = calculateTaskScore(b);
+    // Pinned tasks go to the top (pins only apply to open tasks)
+    if (!a.completed && a.pinned !== b.pinned) return a.pinned ? -1 : 1;
     
-    if (scoreA !== scoreB) {
-      return scoreB - scoreA; // Descending order (higher score first)
-    }
+    const keyA = keys.get(a) as number | string;
+    const keyB = keys.get(b) as number | string;
+    const byKey =
+      typeof keyA === 'string' && typeof keyB === 'string'
+        ? keyA.localeCompare(keyB, undefined, { sensitivity: 'base', numeric: true })
+        : (keyA as number) - (keyB as number);
     
-    // Tiebreaker: earlier deadline first
-    const deadlineA = new Date(a.deadline).getTime();
-    const deadlineB = new Date(b.deadline).getTime();
-    return deadlineA - deadlineB;
+    return sign * byKey || compareTiebreakers(a, b);
   });
 };
 
+/**
+ * Sort tasks by smart scoring algorithm
+ * 
+ * Tasks are sorted by:
+ * 1. Completion status (incomplete first)
+ * 2. Pinned tasks first
+ * 3. Score (higher first)
+ * 4. Deadline (earlier first), then creation date and ID, as tiebreakers
+ * 
+ * Pure function - does not mutate input array.
+ * 
+ * @param tasks - Array of tasks to sort
+ * @param scoring - Optional smart score weights
+ * @returns New sorted array
+ * 
+ * Example usage:
+ * ```ts
+ * const sortedTasks = sortTasksByPriority(tasks);
+ * const tuned = sortTasksByPriority(tasks, userScoringConfig);
+ * ```
+ */
+export const sortTasksByPriority = (
+  tasks: Task[],
+  scoring: ScoringConfig = DEFAULT_SCORING_CONFIG
+): Task[] => {
+  return sortTasks(tasks, DEFAULT_TASK_SORT, [], scoring);
+};
+
 /**
  * Filter tasks by completion status
  * 
@@ -148,28 +447,44 @@ export const filterTasks = (tasks: Task[], filter: TaskFilter): Task[] => {
 /**
  * Sort and filter tasks in one operation
  * 
- * Applies filter first, then sorts the result.
+ * Applies filters first (status, then tags), then sorts the result
+ * (smart score unless another sort order is given).
+ * With a search query, only matching tasks are kept and they are ranked by
+ * relevance, with the sort order breaking ties.
  * This is the main function used by TaskListScreen.
  * 
  * @param tasks - Array of tasks
  * @param filter - Filter type
+ * @param tags - Optional tags a task must all carry to be shown
+ * @param query - Optional search text matched against titles and descriptions
+ * @param sort - Optional sort mode and direction
+ * @param categories - User's categories, for the category sort mode
+ * @param scoring - Optional smart score weights
  * @returns Filtered and sorted array
  * 
  * Example usage:
  * ```ts
  * const displayTasks = sortAndFilterTasks(tasks, 'active');
+ * const backendTasks = sortAndFilterTasks(tasks, 'active', ['backend']);
+ * const searchResults = sortAndFilterTasks(tasks, 'all', [], 'invoice');
+ * const byTitle = sortAndFilterTasks(tasks, 'all', [], '', { mode: 'title', direction: 'asc' });
  * ```
  */
 export const sortAndFilterTasks = (
   tasks: Task[],
-  filter: TaskFilter
+  filter: TaskFilter,
+  tags: string[] = [],
+  query: string = '',
+  sort: TaskSort = DEFAULT_TASK_SORT,
+  categories: UserCategory[] = [],
+  scoring: ScoringConfig = DEFAULT_SCORING_CONFIG
 ): Task[] => {
-  const filtered = filterTasks(tasks, filter);
-  return sortTasksByPriority(filtered);
+  const filtered = filterTasksByTags(filterTasks(tasks, filter), tags);
+  return searchTasks(sortTasks(filtered, sort, categories, scoring), query);
 };
 
 /**
- * Get task counts by completion status
+ * Get task counts by completion, by tag and by workflow status
  * 
  * Useful for displaying filter badges and statistics.
  * 
@@ -179,15 +494,15 @@ export const sortAndFilterTasks = (
  * Example usage:
  * ```ts
  * const counts = getTaskCounts(tasks);
- * // { all: 10, active: 7, completed: 3 }
+ * // { all: 10, active: 7, completed: 3, tags: { backend: 4 }, statuses: { todo: 5, ... } }
  * ```
  */
-export const getTaskCounts = (
-  tasks: Task[]
-): Record<TaskFilter, number> => {
+export const getTaskCounts = (tasks: Task[]): TaskCounts => {
   return {
     all: tasks.length,
     active: tasks.filter((task) => !task.completed).length,
     completed: tasks.filter((task) => task.completed).length,
+    tags: getTagCounts(tasks),
+    statuses: getStatusCounts(tasks),
   };
 };
@@ -0,0 +1,214 @@
+/**
+ * Timeline Utilities
+ * 
+ * Lays tasks out as time blocks for the day/week planner.
+ * 
+ * A task's block runs from its start (dateTime) to its deadline. Tasks whose
+ * deadline is not after their start get an estimated duration instead.
+ * Tasks spanning several days (or a whole day) go to the all-day lane.
+ * Days are local calendar days (see dateUtils.getDayKey).
+ */
+
+import { Task, TimelineBlock, DayTimeline } from '../types';
+import { getDayKey } from './dateUtils';
+
+/**
+ * Estimated duration of a task without a time range (minutes)
+ */
+export const DEFAULT_BLOCK_MINUTES = 60;
+
+/**
+ * Shortest block shown; shorter tasks are drawn (and overlap) at this size
+ */
+export const MIN_BLOCK_MINUTES = 30;
+
+/**
+ * Step that dragged blocks snap to (minutes)
+ */
+export const SNAP_MINUTES = 15;
+
+const MINUTES_PER_DAY = 24 * 60;
+const MS_PER_MINUTE = 60 * 1000;
+
+/**
+ * Get the time range a task takes on the timeline
+ * 
+ * @param task - Task to place
+ * @returns Start (dateTime) and end (deadline, or start + DEFAULT_BLOCK_MINUTES)
+ */
+export const getTaskTimeRange = (task: Task): { start: Date; end: Date } => {
+  const start = new Date(task.dateTime);
+  const deadline = new Date(task.deadline);
+  
+  const end =
+    deadline.getTime() > start.getTime()
+      ? deadline
+      : new Date(start.getTime() + DEFAULT_BLOCK_MINUTES * MS_PER_MINUTE);
+  
+  return { start, end };
+};
+
+/**
+ * Minutes after local midnight
+ */
+const getMinutesOfDay = (date: Date): number => {
+  return date.getHours() * 60 + date.getMinutes() + date.getSeconds() / 60;
+};
+
+/**
+ * Check if a task belongs in the all-day lane
+ * 
+ * True when it spans several local days, or runs from midnight to the end
+ * of the day (23:59 or later).
+ * 
+ * @param task - Task to check
+ */
+export const isAllDayTask = (task: Task): boolean => {
+  const { start, end } = getTaskTimeRange(task);
+  const lastDay = getDayKey(new Date(end.getTime() - 1));
+  
+  if (getDayKey(start) !== lastDay) {
+    return true;
+  }
+  
+  const endMinutes = getDayKey(end) === lastDay ? getMinutesOfDay(end) : MINUTES_PER_DAY;
+  return getMinutesOfDay(start) === 0 && endMinutes >= MINUTES_PER_DAY - 1;
+};
+
+/**
+ * Check if a task's time range touches a local day
+ */
+const isOnDay = (task: Task, dayKey: string): boolean => {
+  const { start, end } = getTaskTimeRange(task);
+  return getDayKey(start) <= dayKey && dayKey <= getDayKey(new Date(end.getTime() - 1));
+};
+
+/**
+ * Give overlapping blocks side-by-side columns
+ * 
+ * Blocks are taken by start time; each goes to the first free column. A
+ * group of blocks that overlap one another (directly or through other
+ * blocks) shares the same column count, so they split the width evenly.
+ */
+const assignColumns = (blocks: TimelineBlock[]): void => {
+  let group: TimelineBlock[] = [];
+  let columnEnds: number[] = [];
+  let groupEnd = -Infinity;
+  
+  const closeGroup = () => {
+    group.forEach((block) => {
+      block.columnCount = columnEnds.length;
+    });
+    group = [];
+    columnEnds = [];
+  };
+  
+  blocks.forEach((block) => {
+    const end = Math.max(block.endMinutes, block.startMinutes + MIN_BLOCK_MINUTES);
+    
+    if (block.startMinutes >= groupEnd) {
+      closeGroup();
+      groupEnd = -Infinity;
+    }
+    
+    const free = columnEnds.findIndex((columnEnd) => columnEnd <= block.startMinutes);
+    block.column = free === -1 ? columnEnds.length : free;
+    columnEnds[block.column] = end;
+    groupEnd = Math.max(groupEnd, end);
+    group.push(block);
+  });
+  
+  closeGroup();
+};
+
+/**
+ * Lay out the tasks of one day
+ * 
+ * @param tasks - Tasks to place (those not on the day are skipped)
+ * @param day - Any time on the day (local)
+ * @returns All-day tasks and positioned time blocks (by start time)
+ * 
+ * Example usage:
+ * ```ts
+ * const { allDay, blocks } = layoutDayTimeline(tasks, new Date());
+ * // blocks[0].column / blocks[0].columnCount = horizontal position
+ * ```
+ */
+export const layoutDayTimeline = (tasks: Task[], day: Date): DayTimeline => {
+  const dayKey = getDayKey(day);
+  const allDay: Task[] = [];
+  const blocks: TimelineBlock[] = [];
+  
+  tasks.forEach((task) => {
+    if (!isOnDay(task, dayKey)) {
+      return;
+    }
+    if (isAllDayTask(task)) {
+      allDay.push(task);
+      return;
+    }
+    
+    const { start, end } = getTaskTimeRange(task);
+    const startMinutes = getMinutesOfDay(start);
+    blocks.push({
+      task,
+      startMinutes,
+      endMinutes: getDayKey(end) === dayKey ? getMinutesOfDay(end) : MINUTES_PER_DAY,
+      column: 0,
+      columnCount: 1,
+    });
+  });
+  
+  blocks.sort(
+    (a, b) =>
+      a.startMinutes - b.startMinutes ||
+      b.endMinutes - a.endMinutes ||
+      a.task.id.localeCompare(b.task.id)
+  );
+  assignColumns(blocks);
+  
+  return { allDay, blocks };
+};
+
+/**
+ * Get the start time of a block dropped on a day
+ * 
+ * Snaps to SNAP_MINUTES and keeps the whole block within the day.
+ * 
+ * @param day - Day the block was dropped on (local midnight)
+ * @param startMinutes - Dropped start, in minutes after midnight (unsnapped)
+ * @param durationMinutes - Length of the block
+ * @returns New start time
+ */
+export const getDropStartTime = (
+  day: Date,
+  startMinutes: number,
+  durationMinutes: number
+): Date => {
+  const latest = Math.max(0, MINUTES_PER_DAY - durationMinutes);
+  const snapped = Math.round(startMinutes / SNAP_MINUTES) * SNAP_MINUTES;
+  const minutes = Math.min(Math.max(snapped, 0), Math.floor(latest / SNAP_MINUTES) * SNAP_MINUTES);
+  
+  return new Date(day.getFullYear(), day.getMonth(), day.getDate(), 0, minutes);
+};
+
+/**
+ * Get the updates that move a task to a new start time
+ * 
+ * The deadline moves by the same amount, so the task keeps its duration.
+ * 
+ * @param task - Task to move
+ * @param start - New start time
+ * @returns Task updates (dateTime and deadline)
+ */
+export const getRescheduleUpdates = (
+  task: Task,
+  start: Date
+): Pick<Task, 'dateTime' | 'deadline'> => {
+  const shift = start.getTime() - new Date(task.dateTime).getTime();
+  
+  return {
+    dateTime: start.toISOString(),
+    deadline: new Date(new Date(task.deadline).getTime() + shift).toISOString(),
+  };
+};
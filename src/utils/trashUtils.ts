@@ -0,0 +1,98 @@
+/**
+ * Trash Utilities
+ * 
+ * Helpers for soft-deleted tasks. Deleting a task sets its deletedAt field;
+ * it stays in the trash until it is restored, deleted permanently, or purged
+ * automatically once the retention period has passed.
+ */
+
+import { Task } from '../types';
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+/**
+ * Retention periods offered in the Trash screen (days)
+ */
+export const TRASH_RETENTION_OPTIONS = [7, 30, 90];
+
+/**
+ * Days a task stays in the trash unless the user picks another period
+ */
+export const DEFAULT_TRASH_RETENTION_DAYS = 30;
+
+/**
+ * Whether a task is in the trash
+ * 
+ * A missing deletedAt (a task stored before the trash existed) means live.
+ */
+export const isTrashed = (task: Task): task is Task & { deletedAt: string } => {
+  return task.deletedAt != null;
+};
+
+/**
+ * Get tasks that are not in the trash
+ * 
+ * @param tasks - All loaded tasks
+ * @returns New array without trashed tasks
+ */
+export const getActiveTasks = (tasks: Task[]): Task[] => {
+  return tasks.filter((task) => !isTrashed(task));
+};
+
+/**
+ * Get trashed tasks, most recently deleted first
+ * 
+ * @param tasks - All loaded tasks
+ * @returns New sorted array of trashed tasks
+ */
+export const getTrashedTasks = (tasks: Task[]): Task[] => {
+  return tasks
+    .filter(isTrashed)
+    .sort((a, b) => b.deletedAt.localeCompare(a.deletedAt));
+};
+
+/**
+ * Get when a trashed task will be purged
+ * 
+ * @param task - Trashed task
+ * @param retentionDays - Days tasks stay in the trash
+ * @returns Purge date
+ */
+export const getPurgeDate = (task: Task, retentionDays: number): Date => {
+  return new Date(new Date(task.deletedAt as string).getTime() + retentionDays * DAY_MS);
+};
+
+/**
+ * Get trashed tasks whose retention period has passed
+ * 
+ * @param tasks - All loaded tasks
+ * @param retentionDays - Days tasks stay in the trash
+ * @param now - Reference time (defaults to now)
+ * @returns Tasks to delete permanently
+ */
+export const getExpiredTrash = (
+  tasks: Task[],
+  retentionDays: number,
+  now: Date = new Date()
+): Task[] => {
+  return tasks.filter(
+    (task) => isTrashed(task) && getPurgeDate(task, retentionDays).getTime() <= now.getTime()
+  );
+};
+
+/**
+ * Get the number of whole days left before a trashed task is purged
+ * 
+ * @param task - Trashed task
+ * @param retentionDays - Days tasks stay in the trash
+ * @param now - Reference time (defaults to now)
+ * @returns Days left (0 on the last day)
+ */
+export const getDaysUntilPurge = (
+  task: Task,
+  retentionDays: number,
+  now: Date = new Date()
+): number => {
+  const remaining = getPurgeDate(task, retentionDays).getTime() - now.getTime();
+  return Math.max(0, Math.floor(remaining / DAY_MS));
+};
@@ -5,6 +5,8 @@
  * Each validator returns an error message string if validation fails, or null if valid.
  */
 
+import { RecurrenceRule, ScoringConfig, TaskReminder } from '../types';
+
 /**
  * Validates email format using a standard email regex
  * 
@@ -102,6 +104,192 @@ export const validateTaskDescription = (description: string): string | null => {
   return null;
 };
 
+/**
+ * Validates a subtask (checklist item) title
+ * 
+ * @param title - Subtask title to validate
+ * @returns Error message if invalid, null if valid
+ */
+export const validateSubtaskTitle = (title: string): string | null => {
+  if (!title || title.trim().length === 0) {
+    return 'Subtask title is required';
+  }
+  
+  if (title.trim().length > 100) {
+    return 'Subtask title must be 100 characters or less';
+  }
+  
+  return null;
+};
+
+/**
+ * Validates a single tag (after normalization)
+ * 
+ * @param tag - Normalized tag to validate
+ * @param existingTags - Tags already on the task (max 10 per task)
+ * @returns Error message if invalid, null if valid
+ */
+export const validateTag = (tag: string, existingTags: string[]): string | null => {
+  if (!tag) {
+    return 'Tag cannot be empty';
+  }
+  
+  if (tag.length > 30) {
+    return 'Tag must be 30 characters or less';
+  }
+  
+  if (!/^[\p{L}\p{N}_-]+$/u.test(tag)) {
+    return 'Tags may only contain letters, numbers, "-" and "_"';
+  }
+  
+  if (existingTags.length >= 10) {
+    return 'A task can have at most 10 tags';
+  }
+  
+  return null;
+};
+
+/**
+ * Validates a category name
+ * 
+ * @param name - Category name to validate
+ * @param otherNames - Names of the user's other categories (must be unique, case-insensitive)
+ * @returns Error message if invalid, null if valid
+ */
+export const validateCategoryName = (
+  name: string,
+  otherNames: string[]
+): string | null => {
+  if (!name || name.trim().length === 0) {
+    return 'Name is required';
+  }
+  
+  if (name.trim().length > 30) {
+    return 'Name must be 30 characters or less';
+  }
+  
+  const normalized = name.trim().toLowerCase();
+  if (otherNames.some((other) => other.trim().toLowerCase() === normalized)) {
+    return 'A category with this name already exists';
+  }
+  
+  return null;
+};
+
+/**
+ * Validates a task list name
+ * 
+ * @param name - List name to validate
+ * @param otherNames - Names of the user's other lists (must be unique, case-insensitive)
+ * @returns Error message if invalid, null if valid
+ */
+export const validateListName = (
+  name: string,
+  otherNames: string[]
+): string | null => {
+  if (!name || name.trim().length === 0) {
+    return 'Name is required';
+  }
+  
+  if (name.trim().length > 30) {
+    return 'Name must be 30 characters or less';
+  }
+  
+  const normalized = name.trim().toLowerCase();
+  if (otherNames.some((other) => other.trim().toLowerCase() === normalized)) {
+    return 'A list with this name already exists';
+  }
+  
+  return null;
+};
+
+/**
+ * Validates a saved view name
+ * 
+ * @param name - View name to validate
+ * @param otherNames - Names of the user's other views (must be unique, case-insensitive)
+ * @returns Error message if invalid, null if valid
+ */
+export const validateViewName = (
+  name: string,
+  otherNames: string[]
+): string | null => {
+  if (!name || name.trim().length === 0) {
+    return 'Name is required';
+  }
+  
+  if (name.trim().length > 30) {
+    return 'Name must be 30 characters or less';
+  }
+  
+  const normalized = name.trim().toLowerCase();
+  if (['all', 'active', 'completed'].includes(normalized)) {
+    return 'This name is used by a built-in filter';
+  }
+  if (otherNames.some((other) => other.trim().toLowerCase() === normalized)) {
+    return 'A view with this name already exists';
+  }
+  
+  return null;
+};
+
+/**
+ * Validates smart sort weights and thresholds
+ * 
+ * Requirements:
+ * - Every value is a number, zero or more
+ * - Urgency thresholds are above 0 hours and strictly increasing
+ * 
+ * @param config - Scoring config to validate
+ * @returns Error message if invalid, null if valid
+ */
+export const validateScoringConfig = (config: ScoringConfig): string | null => {
+  const values = [
+    ...Object.values(config.priorityWeights),
+    config.overdueBonus,
+    config.maxDeadlinePenalty,
+    config.subtaskProgressWeight,
+    ...config.urgencyThresholds.flatMap((t) => [t.hours, t.bonus]),
+  ];
+  
+  if (values.some((value) => typeof value !== 'number' || !Number.isFinite(value))) {
+    return 'Every weight must be a number';
+  }
+  
+  if (values.some((value) => value < 0)) {
+    return 'Weights cannot be negative';
+  }
+  
+  const hours = config.urgencyThresholds.map((t) => t.hours);
+  if (hours.some((h, index) => h <= 0 || (index > 0 && h <= hours[index - 1]))) {
+    return 'Urgency thresholds must be above 0 and increase (e.g. 24h, 48h, 168h)';
+  }
+  
+  return null;
+};
+
+/**
+ * Validates a board column's WIP limit as typed by the user
+ * 
+ * Requirements:
+ * - Empty (no limit) or a whole number from 1 to 999
+ * 
+ * @param text - Limit text
+ * @returns Error message if invalid, null if valid
+ */
+export const validateWipLimit = (text: string): string | null => {
+  const trimmed = text.trim();
+  if (trimmed.length === 0) {
+    return null;
+  }
+  
+  if (!/^\d+$/.test(trimmed) || Number(trimmed) < 1 || Number(trimmed) > 999) {
+    return 'Limit must be a whole number from 1 to 999';
+  }
+  
+  return null;
+};
+
 /**
  * Validates that a date is not in the past
  * 
@@ -147,3 +335,69 @@ export const validateDeadlineAfterStart = (
   
   return null;
 };
+
+/**
+ * Validates a recurrence rule (optional field)
+ * 
+ * @param rule - Repeat rule to validate (null for one-off tasks)
+ * @param startDate - Task start date (ISO string), used to check the end date
+ * @returns Error message if invalid, null if valid
+ */
+export const validateRecurrence = (
+  rule: RecurrenceRule | null,
+  startDate: string
+): string | null => {
+  if (!rule) {
+    return null;
+  }
+  
+  if (!Number.isInteger(rule.interval) || rule.interval < 1 || rule.interval > 99) {
+    return 'Repeat interval must be between 1 and 99';
+  }
+  
+  if (rule.frequency === 'weekly' && rule.byWeekday.length === 0) {
+    return 'Choose at least one day of the week';
+  }
+  
+  if (rule.count !== null && (!Number.isInteger(rule.count) || rule.count < 1)) {
+    return 'Number of occurrences must be at least 1';
+  }
+  
+  if (rule.until !== null && new Date(rule.until) <= new Date(startDate)) {
+    return 'End date must be after start date';
+  }
+  
+  return null;
+};
+
+/**
+ * Validates a custom reminder offset as typed by the user
+ * 
+ * Requirements:
+ * - Whole number from 1 to 999 (of the chosen unit)
+ * 
+ * @param text - Offset text
+ * @returns Error message if invalid, null if valid
+ */
+export const validateReminderOffset = (text: string): string | null => {
+  const trimmed = text.trim();
+  if (!/^\d+$/.test(trimmed) || Number(trimmed) < 1 || Number(trimmed) > 999) {
+    return 'Reminder time must be a whole number from 1 to 999';
+  }
+  
+  return null;
+};
+
+/**
+ * Validates that another reminder can be added to a task
+ * 
+ * @param existingReminders - Reminders already set on the task
+ * @returns Error message if the task has 5 reminders, null otherwise
+ */
+export const validateReminderCount = (existingReminders: TaskReminder[]): string | null => {
+  if (existingReminders.length >= 5) {
+    return 'A task can have at most 5 reminders';
+  }
+  
+  return null;
+};